@@ -0,0 +1,202 @@
+import type { Page, Route } from "@playwright/test";
+import type { User } from "@/api/auth/types";
+import type {
+  ExamQuestion,
+  ExamQuestionsData,
+} from "@/api/exam/exam-questions-types";
+import type { ServerStudentAnswerDetail } from "@/types/server-exam";
+
+/**
+ * 시험 인쇄 E2E용 API 고정 응답
+ * @description 백엔드 없이 인쇄 문서를 렌더링하도록 브라우저의 API 요청을 `page.route`로 가로챔
+ *
+ * - 문항 30개 (3번마다 주관식): 1단·2단 문제지와 OMR 답안지 모두 여러 쪽이 되도록 지문 길이를 달리함
+ * - 제출 답안 1건: 문제 답안지의 정답 출처 (examAnswerKeyQueryOptions, `hasSubmissions: false`면 시험 시작 전처럼 0건)
+ * - 로그인 전에는 `/teachers/me`가 401, 로그인 후에는 교사 정보를 반환
+ */
+
+/** 가로챌 API 주소 (src/api/client/apiClient.ts의 apiBaseUrl) */
+const API_URL_PATTERN = "https://iroomclass.com/api/**";
+
+/** 고정 응답 시험 ID */
+export const FIXTURE_EXAM_ID = "e2e-print-exam";
+
+/** 고정 응답 문항 수 */
+const QUESTION_COUNT = 30;
+
+/** 고정 응답 로그인 정보 */
+export const FIXTURE_CREDENTIALS = {
+  username: "e2e-teacher",
+  password: "e2e-password",
+};
+
+const TEACHER: User = {
+  id: 1,
+  username: FIXTURE_CREDENTIALS.username,
+  email: "teacher@example.com",
+  name: "김선생",
+  role: "teacher",
+  createdAt: "2025-01-01T09:00:00",
+};
+
+const QUESTION_SENTENCE =
+  "다음 조건을 만족하는 자연수 x의 값을 모두 구하고, 풀이 과정을 간단히 서술하시오.";
+
+/**
+ * 고정 응답 문항 생성
+ * @description 지문 길이를 1~4문장으로 돌려 문항 높이를 다르게 함
+ */
+function createQuestions(): ExamQuestion[] {
+  return Array.from({ length: QUESTION_COUNT }, (_, index) => {
+    const seqNo = index + 1;
+    const isSubjective = seqNo % 3 === 0;
+
+    return {
+      questionId: `q${seqNo}`,
+      seqNo,
+      questionType: isSubjective ? "SUBJECTIVE" : "MULTIPLE_CHOICE",
+      questionText: `<p>${Array.from({ length: (index % 4) + 1 }, () => QUESTION_SENTENCE).join(" ")}</p>`,
+      points: isSubjective ? 5 : 3,
+      difficulty: "중",
+      choices: isSubjective
+        ? {}
+        : Object.fromEntries(
+            ["1", "2", "3", "4", "5"].map((key) => [
+              key,
+              `x = ${seqNo + Number(key)}`,
+            ]),
+          ),
+      imageUrls: [],
+      hasImage: false,
+      selectionMethod: "FIXED",
+      randomlySelected: false,
+      multipleChoice: !isSubjective,
+      subjective: isSubjective,
+    };
+  });
+}
+
+function createExamQuestionsData(): ExamQuestionsData {
+  const questions = createQuestions();
+
+  return {
+    examId: FIXTURE_EXAM_ID,
+    examName: "E2E 인쇄 검증 시험",
+    grade: 1,
+    totalQuestions: questions.length,
+    multipleChoiceCount: questions.filter((q) => q.multipleChoice).length,
+    subjectiveCount: questions.filter((q) => q.subjective).length,
+    totalPoints: questions.reduce((sum, q) => sum + q.points, 0),
+    questions,
+  };
+}
+
+function createSubmission(): ServerStudentAnswerDetail {
+  const questions = createQuestions();
+
+  return {
+    submissionId: "submission-1",
+    studentInfo: {
+      studentId: 1,
+      studentName: "홍길동",
+      phoneNumber: "010-1234-5678",
+    },
+    examInfo: {
+      examId: FIXTURE_EXAM_ID,
+      examName: "E2E 인쇄 검증 시험",
+      grade: 1,
+      createdAt: "2025-01-01T09:00:00",
+    },
+    submittedAt: "2025-01-02T09:00:00",
+    totalQuestions: questions.length,
+    answeredQuestions: questions.length,
+    questionAnswers: questions.map((question) => ({
+      questionNumber: question.seqNo,
+      questionId: question.questionId,
+      questionType: question.questionType,
+      questionText: question.questionText,
+      studentAnswer: "",
+      correctAnswer: question.subjective ? `${question.seqNo + 1}` : "2",
+      isAnswered: false,
+      maxScore: question.points,
+      unitInfo: { unitId: "unit-1", unitName: "일차방정식", unitCode: "U1" },
+    })),
+  };
+}
+
+/**
+ * CORS 응답 헤더
+ * @description API는 앱과 다른 출처이고 쿠키를 함께 보내므로(withCredentials) 요청 출처를 그대로 허용
+ */
+function toCorsHeaders(origin: string): Record<string, string> {
+  return {
+    "access-control-allow-origin": origin,
+    "access-control-allow-credentials": "true",
+    "access-control-allow-headers": "content-type, accept",
+    "access-control-allow-methods": "GET, POST, PUT, PATCH, DELETE, OPTIONS",
+  };
+}
+
+/**
+ * JSON 응답
+ * @description 성공 응답은 백엔드 표준 ApiResponse 형식으로 감쌈
+ */
+function fulfillJson(
+  route: Route,
+  origin: string,
+  data: unknown,
+  status = 200,
+) {
+  return route.fulfill({
+    status,
+    headers: toCorsHeaders(origin),
+    contentType: "application/json",
+    json:
+      status === 200
+        ? { result: "SUCCESS", message: "OK", data }
+        : { result: "ERROR", message: `E2E 고정 응답 없음 (${status})`, data },
+  });
+}
+
+/**
+ * 시험 인쇄 API 고정 응답 등록
+ * @description 정의하지 않은 API는 404로 응답 (미지원 엔드포인트와 같은 동작)
+ * @param page Playwright 페이지
+ * @param options.hasSubmissions 제출 답안 존재 여부 (기본값: true)
+ */
+export async function mockPrintExamApi(
+  page: Page,
+  { hasSubmissions = true }: { hasSubmissions?: boolean } = {},
+) {
+  let isLoggedIn = false;
+
+  await page.route(API_URL_PATTERN, (route) => {
+    const request = route.request();
+    const path = new URL(request.url()).pathname.replace(/^\/api/, "");
+    const origin = new URL(page.url()).origin;
+
+    if (request.method() === "OPTIONS") {
+      return route.fulfill({ status: 204, headers: toCorsHeaders(origin) });
+    }
+    if (path === "/teachers/login" && request.method() === "POST") {
+      isLoggedIn = true;
+      return fulfillJson(route, origin, TEACHER);
+    }
+    if (path === "/teachers/me") {
+      return isLoggedIn
+        ? fulfillJson(route, origin, TEACHER)
+        : fulfillJson(route, origin, null, 401);
+    }
+    if (path === `/exams/${FIXTURE_EXAM_ID}/questions`) {
+      return fulfillJson(route, origin, createExamQuestionsData());
+    }
+    if (path === "/teacher/dashboard/all-students-answer-details") {
+      return fulfillJson(route, origin, {
+        content: hasSubmissions ? [createSubmission()] : [],
+        last: true,
+      });
+    }
+
+    return fulfillJson(route, origin, null, 404);
+  });
+}
@@ -0,0 +1,215 @@
+import { expect, test } from "@playwright/test";
+import type { Page } from "@playwright/test";
+import {
+  FIXTURE_CREDENTIALS,
+  FIXTURE_EXAM_ID,
+  mockPrintExamApi,
+} from "./fixtures/print-exam";
+
+/**
+ * 시험 인쇄 문서 E2E 테스트
+ * @description `/print/exam/$examId`를 실제 A4 PDF로 출력해 쪽수와 문항 분할 여부를 검증
+ *
+ * 검증 방법:
+ * - 쪽수: `page.pdf()` 결과의 페이지 객체 수
+ * - 문항 분할: 인쇄 매체로 전환한 문서를 A4 인쇄 영역 크기의 다단(한 단 = 한 쪽)에 흘려
+ *   각 문항 조각이 몇 번째 단(쪽)에 놓이는지 확인 (`break-inside: avoid`가 단·쪽 분할에 똑같이 적용됨)
+ * - 두 방법의 쪽수가 같아야 다단 배치가 실제 인쇄와 일치한다고 봄
+ *
+ * API 고정 응답 (e2e/fixtures/print-exam.ts):
+ * - 백엔드 없이 실행하도록 모든 API 요청을 `page.route`로 가로챔
+ * - SSR 중의 요청(인증 가드의 /teachers/me)은 가로챌 수 없으므로, 라우트가 없는 빈 경로로 문서를 연 뒤
+ *   클라이언트 라우팅으로 로그인 페이지에 이동해 이후 요청이 모두 브라우저에서 일어나게 함
+ */
+
+/** SSR에서 API를 호출하지 않는 진입 경로 (라우트 없음 → Not Found) */
+const BLANK_PATH = "/e2e-blank";
+
+/** 1mm의 CSS 픽셀 크기 (96dpi) */
+const MM_TO_PX = 96 / 25.4;
+
+/** A4 인쇄 영역 크기 (buildExamPrintPageCss의 @page 여백 16mm 14mm 18mm 기준) */
+const PRINT_AREA = {
+  width: (210 - 14 * 2) * MM_TO_PX,
+  height: (297 - 16 - 18) * MM_TO_PX,
+};
+
+/** 검증할 인쇄 조합 */
+const PRINT_CASES = [
+  { kind: "problem", columns: 1 },
+  { kind: "problem", columns: 2 },
+  { kind: "answer", columns: 1 },
+  { kind: "answer", columns: 2, version: "B" },
+  { kind: "studentAnswer" },
+] as const;
+
+type PrintKind = (typeof PRINT_CASES)[number]["kind"];
+
+/** 문서 종류별로 쪽 경계에 걸치면 안 되는 묶음 (문항, OMR 번호 표기란·표기란 묶음·주관식 답안 칸) */
+const UNSPLIT_BLOCK_SELECTOR: Record<PrintKind, string> = {
+  problem: '[data-testid="exam-print-question"]',
+  answer: '[data-testid="exam-print-question"]',
+  studentAnswer:
+    '[data-testid="omr-student-number"], [data-testid="omr-group"], [data-testid="omr-subjective"]',
+};
+
+type PrintLayout = {
+  /** 다단 배치 기준 쪽수 */
+  pageCount: number;
+  /** 묶음별로 조각이 놓인 쪽 번호 (0부터) */
+  blocks: { label: string; pages: number[] }[];
+};
+
+/**
+ * PDF 쪽수 계산
+ * @description Chromium PDF는 페이지 사전을 압축하지 않으므로 `/Type /Page` 개수로 셈 (`/Pages` 제외)
+ */
+function countPdfPages(pdf: Buffer): number {
+  return pdf.toString("latin1").match(/\/Type\s*\/Page\b/g)?.length ?? 0;
+}
+
+/**
+ * 교사 로그인 후 인쇄 문서로 이동
+ * @description 빈 경로에서 history 이동(popstate)으로 로그인 페이지를 열고, 로그인 성공 시 redirect 경로로 이동
+ */
+async function openPrintDocumentAsTeacher(page: Page, printPath: string) {
+  await page.goto(BLANK_PATH, { waitUntil: "networkidle" });
+  await page.evaluate(
+    (href) => {
+      window.history.pushState(null, "", href);
+      window.dispatchEvent(new PopStateEvent("popstate"));
+    },
+    `/?redirect=${encodeURIComponent(printPath)}`,
+  );
+
+  await page.locator("#username").fill(FIXTURE_CREDENTIALS.username);
+  await page.locator("#password").fill(FIXTURE_CREDENTIALS.password);
+  await page.locator('button[type="submit"]').click();
+  await page.waitForURL((url) => url.pathname.startsWith("/print/"));
+}
+
+/**
+ * 인쇄 배치 측정
+ * @description 인쇄 문서를 A4 인쇄 영역 크기의 단으로 나눠 흘린 뒤 묶음 조각의 쪽 위치를 수집 (DOM을 옮기므로 PDF 출력 뒤에 호출)
+ */
+async function measurePrintLayout(
+  page: Page,
+  blockSelector: string,
+): Promise<PrintLayout> {
+  await page.emulateMedia({ media: "print" });
+
+  return page.evaluate(
+    ({ width, height, selector }) => {
+      const printDocument = document.querySelector<HTMLElement>(
+        '[data-testid="exam-print-document"]',
+      );
+      if (!printDocument) throw new Error("인쇄 문서를 찾을 수 없습니다.");
+
+      const pages = document.createElement("div");
+      pages.style.cssText = `width:${width}px;height:${height}px;column-width:${width}px;column-gap:0;column-fill:auto;`;
+      printDocument.before(pages);
+      pages.append(printDocument);
+
+      const originLeft = pages.getBoundingClientRect().left;
+      const toPageIndexes = (element: Element) => [
+        ...new Set(
+          Array.from(element.getClientRects())
+            .filter((rect) => rect.height > 0)
+            .map((rect) => Math.floor((rect.left - originLeft + 0.5) / width)),
+        ),
+      ];
+
+      return {
+        pageCount: Math.max(...toPageIndexes(printDocument)) + 1,
+        blocks: Array.from(printDocument.querySelectorAll(selector)).map(
+          (block) => ({
+            label: `${block.getAttribute("data-testid")} ${
+              block.getAttribute("data-question-number") ??
+              block
+                .querySelector("[data-question-number]")
+                ?.getAttribute("data-question-number") ??
+              ""
+            }`.trim(),
+            pages: toPageIndexes(block),
+          }),
+        ),
+      };
+    },
+    { ...PRINT_AREA, selector: blockSelector },
+  );
+}
+
+test.describe("시험 인쇄 문서", () => {
+  test.beforeEach(async ({ page }) => {
+    await mockPrintExamApi(page);
+  });
+
+  for (const printCase of PRINT_CASES) {
+    const search = new URLSearchParams(
+      Object.entries(printCase).map(([key, value]) => [key, String(value)]),
+    );
+    const blockSelector = UNSPLIT_BLOCK_SELECTOR[printCase.kind];
+
+    test(`쪽수와 묶음 분할 (${search.toString()})`, async ({ page }) => {
+      await openPrintDocumentAsTeacher(
+        page,
+        `/print/exam/${FIXTURE_EXAM_ID}?${search.toString()}`,
+      );
+      await expect(page.locator("[data-print-ready]")).toHaveAttribute(
+        "data-print-ready",
+        "true",
+        { timeout: 30_000 },
+      );
+
+      const blockCount = await page.locator(blockSelector).count();
+      expect(blockCount).toBeGreaterThan(0);
+
+      const pdf = await page.pdf({ format: "A4", preferCSSPageSize: true });
+      const pdfPageCount = countPdfPages(pdf);
+      const layout = await measurePrintLayout(page, blockSelector);
+
+      // 쪽수: 고정 응답은 여러 쪽이 되고, 실제 PDF와 다단 배치가 같고, 마지막 묶음 뒤에 빈 쪽이 없음
+      expect(pdfPageCount).toBeGreaterThan(1);
+      expect(layout.pageCount).toBe(pdfPageCount);
+      expect(layout.blocks).toHaveLength(blockCount);
+      expect(Math.max(...layout.blocks.flatMap(({ pages }) => pages))).toBe(
+        pdfPageCount - 1,
+      );
+
+      // 분할: 모든 묶음이 한 쪽 안에 들어감
+      for (const block of layout.blocks) {
+        expect
+          .soft(block.pages, `${block.label}이(가) 쪽 경계에 걸침`)
+          .toHaveLength(1);
+      }
+    });
+  }
+
+  test("문제 답안지에 제출 답안의 정답 표시", async ({ page }) => {
+    await openPrintDocumentAsTeacher(
+      page,
+      `/print/exam/${FIXTURE_EXAM_ID}?kind=answer`,
+    );
+
+    await expect(page.getByTestId("exam-print-answer").first()).toHaveText(
+      "정답: ②",
+    );
+  });
+});
+
+test.describe("시험 인쇄 문서 (제출 답안 없음)", () => {
+  test.beforeEach(async ({ page }) => {
+    await mockPrintExamApi(page, { hasSubmissions: false });
+  });
+
+  test("시험 시작 전에는 문제 답안지 대신 정답 정보 없음 안내", async ({
+    page,
+  }) => {
+    await openPrintDocumentAsTeacher(
+      page,
+      `/print/exam/${FIXTURE_EXAM_ID}?kind=answer`,
+    );
+
+    await expect(page.getByTestId("exam-print-answer-key-empty")).toBeVisible();
+  });
+});
@@ -0,0 +1,41 @@
+import { defineConfig, devices } from "@playwright/test";
+
+/**
+ * Playwright E2E 설정
+ * @description 인쇄 문서처럼 실제 브라우저 렌더링이 필요한 화면을 검증
+ *
+ * 실행 조건:
+ * - 백엔드 불필요: API 요청은 `page.route` 고정 응답으로 대체 (e2e/fixtures)
+ * - 앱 서버: E2E_BASE_URL을 지정하지 않으면 개발 서버(`npm run dev`, 3012 포트)를 띄워 사용
+ * - `page.pdf()`를 사용하므로 Chromium 프로젝트만 둠 (헤드리스)
+ *
+ * 단위 테스트(vitest)와 섞이지 않도록 `*.e2e.ts` 파일만 실행
+ */
+const baseURL = process.env.E2E_BASE_URL ?? "http://localhost:3012";
+
+export default defineConfig({
+  testDir: "./e2e",
+  testMatch: "**/*.e2e.ts",
+  fullyParallel: false,
+  forbidOnly: !!process.env.CI,
+  retries: process.env.CI ? 1 : 0,
+  reporter: process.env.CI ? "list" : "html",
+  use: {
+    baseURL,
+    trace: "retain-on-failure",
+  },
+  projects: [
+    {
+      name: "chromium",
+      use: { ...devices["Desktop Chrome"] },
+    },
+  ],
+  webServer: process.env.E2E_BASE_URL
+    ? undefined
+    : {
+        command: "npm run dev",
+        url: baseURL,
+        reuseExistingServer: !process.env.CI,
+        timeout: 120_000,
+      },
+});
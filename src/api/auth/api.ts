@@ -1,4 +1,4 @@
-import { apiClient } from "@/api/client";
+import { apiClient, ApiError, ApiResponseError } from "@/api/client";
 import type {
   LoginRequest,
   LoginResponse,
@@ -12,19 +12,19 @@ import type {
  * @description 사용자 인증을 처리하고 httpOnly 쿠키 설정
  *
  * 주요 기능:
- * - 사용자명과 비밀번호로 서버 인증
- * - 성공 시 httpOnly 쿠키 자동 설정 (서버에서 처리)
- * - 사용자 정보 반환
+ * - POST /teachers/login 으로 사용자명과 비밀번호 서버 인증
+ * - 성공 시 httpOnly 세션 쿠키 자동 설정 (서버에서 처리)
+ * - 선생님 기본 정보 반환
  *
  * @param credentials 로그인 인증 정보
  * @returns 로그인된 사용자 정보
- * @throws {ApiResponseError} 잘못된 인증 정보 또는 서버 에러
- * @throws {ApiError} 네트워크 에러
+ * @throws {ApiResponseError} 잘못된 인증 정보(401) 또는 서버 에러
+ * @throws {ApiError} 입력 검증 실패(400) 또는 네트워크 에러
  *
  * @example
  * ```typescript
  * try {
- *   const result = await login({ username: "admin", password: "1234" });
+ *   const result = await login({ username: "teacher01", password: "password123" });
  *   console.log(`환영합니다, ${result.user.name}님!`);
  * } catch (error) {
  *   console.error("로그인 실패:", getErrorMessage(error));
@@ -32,52 +32,21 @@ import type {
  * ```
  */
 export async function login(credentials: LoginRequest): Promise<LoginResponse> {
-  // TODO: 실제 서버 엔드포인트로 교체 필요
-  // 현재는 mock 구현으로 서버 API 패턴 준수
-
-  // 임시 인증 로직 (개발용)
-  if (credentials.username === "admin" && credentials.password === "1234") {
-    const mockUser: User = {
-      id: 1,
-      username: "admin",
-      email: "admin@iroom.com",
-      name: "관리자",
-      role: "admin",
-      createdAt: "2024-01-01T00:00:00Z",
-      lastLoginAt: new Date().toISOString(),
-    };
-
-    return {
-      user: mockUser,
-      accessToken: "mock-token-12345",
-      expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(), // 24시간 후
-    };
-  } else if (
-    credentials.username === "teacher" &&
-    credentials.password === "1234"
-  ) {
-    const mockUser: User = {
-      id: 2,
-      username: "teacher",
-      email: "teacher@iroom.com",
-      name: "김교사",
-      role: "teacher",
-      createdAt: "2024-01-01T00:00:00Z",
-      lastLoginAt: new Date().toISOString(),
-    };
-
-    return {
-      user: mockUser,
-      accessToken: "mock-token-67890",
-      expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
-    };
-  } else {
-    // 실제 서버 에러 형태로 에러 발생
-    throw new Error("아이디 또는 비밀번호가 올바르지 않습니다.");
+  try {
+    // 성공 시 서버가 세션 쿠키를 설정하고 선생님 기본 정보를 반환
+    const response = await apiClient.post<User>("/teachers/login", credentials);
+    return { user: response.data };
+  } catch (error) {
+    // 401: 사용자명 또는 비밀번호 불일치 (사용자에게 그대로 표시할 메시지로 변환)
+    if (error instanceof ApiError && error.status === 401) {
+      throw new ApiResponseError(
+        "아이디 또는 비밀번호가 올바르지 않습니다.",
+        "ERROR",
+      );
+    }
+    console.error("로그인 실패:", error);
+    throw error;
   }
-
-  // 실제 서버 연동 시 사용할 코드 (주석 처리)
-  // return await apiClient.post<LoginResponse>("/auth/login", credentials);
 }
 
 /**
@@ -87,7 +56,8 @@ export async function login(credentials: LoginRequest): Promise<LoginResponse> {
  * 주요 기능:
  * - 서버에 로그아웃 요청 전송
  * - httpOnly 쿠키 자동 삭제 (서버에서 처리)
- * - 클라이언트 상태 초기화는 별도 처리 필요
+ * - 클라이언트 상태 초기화는 별도 처리 필요 (logoutAtom)
+ * - 서버가 엔드포인트를 제공하지 않으면(404) 클라이언트 로그아웃만 진행 (docs/pending-endpoints.md)
  *
  * @returns 로그아웃 성공 응답
  * @throws {ApiResponseError} 서버 에러
@@ -104,77 +74,79 @@ export async function login(credentials: LoginRequest): Promise<LoginResponse> {
  * ```
  */
 export async function logout(): Promise<LogoutResponse> {
-  // TODO: 실제 서버 엔드포인트로 교체 필요
-  // 현재는 mock 구현으로 성공 응답 반환
-
-  return {
-    success: true,
-    message: "로그아웃되었습니다.",
-  };
-
-  // 실제 서버 연동 시 사용할 코드 (주석 처리)
-  // return await apiClient.post<LogoutResponse>("/auth/logout");
+  try {
+    await apiClient.post<null>("/teachers/logout");
+    return {
+      success: true,
+      message: "로그아웃되었습니다.",
+    };
+  } catch (error) {
+    // 서버 미지원(404): 세션 쿠키는 만료 시까지 남지만 클라이언트 상태는 초기화
+    if (error instanceof ApiError && error.status === 404) {
+      console.warn(
+        "로그아웃 엔드포인트 미지원(404) - 클라이언트 로그아웃만 진행",
+      );
+      return {
+        success: true,
+        message: "로그아웃되었습니다.",
+      };
+    }
+    console.error("로그아웃 실패:", error);
+    throw error;
+  }
 }
 
 /**
  * 현재 사용자 정보 조회 API 함수
- * @description httpOnly 쿠키 기반으로 현재 로그인된 사용자 정보 조회
+ * @description httpOnly 세션 쿠키 기반으로 현재 로그인된 선생님 정보 조회
  *
  * 주요 기능:
- * - 쿠키 기반 인증 확인
+ * - 쿠키 기반 세션 유효성 검증
  * - 현재 사용자 정보 반환
- * - 세션 유효성 검증
+ * - 세션이 없거나 만료된 경우(401) 에러 대신 null 반환
+ * - 서버가 엔드포인트를 제공하지 않는 경우(404)도 경고 로그 후 null 반환 (docs/pending-endpoints.md)
+ *   → 인증 가드가 에러 화면 대신 로그인 페이지로 이동
  *
- * @returns 현재 로그인된 사용자 정보
- * @throws {ApiResponseError} 인증되지 않은 사용자 또는 세션 만료
- * @throws {ApiError} 네트워크 에러
+ * SSR 동작:
+ * - 서버 렌더링 중에는 요청 인터셉터가 브라우저 요청의 쿠키를 자동 전달
+ *
+ * @param options 추가 옵션
+ * @param options.signal 요청 취소를 위한 AbortSignal
+ * @returns 현재 로그인된 사용자 정보 (미인증 시 null)
+ * @throws {ApiResponseError} 서버 에러
+ * @throws {ApiError} 네트워크 에러 (401, 404 제외)
  *
  * @example
  * ```typescript
- * try {
- *   const user = await getCurrentUser();
- *   console.log(`현재 사용자: ${user.name} (${user.role})`);
- * } catch (error) {
+ * const user = await getCurrentUser();
+ * if (!user) {
  *   // 인증 실패 시 로그인 페이지로 리다이렉트
  *   redirectToLogin();
  * }
  * ```
  */
-export async function getCurrentUser(): Promise<CurrentUserResponse> {
-  // TODO: 실제 서버 엔드포인트로 교체 필요
-  // 현재는 localStorage의 사용자 정보 반환 (임시)
-
-  // SSR 호환성: 브라우저 환경에서만 localStorage 접근
-  if (typeof window === "undefined") {
-    throw new Error("서버 환경에서는 사용자 정보를 사용할 수 없습니다.");
-  }
-
-  const storedUser = localStorage.getItem("user");
-  const isAuthenticated = localStorage.getItem("isAuthenticated") === "true";
-
-  if (!isAuthenticated || !storedUser) {
-    throw new Error("인증되지 않은 사용자입니다.");
-  }
-
+export async function getCurrentUser(
+  options: { signal?: AbortSignal } = {},
+): Promise<CurrentUserResponse | null> {
   try {
-    const user = JSON.parse(storedUser);
-
-    // 서버 응답 형태로 변환
-    return {
-      id: parseInt(user.id || "0"),
-      username: user.username || "",
-      email: user.email || `${user.username}@iroom.com`,
-      name: user.name || "",
-      role: user.role || "teacher",
-      createdAt: "2024-01-01T00:00:00Z",
-      lastLoginAt: new Date().toISOString(),
-    };
+    const response = await apiClient.get<CurrentUserResponse>("/teachers/me", {
+      signal: options.signal,
+    });
+    return response.data;
   } catch (error) {
-    throw new Error("사용자 정보를 불러올 수 없습니다.");
+    // 세션 없음/만료는 "로그인되지 않은 상태"로 취급
+    if (error instanceof ApiError && error.status === 401) {
+      return null;
+    }
+    if (error instanceof ApiError && error.status === 404) {
+      console.warn(
+        "현재 사용자 조회 엔드포인트 미지원(404) - 로그인되지 않은 상태로 처리",
+      );
+      return null;
+    }
+    console.error("현재 사용자 조회 실패:", error);
+    throw error;
   }
-
-  // 실제 서버 연동 시 사용할 코드 (주석 처리)
-  // return await apiClient.get<CurrentUserResponse>("/auth/me");
 }
 
 /**
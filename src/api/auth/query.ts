@@ -18,6 +18,8 @@ export const authKeys = {
  * @description 현재 로그인된 사용자 정보를 조회하는 React Query 옵션
  *
  * 주요 설정:
+ * - 서버 세션 기준으로 조회 (미인증 시 data === null)
+ * - SSR에서도 요청 쿠키를 전달하여 동일한 결과 보장 (라우트 가드에서 사용)
  * - 30분간 fresh 상태 유지 (사용자 정보는 자주 변하지 않음)
  * - 1시간간 캐시 유지
  * - 재시도 1회만 (인증 에러는 빠른 실패가 좋음)
@@ -37,7 +39,8 @@ export const authKeys = {
 export const currentUserQueryOptions = () => {
   return queryOptions({
     queryKey: authKeys.currentUser(),
-    queryFn: getCurrentUser,
+    queryFn: ({ signal }): Promise<CurrentUserResponse | null> =>
+      getCurrentUser({ signal }),
     staleTime: 30 * 60 * 1000, // 30분간 fresh
     gcTime: 60 * 60 * 1000, // 1시간간 캐시
     retry: 1, // 인증 에러는 1회만 재시도
@@ -21,7 +21,7 @@ export type User = {
 
 /**
  * 로그인 요청 타입
- * @description 로그인 시 서버로 전송하는 인증 정보
+ * @description POST /teachers/login 요청 시 서버로 전송하는 인증 정보
  */
 export type LoginRequest = {
   /** 사용자명 */
@@ -35,12 +35,8 @@ export type LoginRequest = {
  * @description 로그인 성공 시 서버에서 반환하는 사용자 정보
  */
 export type LoginResponse = {
-  /** 사용자 정보 */
+  /** 사용자 정보 (인증 자체는 httpOnly 세션 쿠키로 유지) */
   user: User;
-  /** 액세스 토큰 (현재는 사용하지 않음, httpOnly 쿠키 사용) */
-  accessToken?: string;
-  /** 토큰 만료 시간 */
-  expiresAt?: string;
 };
 
 /**
@@ -56,7 +52,7 @@ export type LogoutResponse = {
 
 /**
  * 현재 사용자 정보 응답 타입
- * @description /api/auth/me 엔드포인트에서 반환하는 사용자 정보
+ * @description GET /teachers/me 엔드포인트에서 반환하는 사용자 정보
  */
 export type CurrentUserResponse = User;
 
@@ -44,6 +44,7 @@ const createApiClient = (): AxiosInstance => {
   return applyInterceptors(client, {
     enableLogging: true,
     logPrefix: "API Request",
+    enableAuthRefresh: true,
   });
 };
 
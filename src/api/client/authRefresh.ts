@@ -0,0 +1,167 @@
+import type { AxiosInstance } from "axios";
+import { isAxiosError } from "axios";
+import { ApiError } from "./apiClient";
+import { securityLogger } from "@/utils/logger";
+
+/**
+ * 세션 갱신 관련 요청 설정 확장
+ * @description 401 처리 인터셉터가 사용하는 커스텀 Axios 요청 옵션
+ */
+declare module "axios" {
+  // eslint-disable-next-line @typescript-eslint/consistent-type-definitions
+  interface AxiosRequestConfig {
+    /** true면 401 응답 시 세션 갱신을 시도하지 않음 */
+    skipAuthRefresh?: boolean;
+    /** 세션 갱신 후 재전송된 요청 여부 (무한 재시도 방지) */
+    isAuthRetry?: boolean;
+  }
+}
+
+/** 세션 갱신 엔드포인트 */
+export const SESSION_REFRESH_URL = "/teachers/refresh";
+
+/**
+ * 세션 갱신 사용 여부
+ * @description 서버가 세션 갱신을 지원할 때만 VITE_ENABLE_SESSION_REFRESH=true로 켬 (docs/pending-endpoints.md)
+ * - 꺼져 있으면 401 응답 시 갱신 요청 없이 바로 세션 만료 처리 (로그인 페이지로 이동)
+ */
+export const IS_SESSION_REFRESH_ENABLED =
+  import.meta.env.VITE_ENABLE_SESSION_REFRESH === "true";
+
+/**
+ * 세션 갱신 대상에서 제외할 엔드포인트
+ * @description 인증 자체를 다루는 요청은 401이 "로그인 실패"를 의미하므로 갱신하지 않음
+ */
+const AUTH_REFRESH_EXCLUDED_URLS = [
+  "/teachers/login",
+  "/teachers/logout",
+  SESSION_REFRESH_URL,
+];
+
+/** 세션 만료 리스너 타입 */
+type SessionExpiredListener = () => void;
+
+/** 등록된 세션 만료 리스너 목록 */
+const sessionExpiredListeners = new Set<SessionExpiredListener>();
+
+/**
+ * 세션 만료 이벤트 구독 함수
+ * @description 세션 갱신까지 실패하여 재로그인이 필요할 때 호출될 리스너 등록
+ *
+ * API 계층은 라우터/QueryClient/토스트를 알지 못하므로,
+ * 실제 상태 정리와 로그인 페이지 이동은 React 트리에서 구독하여 처리
+ *
+ * @param listener 세션 만료 시 실행할 함수
+ * @returns 구독 해제 함수
+ *
+ * @example
+ * ```typescript
+ * useEffect(() => onSessionExpired(() => navigate({ to: "/" })), [navigate]);
+ * ```
+ */
+export function onSessionExpired(listener: SessionExpiredListener): () => void {
+  sessionExpiredListeners.add(listener);
+  return () => {
+    sessionExpiredListeners.delete(listener);
+  };
+}
+
+/**
+ * 세션 만료 이벤트 발행 함수
+ * @description 리스너 하나의 실패가 다른 리스너 실행을 막지 않도록 개별 처리
+ */
+function notifySessionExpired(): void {
+  sessionExpiredListeners.forEach((listener) => {
+    try {
+      listener();
+    } catch (error) {
+      securityLogger.error("세션 만료 리스너 실행 실패", error);
+    }
+  });
+}
+
+/**
+ * 401 응답 세션 갱신 인터셉터 생성 함수
+ * @description 401 응답 시 세션을 한 번만 갱신하고 실패했던 요청들을 재전송
+ *
+ * 동작 방식:
+ * - 첫 401 응답이 세션 갱신(POST /teachers/refresh)을 시작
+ * - 갱신 중 발생한 다른 401 요청들은 같은 갱신 Promise에 대기 (큐)
+ * - 갱신 성공 시 대기 중인 요청들을 원래 설정 그대로 1회씩 재전송
+ * - 갱신 실패 시 세션 만료 이벤트를 한 번만 발행하고 원래 에러를 그대로 전달
+ * - SSR 환경에서는 갱신된 쿠키를 브라우저에 전달할 수 없으므로 갱신하지 않음
+ * - 세션 갱신이 꺼져 있으면(IS_SESSION_REFRESH_ENABLED) 갱신 없이 바로 세션 만료 이벤트 발행
+ *
+ * 주의: 공통 응답 인터셉터(ApiError 변환) 뒤에 등록되어야 함
+ *
+ * @param client 재전송에 사용할 Axios 인스턴스
+ * @returns 응답 인터셉터 설정 객체
+ */
+export function createAuthRefreshInterceptor(client: AxiosInstance) {
+  /** 진행 중인 세션 갱신 (동시 401 요청들이 공유) */
+  let refreshPromise: Promise<void> | null = null;
+
+  const refreshSession = (): Promise<void> => {
+    if (!refreshPromise) {
+      securityLogger.info("🔄 세션 만료 감지 - 세션 갱신 시도");
+
+      refreshPromise = client
+        .post(SESSION_REFRESH_URL, undefined, { skipAuthRefresh: true })
+        .then(() => {
+          securityLogger.info("✅ 세션 갱신 성공 - 대기 중인 요청 재전송");
+        })
+        .catch((refreshError: unknown) => {
+          securityLogger.warn("🔓 세션 갱신 실패 - 재로그인 필요");
+          notifySessionExpired();
+          throw refreshError;
+        })
+        .finally(() => {
+          refreshPromise = null;
+        });
+    }
+
+    return refreshPromise;
+  };
+
+  return {
+    onRejected: async (error: unknown) => {
+      if (!(error instanceof ApiError) || error.status !== 401) {
+        throw error;
+      }
+
+      const config = isAxiosError(error.originalError)
+        ? error.originalError.config
+        : undefined;
+      const isExcludedUrl = AUTH_REFRESH_EXCLUDED_URLS.some((url) =>
+        config?.url?.startsWith(url),
+      );
+
+      if (
+        !config ||
+        config.skipAuthRefresh ||
+        config.isAuthRetry ||
+        isExcludedUrl ||
+        typeof window === "undefined"
+      ) {
+        throw error;
+      }
+
+      if (!IS_SESSION_REFRESH_ENABLED) {
+        securityLogger.warn(
+          "🔓 세션 만료 감지 - 세션 갱신 미사용, 재로그인 필요",
+        );
+        notifySessionExpired();
+        throw error;
+      }
+
+      try {
+        await refreshSession();
+      } catch {
+        // 갱신 실패 시 호출자에게는 원래의 401 에러를 전달
+        throw error;
+      }
+
+      return client.request({ ...config, isAuthRetry: true });
+    },
+  };
+}
@@ -1,5 +1,5 @@
 // 통합 API 클라이언트
-export { apiClient, ApiError } from "./apiClient";
+export { apiClient, apiBaseUrl, ApiError } from "./apiClient";
 
 // 공통 인터셉터 유틸리티
 export {
@@ -9,6 +9,20 @@ export {
   type InterceptorOptions,
 } from "./interceptors";
 
+// 페이지 전체 조회
+export {
+  fetchAllPages,
+  FETCH_ALL_PAGE_SIZE,
+  type PageChunk,
+} from "./pagination";
+
+// 세션 갱신 (401 처리)
+export {
+  IS_SESSION_REFRESH_ENABLED,
+  onSessionExpired,
+  SESSION_REFRESH_URL,
+} from "./authRefresh";
+
 // 백엔드 표준 API 응답 타입
 export {
   isSuccessResponse,
@@ -7,6 +7,8 @@ import { isAxiosError } from "axios";
 import { ApiError } from "./apiClient";
 import { isSuccessResponse, isErrorResponse, ApiResponseError } from "./types";
 import type { ApiResponse } from "./types";
+import { getServerRequestCookie } from "./serverCookie";
+import { createAuthRefreshInterceptor } from "./authRefresh";
 import logger from "@/utils/logger";
 
 /**
@@ -111,6 +113,8 @@ export type InterceptorOptions = {
   enableLogging?: boolean;
   /** 로그 메시지 접두사 */
   logPrefix?: string;
+  /** 401 응답 시 세션 갱신 후 요청 재전송 여부 */
+  enableAuthRefresh?: boolean;
 };
 
 /**
@@ -124,6 +128,12 @@ export function createRequestInterceptor(options: InterceptorOptions = {}) {
 
   return {
     onFulfilled: (config: InternalAxiosRequestConfig) => {
+      // SSR: 브라우저 요청의 세션 쿠키를 백엔드 요청에 전달
+      const serverCookie = getServerRequestCookie();
+      if (serverCookie && !config.headers.has("Cookie")) {
+        config.headers.set("Cookie", serverCookie);
+      }
+
       // 요청 로깅 (개발 환경에서만)
       if (enableLogging && import.meta.env.DEV) {
         const emoji = "🚀";
@@ -194,7 +204,7 @@ export function createResponseInterceptor(options: InterceptorOptions = {}) {
         const { response, request } = error;
 
         if (response) {
-          // 인증 클라이언트에서 401 에러 처리
+          // 401 에러는 세션 갱신 인터셉터(authRefresh)에서 후속 처리
           if (response.status === 401) {
             logger.warn("🔓 인증이 필요합니다. 로그인을 확인해주세요.");
           }
@@ -258,5 +268,14 @@ export function applyInterceptors(
     responseInterceptor.onRejected,
   );
 
+  // 세션 갱신 인터셉터 적용 (ApiError 변환 이후에 실행되도록 마지막에 등록)
+  if (options.enableAuthRefresh) {
+    const authRefreshInterceptor = createAuthRefreshInterceptor(client);
+    client.interceptors.response.use(
+      undefined,
+      authRefreshInterceptor.onRejected,
+    );
+  }
+
   return client;
 }
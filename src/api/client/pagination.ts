@@ -0,0 +1,45 @@
+/**
+ * 페이지 전체 조회 유틸리티
+ * @description 서버 페이지 응답(content/last)을 마지막 페이지까지 순서대로 모아 하나의 배열로 반환
+ */
+
+/** 전체 조회 시 사용하는 페이지 크기 (서버 최대값) */
+export const FETCH_ALL_PAGE_SIZE = 100;
+
+/**
+ * 전체 조회에 필요한 페이지 응답 필드
+ */
+export type PageChunk<T> = {
+  /** 현재 페이지 항목 */
+  content: T[];
+  /** 마지막 페이지 여부 */
+  last: boolean;
+};
+
+/**
+ * 모든 페이지 조회 함수
+ * @description 빈 페이지나 마지막 페이지를 받을 때까지 0페이지부터 순서대로 요청
+ * @param fetchPage 페이지 번호와 크기로 한 페이지를 조회하는 함수
+ * @returns 모든 페이지의 항목
+ *
+ * @example
+ * ```typescript
+ * const attendees = await fetchAllPages((page, size) =>
+ *   fetchExamAttendees(examId, { page, size }),
+ * );
+ * ```
+ */
+export async function fetchAllPages<T>(
+  fetchPage: (page: number, size: number) => Promise<PageChunk<T>>,
+): Promise<T[]> {
+  const items: T[] = [];
+
+  for (let page = 0; ; page += 1) {
+    const response = await fetchPage(page, FETCH_ALL_PAGE_SIZE);
+    items.push(...response.content);
+
+    if (response.last || response.content.length === 0) {
+      return items;
+    }
+  }
+}
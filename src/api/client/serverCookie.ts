@@ -0,0 +1,23 @@
+import { createIsomorphicFn } from "@tanstack/react-start";
+import { getHeader } from "@tanstack/react-start/server";
+
+/**
+ * SSR 요청 쿠키 조회 함수
+ * @description 서버 렌더링 중 들어온 브라우저 요청의 Cookie 헤더를 반환하는 isomorphic 함수
+ *
+ * 동작 방식:
+ * - 서버(SSR): 현재 요청의 Cookie 헤더 반환 (요청 컨텍스트 밖이면 undefined)
+ * - 클라이언트: 항상 undefined (브라우저가 httpOnly 쿠키를 자동 전송)
+ *
+ * @returns 전달할 Cookie 헤더 문자열
+ */
+export const getServerRequestCookie = createIsomorphicFn()
+  .server((): string | undefined => {
+    try {
+      return getHeader("cookie");
+    } catch {
+      // 요청 컨텍스트가 없는 경우 (빌드, 스크립트 실행 등)
+      return undefined;
+    }
+  })
+  .client((): string | undefined => undefined);
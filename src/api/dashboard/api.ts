@@ -1,11 +1,14 @@
-import { apiClient, ApiError } from "@/api/client";
+import { apiClient, ApiError, fetchAllPages } from "@/api/client";
+import type { AxiosRequestConfig } from "@/api/client";
 import type {
   RecentExamsStatusResponse,
   RecentExamsStatusParams,
   ScoreDistributionResponse,
   ScoreDistributionParams,
+  AllStudentsAnswerDetailsParams,
 } from "./types";
 import type {
+  PageResponse,
   ServerStudentAnswerDetail,
   StudentAnswerDetailParams,
 } from "@/types/server-exam";
@@ -184,3 +187,62 @@ export async function fetchStudentAnswerDetail(
     throw error;
   }
 }
+
+/**
+ * 시험 전체 학생 답안 상세 페이지 조회
+ * @description 특정 시험에 제출한 모든 학생의 상세 답안을 페이지 단위로 조회하는 함수 (학생 이름 오름차순)
+ *
+ * @param params 요청 파라미터
+ * @param params.examId 시험 고유 ID
+ * @param params.page 페이지 번호 (0부터 시작)
+ * @param params.size 페이지 크기 (최대 100)
+ * @param options Axios 옵션 (signal 등)
+ * @returns 학생 답안 상세 페이지
+ * @throws {ApiError} API 요청 실패 시
+ */
+export async function fetchAllStudentsAnswerDetails(
+  params: AllStudentsAnswerDetailsParams,
+  options?: Pick<AxiosRequestConfig, "signal">,
+): Promise<PageResponse<ServerStudentAnswerDetail>> {
+  try {
+    const response = await apiClient.get<
+      PageResponse<ServerStudentAnswerDetail>
+    >("/teacher/dashboard/all-students-answer-details", {
+      params: {
+        examId: params.examId,
+        page: params.page ?? 0,
+        size: params.size ?? 20,
+      },
+      signal: options?.signal,
+    });
+
+    return response.data;
+  } catch (error) {
+    console.error(
+      `[Dashboard API] 전체 학생 답안 조회 실패 - ExamId: ${params.examId}, Page: ${params.page ?? 0}`,
+      error,
+    );
+    throw error;
+  }
+}
+
+/**
+ * 시험 전체 학생 답안 일괄 조회
+ * @description 마지막 페이지까지 순서대로 조회하여 모든 학생의 답안을 하나의 배열로 반환
+ *
+ * 주요 기능:
+ * - 최대 페이지 크기(100)로 요청 수 최소화
+ * - signal로 전체 페이징 중단 가능
+ *
+ * @param examId 시험 고유 ID
+ * @param options Axios 옵션 (signal 등)
+ * @returns 모든 학생의 답안 상세 목록
+ */
+export async function fetchAllStudentsAnswerDetailsAllPages(
+  examId: string,
+  options?: Pick<AxiosRequestConfig, "signal">,
+): Promise<ServerStudentAnswerDetail[]> {
+  return fetchAllPages((page, size) =>
+    fetchAllStudentsAnswerDetails({ examId, page, size }, options),
+  );
+}
@@ -8,6 +8,8 @@ export {
   fetchRecentExamsStatus,
   fetchScoreDistribution,
   fetchStudentAnswerDetail,
+  fetchAllStudentsAnswerDetails,
+  fetchAllStudentsAnswerDetailsAllPages,
 } from "./api";
 
 // React Query 옵션들
@@ -15,6 +17,8 @@ export {
   recentExamsStatusQueryOptions,
   scoreDistributionQueryOptions,
   studentAnswerDetailQueryOptions,
+  allStudentsAnswerDetailsQueryOptions,
+  examAnswerKeyQueryOptions,
   dashboardKeys,
 } from "./query";
 
@@ -30,4 +34,5 @@ export type {
   // 요청 파라미터 타입
   RecentExamsStatusParams,
   ScoreDistributionParams,
+  AllStudentsAnswerDetailsParams,
 } from "./types";
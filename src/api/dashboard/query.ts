@@ -4,6 +4,7 @@ import {
   fetchRecentExamsStatus,
   fetchScoreDistribution,
   fetchStudentAnswerDetail,
+  fetchAllStudentsAnswerDetailsAllPages,
 } from "./api";
 import type {
   RecentExamsStatusResponse,
@@ -39,6 +40,12 @@ export const dashboardKeys = {
   /** 특정 학생의 시험 답안 상세 쿼리 키 */
   studentAnswerDetail: (params: StudentAnswerDetailParams) =>
     [...dashboardKeys.studentAnswers(), params] as const,
+  /** 특정 시험의 전체 학생 답안 쿼리 키 */
+  allStudentsAnswers: (examId: string) =>
+    [...dashboardKeys.all, "all-students-answers", examId] as const,
+  /** 특정 시험의 정답표 쿼리 키 */
+  answerKey: (examId: string) =>
+    [...dashboardKeys.all, "answer-key", examId] as const,
 } as const;
 
 /**
@@ -305,3 +312,80 @@ export const studentAnswerDetailQueryOptions = (
     throwOnError: true, // jotai-tanstack-query에서 Error Boundary 활용
   });
 };
+
+/**
+ * 시험 전체 학생 답안 조회를 위한 React Query 옵션 생성 함수
+ * @description 문항 분석, 학생×문항 히트맵 등 시험 단위 집계에 사용하는 전체 답안을 가져오는 쿼리 옵션
+ *
+ * 주요 기능:
+ * - 모든 페이지를 순서대로 조회해 하나의 배열로 캐싱
+ * - 시험 종료 후 데이터가 자주 바뀌지 않으므로 5분간 fresh 유지
+ *
+ * @param examId 시험 고유 ID
+ * @returns React Query에서 사용할 쿼리 옵션 객체
+ *
+ * @example
+ * ```typescript
+ * const { data: answerSheets } = useQuery(
+ *   allStudentsAnswerDetailsQueryOptions(examId),
+ * );
+ * ```
+ */
+export const allStudentsAnswerDetailsQueryOptions = (examId: string) => {
+  return queryOptions({
+    queryKey: dashboardKeys.allStudentsAnswers(examId),
+    queryFn: ({ signal }): Promise<ServerStudentAnswerDetail[]> =>
+      fetchAllStudentsAnswerDetailsAllPages(examId, { signal }),
+    staleTime: 5 * 60 * 1000,
+    retry: (failureCount, error) => {
+      // 권한 에러, 404, 400은 재시도하지 않음
+      if (
+        error instanceof ApiError &&
+        [400, 401, 403, 404].includes(error.status || 0)
+      ) {
+        return false;
+      }
+      return failureCount < 2;
+    },
+    enabled: examId.trim().length > 0,
+  });
+};
+
+/**
+ * 시험 정답표 조회를 위한 React Query 옵션 생성 함수
+ * @description 문항 조회 API에는 정답이 없으므로 제출 답안들의 문항별 정답을 모아 정답표를 구성
+ *
+ * 주요 기능:
+ * - 모든 제출 답안을 조회하여 문제 ID → 정답 맵 생성 (한 제출에 빠진 문항은 다른 제출로 보완)
+ * - 제출이 없는 시험은 빈 객체 (정답 미확인, 화면에서 "정답 정보 없음"으로 처리)
+ *
+ * @param examId 시험 고유 ID
+ * @returns React Query에서 사용할 쿼리 옵션 객체 (문제 ID → 정답)
+ *
+ * @example
+ * ```typescript
+ * const { data: answerKey } = useQuery(examAnswerKeyQueryOptions(examId));
+ * const answer = answerKey?.[question.questionId] ?? null;
+ * ```
+ */
+export const examAnswerKeyQueryOptions = (examId: string) => {
+  return queryOptions({
+    queryKey: dashboardKeys.answerKey(examId),
+    queryFn: async ({ signal }): Promise<Record<string, string>> => {
+      const submissions = await fetchAllStudentsAnswerDetailsAllPages(examId, {
+        signal,
+      });
+      const answerKey: Record<string, string> = {};
+      submissions.forEach((submission) => {
+        submission.questionAnswers.forEach((answer) => {
+          if (answer.correctAnswer && !answerKey[answer.questionId]) {
+            answerKey[answer.questionId] = answer.correctAnswer;
+          }
+        });
+      });
+      return answerKey;
+    },
+    staleTime: 5 * 60 * 1000,
+    enabled: examId.trim().length > 0,
+  });
+};
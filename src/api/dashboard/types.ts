@@ -89,3 +89,12 @@ export type ScoreDistributionParams = {
   /** 학년 (1, 2, 3) */
   grade: 1 | 2 | 3;
 };
+
+export type AllStudentsAnswerDetailsParams = {
+  /** 시험 ID */
+  examId: string;
+  /** 페이지 번호 (0부터 시작) */
+  page?: number;
+  /** 페이지 크기 (기본값: 20, 최대 100) */
+  size?: number;
+};
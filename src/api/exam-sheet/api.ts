@@ -2,7 +2,12 @@ import type { AxiosRequestConfig } from "axios";
 import { apiClient } from "@/api/client";
 import type { Grade } from "@/types/grade";
 import type { UnitsByGradeData } from "./types";
-import type { ExamSheetListResponse } from "@/types/exam-sheet";
+import type {
+  ExamSheet,
+  ExamSheetListResponse,
+  ExamSheetSaveRequest,
+  ExamSheetUsage,
+} from "@/types/exam-sheet";
 
 /**
  * 시험지 전용 API 클라이언트
@@ -170,6 +175,69 @@ export async function getExamSheetsList(
     .then((response) => response.data);
 }
 
+/**
+ * 문제지 상세 정보를 조회하는 함수
+ * @description 문항 목록(questions)과 단원 집계(unitSummary)를 포함한 문제지 상세 정보를 가져오는 함수
+ *
+ * 주요 기능:
+ * - 목록 조회에서는 비어 있는 questions 필드 포함
+ * - 문항 순서(seqNo)와 단원 정보 제공
+ * - AbortController를 통한 요청 취소 지원
+ *
+ * @example
+ * ```typescript
+ * const sheet = await getExamSheetDetail("550e8400-e29b-41d4-a716-446655440000");
+ * console.log(sheet.questions?.length);
+ * ```
+ *
+ * @param examSheetId 문제지 ID (UUID)
+ * @param options 추가 옵션
+ * @param options.signal 요청 취소를 위한 AbortSignal
+ * @returns 문제지 상세 정보
+ * @throws {ApiResponseError} 문제지를 찾을 수 없는 경우 (404)
+ * @throws {ApiError} 네트워크 오류 또는 인증 실패
+ */
+export async function getExamSheetDetail(
+  examSheetId: string,
+  options?: Pick<AxiosRequestConfig, "signal">,
+): Promise<ExamSheet> {
+  return apiClient
+    .request<ExamSheet>({
+      method: "GET",
+      url: `/exam-sheets/${examSheetId}`,
+      signal: options?.signal,
+    })
+    .then((response) => response.data);
+}
+
+/**
+ * 문제지 사용 현황을 조회하는 함수
+ * @description 문제지가 실제 시험으로 발행된 횟수를 가져오는 함수
+ *
+ * 사용 사례:
+ * - 문제지 상세 페이지의 활용도 표시
+ * - 문제지 수정/삭제 전 사용 여부 확인
+ *
+ * @param examSheetId 문제지 ID (UUID)
+ * @param options 추가 옵션
+ * @param options.signal 요청 취소를 위한 AbortSignal
+ * @returns 문제지 사용 현황
+ * @throws {ApiResponseError} 문제지를 찾을 수 없는 경우 (404)
+ * @throws {ApiError} 네트워크 오류 또는 인증 실패
+ */
+export async function getExamSheetUsage(
+  examSheetId: string,
+  options?: Pick<AxiosRequestConfig, "signal">,
+): Promise<ExamSheetUsage> {
+  return apiClient
+    .request<ExamSheetUsage>({
+      method: "GET",
+      url: `/exam-sheets/${examSheetId}/usage`,
+      signal: options?.signal,
+    })
+    .then((response) => response.data);
+}
+
 /**
  * 시험지를 생성하는 함수
  * @description 선택한 문제들로 새로운 시험지를 생성하는 함수
@@ -218,20 +286,12 @@ export async function getExamSheetsList(
  * @throws {Error} 기타 예상치 못한 오류
  */
 export async function createExamSheet(
-  data: {
-    examName: string;
-    grade: number;
-    questions: Array<{
-      questionId: string;
-      questionOrder: number;
-      points: number;
-    }>;
-  },
+  data: ExamSheetSaveRequest,
   options?: Pick<AxiosRequestConfig, "signal">,
-): Promise<any> {
+): Promise<ExamSheet> {
   // POST /exam-sheets 엔드포인트 사용
   return apiClient
-    .request({
+    .request<ExamSheet>({
       method: "POST",
       url: "/exam-sheets",
       data,
@@ -239,3 +299,135 @@ export async function createExamSheet(
     })
     .then((response) => response.data);
 }
+
+/**
+ * 문제지를 수정하는 함수
+ * @description 문제지명, 문항 순서, 배점을 변경하는 함수 (전체 교체 방식)
+ *
+ * 주의사항:
+ * - 생성과 동일한 검증 규칙 적용 (문항 순서 연속성, 학년 내 이름 중복 불가, 최대 50문항)
+ * - 이미 시험으로 발행된 문제지를 수정해도 발행된 시험의 문항은 바뀌지 않음
+ *
+ * @example
+ * ```typescript
+ * const updated = await updateExamSheet(sheetId, {
+ *   examName: "2025-1학기 중간고사 (수정)",
+ *   grade: 2,
+ *   questions: [
+ *     { questionId: "uuid-2", questionOrder: 1, points: 50 },
+ *     { questionId: "uuid-1", questionOrder: 2, points: 50 },
+ *   ],
+ * });
+ * ```
+ *
+ * @param examSheetId 수정할 문제지 ID
+ * @param data 문제지 저장 요청 데이터
+ * @param options 추가 옵션
+ * @param options.signal 요청 취소를 위한 AbortSignal
+ * @returns 수정된 문제지 정보
+ * @throws {ApiResponseError} 검증 실패, 이름 중복(409) 등
+ * @throws {ApiError} 네트워크 오류 또는 인증 실패
+ */
+export async function updateExamSheet(
+  examSheetId: string,
+  data: ExamSheetSaveRequest,
+  options?: Pick<AxiosRequestConfig, "signal">,
+): Promise<ExamSheet> {
+  return apiClient
+    .request<ExamSheet>({
+      method: "PUT",
+      url: `/exam-sheets/${examSheetId}`,
+      data,
+      signal: options?.signal,
+    })
+    .then((response) => response.data);
+}
+
+/**
+ * 문제지를 삭제하는 함수
+ * @description 문제지를 삭제하는 함수 (호출 전 getExamSheetUsage로 사용 여부 확인 필요)
+ *
+ * @param examSheetId 삭제할 문제지 ID
+ * @param options 추가 옵션
+ * @param options.signal 요청 취소를 위한 AbortSignal
+ * @throws {ApiResponseError} 시험으로 발행되어 삭제할 수 없는 경우 등
+ * @throws {ApiError} 네트워크 오류 또는 인증 실패
+ */
+export async function deleteExamSheet(
+  examSheetId: string,
+  options?: Pick<AxiosRequestConfig, "signal">,
+): Promise<void> {
+  await apiClient.request<null>({
+    method: "DELETE",
+    url: `/exam-sheets/${examSheetId}`,
+    signal: options?.signal,
+  });
+}
+
+/**
+ * 같은 학년에 동일한 이름의 문제지가 있는지 확인하는 함수
+ * @description 서버의 학년 내 이름 중복 규칙을 저장 전에 미리 확인
+ *
+ * @param examName 확인할 문제지명
+ * @param grade 학년
+ * @param options 추가 옵션
+ * @param options.excludeId 수정 중인 문제지 ID (자기 자신은 제외)
+ * @param options.signal 요청 취소를 위한 AbortSignal
+ * @returns 중복 여부
+ */
+export async function isExamSheetNameTaken(
+  examName: string,
+  grade: number,
+  options?: Pick<AxiosRequestConfig, "signal"> & { excludeId?: string },
+): Promise<boolean> {
+  const trimmedName = examName.trim();
+  const response = await getExamSheetsList(
+    {
+      page: 0,
+      size: 100,
+      sort: "createdAt",
+      direction: "desc",
+      grade,
+      search: trimmedName,
+    },
+    { signal: options?.signal },
+  );
+
+  return response.content.some(
+    (sheet) =>
+      sheet.examName.trim() === trimmedName && sheet.id !== options?.excludeId,
+  );
+}
+
+/**
+ * 문제지를 복제하는 함수
+ * @description 기존 문제지의 문항과 배점을 그대로 복사해 새 문제지를 생성 (다른 반/학년용 변형)
+ *
+ * @param examSheetId 원본 문제지 ID
+ * @param target 새 문제지 정보
+ * @param target.examName 새 문제지명
+ * @param target.grade 새 문제지 학년
+ * @param options 추가 옵션
+ * @param options.signal 요청 취소를 위한 AbortSignal
+ * @returns 생성된 문제지 정보
+ * @throws {ApiResponseError} 원본 없음(404), 이름 중복(409), 학년 불일치 문항 등
+ */
+export async function duplicateExamSheet(
+  examSheetId: string,
+  target: { examName: string; grade: number },
+  options?: Pick<AxiosRequestConfig, "signal">,
+): Promise<ExamSheet> {
+  const source = await getExamSheetDetail(examSheetId, options);
+  const questions = [...(source.questions ?? [])]
+    .sort((a, b) => a.seqNo - b.seqNo)
+    .map((question, index) => ({
+      questionId: question.questionId,
+      questionOrder: index + 1,
+      points: question.points,
+    }));
+
+  return createExamSheet(
+    { examName: target.examName.trim(), grade: target.grade, questions },
+    options,
+  );
+}
@@ -1,6 +1,29 @@
 import { queryOptions } from "@tanstack/react-query";
 import type { Grade } from "@/types/grade";
-import { getUnitsByGrade, getExamSheetsList } from "./api";
+import { fetchExamList } from "@/api/exam/api";
+import { fetchAllPages } from "@/api/client";
+import {
+  getUnitsByGrade,
+  getExamSheetsList,
+  getExamSheetDetail,
+  getExamSheetUsage,
+} from "./api";
+
+/**
+ * 문제지 쿼리 무효화 헬퍼
+ * @description 문제지 생성/수정/삭제 후 갱신이 필요한 쿼리 키들
+ */
+export const examSheetQueryInvalidation = {
+  /** 모든 문제지 관련 쿼리 */
+  all: () => ["exam-sheets"] as const,
+
+  /** 문제지 목록 쿼리들 */
+  lists: () => ["exam-sheets", "list"] as const,
+
+  /** 특정 문제지 상세 */
+  detail: (examSheetId: string) =>
+    ["exam-sheets", "detail", examSheetId] as const,
+};
 
 /**
  * 학년별 단원 조회 쿼리 옵션
@@ -81,3 +104,65 @@ export function examSheetListQueryOptions(params: ExamSheetListParams) {
     retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 30000),
   });
 }
+
+/**
+ * 문제지 상세 조회 쿼리 옵션
+ * @description 문항 목록과 단원 집계를 포함한 문제지 상세 정보 쿼리
+ *
+ * 캐싱 전략:
+ * - staleTime: 5분 (문제지는 생성 후 자주 변경되지 않음)
+ * - 재시도: 404는 재시도해도 결과가 같으므로 1회만
+ *
+ * @param examSheetId 문제지 ID
+ */
+export function examSheetDetailQueryOptions(examSheetId: string) {
+  return queryOptions({
+    queryKey: ["exam-sheets", "detail", examSheetId],
+    queryFn: ({ signal }) => getExamSheetDetail(examSheetId, { signal }),
+    staleTime: 5 * 60 * 1000,
+    gcTime: 10 * 60 * 1000,
+    retry: 1,
+    enabled: !!examSheetId,
+  });
+}
+
+/**
+ * 문제지 사용 현황 쿼리 옵션
+ * @description 문제지가 시험으로 발행된 횟수 쿼리
+ *
+ * @param examSheetId 문제지 ID
+ */
+export function examSheetUsageQueryOptions(examSheetId: string) {
+  return queryOptions({
+    queryKey: ["exam-sheets", "usage", examSheetId],
+    queryFn: ({ signal }) => getExamSheetUsage(examSheetId, { signal }),
+    staleTime: 60 * 1000,
+    retry: 1,
+    enabled: !!examSheetId,
+  });
+}
+
+/**
+ * 문제지로 발행된 시험 목록 쿼리 옵션
+ * @description 시험 목록 API에 문제지 필터가 없어 해당 학년 시험을 모든 페이지 조회한 뒤 examSheetInfo.id로 걸러냄
+ *
+ * @param examSheetId 문제지 ID
+ * @param grade 문제지 학년
+ */
+export function examSheetPublishedExamsQueryOptions(
+  examSheetId: string,
+  grade: number,
+) {
+  return queryOptions({
+    queryKey: ["exam-sheets", "published-exams", examSheetId, grade],
+    queryFn: async () => {
+      // 문제지로 발행된 시험을 빠짐없이 찾기 위해 학년 시험 전체 페이지를 조회
+      const exams = await fetchAllPages((page, size) =>
+        fetchExamList({ grade, page, size, sort: "createdAt,desc" }),
+      );
+      return exams.filter((exam) => exam.examSheetInfo?.id === examSheetId);
+    },
+    staleTime: 60 * 1000,
+    enabled: !!examSheetId && grade > 0,
+  });
+}
@@ -6,10 +6,13 @@
  * 모든 응답은 ApiResponse<T> 형태로 래핑됨 (인터셉터에서 자동 처리)
  */
 
-import { apiClient } from "@/api/client";
+import { apiClient, fetchAllPages } from "@/api/client";
 import type {
   CreateExamRequest,
   CreateExamResponse,
+  ReopenExamRequest,
+  UpdateExamRequest,
+  ExamAttendee,
   ExamAttendeesParams,
   ExamAttendeesResponse,
 } from "./types";
@@ -57,6 +60,87 @@ export async function createExam(
   }
 }
 
+/**
+ * 시험 수정 API
+ * @description 시험명, 시험지, 학년, 최대 학생 수, 일정, 설명을 수정 (전체 교체 방식)
+ *
+ * 주의사항:
+ * - 제출이 있는 시험은 시험지를 바꿀 수 없음 (서버에서 400 반환)
+ *
+ * @param examId 수정할 시험 ID
+ * @param data 시험 수정 요청 데이터
+ * @returns 수정된 시험 정보
+ */
+export async function updateExam(
+  examId: string,
+  data: UpdateExamRequest,
+): Promise<ServerExam> {
+  try {
+    const response = await apiClient.put<ServerExam>(`/exams/${examId}`, data);
+    return response.data;
+  } catch (error) {
+    console.error(`시험 수정 실패 (ID: ${examId}):`, error);
+    throw error;
+  }
+}
+
+/**
+ * 시험 조기 마감 API
+ * @description 종료일시를 현재 시각으로 당겨 더 이상 제출받지 않음
+ *
+ * @param examId 마감할 시험 ID
+ * @returns 마감된 시험 정보
+ */
+export async function closeExam(examId: string): Promise<ServerExam> {
+  try {
+    const response = await apiClient.post<ServerExam>(`/exams/${examId}/close`);
+    return response.data;
+  } catch (error) {
+    console.error(`시험 마감 실패 (ID: ${examId}):`, error);
+    throw error;
+  }
+}
+
+/**
+ * 시험 다시 열기 API
+ * @description 마감된 시험의 종료일시를 새로 지정하여 다시 제출받음
+ *
+ * @param examId 다시 열 시험 ID
+ * @param data 새 종료일시
+ * @returns 다시 열린 시험 정보
+ */
+export async function reopenExam(
+  examId: string,
+  data: ReopenExamRequest,
+): Promise<ServerExam> {
+  try {
+    const response = await apiClient.post<ServerExam>(
+      `/exams/${examId}/reopen`,
+      data,
+    );
+    return response.data;
+  } catch (error) {
+    console.error(`시험 다시 열기 실패 (ID: ${examId}):`, error);
+    throw error;
+  }
+}
+
+/**
+ * 시험 삭제 API
+ * @description 시험을 삭제 (호출 전 fetchSubmissionStatus로 제출 여부 확인 필요)
+ *
+ * @param examId 삭제할 시험 ID
+ * @throws {ApiError} 제출이 있어 삭제할 수 없는 경우(409) 등
+ */
+export async function deleteExam(examId: string): Promise<void> {
+  try {
+    await apiClient.delete<null>(`/exams/${examId}`);
+  } catch (error) {
+    console.error(`시험 삭제 실패 (ID: ${examId}):`, error);
+    throw error;
+  }
+}
+
 export async function fetchExamList(
   filters: ExamListFilters = {},
 ): Promise<PageResponse<ServerExam>> {
@@ -289,6 +373,21 @@ export async function fetchExamAttendees(
   }
 }
 
+/**
+ * 시험 응시자 전체 조회
+ * @description 응시자 목록을 100명씩 마지막 페이지까지 순서대로 조회
+ *
+ * @param examId 시험 고유 ID
+ * @returns 제출 시간 오래된순 전체 응시자 목록
+ */
+export async function fetchAllExamAttendees(
+  examId: string,
+): Promise<ExamAttendee[]> {
+  return fetchAllPages((page, size) =>
+    fetchExamAttendees(examId, { page, size, sort: "submittedAt,asc" }),
+  );
+}
+
 /**
  * 시험 문제 목록 조회
  * @description 특정 시험에 포함된 모든 문제 정보를 조회
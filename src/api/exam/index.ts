@@ -10,6 +10,10 @@ export {
   fetchSubmissionStatus,
   fetchExamStatistics,
   createExam,
+  updateExam,
+  closeExam,
+  reopenExam,
+  deleteExam,
 } from "./api";
 
 // TanStack Query 옵션들
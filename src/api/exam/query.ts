@@ -15,6 +15,7 @@ import {
   fetchSubmissionStatus,
   fetchExamStatistics,
   fetchExamAttendees,
+  fetchAllExamAttendees,
   fetchExamQuestions,
 } from "./api";
 import type {
@@ -52,6 +53,9 @@ export const examKeys = {
   /** 특정 시험의 응시자 목록 */
   attendee: (examId: string, params?: ExamAttendeesParams) =>
     [...examKeys.attendees(), examId, params] as const,
+  /** 특정 시험의 전체 응시자 목록 */
+  allAttendees: (examId: string) =>
+    [...examKeys.attendees(), examId, "all"] as const,
 
   /** 통계 쿼리들 */
   statistics: () => [...examKeys.all, "statistics"] as const,
@@ -113,6 +117,21 @@ export const submissionStatusQueryOptions = (examId: string) =>
     retry: 3, // 실패 시 3회 재시도
     enabled: !!examId, // examId가 있을 때만 쿼리 실행
   });
+/**
+ * 시험 전체 응시자 쿼리 옵션
+ * @description 실시간 모니터링의 분 단위 제출 타임라인 초기값으로 사용
+ *
+ * @param examId 시험 고유 ID
+ * @returns TanStack Query 옵션 객체
+ */
+export const allExamAttendeesQueryOptions = (examId: string) =>
+  queryOptions({
+    queryKey: examKeys.allAttendees(examId),
+    queryFn: () => fetchAllExamAttendees(examId),
+    staleTime: Infinity,
+    enabled: !!examId,
+  });
+
 /**
  * 시험 응시자 목록 쿼리 옵션
  * @description 특정 시험의 응시자 목록을 페이지네이션하여 조회
@@ -118,6 +118,17 @@ export type ServerExam = {
   createdAt: string;
   /** 시험지 정보 (없을 수 있음) */
   examSheetInfo: ServerExamSheetInfo | null;
+  /**
+   * 시험 시작일시 (ISO 8601, 미설정 시 null)
+   * 일정 필드(startDate, endDate, duration, gradedAt)는 서버 지원 대기 중이라 현재 응답에 없음 (docs/pending-endpoints.md)
+   */
+  startDate?: string | null;
+  /** 시험 종료일시 (ISO 8601, 미설정 시 null) */
+  endDate?: string | null;
+  /** 시험 제한시간 (분, 미설정 시 null) */
+  duration?: number | null;
+  /** 채점 완료일시 (ISO 8601, 채점 전이면 null) */
+  gradedAt?: string | null;
   /** 참여 현황 정보 (includeUnits=true 시 포함) */
   attendanceInfo?: ServerAttendanceInfo;
   /** 단원 목록 (includeUnits=true 시 포함) */
@@ -277,6 +288,21 @@ export type CreateExamRequest = {
   duration?: number;
 };
 
+/**
+ * 시험 수정 요청 타입
+ * @description PUT /api/exams/{examId} 요청 본문 (생성과 같은 필드, 전체 교체 방식)
+ */
+export type UpdateExamRequest = CreateExamRequest;
+
+/**
+ * 시험 다시 열기 요청 타입
+ * @description POST /api/exams/{examId}/reopen 요청 본문
+ */
+export type ReopenExamRequest = {
+  /** 새 종료일시 (ISO 8601, 현재 이후) */
+  endDate: string;
+};
+
 /**
  * 시험 생성 응답 타입
  * @description POST /api/exams 성공 응답
@@ -0,0 +1,62 @@
+import { apiClient } from "@/api/client";
+import type { AxiosRequestConfig } from "@/api/client";
+import type { RegradeSubmissionParams, SubmissionGrading } from "./types";
+
+/**
+ * 제출 답안 채점 정보 조회 API
+ * @description 문항별 획득 점수, 피드백, 재채점 이력을 조회
+ *
+ * @param submissionId 제출 ID
+ * @param options Axios 옵션 (signal 등)
+ * @returns 제출 답안 채점 정보
+ * @throws {ApiError} API 요청 실패 시
+ */
+export async function fetchSubmissionGrading(
+  submissionId: string,
+  options?: Pick<AxiosRequestConfig, "signal">,
+): Promise<SubmissionGrading> {
+  try {
+    const response = await apiClient.get<SubmissionGrading>(
+      `/teacher/submissions/${submissionId}/grading`,
+      { signal: options?.signal },
+    );
+
+    return response.data;
+  } catch (error) {
+    console.error(
+      `[Grading API] 채점 정보 조회 실패 - SubmissionId: ${submissionId}`,
+      error,
+    );
+    throw error;
+  }
+}
+
+/**
+ * 제출 답안 재채점 API
+ * @description 교사가 수정한 문항별 점수와 피드백을 저장 (서버가 총점 재계산 및 이력 기록)
+ *
+ * @param params 재채점 파라미터
+ * @param params.submissionId 제출 ID
+ * @param params.grades 변경할 문항별 점수와 피드백
+ * @returns 재채점 후 채점 정보
+ * @throws {ApiError} API 요청 실패 시
+ */
+export async function regradeSubmission({
+  submissionId,
+  grades,
+}: RegradeSubmissionParams): Promise<SubmissionGrading> {
+  try {
+    const response = await apiClient.put<SubmissionGrading>(
+      `/teacher/submissions/${submissionId}/grading`,
+      { grades },
+    );
+
+    return response.data;
+  } catch (error) {
+    console.error(
+      `[Grading API] 재채점 실패 - SubmissionId: ${submissionId}`,
+      error,
+    );
+    throw error;
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * 채점 API 모듈 통합 export
+ * @description 수동 재채점 관련 API 함수들과 타입들을 통합하여 export
+ */
+
+// API 함수들
+export { fetchSubmissionGrading, regradeSubmission } from "./api";
+
+// React Query 옵션들
+export { gradingKeys, submissionGradingQueryOptions } from "./query";
+
+// 타입들
+export type {
+  GradingTeacher,
+  QuestionGrade,
+  GradingHistoryEntry,
+  SubmissionGrading,
+  RegradeQuestionRequest,
+  RegradeSubmissionParams,
+} from "./types";
@@ -0,0 +1,43 @@
+import { queryOptions } from "@tanstack/react-query";
+import { ApiError } from "@/api/client";
+import { fetchSubmissionGrading } from "./api";
+import type { SubmissionGrading } from "./types";
+
+/**
+ * 채점 쿼리 키 관리 객체
+ * @description React Query에서 사용하는 채점 관련 캐시 키들을 관리
+ */
+export const gradingKeys = {
+  /** 모든 채점 관련 쿼리의 기본 키 */
+  all: ["grading"] as const,
+  /** 특정 제출 답안 채점 정보 쿼리 키 */
+  submission: (submissionId: string) =>
+    [...gradingKeys.all, "submission", submissionId] as const,
+} as const;
+
+/**
+ * 제출 답안 채점 정보 조회를 위한 React Query 옵션 생성 함수
+ * @description 답안 확인 모달에서 재채점 편집기와 이력을 표시할 때 사용
+ *
+ * @param submissionId 제출 ID
+ * @returns React Query에서 사용할 쿼리 옵션 객체
+ */
+export const submissionGradingQueryOptions = (submissionId: string) => {
+  return queryOptions({
+    queryKey: gradingKeys.submission(submissionId),
+    queryFn: ({ signal }): Promise<SubmissionGrading> =>
+      fetchSubmissionGrading(submissionId, { signal }),
+    staleTime: 30 * 1000,
+    retry: (failureCount, error) => {
+      // 권한 에러, 404, 400은 재시도하지 않음
+      if (
+        error instanceof ApiError &&
+        [400, 401, 403, 404].includes(error.status || 0)
+      ) {
+        return false;
+      }
+      return failureCount < 2;
+    },
+    enabled: submissionId.trim().length > 0,
+  });
+};
@@ -0,0 +1,98 @@
+/**
+ * 채점 API 타입 정의
+ * @description 교사 수동 재채점(부분 점수, 피드백)과 재채점 이력 관련 타입들
+ */
+
+/**
+ * 재채점한 교사 정보
+ */
+export type GradingTeacher = {
+  /** 교사 ID */
+  teacherId: number;
+  /** 교사 이름 */
+  teacherName: string;
+};
+
+/**
+ * 문항별 채점 결과
+ */
+export type QuestionGrade = {
+  /** 문제 ID */
+  questionId: string;
+  /** 문제 번호 */
+  questionNumber: number;
+  /** 획득 점수 */
+  obtainedScore: number;
+  /** 문항 배점 */
+  maxScore: number;
+  /** 교사 피드백 (없으면 null) */
+  feedback: string | null;
+  /** 교사가 수동으로 재채점했는지 여부 */
+  isRegraded: boolean;
+  /** 마지막 채점 일시 (ISO 8601) */
+  gradedAt: string | null;
+};
+
+/**
+ * 재채점 이력 항목
+ * @description 누가, 언제, 어떤 문항의 점수를 얼마에서 얼마로 바꿨는지 기록
+ */
+export type GradingHistoryEntry = {
+  /** 이력 ID */
+  id: string;
+  /** 문제 ID */
+  questionId: string;
+  /** 문제 번호 */
+  questionNumber: number;
+  /** 변경 전 점수 */
+  previousScore: number;
+  /** 변경 후 점수 */
+  newScore: number;
+  /** 변경 전 피드백 */
+  previousFeedback: string | null;
+  /** 변경 후 피드백 */
+  newFeedback: string | null;
+  /** 재채점한 교사 */
+  gradedBy: GradingTeacher;
+  /** 재채점 일시 (ISO 8601) */
+  gradedAt: string;
+};
+
+/**
+ * 제출 답안 채점 정보
+ * @description GET/PUT /teacher/submissions/{submissionId}/grading 응답 데이터
+ */
+export type SubmissionGrading = {
+  /** 제출 ID */
+  submissionId: string;
+  /** 총점 */
+  totalScore: number;
+  /** 만점 */
+  maxTotalScore: number;
+  /** 문항별 채점 결과 (문제 번호순) */
+  questions: QuestionGrade[];
+  /** 재채점 이력 (최신순) */
+  history: GradingHistoryEntry[];
+};
+
+/**
+ * 문항 재채점 요청 항목
+ */
+export type RegradeQuestionRequest = {
+  /** 문제 ID */
+  questionId: string;
+  /** 새 점수 (0 ~ 배점) */
+  score: number;
+  /** 피드백 (비우면 삭제) */
+  feedback: string | null;
+};
+
+/**
+ * 제출 답안 재채점 요청 파라미터
+ */
+export type RegradeSubmissionParams = {
+  /** 제출 ID */
+  submissionId: string;
+  /** 변경할 문항 목록 */
+  grades: RegradeQuestionRequest[];
+};
@@ -10,6 +10,8 @@ import { apiClient } from "@/api/client";
 import type {
   UnitWrongAnswerRatesResponse,
   ScoreDistributionResponse,
+  ExamAverageScoresResponse,
+  ExamAverageScoresParams,
   StatisticsParams,
 } from "./types";
 
@@ -86,3 +88,40 @@ export async function fetchScoreDistribution(
     throw error;
   }
 }
+
+/**
+ * 시험별 평균 점수 조회
+ * @description 지정된 학년의 최근 시험별 평균 점수와 응시 통계를 조회
+ *
+ * 제공되는 정보:
+ * - 시험별 평균/최고/최저 점수, 표준편차
+ * - 시험별 응시 인원과 제출률
+ * - 전체 통계 요약 (최고/최저 시험 평균, 평균 참여율, 총 참여자 수)
+ *
+ * @param params 조회 파라미터 (학년, 최대 시험 수)
+ * @returns 시험별 평균 점수 데이터 (최근 시험순)
+ *
+ * @example
+ * ```typescript
+ * // 1학년 최근 10개 시험 평균 조회
+ * const examAverages = await fetchExamAverageScores({ grade: 1, limit: 10 });
+ * console.log(examAverages.examAverageScores[0].averageScore); // 78.5
+ * ```
+ */
+export async function fetchExamAverageScores(
+  params: ExamAverageScoresParams,
+): Promise<ExamAverageScoresResponse> {
+  const queryParams = new URLSearchParams();
+  queryParams.append("grade", params.grade.toString());
+  queryParams.append("limit", (params.limit ?? 10).toString());
+
+  try {
+    const response = await apiClient.get<ExamAverageScoresResponse>(
+      `/teacher/dashboard/exam-average-scores?${queryParams.toString()}`,
+    );
+    return response.data;
+  } catch (error) {
+    console.error(`시험별 평균 점수 조회 실패 (학년: ${params.grade}):`, error);
+    throw error;
+  }
+}
@@ -4,13 +4,18 @@
  */
 
 // API 함수들
-export { fetchUnitWrongAnswerRates, fetchScoreDistribution } from "./api";
+export {
+  fetchUnitWrongAnswerRates,
+  fetchScoreDistribution,
+  fetchExamAverageScores,
+} from "./api";
 
 // React Query 옵션들
 export {
   statisticsKeys,
   unitWrongAnswerRatesQueryOptions,
   scoreDistributionQueryOptions,
+  examAverageScoresQueryOptions,
 } from "./query";
 
 // 타입들
@@ -20,5 +25,9 @@ export type {
   ScoreDistribution,
   ScoreStatistics,
   ScoreDistributionResponse,
+  ExamAverageScore,
+  ExamAverageScoreSummary,
+  ExamAverageScoresResponse,
+  ExamAverageScoresParams,
   StatisticsParams,
 } from "./types";
@@ -4,10 +4,15 @@
  */
 
 import { queryOptions } from "@tanstack/react-query";
-import { fetchUnitWrongAnswerRates, fetchScoreDistribution } from "./api";
+import {
+  fetchUnitWrongAnswerRates,
+  fetchScoreDistribution,
+  fetchExamAverageScores,
+} from "./api";
 import type {
   UnitWrongAnswerRatesResponse,
   ScoreDistributionResponse,
+  ExamAverageScoresParams,
   StatisticsParams,
 } from "./types";
 
@@ -30,6 +35,12 @@ export const statisticsKeys = {
     [...statisticsKeys.all, "score-distributions"] as const,
   scoreDistribution: (params: StatisticsParams) =>
     [...statisticsKeys.scoreDistributions(), params] as const,
+
+  /** 시험별 평균 점수 관련 쿼리들 */
+  examAverageScores: () =>
+    [...statisticsKeys.all, "exam-average-scores"] as const,
+  examAverageScore: (params: ExamAverageScoresParams) =>
+    [...statisticsKeys.examAverageScores(), params] as const,
 };
 
 /**
@@ -65,3 +76,22 @@ export const scoreDistributionQueryOptions = (params: StatisticsParams) =>
     retry: 2, // 2회 재시도
     retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 30000),
   });
+
+/**
+ * 시험별 평균 점수 쿼리 옵션
+ * @description 시험별 평균 점수 추이 차트를 위한 React Query 설정
+ *
+ * @param params 쿼리 파라미터
+ * @returns TanStack Query 옵션 객체
+ */
+export const examAverageScoresQueryOptions = (
+  params: ExamAverageScoresParams,
+) =>
+  queryOptions({
+    queryKey: statisticsKeys.examAverageScore(params),
+    queryFn: () => fetchExamAverageScores(params),
+    staleTime: 5 * 60 * 1000, // 5분간 fresh 상태 유지
+    gcTime: 10 * 60 * 1000, // 10분간 캐시 유지
+    retry: 2, // 2회 재시도
+    retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 30000),
+  });
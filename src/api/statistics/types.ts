@@ -93,6 +93,72 @@ export type ScoreDistributionResponse = {
   statistics: ScoreStatistics;
 };
 
+/**
+ * 시험별 평균 점수 정보
+ */
+export type ExamAverageScore = {
+  /** 시험 ID */
+  examId: string;
+  /** 시험명 */
+  examName: string;
+  /** 시험 생성일시 */
+  createdAt: string;
+  /** 전체 문제 수 */
+  totalQuestionCount: number;
+  /** 응시 인원 */
+  participantCount: number;
+  /** 평균 점수 */
+  averageScore: number;
+  /** 최고 점수 */
+  maxScore: number;
+  /** 최저 점수 */
+  minScore: number;
+  /** 표준편차 */
+  standardDeviation: number;
+  /** 제출률 (퍼센트) */
+  submissionRate: number;
+};
+
+/**
+ * 시험별 평균 점수 통계 요약
+ */
+export type ExamAverageScoreSummary = {
+  /** 가장 높은 시험 평균 */
+  highestExamAverage: number;
+  /** 가장 낮은 시험 평균 */
+  lowestExamAverage: number;
+  /** 평균 참여율 (퍼센트) */
+  averageParticipationRate: number;
+  /** 총 참여자 수 */
+  totalParticipants: number;
+};
+
+/**
+ * 시험별 평균 점수 응답
+ */
+export type ExamAverageScoresResponse = {
+  /** 학년 */
+  grade: number;
+  /** 해당 학년 전체 시험 수 */
+  totalExamCount: number;
+  /** 조회된 최근 시험 수 */
+  recentExamCount: number;
+  /** 전체 시험 평균 점수 */
+  overallAverageScore: number;
+  /** 시험별 평균 점수 목록 (최근 시험순) */
+  examAverageScores: ExamAverageScore[];
+  /** 통계 요약 */
+  statistics: ExamAverageScoreSummary;
+};
+
+/**
+ * 시험별 평균 점수 조회 파라미터
+ */
+export type ExamAverageScoresParams = StatisticsParams & {
+  /** 최대 조회할 시험 수 (1 ~ 50, 기본값 10) */
+  limit?: number;
+};
+
 /**
  * 통계 API 요청 파라미터
  */
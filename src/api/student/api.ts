@@ -0,0 +1,299 @@
+import { apiClient, ApiError, fetchAllPages } from "@/api/client";
+import type { AxiosRequestConfig } from "@/api/client";
+import { fetchAllExamAttendees, fetchExamList } from "@/api/exam/api";
+import type {
+  PageResponse,
+  ServerExam,
+  ServerStudentAnswerDetail,
+} from "@/types/server-exam";
+import type {
+  ExamRosterStatus,
+  ExamRosterStatusParams,
+  RosterStudent,
+  StudentExamHistoryParams,
+  StudentRosterParams,
+  StudentUpdateRequest,
+  StudentUpsertRequest,
+  StudentUpsertResponse,
+} from "./types";
+
+/** 시험별 답안 동시 조회 개수 */
+const ANSWER_DETAIL_CONCURRENCY = 5;
+
+/**
+ * 학생 답안 상세 조회 (미응시 허용)
+ * @description 학생이 해당 시험을 치르지 않았으면(404) 에러 대신 null 반환
+ *
+ * @param examId 시험 ID
+ * @param studentId 학생 ID
+ * @param options Axios 옵션 (signal 등)
+ * @returns 학생 답안 상세 정보 또는 null
+ * @throws {ApiError} 404 외의 API 요청 실패 시
+ */
+export async function fetchStudentExamAnswer(
+  examId: string,
+  studentId: number,
+  options?: Pick<AxiosRequestConfig, "signal">,
+): Promise<ServerStudentAnswerDetail | null> {
+  try {
+    const response = await apiClient.get<ServerStudentAnswerDetail>(
+      "/teacher/dashboard/student-answer-detail",
+      {
+        params: { examId, studentId },
+        signal: options?.signal,
+      },
+    );
+
+    return response.data;
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 404) {
+      return null;
+    }
+    console.error(
+      `[Student API] 학생 답안 조회 실패 - ExamId: ${examId}, StudentId: ${studentId}`,
+      error,
+    );
+    throw error;
+  }
+}
+
+/**
+ * 학년 전체 시험 목록 조회
+ * @description 마지막 페이지까지 순서대로 조회하여 학년의 모든 시험을 반환
+ */
+async function fetchAllExamsOfGrade(grade: number): Promise<ServerExam[]> {
+  return fetchAllPages((page, size) =>
+    fetchExamList({ grade, page, size, sort: "createdAt,asc" }),
+  );
+}
+
+/**
+ * 학생 시험 이력 조회
+ * @description 학년의 모든 시험에서 해당 학생의 답안을 모아 응시한 시험만 반환
+ *
+ * 주요 기능:
+ * - 학년 시험 목록 전체 조회
+ * - 시험별 학생 답안을 5개씩 병렬 조회 (미응시 시험 제외)
+ * - 제출 일시 오름차순 정렬
+ *
+ * @param params 요청 파라미터
+ * @param params.studentId 학생 ID
+ * @param params.grade 학년
+ * @param options Axios 옵션 (signal 등)
+ * @returns 학생이 응시한 시험의 답안 상세 목록
+ */
+export async function fetchStudentExamHistory(
+  { studentId, grade }: StudentExamHistoryParams,
+  options?: Pick<AxiosRequestConfig, "signal">,
+): Promise<ServerStudentAnswerDetail[]> {
+  const exams = await fetchAllExamsOfGrade(grade);
+  const answerSheets: ServerStudentAnswerDetail[] = [];
+
+  for (let i = 0; i < exams.length; i += ANSWER_DETAIL_CONCURRENCY) {
+    if (options?.signal?.aborted) {
+      throw new ApiError("학생 시험 이력 조회가 취소되었습니다.");
+    }
+
+    const results = await Promise.all(
+      exams
+        .slice(i, i + ANSWER_DETAIL_CONCURRENCY)
+        .map((exam) => fetchStudentExamAnswer(exam.id, studentId, options)),
+    );
+    results.forEach((result) => {
+      if (result) answerSheets.push(result);
+    });
+  }
+
+  return answerSheets.sort(
+    (a, b) =>
+      new Date(a.submittedAt).getTime() - new Date(b.submittedAt).getTime(),
+  );
+}
+
+/**
+ * 학생 정보 등록 또는 조회 API
+ * @description 3-factor 정보(이름, 전화번호, 생년월일)로 학생을 등록하거나 기존 학생을 반환
+ *
+ * @param request 학생 정보
+ * @returns 등록되었거나 기존에 있던 학생 정보
+ * @throws {ApiError} 필수 필드 누락, 형식 오류(400) 등
+ */
+export async function upsertStudent(
+  request: StudentUpsertRequest,
+): Promise<StudentUpsertResponse> {
+  try {
+    const response = await apiClient.post<StudentUpsertResponse>(
+      "/auth/upsert-student",
+      request,
+    );
+
+    return response.data;
+  } catch (error) {
+    console.error(
+      `[Student API] 학생 등록 실패 - Name: ${request.name}`,
+      error,
+    );
+    throw error;
+  }
+}
+
+/**
+ * 학생 명단 조회 API
+ * @description 학년, 이름/전화번호 검색어로 학생 명단을 페이지 단위로 조회
+ *
+ * @param params 조회 파라미터
+ * @param options Axios 옵션 (signal 등)
+ * @returns 학생 명단 페이지
+ */
+export async function fetchStudentRoster(
+  params: StudentRosterParams = {},
+  options?: Pick<AxiosRequestConfig, "signal">,
+): Promise<PageResponse<RosterStudent>> {
+  try {
+    const response = await apiClient.get<PageResponse<RosterStudent>>(
+      "/teacher/students",
+      {
+        params: {
+          grade: params.grade,
+          search: params.search?.trim() || undefined,
+          page: params.page ?? 0,
+          size: params.size ?? 20,
+          sort: "name,asc",
+        },
+        signal: options?.signal,
+      },
+    );
+
+    return response.data;
+  } catch (error) {
+    console.error("[Student API] 학생 명단 조회 실패", error);
+    throw error;
+  }
+}
+
+/**
+ * 학생 정보 수정 API
+ * @description 연락처, 생년월일, 소속 학년을 수정
+ *
+ * @param studentId 학생 ID
+ * @param request 수정할 학생 정보
+ * @returns 수정된 학생 정보
+ */
+export async function updateStudent(
+  studentId: number,
+  request: StudentUpdateRequest,
+): Promise<RosterStudent> {
+  try {
+    const response = await apiClient.put<RosterStudent>(
+      `/teacher/students/${studentId}`,
+      request,
+    );
+
+    return response.data;
+  } catch (error) {
+    console.error(
+      `[Student API] 학생 정보 수정 실패 - StudentId: ${studentId}`,
+      error,
+    );
+    throw error;
+  }
+}
+
+/**
+ * 시험 응시 대상 학생 ID 조회 API
+ * @description 시험에 배정된 학생 ID 목록 (ServerAttendanceInfo.totalAssigned의 기준)
+ *
+ * @param examId 시험 ID
+ * @param options Axios 옵션 (signal 등)
+ * @returns 배정된 학생 ID 목록
+ */
+export async function fetchExamAssignedStudentIds(
+  examId: string,
+  options?: Pick<AxiosRequestConfig, "signal">,
+): Promise<number[]> {
+  try {
+    const response = await apiClient.get<number[]>(
+      `/exams/${examId}/assigned-students`,
+      { signal: options?.signal },
+    );
+
+    return response.data;
+  } catch (error) {
+    console.error(
+      `[Student API] 응시 대상 조회 실패 - ExamId: ${examId}`,
+      error,
+    );
+    throw error;
+  }
+}
+
+/**
+ * 시험 응시 대상 지정 API
+ * @description 시험에 배정할 학생 ID 목록 전체를 교체
+ *
+ * @param examId 시험 ID
+ * @param studentIds 배정할 학생 ID 목록
+ * @returns 저장된 학생 ID 목록
+ */
+export async function updateExamAssignedStudents(
+  examId: string,
+  studentIds: number[],
+): Promise<number[]> {
+  try {
+    const response = await apiClient.put<number[]>(
+      `/exams/${examId}/assigned-students`,
+      { studentIds },
+    );
+
+    return response.data;
+  } catch (error) {
+    console.error(
+      `[Student API] 응시 대상 지정 실패 - ExamId: ${examId}`,
+      error,
+    );
+    throw error;
+  }
+}
+
+/**
+ * 학년 전체 학생 명단 조회
+ * @description 마지막 페이지까지 순서대로 조회하여 학년의 모든 학생을 반환
+ */
+async function fetchAllRosterStudents(
+  grade: 1 | 2 | 3,
+  options?: Pick<AxiosRequestConfig, "signal">,
+): Promise<RosterStudent[]> {
+  return fetchAllPages((page, size) =>
+    fetchStudentRoster({ grade, page, size }, options),
+  );
+}
+
+/**
+ * 시험 응시 현황 조회 (명단 기준)
+ * @description 학년 명단, 응시 대상, 제출자 목록을 함께 조회
+ *
+ * 서버 제출 통계(ServerSubmissionStats)는 미제출 인원 수만 제공하므로
+ * 명단과 제출자 목록을 비교해 미제출 학생을 계산할 수 있도록 원본 데이터를 모아 반환
+ *
+ * @param params 요청 파라미터
+ * @param params.examId 시험 ID
+ * @param params.grade 시험 학년
+ * @param options Axios 옵션 (signal 등)
+ * @returns 명단, 응시 대상, 제출자 ID 목록
+ */
+export async function fetchExamRosterStatus(
+  { examId, grade }: ExamRosterStatusParams,
+  options?: Pick<AxiosRequestConfig, "signal">,
+): Promise<ExamRosterStatus> {
+  const [students, assignedStudentIds, submittedStudentIds] = await Promise.all(
+    [
+      fetchAllRosterStudents(grade, options),
+      fetchExamAssignedStudentIds(examId, options),
+      fetchAllExamAttendees(examId).then((attendees) =>
+        attendees.map((attendee) => attendee.studentId),
+      ),
+    ],
+  );
+
+  return { students, assignedStudentIds, submittedStudentIds };
+}
@@ -0,0 +1,37 @@
+/**
+ * 학생 API 모듈 통합 export
+ * @description 학생 관련 API 함수들과 타입들을 통합하여 export
+ */
+
+// API 함수들
+export {
+  fetchStudentExamAnswer,
+  fetchStudentExamHistory,
+  upsertStudent,
+  fetchStudentRoster,
+  updateStudent,
+  fetchExamAssignedStudentIds,
+  updateExamAssignedStudents,
+  fetchExamRosterStatus,
+} from "./api";
+
+// React Query 옵션들
+export {
+  studentKeys,
+  studentExamHistoryQueryOptions,
+  studentRosterQueryOptions,
+  examAssignedStudentsQueryOptions,
+  examRosterStatusQueryOptions,
+} from "./query";
+
+// 타입들
+export type {
+  StudentExamHistoryParams,
+  StudentUpsertRequest,
+  StudentUpsertResponse,
+  RosterStudent,
+  StudentUpdateRequest,
+  StudentRosterParams,
+  ExamRosterStatusParams,
+  ExamRosterStatus,
+} from "./types";
@@ -0,0 +1,140 @@
+import { queryOptions } from "@tanstack/react-query";
+import { ApiError } from "@/api/client";
+import {
+  fetchExamAssignedStudentIds,
+  fetchExamRosterStatus,
+  fetchStudentExamHistory,
+  fetchStudentRoster,
+} from "./api";
+import type {
+  PageResponse,
+  ServerStudentAnswerDetail,
+} from "@/types/server-exam";
+import type {
+  ExamRosterStatus,
+  ExamRosterStatusParams,
+  RosterStudent,
+  StudentExamHistoryParams,
+  StudentRosterParams,
+} from "./types";
+
+/**
+ * 학생 쿼리 키 관리 객체
+ * @description React Query에서 사용하는 학생 관련 캐시 키들을 관리
+ */
+export const studentKeys = {
+  /** 모든 학생 관련 쿼리의 기본 키 */
+  all: ["student"] as const,
+  /** 학생 시험 이력 쿼리들 */
+  examHistories: () => [...studentKeys.all, "exam-history"] as const,
+  /** 학생 시험 이력 쿼리 키 */
+  examHistory: (params: StudentExamHistoryParams) =>
+    [...studentKeys.examHistories(), params] as const,
+  /** 학생 명단 쿼리들 */
+  rosters: () => [...studentKeys.all, "roster"] as const,
+  /** 특정 조건의 학생 명단 쿼리 키 */
+  roster: (params: StudentRosterParams) =>
+    [...studentKeys.rosters(), params] as const,
+  /** 시험 응시 대상 쿼리 키 */
+  examAssignment: (examId: string) =>
+    [...studentKeys.all, "exam-assignment", examId] as const,
+  /** 시험 응시 현황(명단 기준) 쿼리들 */
+  examRosterStatuses: () => [...studentKeys.all, "exam-roster-status"] as const,
+  /** 특정 시험의 응시 현황(명단 기준) 쿼리 키 */
+  examRosterStatus: (params: ExamRosterStatusParams) =>
+    [...studentKeys.examRosterStatuses(), params] as const,
+} as const;
+
+/**
+ * 학생 시험 이력 조회를 위한 React Query 옵션 생성 함수
+ * @description 학생 프로필 페이지에서 응시한 모든 시험의 답안을 가져오는 쿼리 옵션
+ *
+ * 주요 기능:
+ * - 시험 수만큼 요청이 발생하므로 10분간 fresh 유지
+ * - 잘못된 학생 ID는 요청하지 않음
+ *
+ * @param params 학생 ID와 학년
+ * @returns React Query에서 사용할 쿼리 옵션 객체
+ */
+export const studentExamHistoryQueryOptions = (
+  params: StudentExamHistoryParams,
+) => {
+  return queryOptions({
+    queryKey: studentKeys.examHistory(params),
+    queryFn: ({ signal }): Promise<ServerStudentAnswerDetail[]> =>
+      fetchStudentExamHistory(params, { signal }),
+    staleTime: 10 * 60 * 1000,
+    retry: (failureCount, error) => {
+      // 권한 에러, 400은 재시도하지 않음
+      if (
+        error instanceof ApiError &&
+        [400, 401, 403].includes(error.status || 0)
+      ) {
+        return false;
+      }
+      return failureCount < 1;
+    },
+    enabled: Number.isInteger(params.studentId) && params.studentId > 0,
+  });
+};
+
+/**
+ * 학생 명단 조회를 위한 React Query 옵션 생성 함수
+ * @description 학생 관리 화면과 응시 대상 지정 다이얼로그에서 사용
+ *
+ * @param params 학년, 검색어, 페이지 정보
+ * @returns React Query에서 사용할 쿼리 옵션 객체
+ */
+export const studentRosterQueryOptions = (params: StudentRosterParams = {}) => {
+  return queryOptions({
+    queryKey: studentKeys.roster(params),
+    queryFn: ({ signal }): Promise<PageResponse<RosterStudent>> =>
+      fetchStudentRoster(params, { signal }),
+    staleTime: 60 * 1000,
+    placeholderData: (previousData) => previousData,
+  });
+};
+
+/**
+ * 시험 응시 대상 조회를 위한 React Query 옵션 생성 함수
+ *
+ * @param examId 시험 ID
+ * @returns React Query에서 사용할 쿼리 옵션 객체
+ */
+export const examAssignedStudentsQueryOptions = (examId: string) => {
+  return queryOptions({
+    queryKey: studentKeys.examAssignment(examId),
+    queryFn: ({ signal }): Promise<number[]> =>
+      fetchExamAssignedStudentIds(examId, { signal }),
+    staleTime: 60 * 1000,
+    enabled: examId.trim().length > 0,
+  });
+};
+
+/**
+ * 시험 응시 현황(명단 기준) 조회를 위한 React Query 옵션 생성 함수
+ * @description 시험 상세의 미제출 학생 목록에서 사용
+ *
+ * @param params 시험 ID와 학년
+ * @returns React Query에서 사용할 쿼리 옵션 객체
+ */
+export const examRosterStatusQueryOptions = (
+  params: ExamRosterStatusParams,
+) => {
+  return queryOptions({
+    queryKey: studentKeys.examRosterStatus(params),
+    queryFn: ({ signal }): Promise<ExamRosterStatus> =>
+      fetchExamRosterStatus(params, { signal }),
+    staleTime: 60 * 1000,
+    retry: (failureCount, error) => {
+      if (
+        error instanceof ApiError &&
+        [400, 401, 403, 404].includes(error.status || 0)
+      ) {
+        return false;
+      }
+      return failureCount < 1;
+    },
+    enabled: params.examId.trim().length > 0,
+  });
+};
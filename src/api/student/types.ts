@@ -0,0 +1,92 @@
+/**
+ * 학생 API 타입 정의
+ * @description 학생별 누적 성적(프로필) 조회 관련 타입들
+ */
+
+/**
+ * 학생 시험 이력 조회 파라미터
+ */
+export type StudentExamHistoryParams = {
+  /** 학생 ID */
+  studentId: number;
+  /** 학년 (1, 2, 3) - 해당 학년 시험만 조회 */
+  grade: 1 | 2 | 3;
+};
+
+/**
+ * 학생 정보 등록/조회 요청 (POST /auth/upsert-student)
+ * @description 이름 + 전화번호 + 생년월일이 모두 일치하면 기존 학생, 아니면 새로 등록
+ */
+export type StudentUpsertRequest = {
+  /** 학생 이름 (최대 50자) */
+  name: string;
+  /** 전화번호 (010-1234-5678 형식) */
+  phone: string;
+  /** 생년월일 (YYYY-MM-DD) */
+  birthDate: string;
+};
+
+/**
+ * 학생 정보 등록/조회 응답 데이터
+ */
+export type StudentUpsertResponse = StudentUpsertRequest & {
+  /** 학생 ID */
+  id: number;
+  /** 생성일시 */
+  createdAt: string;
+  /** 수정일시 */
+  updatedAt: string;
+};
+
+/**
+ * 학생 명단 항목
+ */
+export type RosterStudent = StudentUpsertResponse & {
+  /** 소속 학년 (미지정이면 null) */
+  grade: 1 | 2 | 3 | null;
+};
+
+/**
+ * 학생 정보 수정 요청
+ */
+export type StudentUpdateRequest = StudentUpsertRequest & {
+  /** 소속 학년 (미지정이면 null) */
+  grade: 1 | 2 | 3 | null;
+};
+
+/**
+ * 학생 명단 조회 파라미터
+ */
+export type StudentRosterParams = {
+  /** 학년 필터 */
+  grade?: 1 | 2 | 3;
+  /** 이름 또는 전화번호 검색어 */
+  search?: string;
+  /** 페이지 번호 (0부터 시작) */
+  page?: number;
+  /** 페이지 크기 (기본 20) */
+  size?: number;
+};
+
+/**
+ * 시험 응시 현황 조회 파라미터
+ */
+export type ExamRosterStatusParams = {
+  /** 시험 ID */
+  examId: string;
+  /** 시험 학년 */
+  grade: 1 | 2 | 3;
+};
+
+/**
+ * 시험 응시 현황 (명단 기준)
+ * @description 미제출 학생 계산에 필요한 명단, 응시 대상, 제출자 정보
+ */
+export type ExamRosterStatus = {
+  /** 시험 학년의 전체 학생 명단 */
+  students: RosterStudent[];
+  /** 시험에 배정된 학생 ID 목록 (비어 있으면 학년 전체가 대상) */
+  assignedStudentIds: number[];
+  /** 답안을 제출한 학생 ID 목록 */
+  submittedStudentIds: number[];
+};
@@ -0,0 +1,103 @@
+/**
+ * 텍스트 인식(OCR) API 함수들
+ * @description 종이 답안지 사진을 업로드하여 AI 텍스트 인식 작업을 제출하는 함수들
+ *
+ * 모든 응답은 ApiResponse<T> 형태로 래핑됨 (인터셉터에서 자동 처리)
+ */
+
+import type { AxiosProgressEvent } from "axios";
+import { apiClient } from "@/api/client";
+import type {
+  SubmitTextRecognitionParams,
+  SubmitTextRecognitionResponse,
+} from "./types";
+
+/**
+ * 인식 가능한 이미지 MIME 타입 목록
+ * @description 서버 지원 형식: JPEG, PNG, WEBP, GIF
+ */
+export const SUPPORTED_RECOGNITION_FILE_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "image/gif",
+] as const;
+
+/** 인식 이미지 최대 파일 크기 (20MB) */
+export const MAX_RECOGNITION_FILE_SIZE = 20 * 1024 * 1024;
+
+/**
+ * 텍스트 인식 작업 제출 API
+ * @description 답안지 이미지 파일을 업로드하여 텍스트 인식 작업을 시작
+ *
+ * 주요 기능:
+ * - multipart/form-data 로 이미지 업로드
+ * - 업로드 진행률 콜백 지원
+ * - 요청 취소(AbortSignal) 지원
+ * - 반환된 jobId로 SSE 구독(subscribeToJobEvents) 가능
+ *
+ * @param file 텍스트 인식할 이미지 파일 (JPEG/PNG/WEBP/GIF, 최대 20MB)
+ * @param params 인식 옵션 (페이지 번호, 질문 유형, 학년 수준)
+ * @param options 추가 옵션
+ * @param options.signal 요청 취소를 위한 AbortSignal
+ * @param options.onUploadProgress 업로드 진행률 콜백 (0~100)
+ * @returns 제출된 작업 정보 (jobId, status)
+ * @throws {ApiError} 파일 형식/크기 오류(400) 또는 네트워크 에러
+ *
+ * @example
+ * ```typescript
+ * const { jobId } = await submitTextRecognition(file, { pageNumber: 1 }, {
+ *   onUploadProgress: (percent) => console.log(`${percent}%`),
+ * });
+ * ```
+ */
+export async function submitTextRecognition(
+  file: File,
+  params: SubmitTextRecognitionParams = {},
+  options: {
+    signal?: AbortSignal;
+    onUploadProgress?: (percent: number) => void;
+  } = {},
+): Promise<SubmitTextRecognitionResponse> {
+  const formData = new FormData();
+  formData.append("file", file);
+
+  const queryParams = new URLSearchParams();
+  if (params.pageNumber !== undefined) {
+    queryParams.append("pageNumber", params.pageNumber.toString());
+  }
+  if (params.questionType) {
+    queryParams.append("questionType", params.questionType);
+  }
+  if (params.gradeLevel) {
+    queryParams.append("gradeLevel", params.gradeLevel);
+  }
+
+  const queryString = queryParams.toString();
+  const url = `/text-recognition/submit${queryString ? `?${queryString}` : ""}`;
+
+  try {
+    const response = await apiClient.post<SubmitTextRecognitionResponse>(
+      url,
+      formData,
+      {
+        signal: options.signal,
+        // 기본 JSON 헤더 대신 boundary가 포함된 multipart 헤더 사용
+        headers: { "Content-Type": "multipart/form-data" },
+        // 이미지 업로드는 기본 10초 타임아웃보다 오래 걸릴 수 있음
+        timeout: 60 * 1000,
+        onUploadProgress: (event: AxiosProgressEvent) => {
+          if (options.onUploadProgress && event.total) {
+            options.onUploadProgress(
+              Math.round((event.loaded / event.total) * 100),
+            );
+          }
+        },
+      },
+    );
+    return response.data;
+  } catch (error) {
+    console.error(`텍스트 인식 작업 제출 실패 (파일: ${file.name}):`, error);
+    throw error;
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * 텍스트 인식(OCR) API 모듈 통합 export
+ * @description 답안지 사진 인식 관련 API의 모든 기능을 한 곳에서 export
+ */
+
+// API 클라이언트 함수들
+export {
+  submitTextRecognition,
+  SUPPORTED_RECOGNITION_FILE_TYPES,
+  MAX_RECOGNITION_FILE_SIZE,
+} from "./api";
+
+// SSE 작업 이벤트 구독
+export {
+  subscribeToJobEvents,
+  JOB_EVENTS_RECONNECT_INTERVAL,
+  JOB_EVENTS_TIMEOUT,
+  type SubscribeToJobEventsOptions,
+  type JobEventsSubscription,
+} from "./sse";
+
+// 타입들
+export type {
+  TextRecognitionJobStatus,
+  SubmitTextRecognitionParams,
+  SubmitTextRecognitionResponse,
+  BoundingBox,
+  RecognizedAnswer,
+  TextRecognitionEventName,
+  JobStatusEvent,
+  JobResultEvent,
+  JobErrorEvent,
+  JobEventConnectionState,
+  JobEventHandlers,
+} from "./types";
@@ -0,0 +1,232 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  JOB_EVENTS_RECONNECT_INTERVAL,
+  JOB_EVENTS_TIMEOUT,
+  subscribeToJobEvents,
+} from "./sse";
+import type { JobEventHandlers } from "./types";
+
+/**
+ * 테스트용 EventSource
+ * @description 서버 이벤트·연결 끊김을 직접 발생시키는 최소 구현
+ */
+class FakeEventSource {
+  readonly url: string;
+  onopen: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  isClosed = false;
+  private readonly listeners = new Map<
+    string,
+    ((event: MessageEvent) => void)[]
+  >();
+
+  constructor(url: string) {
+    this.url = url;
+  }
+
+  addEventListener(type: string, listener: (event: MessageEvent) => void) {
+    this.listeners.set(type, [...(this.listeners.get(type) ?? []), listener]);
+  }
+
+  close() {
+    this.isClosed = true;
+  }
+
+  open() {
+    this.onopen?.();
+  }
+
+  emit(type: string, data: unknown) {
+    const event = new MessageEvent(type, { data: JSON.stringify(data) });
+    this.listeners.get(type)?.forEach((listener) => listener(event));
+  }
+
+  drop() {
+    this.onerror?.();
+  }
+}
+
+const JOB_ID = "job_1";
+
+const RESULT_EVENT = {
+  jobId: JOB_ID,
+  status: "COMPLETED",
+  answers: [{ questionNumber: 1, recognizedText: "3", confidence: 0.98 }],
+};
+
+function setup(
+  fetchEvents = vi.fn(() => Promise.resolve(new Response("", { status: 200 }))),
+) {
+  const sources: FakeEventSource[] = [];
+  const handlers = {
+    onStatus: vi.fn(),
+    onResult: vi.fn(),
+    onError: vi.fn(),
+    onConnectionChange: vi.fn(),
+  } satisfies JobEventHandlers;
+
+  const subscription = subscribeToJobEvents(JOB_ID, handlers, {
+    baseUrl: "http://localhost:4010",
+    createEventSource: (url) => {
+      const source = new FakeEventSource(url);
+      sources.push(source);
+      return source as unknown as EventSource;
+    },
+    fetchEvents,
+  });
+
+  return { sources, handlers, subscription, fetchEvents };
+}
+
+describe("subscribeToJobEvents", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("작업 이벤트 주소로 연결하고 JOB_RESULT 수신 시 결과 전달 후 종료", () => {
+    const { sources, handlers } = setup();
+    const [source] = sources;
+
+    expect(source.url).toBe(
+      "http://localhost:4010/text-recognition/jobs/job_1/events",
+    );
+    source.open();
+    source.emit("JOB_STATUS", { jobId: JOB_ID, status: "PROCESSING" });
+    source.emit("JOB_RESULT", RESULT_EVENT);
+
+    expect(handlers.onStatus).toHaveBeenCalledWith({
+      jobId: JOB_ID,
+      status: "PROCESSING",
+    });
+    expect(handlers.onResult).toHaveBeenCalledWith(RESULT_EVENT);
+    expect(handlers.onError).not.toHaveBeenCalled();
+    expect(source.isClosed).toBe(true);
+    expect(handlers.onConnectionChange).toHaveBeenLastCalledWith("closed");
+  });
+
+  it("JOB_ERROR 수신 시 서버 오류 메시지로 실패 처리", () => {
+    const { sources, handlers } = setup();
+
+    sources[0].emit("JOB_ERROR", {
+      jobId: JOB_ID,
+      status: "FAILED",
+      errorMessage: "이미지를 읽을 수 없습니다.",
+    });
+
+    expect(handlers.onError).toHaveBeenCalledWith({
+      jobId: JOB_ID,
+      status: "FAILED",
+      errorMessage: "이미지를 읽을 수 없습니다.",
+    });
+    expect(sources[0].isClosed).toBe(true);
+  });
+
+  it("일반 연결 끊김은 재연결 간격 후 다시 연결", async () => {
+    const { sources, handlers, fetchEvents } = setup();
+
+    sources[0].drop();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(fetchEvents).toHaveBeenCalledTimes(1);
+    expect(sources[0].isClosed).toBe(true);
+    expect(handlers.onConnectionChange).toHaveBeenLastCalledWith(
+      "reconnecting",
+    );
+    expect(sources).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(JOB_EVENTS_RECONNECT_INTERVAL);
+    expect(sources).toHaveLength(2);
+
+    sources[1].emit("JOB_RESULT", RESULT_EVENT);
+    expect(handlers.onResult).toHaveBeenCalledWith(RESULT_EVENT);
+  });
+
+  it("재연결 한도를 넘기면 실패 처리", async () => {
+    const { sources, handlers } = setup();
+
+    for (let attempt = 0; attempt <= 10; attempt++) {
+      sources[sources.length - 1].drop();
+      await vi.advanceTimersByTimeAsync(JOB_EVENTS_RECONNECT_INTERVAL);
+    }
+
+    expect(sources).toHaveLength(11);
+    expect(handlers.onError).toHaveBeenCalledWith(
+      expect.objectContaining({ status: "FAILED" }),
+    );
+  });
+
+  it("30분 안에 결과가 없으면 타임아웃으로 실패 처리", async () => {
+    const { sources, handlers } = setup();
+
+    await vi.advanceTimersByTimeAsync(JOB_EVENTS_TIMEOUT - 1);
+    expect(handlers.onError).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(handlers.onError).toHaveBeenCalledWith({
+      jobId: JOB_ID,
+      status: "FAILED",
+      errorMessage: "인식 작업 대기 시간이 초과되었습니다.",
+    });
+    expect(sources[0].isClosed).toBe(true);
+  });
+
+  it("이미 완료된 작업(410)은 재연결 없이 응답 본문의 결과 전달", async () => {
+    const body = `event: JOB_STATUS\ndata: ${JSON.stringify({ jobId: JOB_ID, status: "COMPLETED" })}\n\nevent: JOB_RESULT\ndata: ${JSON.stringify(RESULT_EVENT)}\n\n`;
+    const { sources, handlers } = setup(
+      vi.fn(() => Promise.resolve(new Response(body, { status: 410 }))),
+    );
+
+    sources[0].drop();
+    await vi.advanceTimersByTimeAsync(JOB_EVENTS_RECONNECT_INTERVAL * 2);
+
+    expect(handlers.onResult).toHaveBeenCalledWith(RESULT_EVENT);
+    expect(handlers.onError).not.toHaveBeenCalled();
+    expect(sources).toHaveLength(1);
+    expect(handlers.onConnectionChange).toHaveBeenLastCalledWith("closed");
+  });
+
+  it("이미 완료된 작업(410)에 결과가 없으면 재연결 없이 실패 처리", async () => {
+    const { sources, handlers } = setup(
+      vi.fn(() => Promise.resolve(new Response("", { status: 410 }))),
+    );
+
+    sources[0].drop();
+    await vi.advanceTimersByTimeAsync(JOB_EVENTS_RECONNECT_INTERVAL * 2);
+
+    expect(handlers.onError).toHaveBeenCalledTimes(1);
+    expect(sources).toHaveLength(1);
+  });
+
+  it("존재하지 않는 작업(404)은 재연결 없이 실패 처리", async () => {
+    const { sources, handlers } = setup(
+      vi.fn(() => Promise.resolve(new Response("", { status: 404 }))),
+    );
+
+    sources[0].drop();
+    await vi.advanceTimersByTimeAsync(JOB_EVENTS_RECONNECT_INTERVAL * 2);
+
+    expect(handlers.onError).toHaveBeenCalledWith({
+      jobId: JOB_ID,
+      status: "FAILED",
+      errorMessage: "인식 작업을 찾을 수 없습니다.",
+    });
+    expect(sources).toHaveLength(1);
+  });
+
+  it("close 호출 후에는 이벤트와 재연결을 무시", async () => {
+    const { sources, handlers, subscription } = setup();
+
+    subscription.close();
+    sources[0].emit("JOB_RESULT", RESULT_EVENT);
+    sources[0].drop();
+    await vi.advanceTimersByTimeAsync(JOB_EVENTS_TIMEOUT);
+
+    expect(handlers.onResult).not.toHaveBeenCalled();
+    expect(handlers.onError).not.toHaveBeenCalled();
+    expect(sources).toHaveLength(1);
+  });
+});
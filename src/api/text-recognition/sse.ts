@@ -0,0 +1,298 @@
+/**
+ * 텍스트 인식 작업 SSE 구독
+ * @description GET /text-recognition/jobs/{jobId}/events 스트림을 구독하여 작업 진행 상황을 실시간으로 수신
+ *
+ * 서버 이벤트:
+ * - JOB_STATUS: 작업 상태 변경 (SUBMITTED → PROCESSING → COMPLETED/FAILED)
+ * - JOB_RESULT: 최종 인식 결과 (완료 시)
+ * - JOB_ERROR: 오류 정보 (실패 시)
+ *
+ * 서버 제약:
+ * - 연결 타임아웃 30분
+ * - 연결 끊김 시 3초 후 재연결 권장
+ * - 존재하지 않는 작업(404), 이미 완료된 작업(410)은 재연결하지 않음
+ *
+ * EventSource는 HTTP 상태 코드를 노출하지 않으므로, 연결이 끊기면 같은 주소를 fetch로 한 번 더 요청해 상태 확인:
+ * - 404: 재연결 없이 실패 처리
+ * - 410: 응답 본문(이벤트 스트림)에 담긴 최종 JOB_RESULT/JOB_ERROR를 읽어 전달 (구독 전에 끝난 작업의 결과 보존)
+ * - 그 외: 일반 끊김으로 보고 reconnectInterval 후 재연결
+ */
+
+import { apiBaseUrl } from "@/api/client";
+import { logger } from "@/utils/logger";
+import type {
+  JobErrorEvent,
+  JobEventConnectionState,
+  JobEventHandlers,
+  JobResultEvent,
+  JobStatusEvent,
+} from "./types";
+
+/** 재연결 대기 시간 기본값 (서버 권장 3초) */
+export const JOB_EVENTS_RECONNECT_INTERVAL = 3 * 1000;
+
+/** 작업 구독 최대 유지 시간 기본값 (서버 타임아웃 30분) */
+export const JOB_EVENTS_TIMEOUT = 30 * 60 * 1000;
+
+/**
+ * 작업 이벤트 구독 옵션
+ * @description 로컬 mock SSE 서버로 테스트할 수 있도록 주소와 EventSource 생성을 주입 가능
+ */
+export type SubscribeToJobEventsOptions = {
+  /** API 기본 URL (기본: apiBaseUrl) */
+  baseUrl?: string;
+  /** 재연결 대기 시간 (ms, 기본 3초) */
+  reconnectInterval?: number;
+  /** 전체 구독 타임아웃 (ms, 기본 30분) */
+  timeout?: number;
+  /** 연속 재연결 실패 허용 횟수 (기본 10회) */
+  maxReconnectAttempts?: number;
+  /** EventSource 생성 함수 (테스트용 교체 가능) */
+  createEventSource?: (url: string) => EventSource;
+  /** 연결 끊김 시 상태 확인 요청 함수 (테스트용 교체 가능, 기본: fetch) */
+  fetchEvents?: (url: string, init: RequestInit) => Promise<Response>;
+};
+
+/**
+ * 작업 이벤트 구독 핸들
+ * @description 구독 해제용 close 함수 제공
+ */
+export type JobEventsSubscription = {
+  /** 구독 해제 및 연결 종료 */
+  close: () => void;
+};
+
+const sseLogger = logger.getSubLogger({ name: "TextRecognitionSSE" });
+
+function defaultCreateEventSource(url: string): EventSource {
+  // 세션 쿠키 기반 인증이므로 자격 증명 포함
+  return new EventSource(url, { withCredentials: true });
+}
+
+function defaultFetchEvents(url: string, init: RequestInit): Promise<Response> {
+  return fetch(url, init);
+}
+
+function parseEventData<T>(data: unknown): T | null {
+  try {
+    return JSON.parse(data as string) as T;
+  } catch (error) {
+    sseLogger.warn("SSE 이벤트 데이터 파싱 실패", { data, error });
+    return null;
+  }
+}
+
+/**
+ * 이벤트 스트림 본문 파싱 함수
+ * @description `event:`/`data:` 줄로 된 SSE 텍스트를 이벤트 목록으로 변환 (빈 줄로 이벤트 구분)
+ */
+function parseEventStream(text: string): { type: string; data: string }[] {
+  return text
+    .split(/\r?\n\r?\n/)
+    .map((block) => {
+      let type = "message";
+      const dataLines: string[] = [];
+      block.split(/\r?\n/).forEach((line) => {
+        if (line.startsWith("event:")) type = line.slice(6).trim();
+        if (line.startsWith("data:")) dataLines.push(line.slice(5).trimStart());
+      });
+      return { type, data: dataLines.join("\n") };
+    })
+    .filter((event) => event.data.length > 0);
+}
+
+/**
+ * 텍스트 인식 작업 이벤트 구독 함수
+ * @description jobId의 SSE 스트림에 연결하고, 연결이 끊기면 스스로 재연결
+ *
+ * 주요 기능:
+ * - JOB_STATUS / JOB_RESULT / JOB_ERROR named event 수신
+ * - 결과 또는 오류 수신 시 연결 자동 종료
+ * - 연결 끊김 시 reconnectInterval 후 재연결 (브라우저 기본 재연결 대신 직접 제어)
+ * - 404/410 응답은 재연결하지 않음 (410은 본문의 최종 결과를 전달)
+ * - 전체 timeout 초과 또는 재연결 한도 초과 시 onError로 알림 후 종료
+ *
+ * @param jobId 구독할 작업 ID
+ * @param handlers 이벤트 핸들러 모음
+ * @param options 연결 옵션
+ * @returns 구독 해제 핸들
+ *
+ * @example
+ * ```typescript
+ * const subscription = subscribeToJobEvents(jobId, {
+ *   onStatus: (event) => console.log(event.status),
+ *   onResult: (event) => console.log(event.answers),
+ *   onError: (event) => console.error(event.errorMessage),
+ * });
+ *
+ * // 컴포넌트 언마운트 시
+ * subscription.close();
+ * ```
+ */
+export function subscribeToJobEvents(
+  jobId: string,
+  handlers: JobEventHandlers,
+  options: SubscribeToJobEventsOptions = {},
+): JobEventsSubscription {
+  const {
+    baseUrl = apiBaseUrl,
+    reconnectInterval = JOB_EVENTS_RECONNECT_INTERVAL,
+    timeout = JOB_EVENTS_TIMEOUT,
+    maxReconnectAttempts = 10,
+    createEventSource = defaultCreateEventSource,
+    fetchEvents = defaultFetchEvents,
+  } = options;
+
+  const url = `${baseUrl}/text-recognition/jobs/${encodeURIComponent(jobId)}/events`;
+
+  let eventSource: EventSource | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let timeoutTimer: ReturnType<typeof setTimeout> | null = null;
+  let reconnectAttempts = 0;
+  let isClosed = false;
+
+  const setConnectionState = (state: JobEventConnectionState) => {
+    handlers.onConnectionChange?.(state);
+  };
+
+  const close = () => {
+    if (isClosed) return;
+    isClosed = true;
+
+    if (reconnectTimer) {
+      clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+    }
+    if (timeoutTimer) {
+      clearTimeout(timeoutTimer);
+      timeoutTimer = null;
+    }
+    eventSource?.close();
+    eventSource = null;
+    setConnectionState("closed");
+  };
+
+  const fail = (errorMessage: string) => {
+    if (isClosed) return;
+    handlers.onError?.({ jobId, status: "FAILED", errorMessage });
+    close();
+  };
+
+  const handleStatus = (raw: unknown) => {
+    if (isClosed) return;
+    const data = parseEventData<JobStatusEvent>(raw);
+    if (data) handlers.onStatus?.(data);
+  };
+
+  const handleResult = (raw: unknown) => {
+    if (isClosed) return;
+    const data = parseEventData<JobResultEvent>(raw);
+    if (!data) return;
+    handlers.onResult?.(data);
+    close();
+  };
+
+  const handleError = (raw: unknown) => {
+    if (isClosed) return;
+    const data = parseEventData<JobErrorEvent>(raw);
+    fail(data?.errorMessage ?? "텍스트 인식 중 오류가 발생했습니다.");
+  };
+
+  /**
+   * 끊긴 연결의 HTTP 상태 확인
+   * @returns 작업이 끝나 재연결하지 않아야 하면 true
+   */
+  const settleTerminalStatus = async (): Promise<boolean> => {
+    const controller = new AbortController();
+    try {
+      const response = await fetchEvents(url, {
+        credentials: "include",
+        headers: { Accept: "text/event-stream" },
+        signal: controller.signal,
+      });
+
+      if (response.status === 404) {
+        sseLogger.warn("SSE 작업 없음(404)", { jobId });
+        fail("인식 작업을 찾을 수 없습니다.");
+        return true;
+      }
+
+      if (response.status === 410) {
+        sseLogger.info("SSE 이미 완료된 작업(410), 최종 이벤트 확인", {
+          jobId,
+        });
+        const events = parseEventStream(await response.text());
+        events.forEach(({ type, data }) => {
+          if (type === "JOB_STATUS") handleStatus(data);
+          if (type === "JOB_RESULT") handleResult(data);
+          if (type === "JOB_ERROR") handleError(data);
+        });
+        fail("이미 완료된 작업이지만 인식 결과를 받지 못했습니다.");
+        return true;
+      }
+
+      // 스트림이 다시 열린 경우 등: 확인용 요청은 닫고 EventSource로 재연결
+      controller.abort();
+      return false;
+    } catch (error) {
+      controller.abort();
+      sseLogger.warn("SSE 상태 확인 실패", { jobId, error });
+      return false;
+    }
+  };
+
+  const connect = () => {
+    if (isClosed) return;
+
+    const source = createEventSource(url);
+    eventSource = source;
+
+    source.onopen = () => {
+      reconnectAttempts = 0;
+      setConnectionState("open");
+    };
+
+    source.addEventListener("JOB_STATUS", (event) => handleStatus(event.data));
+    source.addEventListener("JOB_RESULT", (event) => handleResult(event.data));
+    source.addEventListener("JOB_ERROR", (event) => handleError(event.data));
+
+    source.onerror = async () => {
+      if (isClosed) return;
+
+      // 브라우저 자동 재연결을 막고 직접 간격/횟수를 제어
+      source.close();
+      eventSource = null;
+
+      if ((await settleTerminalStatus()) || isClosed) return;
+
+      reconnectAttempts += 1;
+
+      if (reconnectAttempts > maxReconnectAttempts) {
+        sseLogger.error("SSE 재연결 한도 초과", { jobId, reconnectAttempts });
+        fail("인식 서버와의 연결이 끊어졌습니다. 다시 시도해주세요.");
+        return;
+      }
+
+      sseLogger.warn("SSE 연결 끊김, 재연결 대기", {
+        jobId,
+        reconnectAttempts,
+        reconnectInterval,
+      });
+      setConnectionState("reconnecting");
+      reconnectTimer = setTimeout(() => {
+        reconnectTimer = null;
+        connect();
+      }, reconnectInterval);
+    };
+  };
+
+  timeoutTimer = setTimeout(() => {
+    sseLogger.warn("SSE 구독 타임아웃", { jobId, timeout });
+    fail("인식 작업 대기 시간이 초과되었습니다.");
+  }, timeout);
+
+  setConnectionState("connecting");
+  connect();
+
+  return { close };
+}
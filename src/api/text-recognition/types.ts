@@ -0,0 +1,157 @@
+/**
+ * 텍스트 인식(OCR) API 타입 정의
+ * @description 답안지 사진 인식 작업 제출 및 SSE 이벤트 스트림의 서버 데이터 구조
+ *
+ * API 엔드포인트:
+ * - POST /text-recognition/submit: 인식 작업 제출 (multipart/form-data)
+ * - GET /text-recognition/jobs/{jobId}/events: 작업 상태 SSE 스트림
+ */
+
+/**
+ * 텍스트 인식 작업 상태
+ * @description 서버의 작업 상태 enum과 일치
+ *
+ * - SUBMITTED: 작업 접수 (AI 서버 전송 대기)
+ * - PROCESSING: AI 서버에서 인식 중
+ * - COMPLETED: 인식 완료 (JOB_RESULT 이벤트로 결과 전달)
+ * - FAILED: 인식 실패 (JOB_ERROR 이벤트로 오류 전달)
+ */
+export type TextRecognitionJobStatus =
+  | "SUBMITTED"
+  | "PROCESSING"
+  | "COMPLETED"
+  | "FAILED";
+
+/**
+ * 텍스트 인식 작업 제출 파라미터
+ * @description POST /text-recognition/submit 쿼리 파라미터
+ */
+export type SubmitTextRecognitionParams = {
+  /** 페이지 번호 (기본 1) */
+  pageNumber?: number;
+  /** 질문 유형 (기본 "단답형") */
+  questionType?: string;
+  /** 학년 수준 (기본 "중학교") */
+  gradeLevel?: string;
+};
+
+/**
+ * 텍스트 인식 작업 제출 응답
+ * @description 작업 제출 성공 시 반환되는 작업 정보
+ */
+export type SubmitTextRecognitionResponse = {
+  /** 작업 ID (SSE 구독에 사용) */
+  jobId: string;
+  /** 제출 직후 작업 상태 */
+  status: TextRecognitionJobStatus;
+};
+
+/**
+ * 답안 영역 좌표
+ * @description 서버의 BoundingBox와 동일 (이미지 픽셀 기준)
+ */
+export type BoundingBox = {
+  /** X 좌표 */
+  x: number;
+  /** Y 좌표 */
+  y: number;
+  /** 너비 */
+  width: number;
+  /** 높이 */
+  height: number;
+};
+
+/**
+ * AI가 인식한 답안 정보
+ * @description 서버의 RecognizedAnswer와 동일
+ */
+export type RecognizedAnswer = {
+  /** 문제 번호 */
+  questionNumber: number;
+  /** 인식된 답안 텍스트 */
+  recognizedText: string;
+  /** 신뢰도 (0.0 ~ 1.0) */
+  confidence: number;
+  /** 답안 영역 좌표 정보 */
+  boundingBox?: BoundingBox;
+};
+
+/**
+ * SSE 이벤트 이름
+ * @description 서버가 전송하는 named event 종류
+ */
+export type TextRecognitionEventName =
+  | "JOB_STATUS"
+  | "JOB_RESULT"
+  | "JOB_ERROR";
+
+/**
+ * JOB_STATUS 이벤트 데이터
+ * @description 작업 상태 변경 알림
+ */
+export type JobStatusEvent = {
+  /** 작업 ID */
+  jobId: string;
+  /** 변경된 작업 상태 */
+  status: TextRecognitionJobStatus;
+  /** 상태 메시지 */
+  message?: string;
+};
+
+/**
+ * JOB_RESULT 이벤트 데이터
+ * @description 최종 텍스트 인식 결과 (완료 시)
+ */
+export type JobResultEvent = {
+  /** 작업 ID */
+  jobId: string;
+  /** 작업 상태 (COMPLETED) */
+  status: TextRecognitionJobStatus;
+  /** 인식된 답안 목록 */
+  answers: RecognizedAnswer[];
+  /** 메타데이터 정보 */
+  metadata?: string;
+};
+
+/**
+ * JOB_ERROR 이벤트 데이터
+ * @description 오류 정보 (실패 시)
+ */
+export type JobErrorEvent = {
+  /** 작업 ID */
+  jobId: string;
+  /** 작업 상태 (FAILED) */
+  status?: TextRecognitionJobStatus;
+  /** 오류 메시지 */
+  errorMessage: string;
+};
+
+/**
+ * SSE 연결 상태
+ * @description 클라이언트 측 EventSource 연결 상태
+ *
+ * - connecting: 최초 연결 시도 중
+ * - open: 연결됨 (이벤트 수신 가능)
+ * - reconnecting: 연결이 끊겨 재연결 대기 중
+ * - closed: 작업 종료 또는 구독 해제로 연결 종료
+ */
+export type JobEventConnectionState =
+  | "connecting"
+  | "open"
+  | "reconnecting"
+  | "closed";
+
+/**
+ * 작업 이벤트 핸들러 모음
+ * @description subscribeToJobEvents에 전달하는 콜백들
+ */
+export type JobEventHandlers = {
+  /** 작업 상태 변경 시 */
+  onStatus?: (event: JobStatusEvent) => void;
+  /** 최종 결과 수신 시 (이후 연결 자동 종료) */
+  onResult?: (event: JobResultEvent) => void;
+  /** 작업 실패 또는 연결 불가 시 (이후 연결 자동 종료) */
+  onError?: (event: JobErrorEvent) => void;
+  /** SSE 연결 상태 변경 시 */
+  onConnectionChange?: (state: JobEventConnectionState) => void;
+};
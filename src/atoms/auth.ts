@@ -1,105 +1,86 @@
 import { atom } from "jotai";
-import { atomWithStorage } from "jotai/utils";
-import { atomWithQuery } from "jotai-tanstack-query";
+import { RESET } from "jotai/utils";
+import { atomWithQuery, queryClientAtom } from "jotai-tanstack-query";
 import {
   login as loginApi,
   logout as logoutApi,
+  authKeys,
   currentUserQueryOptions,
 } from "@/api/auth";
-import type { User, LoginRequest } from "@/api/auth";
+import type { LoginRequest } from "@/api/auth";
+import { attachedRecognitionResultsAtom } from "@/atoms/textRecognition";
 
 /**
  * Jotai 인증 상태 관리
- * @description 서버 API와 연동된 전역 인증 상태 관리 시스템
+ * @description 서버 세션(httpOnly 쿠키)과 연동된 전역 인증 상태 관리 시스템
  *
  * 주요 특징:
- * - 서버 API 함수 활용으로 실제 백엔드 연동 준비 완료
- * - localStorage 기반 상태 영속화
- * - React Query와 통합된 사용자 정보 관리
+ * - 인증 여부의 단일 진실 공급원은 서버 세션 (GET /teachers/me)
+ * - localStorage에 인증 상태를 저장하지 않음 (위조 및 계정 간 데이터 혼입 방지)
+ * - React Query 캐시와 통합된 사용자 정보 관리
  * - 타입 안전성 보장
  */
 
 /**
- * 로그인 상태 관리 atom
- * @description 사용자의 인증 상태를 전역에서 관리하는 atom
+ * 현재 사용자 정보 쿼리 atom
+ * @description React Query와 통합된 현재 사용자(세션) 정보 조회
  *
  * 주요 기능:
- * - localStorage에 자동 저장 (새로고침 후에도 유지)
- * - 모든 컴포넌트에서 로그인 상태 확인 가능
- * - 자동 로그아웃 시 false로 변경
+ * - 서버 세션 기반으로 최신 사용자 정보 조회
+ * - 세션이 없으면 data가 null
+ * - 로그인/로그아웃 시 loginAtom/logoutAtom이 캐시를 직접 갱신
  *
  * @example
  * ```typescript
- * // 로그인 상태 확인
- * const isAuthenticated = useAtomValue(isAuthenticatedAtom);
+ * const { data: user, isLoading, error } = useAtomValue(currentUserQueryAtom);
  *
- * // 로그인 상태 변경
- * const setIsAuthenticated = useSetAtom(isAuthenticatedAtom);
- * setIsAuthenticated(true); // 로그인 처리
+ * if (isLoading) return <Loading />;
+ * if (!user) return <LoginRedirect />;
+ * return <UserProfile user={user} />;
  * ```
  */
-export const isAuthenticatedAtom = atomWithStorage("isAuthenticated", false);
+export const currentUserQueryAtom = atomWithQuery(() => {
+  return currentUserQueryOptions();
+});
 
 /**
- * 사용자 정보 atom (서버 타입 기반)
- * @description 서버에서 받은 사용자 정보를 localStorage에 영구 저장
- *
- * 주요 기능:
- * - 서버 API 응답 구조와 일치하는 타입 사용
- * - localStorage에 자동 저장으로 새로고침 후에도 유지
- * - 로그아웃 시 초기값으로 리셋
+ * 사용자 정보 atom (derived)
+ * @description 서버 세션에서 조회한 현재 사용자 정보 (미인증 시 null)
  *
  * @example
  * ```typescript
- * // 사용자 정보 조회
  * const user = useAtomValue(userAtom);
- * console.log(`안녕하세요, ${user.name}님!`);
- *
- * // 사용자 정보 설정
- * const setUser = useSetAtom(userAtom);
- * setUser(serverUserData);
+ * if (user) console.log(`안녕하세요, ${user.name}님!`);
  * ```
  */
-export const userAtom = atomWithStorage<Partial<User>>("user", {
-  id: 0,
-  username: "",
-  email: "",
-  name: "",
-  role: "teacher",
-  createdAt: "",
-  lastLoginAt: "",
+export const userAtom = atom((get) => {
+  const { data } = get(currentUserQueryAtom);
+  return data ?? null;
 });
 
 /**
- * 현재 사용자 정보 쿼리 atom
- * @description React Query와 통합된 현재 사용자 정보 조회
+ * 로그인 상태 atom (derived)
+ * @description 서버 세션 존재 여부로 계산되는 인증 상태
  *
  * 주요 기능:
- * - 서버에서 최신 사용자 정보 조회
- * - 자동 캐싱 및 백그라운드 업데이트
- * - 인증 에러 시 자동 에러 처리
+ * - 모든 컴포넌트에서 로그인 상태 확인 가능
+ * - 세션 만료 또는 로그아웃 시 자동으로 false
  *
  * @example
  * ```typescript
- * const { data: user, isLoading, error } = useAtomValue(currentUserQueryAtom);
- *
- * if (isLoading) return <Loading />;
- * if (error) return <LoginRedirect />;
- * return <UserProfile user={user} />;
+ * const isAuthenticated = useAtomValue(isAuthenticatedAtom);
  * ```
  */
-export const currentUserQueryAtom = atomWithQuery(() => {
-  return currentUserQueryOptions();
-});
+export const isAuthenticatedAtom = atom((get) => get(userAtom) !== null);
 
 /**
  * 로그인 처리 atom
- * @description 서버 API를 사용한 로그인 로직 처리
+ * @description 서버 API(POST /teachers/login)를 사용한 로그인 로직 처리
  *
  * 주요 기능:
- * - 서버 API 호출로 실제 인증 처리
- * - 성공 시 사용자 정보와 인증 상태 업데이트
- * - 에러 처리 및 사용자 친화적 메시지 제공
+ * - 서버 API 호출로 실제 인증 처리 (세션 쿠키는 서버가 설정)
+ * - 이전 계정의 캐시·브라우저 보관 데이터 제거(resetSessionAtom) 후 현재 사용자 캐시 갱신
+ * - 에러는 컴포넌트에서 처리할 수 있도록 그대로 전달
  *
  * @example
  * ```typescript
@@ -109,7 +90,7 @@ export const currentUserQueryAtom = atomWithQuery(() => {
  *   try {
  *     const result = await login(credentials);
  *     if (result.success) {
- *       navigate("/main");
+ *       navigate({ to: "/main" });
  *     }
  *   } catch (error) {
  *     toast.error(getErrorMessage(error));
@@ -120,61 +101,70 @@ export const currentUserQueryAtom = atomWithQuery(() => {
 export const loginAtom = atom(
   null,
   async (get, set, credentials: LoginRequest) => {
-    try {
-      // 서버 API를 통한 로그인 처리
-      const response = await loginApi(credentials);
+    const queryClient = get(queryClientAtom);
 
-      // 로그인 성공 시 상태 업데이트
-      set(userAtom, response.user);
-      set(isAuthenticatedAtom, true);
+    // 서버 API를 통한 로그인 처리
+    const response = await loginApi(credentials);
 
-      return {
-        success: true,
-        user: response.user,
-      };
-    } catch (error) {
-      // 에러 발생 시 상태 초기화
-      set(userAtom, {
-        id: 0,
-        username: "",
-        email: "",
-        name: "",
-        role: "teacher",
-        createdAt: "",
-        lastLoginAt: "",
-      });
-      set(isAuthenticatedAtom, false);
+    // 다른 계정으로 조회된 데이터가 남지 않도록 초기화 후 세션 정보 반영
+    set(resetSessionAtom);
+    queryClient.setQueryData(authKeys.currentUser(), response.user);
 
-      throw error; // 컴포넌트에서 에러 처리할 수 있도록 재발생
-    }
+    return {
+      success: true,
+      user: response.user,
+    };
   },
 );
 
+/**
+ * 세션 초기화 atom
+ * @description 클라이언트에 남아 있는 세션/서버 데이터 캐시를 모두 제거
+ *
+ * 주요 기능:
+ * - 이전 사용자의 모든 서버 데이터 캐시 제거
+ * - 현재 사용자 캐시를 null로 설정하여 인증 관련 atom 일괄 초기화
+ * - localStorage에 보관한 학생 답안 인식 첨부 결과 제거 (공용 PC에서 다른 교사에게 노출 방지)
+ * - 초기화 직전 로그인 상태였는지 반환 (세션 만료 안내 여부 판단용)
+ *
+ * @example
+ * ```typescript
+ * const resetSession = useSetAtom(resetSessionAtom);
+ * const wasAuthenticated = resetSession();
+ * ```
+ */
+export const resetSessionAtom = atom(null, (get, set) => {
+  const queryClient = get(queryClientAtom);
+  const wasAuthenticated = Boolean(
+    queryClient.getQueryData(authKeys.currentUser()),
+  );
+
+  queryClient.clear();
+  queryClient.setQueryData(authKeys.currentUser(), null);
+  set(attachedRecognitionResultsAtom, RESET);
+
+  return wasAuthenticated;
+});
+
 /**
  * 로그아웃 처리 atom
  * @description 서버 API를 사용한 로그아웃 로직 처리
  *
  * 주요 기능:
- * - 서버에 로그아웃 요청 전송 (쿠키 정리)
- * - 클라이언트 상태 완전 초기화
- * - localStorage 데이터 정리
+ * - 서버에 로그아웃 요청 전송 (세션 쿠키 정리)
+ * - 서버 에러가 발생해도 클라이언트 캐시는 완전히 초기화
  *
  * @example
  * ```typescript
  * const logout = useSetAtom(logoutAtom);
  *
  * const handleLogout = async () => {
- *   try {
- *     await logout();
- *     navigate("/");
- *   } catch (error) {
- *     console.error("로그아웃 에러:", error);
- *     // 에러가 발생해도 클라이언트 상태는 정리됨
- *   }
+ *   await logout();
+ *   navigate({ to: "/" });
  * };
  * ```
  */
-export const logoutAtom = atom(null, async (get, set) => {
+export const logoutAtom = atom(null, async (_get, set) => {
   try {
     // 서버 API를 통한 로그아웃 처리
     await logoutApi();
@@ -182,17 +172,8 @@ export const logoutAtom = atom(null, async (get, set) => {
     console.error("서버 로그아웃 에러:", error);
     // 서버 에러가 발생해도 클라이언트 상태는 정리
   } finally {
-    // 클라이언트 상태 완전 초기화
-    set(userAtom, {
-      id: 0,
-      username: "",
-      email: "",
-      name: "",
-      role: "teacher",
-      createdAt: "",
-      lastLoginAt: "",
-    });
-    set(isAuthenticatedAtom, false);
+    // 이전 사용자의 모든 서버 데이터 캐시 제거
+    set(resetSessionAtom);
   }
 });
 
@@ -210,15 +191,14 @@ export const logoutAtom = atom(null, async (get, set) => {
  * ```
  */
 export const authStatusAtom = atom((get) => {
-  const isAuthenticated = get(isAuthenticatedAtom);
-  const user = get(userAtom);
   const { data: currentUser, isLoading, error } = get(currentUserQueryAtom);
+  const isAuthenticated = Boolean(currentUser);
 
   return {
     isAuthenticated,
-    user: isAuthenticated ? currentUser || user : null,
-    isLoading: isAuthenticated ? isLoading : false,
-    error: isAuthenticated ? error : null,
+    user: currentUser ?? null,
+    isLoading,
+    error,
     hasValidSession: isAuthenticated && !error,
   };
 });
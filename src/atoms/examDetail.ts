@@ -18,6 +18,8 @@ import {
   submissionStatusQueryOptions,
 } from "@/api/exam/query";
 import logger from "@/utils/logger";
+import { DEFAULT_LIVE_MONITORING_SETTINGS } from "@/utils/liveMonitoring";
+import type { LiveMonitoringSettings } from "@/types/live-monitoring";
 import { selectedExamIdAtom } from "./exam";
 
 /**
@@ -74,6 +76,22 @@ export const examDetailCollapsedSidebarAtom = atomWithStorage<boolean>(
   EXAM_DETAIL_DEFAULTS.collapsedSidebar,
 );
 
+/**
+ * 실시간 모니터링 활성화 원자
+ * @description 켜져 있으면 제출 현황 쿼리를 설정된 간격으로 폴링 (페이지 이동 시 초기화)
+ */
+export const isLiveMonitoringAtom = atom<boolean>(false);
+
+/**
+ * 실시간 모니터링 설정 원자
+ * @description 폴링 간격, 목표 제출률, 알림음 여부 (localStorage에 유지)
+ */
+export const liveMonitoringSettingsAtom =
+  atomWithStorage<LiveMonitoringSettings>(
+    "exam-live-monitoring-settings",
+    DEFAULT_LIVE_MONITORING_SETTINGS,
+  );
+
 /**
  * 시험 ID 원자
  * @description 현재 조회중인 시험의 ID
@@ -395,15 +413,20 @@ export const selectedExamDetailQueryAtom = atomWithQuery((get) => {
  * @description selectedExamIdAtom 기반 제출 현황 조회
  *
  * 특징:
- * - 30초마다 자동 리페칭 (실시간 업데이트)
+ * - 실시간 모니터링 중에는 설정 간격으로 자동 리페칭 (탭이 숨겨지면 중지)
  * - 조건부 활성화
  * - 일반 시험 관리 페이지에서 사용
  */
 export const selectedExamSubmissionStatusQueryAtom = atomWithQuery((get) => {
   const examId = get(selectedExamIdAtom);
+  const isLiveMonitoring = get(isLiveMonitoringAtom);
+  const { intervalSeconds } = get(liveMonitoringSettingsAtom);
+
   return {
     ...submissionStatusQueryOptions(examId || ""),
     enabled: !!examId,
+    refetchInterval: isLiveMonitoring ? intervalSeconds * 1000 : false,
+    refetchIntervalInBackground: false,
   };
 });
 
@@ -11,9 +11,25 @@
 
 import { atom } from "jotai";
 import { atomWithStorage } from "jotai/utils";
-import type { SearchScope, ExamListFilters } from "@/types/exam";
+import type {
+  SearchScope,
+  ExamListFilters,
+  ExamLifecycleStatus,
+  ExamClientFilters,
+  ExamDateRangeFilters,
+  ExamQuestionTypeMix,
+  NumberRange,
+} from "@/types/exam";
 import { convertFiltersToServerParams } from "@/types/exam";
 import type { ServerExamListParams } from "@/api/exam";
+import {
+  EXAM_PARTICIPATION_RATE_BOUNDS,
+  EXAM_QUESTION_COUNT_BOUNDS,
+  fromExamFilterSearch,
+  getActiveClientFilterLabels,
+  toExamFilterSearch,
+} from "@/utils/examListFilters";
+import type { ExamFilterPresetSearch } from "@/types/filter-preset";
 
 /**
  * 기본 검색 필터 원자들
@@ -40,6 +56,12 @@ export const examSortAtom = atomWithStorage<string>(
  */
 export const recentExamFilterAtom = atom<boolean>(false);
 
+/**
+ * 진행 상태 필터 원자
+ * @description 서버에 상태 필터가 없어 현재 페이지 결과를 클라이언트에서 거름 ("all"은 전체)
+ */
+export const examLifecycleFilterAtom = atom<ExamLifecycleStatus | "all">("all");
+
 /**
  * 통합 필터 상태 원자
  * @description UI 컴포넌트에서 사용하는 통합 필터 객체
@@ -108,6 +130,9 @@ export const activeFiltersCountAtom = atom((get) => {
   // 최근 필터가 활성화되면 +1
   if (recent) count += 1;
 
+  // 클라이언트 필터 (진행 상태, 날짜, 문항 수 등) 하나당 +1
+  count += get(activeClientFilterLabelsAtom).length;
+
   return count;
 });
 
@@ -121,6 +146,13 @@ export const resetAllFiltersAtom = atom(null, (_get, set) => {
   set(selectedGradeAtom, "");
   set(examPageAtom, 0);
   set(recentExamFilterAtom, false);
+  set(examLifecycleFilterAtom, "all");
+  set(advancedSearchOptionsAtom, { caseSensitive: false, exactMatch: false });
+  set(dateRangeFiltersAtom, {});
+  set(questionCountRangeAtom, { ...EXAM_QUESTION_COUNT_BOUNDS });
+  set(participationRateRangeAtom, { ...EXAM_PARTICIPATION_RATE_BOUNDS });
+  set(unitFiltersAtom, []);
+  set(examTypeFiltersAtom, []);
   // 페이지 크기와 정렬은 유지
 });
 
@@ -211,31 +243,24 @@ export const statusFiltersAtom = atom<string[]>([]);
 
 /**
  * 날짜 범위 필터 원자
- * @description 생성일/수정일 범위로 필터링하는 원자
+ * @description 생성일/응시 기간 범위로 필터링하는 원자 (클라이언트 필터)
  */
-export const dateRangeFiltersAtom = atom<{
-  createdFrom?: Date;
-  createdTo?: Date;
-  updatedFrom?: Date;
-  updatedTo?: Date;
-}>({});
+export const dateRangeFiltersAtom = atom<ExamDateRangeFilters>({});
 
 /**
  * 문항 수 범위 필터 원자
- * @description 시험의 문항 수 범위로 필터링하는 원자
+ * @description 시험의 문항 수 범위로 필터링하는 원자 (전체 범위면 비활성)
  */
-export const questionCountRangeAtom = atom<{ min: number; max: number }>({
-  min: 10,
-  max: 40,
+export const questionCountRangeAtom = atom<NumberRange>({
+  ...EXAM_QUESTION_COUNT_BOUNDS,
 });
 
 /**
  * 참여율 범위 필터 원자
- * @description 시험의 참여율 범위로 필터링하는 원자
+ * @description 시험의 참여율 범위로 필터링하는 원자 (전체 범위면 비활성)
  */
-export const participationRateRangeAtom = atom<{ min: number; max: number }>({
-  min: 0,
-  max: 100,
+export const participationRateRangeAtom = atom<NumberRange>({
+  ...EXAM_PARTICIPATION_RATE_BOUNDS,
 });
 
 /**
@@ -246,9 +271,9 @@ export const unitFiltersAtom = atom<string[]>([]);
 
 /**
  * 시험 유형 필터 원자
- * @description 시험 유형별로 필터링하는 원자
+ * @description 객관식/주관식 구성별로 필터링하는 원자
  */
-export const examTypeFiltersAtom = atom<string[]>([]);
+export const examTypeFiltersAtom = atom<ExamQuestionTypeMix[]>([]);
 
 /**
  * 고급 검색 옵션 원자
@@ -263,36 +288,87 @@ export const advancedSearchOptionsAtom = atom<{
 });
 
 /**
- * 필터 프리셋 원자
- * @description 자주 사용하는 필터 조합을 저장하는 원자
+ * 클라이언트 필터 통합 원자
+ * @description 서버 API가 지원하지 않아 현재 페이지 결과에 적용하는 필터 조합
  */
-export const filterPresetsAtom = atom<
-  Record<
-    string,
-    {
-      name: string;
-      filters: {
-        statusFilters: string[];
-        questionCountRange: { min: number; max: number };
-        participationRateRange: { min: number; max: number };
-      };
-    }
-  >
->({
-  recent: {
-    name: "최근 시험",
-    filters: {
-      statusFilters: ["승인완료"],
-      questionCountRange: { min: 10, max: 40 },
-      participationRateRange: { min: 0, max: 100 },
-    },
+export const examClientFiltersAtom = atom<ExamClientFilters>((get) => {
+  const advancedOptions = get(advancedSearchOptionsAtom);
+  return {
+    searchKeyword: get(searchKeywordAtom),
+    searchScope: get(searchScopeAtom),
+    caseSensitive: advancedOptions.caseSensitive,
+    exactMatch: advancedOptions.exactMatch,
+    dateRange: get(dateRangeFiltersAtom),
+    questionCountRange: get(questionCountRangeAtom),
+    participationRateRange: get(participationRateRangeAtom),
+    units: get(unitFiltersAtom),
+    examTypes: get(examTypeFiltersAtom),
+    lifecycle: get(examLifecycleFilterAtom),
+  };
+});
+
+/**
+ * 활성 클라이언트 필터 라벨 원자
+ * @description "이 페이지 내에서만 필터링됨" 안내에 표시할 필터 이름 목록
+ */
+export const activeClientFilterLabelsAtom = atom((get) =>
+  getActiveClientFilterLabels(get(examClientFiltersAtom)),
+);
+
+/**
+ * 클라이언트 필터 일괄 설정 액션 원자
+ * @description URL 파라미터에서 복원한 필터를 한 번에 반영
+ */
+export const setExamClientFiltersAtom = atom(
+  null,
+  (_get, set, filters: Omit<ExamClientFilters, "searchKeyword">) => {
+    set(searchScopeAtom, filters.searchScope);
+    set(advancedSearchOptionsAtom, {
+      caseSensitive: filters.caseSensitive,
+      exactMatch: filters.exactMatch,
+    });
+    set(dateRangeFiltersAtom, filters.dateRange);
+    set(questionCountRangeAtom, filters.questionCountRange);
+    set(participationRateRangeAtom, filters.participationRateRange);
+    set(unitFiltersAtom, filters.units);
+    set(examTypeFiltersAtom, filters.examTypes);
+    set(examLifecycleFilterAtom, filters.lifecycle);
   },
-  highPerformance: {
-    name: "고참여율 시험",
-    filters: {
-      statusFilters: ["승인완료"],
-      questionCountRange: { min: 15, max: 30 },
-      participationRateRange: { min: 80, max: 100 },
-    },
+);
+
+/**
+ * 필터 프리셋 저장 대상 원자
+ * @description 현재 필터·정렬·페이지 크기를 URL 파라미터 형태로 묶어 프리셋과 공유 링크에 사용
+ */
+export const examFilterPresetSearchAtom = atom<ExamFilterPresetSearch>(
+  (get) => {
+    const searchKeyword = get(searchKeywordAtom).trim();
+    const selectedGrade = get(selectedGradeAtom);
+
+    return {
+      search: searchKeyword || undefined,
+      grade: selectedGrade || undefined,
+      recent: get(recentExamFilterAtom) || undefined,
+      sort: get(examSortAtom),
+      size: get(examPageSizeAtom),
+      ...toExamFilterSearch(get(examClientFiltersAtom)),
+    };
   },
-});
+);
+
+/**
+ * 필터 프리셋 적용 액션 원자
+ * @description 프리셋에 없는 항목은 기본값으로 되돌리고 첫 페이지로 이동
+ */
+export const applyExamFilterPresetAtom = atom(
+  null,
+  (_get, set, search: ExamFilterPresetSearch) => {
+    set(searchKeywordAtom, search.search ?? "");
+    set(selectedGradeAtom, search.grade ?? "");
+    set(recentExamFilterAtom, search.recent ?? false);
+    set(examSortAtom, search.sort ?? "createdAt,desc");
+    set(examPageSizeAtom, search.size ?? 20);
+    set(examPageAtom, 0);
+    set(setExamClientFiltersAtom, fromExamFilterSearch(search));
+  },
+);
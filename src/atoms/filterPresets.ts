@@ -0,0 +1,146 @@
+/**
+ * 필터 프리셋 상태 관리 원자들
+ * @description 시험 목록/문제지 목록의 사용자 정의 필터 프리셋을 localStorage에 저장
+ *
+ * 주요 기능:
+ * - 현재 필터·정렬·페이지 크기 조합을 이름으로 저장
+ * - 이름 변경, 삭제(되돌리기용 복원 포함), 기본 프리셋 지정
+ * - 목록 종류별로 독립된 저장소 키 사용
+ */
+
+import { atom } from "jotai";
+import type { PrimitiveAtom, WritableAtom } from "jotai";
+import { atomWithStorage } from "jotai/utils";
+import type {
+  ExamFilterPresetSearch,
+  FilterPreset,
+  FilterPresetSearch,
+  SheetFilterPresetSearch,
+} from "@/types/filter-preset";
+
+/**
+ * 목록 종류별 프리셋 원자 묶음 타입
+ */
+export type FilterPresetAtoms<TSearch extends FilterPresetSearch> = {
+  /** 저장된 프리셋 목록 */
+  presetsAtom: PrimitiveAtom<FilterPreset<TSearch>[]>;
+  /** 기본 프리셋 ID (없으면 null) */
+  defaultPresetIdAtom: PrimitiveAtom<string | null>;
+  /** 프리셋 저장 (생성된 프리셋 반환) */
+  savePresetAtom: WritableAtom<
+    null,
+    [input: { name: string; search: TSearch }],
+    FilterPreset<TSearch>
+  >;
+  /** 프리셋 이름 변경 */
+  renamePresetAtom: WritableAtom<
+    null,
+    [input: { id: string; name: string }],
+    void
+  >;
+  /** 프리셋 삭제 (기본 프리셋이면 기본 지정도 해제) */
+  deletePresetAtom: WritableAtom<null, [id: string], void>;
+  /** 삭제한 프리셋 복원 (원래 순서 위치로) */
+  restorePresetAtom: WritableAtom<
+    null,
+    [input: { preset: FilterPreset<TSearch>; index: number }],
+    void
+  >;
+  /** 기본 프리셋 지정/해제 (null이면 해제) */
+  setDefaultPresetAtom: WritableAtom<null, [id: string | null], void>;
+};
+
+/**
+ * 프리셋 원자 묶음 생성 함수
+ * @description 시험 목록과 문제지 목록이 같은 동작을 서로 다른 저장소 키로 사용
+ * @param storageKey localStorage 키 접두사 (예: "exam")
+ */
+function createFilterPresetAtoms<TSearch extends FilterPresetSearch>(
+  storageKey: string,
+): FilterPresetAtoms<TSearch> {
+  // 첫 렌더에서 바로 저장값을 읽어야 기본 프리셋을 URL 필터보다 먼저 판단할 수 있음
+  const presetsAtom = atomWithStorage<FilterPreset<TSearch>[]>(
+    `${storageKey}-filter-presets`,
+    [],
+    undefined,
+    { getOnInit: true },
+  );
+  const defaultPresetIdAtom = atomWithStorage<string | null>(
+    `${storageKey}-default-filter-preset`,
+    null,
+    undefined,
+    { getOnInit: true },
+  );
+
+  const savePresetAtom = atom(
+    null,
+    (_get, set, input: { name: string; search: TSearch }) => {
+      const preset: FilterPreset<TSearch> = {
+        id: crypto.randomUUID(),
+        name: input.name.trim(),
+        search: input.search,
+        createdAt: new Date().toISOString(),
+      };
+      set(presetsAtom, (prev) => [...prev, preset]);
+      return preset;
+    },
+  );
+
+  const renamePresetAtom = atom(
+    null,
+    (_get, set, input: { id: string; name: string }) => {
+      set(presetsAtom, (prev) =>
+        prev.map((preset) =>
+          preset.id === input.id
+            ? { ...preset, name: input.name.trim() }
+            : preset,
+        ),
+      );
+    },
+  );
+
+  const deletePresetAtom = atom(null, (get, set, id: string) => {
+    set(presetsAtom, (prev) => prev.filter((preset) => preset.id !== id));
+    if (get(defaultPresetIdAtom) === id) {
+      set(defaultPresetIdAtom, null);
+    }
+  });
+
+  const restorePresetAtom = atom(
+    null,
+    (_get, set, input: { preset: FilterPreset<TSearch>; index: number }) => {
+      set(presetsAtom, (prev) => {
+        if (prev.some((preset) => preset.id === input.preset.id)) return prev;
+        const next = [...prev];
+        next.splice(Math.min(input.index, next.length), 0, input.preset);
+        return next;
+      });
+    },
+  );
+
+  const setDefaultPresetAtom = atom(null, (_get, set, id: string | null) => {
+    set(defaultPresetIdAtom, id);
+  });
+
+  return {
+    presetsAtom,
+    defaultPresetIdAtom,
+    savePresetAtom,
+    renamePresetAtom,
+    deletePresetAtom,
+    restorePresetAtom,
+    setDefaultPresetAtom,
+  };
+}
+
+/**
+ * 시험 목록 필터 프리셋 원자들
+ */
+export const examFilterPresetAtoms =
+  createFilterPresetAtoms<ExamFilterPresetSearch>("exam");
+
+/**
+ * 문제지 목록 필터 프리셋 원자들
+ */
+export const sheetFilterPresetAtoms =
+  createFilterPresetAtoms<SheetFilterPresetSearch>("sheet");
@@ -3,6 +3,7 @@ import { atomWithStorage } from "jotai/utils";
 import { atomWithQuery } from "jotai-tanstack-query";
 import type { Getter } from "jotai";
 import { examSheetListQueryOptions } from "@/api/exam-sheet";
+import type { SheetFilterPresetSearch } from "@/types/filter-preset";
 
 /**
  * 시험지 관리 페이지 필터링 상태 atoms
@@ -116,6 +117,20 @@ export const sheetListQueryAtom = atomWithQuery((get: Getter) => {
   return examSheetListQueryOptions(params);
 });
 
+/**
+ * 필터 프리셋 저장 대상 atom
+ * @description 현재 필터·정렬·페이지 크기를 URL 파라미터 형태로 묶어 프리셋과 공유 링크에 사용
+ */
+export const sheetFilterPresetSearchAtom = atom<SheetFilterPresetSearch>(
+  (get) => ({
+    search: get(sheetSearchKeywordAtom).trim() || undefined,
+    grade: get(selectedSheetGradeAtom) || undefined,
+    sort: get(sheetSortAtom),
+    direction: get(sheetSortDirectionAtom),
+    size: get(sheetPageSizeAtom),
+  }),
+);
+
 // ========================================
 // 액션 atoms (쓰기 전용)
 // ========================================
@@ -182,6 +197,22 @@ export const setSheetSortAtom = atom(
   },
 );
 
+/**
+ * 필터 프리셋 적용 atom (쓰기 전용)
+ * @description 프리셋에 없는 항목은 기본값으로 되돌리고 첫 페이지로 이동
+ */
+export const applySheetFilterPresetAtom = atom(
+  null,
+  (get, set, search: SheetFilterPresetSearch) => {
+    set(sheetSearchKeywordAtom, search.search ?? "");
+    set(selectedSheetGradeAtom, search.grade ?? "");
+    set(sheetSortAtom, search.sort ?? "createdAt");
+    set(sheetSortDirectionAtom, search.direction ?? "desc");
+    set(sheetPageSizeAtom, search.size ?? 10);
+    set(sheetPageAtom, 0);
+  },
+);
+
 // ========================================
 // 편의 atoms
 // ========================================
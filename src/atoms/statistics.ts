@@ -9,6 +9,7 @@ import { selectedGradeAtom } from "./dashboard";
 import {
   unitWrongAnswerRatesQueryOptions,
   scoreDistributionQueryOptions,
+  examAverageScoresQueryOptions,
 } from "@/api/statistics";
 import type {
   UnitWrongAnswerRatesResponse,
@@ -33,49 +34,44 @@ export const statisticsScoreDistributionQueryAtom = atomWithQuery((get) => {
   return scoreDistributionQueryOptions({ grade });
 });
 
+/**
+ * 시험별 평균 점수 쿼리 atom
+ * @description 선택된 학년의 최근 시험별 평균 점수를 가져오는 atom
+ */
+export const examAverageScoresQueryAtom = atomWithQuery((get) => {
+  const grade = get(selectedGradeAtom);
+  return examAverageScoresQueryOptions({ grade, limit: 10 });
+});
+
 /**
  * 통계 차트용 시험별 평균 점수 데이터 atom
- * @description 현재는 임시 데이터 사용 (API 확장 대기)
- * TODO: 서버에서 시험별 통계 API 제공 시 실제 데이터로 교체
+ * @description 서버의 시험별 평균 점수를 시험 날짜순(오래된 시험 → 최근 시험)으로 정렬해 차트용으로 변환
  */
 export const examAverageScoresAtom = atom((get) => {
-  const grade = get(selectedGradeAtom);
-  const scoreData = get(statisticsScoreDistributionQueryAtom);
+  const examAverageData = get(examAverageScoresQueryAtom);
 
-  // 서버에서 시험별 데이터가 없으므로 현재 평균점수 기반으로 임시 데이터 생성
-  if (scoreData.isPending || scoreData.isError || !scoreData.data) {
+  if (
+    examAverageData.isPending ||
+    examAverageData.isError ||
+    !examAverageData.data
+  ) {
     return [];
   }
 
-  const currentAverage = scoreData.data.averageScore;
-
-  // 학년별 임시 시험 데이터 (실제 API 대기)
-  const examsByGrade = {
-    1: [
-      { examName: "1학기 중간", average: Math.round(currentAverage - 5) },
-      { examName: "1학기 기말", average: Math.round(currentAverage) },
-      { examName: "2학기 중간", average: Math.round(currentAverage - 2) },
-      { examName: "2학기 기말", average: Math.round(currentAverage + 3) },
-    ],
-    2: [
-      { examName: "1학기 중간", average: Math.round(currentAverage - 7) },
-      { examName: "1학기 기말", average: Math.round(currentAverage - 2) },
-      { examName: "2학기 중간", average: Math.round(currentAverage - 4) },
-      { examName: "2학기 기말", average: Math.round(currentAverage + 1) },
-    ],
-    3: [
-      { examName: "1학기 중간", average: Math.round(currentAverage - 8) },
-      { examName: "1학기 기말", average: Math.round(currentAverage - 3) },
-      { examName: "2학기 중간", average: Math.round(currentAverage - 5) },
-      { examName: "2학기 기말", average: Math.round(currentAverage) },
-    ],
-  };
-
-  return examsByGrade[grade].map((exam, index) => ({
-    name: exam.examName,
-    avg: exam.average,
-    participants: scoreData.data.totalStudentCount,
-  }));
+  // 서버는 최근 시험순으로 반환하므로 추이 차트를 위해 날짜 오름차순 정렬
+  return [...examAverageData.data.examAverageScores]
+    .sort(
+      (a, b) =>
+        new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime(),
+    )
+    .map((exam) => ({
+      examId: exam.examId,
+      name: exam.examName,
+      date: exam.createdAt,
+      avg: Math.round(exam.averageScore * 10) / 10,
+      participants: exam.participantCount,
+      submissionRate: Math.round(exam.submissionRate),
+    }));
 });
 
 /**
@@ -109,8 +105,13 @@ export const unitWrongAnswerChartDataAtom = atom((get) => {
 export const statisticsLoadingAtom = atom((get) => {
   const wrongAnswerQuery = get(unitWrongAnswerRatesQueryAtom);
   const scoreQuery = get(statisticsScoreDistributionQueryAtom);
+  const examAverageQuery = get(examAverageScoresQueryAtom);
 
-  return wrongAnswerQuery.isPending || scoreQuery.isPending;
+  return (
+    wrongAnswerQuery.isPending ||
+    scoreQuery.isPending ||
+    examAverageQuery.isPending
+  );
 });
 
 /**
@@ -120,9 +121,12 @@ export const statisticsLoadingAtom = atom((get) => {
 export const statisticsErrorAtom = atom((get) => {
   const wrongAnswerQuery = get(unitWrongAnswerRatesQueryAtom);
   const scoreQuery = get(statisticsScoreDistributionQueryAtom);
+  const examAverageQuery = get(examAverageScoresQueryAtom);
 
-  const hasError = wrongAnswerQuery.isError || scoreQuery.isError;
-  const error = wrongAnswerQuery.error || scoreQuery.error;
+  const hasError =
+    wrongAnswerQuery.isError || scoreQuery.isError || examAverageQuery.isError;
+  const error =
+    wrongAnswerQuery.error || scoreQuery.error || examAverageQuery.error;
 
   return { hasError, error };
 });
@@ -0,0 +1,52 @@
+import { atom } from "jotai";
+import { atomWithStorage } from "jotai/utils";
+import type { AttachedRecognitionResult } from "@/types/text-recognition";
+
+/**
+ * 답안지 인식 결과 관련 atoms
+ * @description 교사가 검토한 OCR 인식 결과를 학생 제출 답안과 연결하여 관리
+ */
+
+/**
+ * 제출별 첨부 인식 결과 atom
+ * @description submissionId를 키로 검토 완료된 인식 결과를 보관
+ *
+ * 주요 용도:
+ * - 답안지 인식 모달에서 "제출 답안에 첨부" 시 저장
+ * - 채점 화면에서 주관식 답안 확인 시 참조
+ *
+ * 서버에 첨부 결과를 저장하는 API가 없어 브라우저(localStorage)에 보관하므로,
+ * 새로고침 후에도 유지되지만 다른 브라우저·기기에서는 보이지 않음
+ * - 로그인·로그아웃·세션 만료 시 resetSessionAtom이 비움 (계정 간 학생 답안 혼입 방지)
+ */
+export const attachedRecognitionResultsAtom = atomWithStorage<
+  Record<string, AttachedRecognitionResult>
+>("recognition-attachments", {}, undefined, { getOnInit: true });
+
+/**
+ * 인식 결과 첨부 액션 atom
+ * @description 같은 제출에 다시 첨부하면 최신 결과로 교체
+ */
+export const attachRecognitionResultAtom = atom(
+  null,
+  (get, set, result: AttachedRecognitionResult) => {
+    set(attachedRecognitionResultsAtom, {
+      ...get(attachedRecognitionResultsAtom),
+      [result.submissionId]: result,
+    });
+  },
+);
+
+/**
+ * 첨부 인식 결과 해제 액션 atom
+ * @param submissionId 첨부를 해제할 제출 ID
+ */
+export const detachRecognitionResultAtom = atom(
+  null,
+  (get, set, submissionId: string) => {
+    const { [submissionId]: _removed, ...rest } = get(
+      attachedRecognitionResultsAtom,
+    );
+    set(attachedRecognitionResultsAtom, rest);
+  },
+);
@@ -19,12 +19,18 @@ import type {
   CategoryNode,
   SubcategoryNode,
   UnitNode,
+  OrderedSelectedProblem,
+  PointsDistributionMode,
+  BlueprintGenerationResult,
+  ExamBlueprint,
 } from "@/types/units-tree";
 import type { Problem } from "@/types/exam-sheet";
 import {
   unitsTreeWithProblemsQueryOptions,
   basicUnitsTreeQueryOptions,
 } from "@/api/units-tree/query";
+import { arrayMove } from "@dnd-kit/sortable";
+import { DEFAULT_QUESTION_POINTS, distributePoints } from "@/utils/examSheet";
 
 /**
  * 선택된 학년 atom
@@ -125,6 +131,18 @@ export const selectedProblemIdsAtom = atom((get) => {
   return selectionState.selectedProblemIds;
 });
 
+/**
+ * 선택 문제 출제 순서 atom
+ * @description 드래그로 변경한 문제 ID 순서 (순서에 없는 새 선택 문제는 트리 순서로 뒤에 추가)
+ */
+export const selectedProblemOrderAtom = atom<string[]>([]);
+
+/**
+ * 문항별 사용자 지정 배점 atom
+ * @description 문제 ID별로 교사가 직접 입력하거나 자동 분배한 배점
+ */
+export const selectedProblemPointsAtom = atom<Record<string, number>>({});
+
 /**
  * 확장된 노드 ID들 atom (읽기/쓰기)
  * @description 트리 UI에서 펼쳐진 노드들을 관리하는 atom
@@ -365,6 +383,7 @@ export const toggleAllProblemsInCategoryAtom = atom(
  */
 export const selectedProblemsDetailAtom = atom((get) => {
   const selectedProblemIds = get(selectedProblemIdsAtom);
+  const customPoints = get(selectedProblemPointsAtom);
   const { data } = get(unitsTreeWithProblemsAtom);
 
   if (!data || selectedProblemIds.size === 0) {
@@ -401,7 +420,9 @@ export const selectedProblemsDetailAtom = atom((get) => {
               subcategoryName: subcategory.name,
               problems: selectedProblemsInUnit,
               totalPoints: selectedProblemsInUnit.reduce(
-                (sum, p) => sum + (p.points || 0),
+                (sum, p) =>
+                  sum +
+                  (customPoints[p.id] ?? (p.points || DEFAULT_QUESTION_POINTS)),
                 0,
               ),
               problemCount: selectedProblemsInUnit.length,
@@ -415,6 +436,138 @@ export const selectedProblemsDetailAtom = atom((get) => {
   return unitsWithProblems;
 });
 
+/**
+ * 출제 순서가 적용된 선택 문제 목록 atom (읽기 전용)
+ * @description 드래그 순서와 문항별 배점을 반영한 평면 목록 (문제지 생성 요청 순서와 동일)
+ */
+export const orderedSelectedProblemsAtom = atom((get) => {
+  const selectedProblemIds = get(selectedProblemIdsAtom);
+  const problemOrder = get(selectedProblemOrderAtom);
+  const customPoints = get(selectedProblemPointsAtom);
+  const { data } = get(unitsTreeWithProblemsAtom);
+
+  if (!data || selectedProblemIds.size === 0) {
+    return [];
+  }
+
+  // 트리 순서대로 선택된 문제 수집
+  const problemsInTreeOrder: OrderedSelectedProblem[] = [];
+  data.categories.forEach((category: CategoryNode) => {
+    category.children.forEach((subcategory: SubcategoryNode) => {
+      subcategory.children.forEach((unit: UnitNode) => {
+        unit.problems?.forEach((problem: Problem) => {
+          if (selectedProblemIds.has(problem.id)) {
+            problemsInTreeOrder.push({
+              problem,
+              unitId: unit.id,
+              unitName: unit.name,
+              points:
+                customPoints[problem.id] ??
+                (problem.points || DEFAULT_QUESTION_POINTS),
+            });
+          }
+        });
+      });
+    });
+  });
+
+  // 드래그로 지정된 순서 우선, 나머지는 트리 순서 유지
+  const orderIndex = new Map(problemOrder.map((id, index) => [id, index]));
+  return problemsInTreeOrder
+    .map((item, treeIndex) => ({ item, treeIndex }))
+    .sort((a, b) => {
+      const aOrder = orderIndex.get(a.item.problem.id) ?? Infinity;
+      const bOrder = orderIndex.get(b.item.problem.id) ?? Infinity;
+      return aOrder === bOrder ? a.treeIndex - b.treeIndex : aOrder - bOrder;
+    })
+    .map(({ item }) => item);
+});
+
+/**
+ * 선택 문제 순서 변경 액션 atom (쓰기 전용)
+ * @description 드래그 앤 드롭 결과(active → over)를 출제 순서에 반영
+ */
+export const reorderSelectedProblemsAtom = atom(
+  null,
+  (get, set, params: { activeId: string; overId: string }) => {
+    const orderedIds = get(orderedSelectedProblemsAtom).map(
+      ({ problem }) => problem.id,
+    );
+    const oldIndex = orderedIds.indexOf(params.activeId);
+    const newIndex = orderedIds.indexOf(params.overId);
+
+    if (oldIndex === -1 || newIndex === -1 || oldIndex === newIndex) return;
+
+    set(selectedProblemOrderAtom, arrayMove(orderedIds, oldIndex, newIndex));
+  },
+);
+
+/**
+ * 문항 배점 변경 액션 atom (쓰기 전용)
+ * @description 선택 문제 패널의 배점 입력값을 반영
+ */
+export const setSelectedProblemPointsAtom = atom(
+  null,
+  (get, set, params: { problemId: string; points: number }) => {
+    set(selectedProblemPointsAtom, {
+      ...get(selectedProblemPointsAtom),
+      [params.problemId]: params.points,
+    });
+  },
+);
+
+/**
+ * 배점 자동 분배 액션 atom (쓰기 전용)
+ * @description 선택된 문제 전체에 100점을 균등 또는 난이도 비례로 분배
+ */
+export const distributeSelectedProblemPointsAtom = atom(
+  null,
+  (get, set, mode: PointsDistributionMode) => {
+    const problems = get(orderedSelectedProblemsAtom).map(
+      ({ problem }) => problem,
+    );
+    set(selectedProblemPointsAtom, {
+      ...get(selectedProblemPointsAtom),
+      ...distributePoints(problems, mode),
+    });
+  },
+);
+
+/**
+ * 자동 출제 결과 적용 액션 atom (쓰기 전용)
+ * @description 청사진으로 추출한 문제를 일반 선택 상태로 반영 (기존 선택은 대체)
+ *
+ * 적용 내용:
+ * - 선택 문제 = 추출된 문제
+ * - 출제 순서 = 추출 순서 (단원 → 난이도)
+ * - 배점 = 청사진 총점을 분배 방식에 따라 분배
+ */
+export const applyBlueprintResultAtom = atom(
+  null,
+  (
+    get,
+    set,
+    params: { result: BlueprintGenerationResult; blueprint: ExamBlueprint },
+  ) => {
+    const { result, blueprint } = params;
+    const problemIds = result.problems.map((problem) => problem.id);
+
+    set(unitSelectionStateAtom, {
+      ...get(unitSelectionStateAtom),
+      selectedProblemIds: new Set(problemIds),
+    });
+    set(selectedProblemOrderAtom, problemIds);
+    set(
+      selectedProblemPointsAtom,
+      distributePoints(
+        result.problems,
+        blueprint.pointsDistribution,
+        blueprint.totalPoints,
+      ),
+    );
+  },
+);
+
 /**
  * 검색 키워드 atom (읽기/쓰기)
  * @description 단원 트리 검색 기능을 위한 키워드 상태
@@ -504,6 +657,7 @@ export const filteredUnitsTreeAtom = atom((get) => {
  */
 export const selectedProblemsStatsAtom = atom((get) => {
   const selectedProblemIds = get(selectedProblemIdsAtom);
+  const customPoints = get(selectedProblemPointsAtom);
   const { data } = get(unitsTreeWithProblemsAtom);
 
   if (!data || selectedProblemIds.size === 0) {
@@ -544,7 +698,8 @@ export const selectedProblemsStatsAtom = atom((get) => {
 
   const totalPoints = allProblems.reduce(
     (sum: number, { problem }: { problem: Problem }) =>
-      sum + (problem.points || 0),
+      sum +
+      (customPoints[problem.id] ?? (problem.points || DEFAULT_QUESTION_POINTS)),
     0,
   );
 
@@ -576,4 +731,6 @@ export const resetUnitsTreeSelectionAtom = atom(null, (get, set) => {
     searchKeyword: undefined,
     filteredGrade: undefined,
   });
+  set(selectedProblemOrderAtom, []);
+  set(selectedProblemPointsAtom, {});
 });
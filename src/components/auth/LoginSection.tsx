@@ -7,22 +7,25 @@ import { loginAtom } from "@/atoms/auth";
 import { useNavigate } from "@tanstack/react-router";
 import { toast } from "sonner";
 import { getErrorMessage } from "@/utils/errorHandling";
+import { getSafeRedirectPath } from "@/utils/authRedirect";
+
+type LoginSectionProps = {
+  /** 로그인 성공 후 이동할 경로 (인증 가드가 전달한 원래 경로) */
+  redirectTo?: string;
+};
 
 /**
  * 로그인 섹션 컴포넌트
  * @description 서버 API 연동이 준비된 로그인 폼 컴포넌트
  *
  * 주요 개선사항:
- * - 서버 API 기반 인증 시스템 연동
+ * - POST /teachers/login 기반 서버 세션 인증
  * - 체계적인 에러 처리 및 사용자 친화적 메시지
  * - 타입 안전성 보장된 로그인 플로우
  * - React Query 캐시 연동으로 사용자 정보 자동 관리
- *
- * 지원 계정:
- * - admin/1234 (관리자)
- * - teacher/1234 (교사)
+ * - 로그인 후 원래 접근하려던 경로(딥링크)로 복귀
  */
-export function LoginSection() {
+export function LoginSection({ redirectTo }: LoginSectionProps) {
   const navigate = useNavigate();
   const login = useSetAtom(loginAtom);
   const [isLoading, setIsLoading] = useState(false);
@@ -47,10 +50,10 @@ export function LoginSection() {
       if (result.success) {
         toast.success(`환영합니다, ${result.user?.name}님!`);
 
-        // 로그인 성공 시 메인 페이지로 이동
+        // 로그인 성공 시 원래 경로(없으면 메인 페이지)로 이동
         // 약간의 지연으로 토스트 메시지를 사용자가 볼 수 있도록 함
         setTimeout(() => {
-          navigate({ to: "/main" });
+          navigate({ href: getSafeRedirectPath(redirectTo) });
         }, 500);
       }
     } catch (error) {
@@ -69,11 +72,6 @@ export function LoginSection() {
     setFormData((prev) => ({ ...prev, [name]: value }));
   };
 
-  // 개발용 계정 정보 안내
-  const handleDemoLogin = (username: string, password: string) => {
-    setFormData({ username, password });
-  };
-
   return (
     <>
       {/* 왼쪽 로그인 폼 영역 - 흰색 배경 */}
@@ -0,0 +1,50 @@
+import { useMemo } from "react";
+import { cn } from "@/lib/utils";
+import { renderRichText } from "@/utils/richText";
+
+/**
+ * 문제 본문 렌더러 Props
+ */
+type RichQuestionTextProps = {
+  /** HTML/LaTeX가 포함될 수 있는 문제 텍스트 */
+  content: string | null | undefined;
+  /** 인라인 요소(span)로 렌더링할지 여부 (목록의 한 줄 미리보기 등) */
+  isInline?: boolean;
+  /** 추가 CSS 클래스 */
+  className?: string;
+};
+
+/**
+ * 문제 본문 렌더러 컴포넌트
+ * @description 문제 텍스트의 HTML을 정제하고 LaTeX 수식을 조판하여 표시하는 공용 컴포넌트
+ *
+ * 주요 기능:
+ * - 허용된 태그만 남기고 위험한 HTML 제거
+ * - 인라인($...$)/디스플레이($$...$$) 수식 KaTeX 조판 (CDN 불필요)
+ * - SSR, 화면, 인쇄 라우트에서 동일한 마크업 출력
+ *
+ * 수식 스타일은 루트 라우트 head에서 로드하는 KaTeX CSS를 사용하며,
+ * 인쇄 문서(/print/exam/$examId)도 같은 루트 아래 라우트로 렌더링되므로 그대로 적용됨
+ * (useExamPrint의 인쇄 iframe은 이 라우트를 불러옴)
+ *
+ * @example
+ * ```tsx
+ * <RichQuestionText content={question.questionText} />
+ * <RichQuestionText content={problem.title} isInline className="truncate" />
+ * ```
+ */
+export function RichQuestionText({
+  content,
+  isInline = false,
+  className,
+}: RichQuestionTextProps) {
+  const html = useMemo(() => renderRichText(content), [content]);
+  const Tag = isInline ? "span" : "div";
+
+  return (
+    <Tag
+      className={cn("rich-question-text", className)}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+}
@@ -0,0 +1,536 @@
+import { useMemo, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useSetAtom } from "jotai";
+import {
+  Ban,
+  ImageUp,
+  Loader2,
+  RotateCcw,
+  Trash2,
+  WifiOff,
+} from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import {
+  examAttendeesQueryOptions,
+  examQuestionsQueryOptions,
+} from "@/api/exam/query";
+import { SUPPORTED_RECOGNITION_FILE_TYPES } from "@/api/text-recognition";
+import { attachRecognitionResultAtom } from "@/atoms/textRecognition";
+import { useAnswerSheetRecognition } from "@/hooks/exam/useAnswerSheetRecognition";
+import { toExamPrintDocument } from "@/utils/examPrint";
+import { EXAM_VERSION_LABELS } from "@/utils/examVersions";
+import {
+  getRecognitionJobProgress,
+  isActiveRecognitionPhase,
+  toOriginalOrderRecognizedAnswers,
+} from "@/utils/textRecognition";
+import type { ExamVersionLabel } from "@/types/exam-print";
+import type { RecognitionJobPhase } from "@/types/text-recognition";
+
+/** 검토가 필요한 것으로 표시할 신뢰도 기준 */
+const LOW_CONFIDENCE_THRESHOLD = 0.7;
+
+/** 단계별 표시 정보 */
+const PHASE_META: Record<
+  RecognitionJobPhase,
+  { label: string; className: string }
+> = {
+  QUEUED: { label: "대기열", className: "bg-gray-100 text-gray-600" },
+  UPLOADING: { label: "업로드 중", className: "bg-gray-100 text-gray-700" },
+  SUBMITTED: { label: "대기 중", className: "bg-blue-100 text-blue-700" },
+  PROCESSING: { label: "인식 중", className: "bg-amber-100 text-amber-700" },
+  COMPLETED: { label: "인식 완료", className: "bg-green-100 text-green-700" },
+  FAILED: { label: "실패", className: "bg-red-100 text-red-700" },
+  CANCELLED: { label: "취소됨", className: "bg-gray-100 text-gray-500" },
+};
+
+/**
+ * 답안지 인식 모달 컴포넌트 Props
+ */
+type AnswerSheetRecognitionModalProps = {
+  /** 시험 ID */
+  examId: string;
+  /** 모달 열림 여부 */
+  isOpen: boolean;
+  /** 모달 닫기 핸들러 */
+  onClose: () => void;
+};
+
+/**
+ * 종이 답안지 인식(OCR) 모달 컴포넌트
+ * @description 종이 답안지 사진을 업로드해 AI 텍스트 인식을 실행하고, 결과를 검토하여 학생 제출 답안에 첨부
+ *
+ * 주요 기능:
+ * - 여러 장의 답안지 사진 일괄 업로드 (선택 또는 끌어다 놓기)
+ * - 형식/크기 사전 검증 및 동시 실행 수 제한 대기열
+ * - 파일별 업로드/인식 진행 상황 실시간 표시 (SSE)
+ * - 실패 작업 재시도, 대기 작업 취소, 작업 제거
+ * - 인식된 답안 검토 및 수정 (낮은 신뢰도 강조)
+ * - 답안지 버전(A~E형) 선택, B형 이후는 원래 문항·선택지 번호로 변환해 첨부
+ * - 검토 완료된 결과를 응시자 제출 답안에 첨부
+ *
+ * API 엔드포인트:
+ * - POST /text-recognition/submit
+ * - GET /text-recognition/jobs/{jobId}/events (SSE)
+ */
+export function AnswerSheetRecognitionModal({
+  examId,
+  isOpen,
+  onClose,
+}: AnswerSheetRecognitionModalProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const {
+    jobs,
+    addFiles,
+    retryJob,
+    retryFailedJobs,
+    cancelJob,
+    cancelPendingJobs,
+    removeJob,
+    updateAnswer,
+    updateJobVersion,
+  } = useAnswerSheetRecognition();
+  const attachRecognitionResult = useSetAtom(attachRecognitionResultAtom);
+
+  const [selectedJobId, setSelectedJobId] = useState<string | null>(null);
+  const [selectedSubmissionId, setSelectedSubmissionId] = useState<string>("");
+  const [isDragging, setIsDragging] = useState(false);
+
+  const { data: attendees } = useQuery({
+    ...examAttendeesQueryOptions(examId, {
+      size: 100,
+      sort: "studentName,asc",
+    }),
+    enabled: isOpen && !!examId,
+  });
+
+  // 버전 답안지를 원래 순서로 되돌리는 데 필요한 문항 순서·선택지 (인쇄 문서와 같은 변환)
+  const { data: examQuestions } = useQuery({
+    ...examQuestionsQueryOptions(examId),
+    enabled: isOpen && !!examId,
+  });
+  const printDocument = useMemo(
+    () => (examQuestions ? toExamPrintDocument(examQuestions) : null),
+    [examQuestions],
+  );
+
+  const selectedJob = jobs.find((job) => job.id === selectedJobId) ?? null;
+
+  // 상태별 작업 수
+  const queuedCount = jobs.filter((job) => job.phase === "QUEUED").length;
+  const activeCount = jobs.filter((job) =>
+    isActiveRecognitionPhase(job.phase),
+  ).length;
+  const completedCount = jobs.filter((job) => job.phase === "COMPLETED").length;
+  const failedCount = jobs.filter((job) => job.phase === "FAILED").length;
+
+  /**
+   * 파일 추가 핸들러
+   * @description 검증에 실패한 파일은 사유와 함께 알림
+   */
+  const handleAddFiles = (files: File[]) => {
+    if (files.length === 0) return;
+
+    const rejected = addFiles(files);
+    if (rejected.length > 0) {
+      toast.error(`${rejected.length}개 파일을 추가하지 못했습니다.`, {
+        description: rejected
+          .map(({ file, reason }) => `${file.name}: ${reason}`)
+          .join(", "),
+      });
+    }
+  };
+
+  /**
+   * 파일 선택 핸들러
+   * @description 선택한 파일을 대기열에 추가하고 입력값을 초기화
+   */
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    handleAddFiles(Array.from(event.target.files ?? []));
+    event.target.value = "";
+  };
+
+  /**
+   * 파일 드롭 핸들러
+   */
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    handleAddFiles(Array.from(event.dataTransfer.files));
+  };
+
+  /**
+   * 작업 제거 핸들러
+   * @description 검토 중인 작업이면 선택도 해제
+   */
+  const handleRemove = (id: string) => {
+    removeJob(id);
+    if (selectedJobId === id) {
+      setSelectedJobId(null);
+    }
+  };
+
+  /**
+   * 제출 답안 첨부 핸들러
+   * @description 검토한 인식 결과를 선택한 학생의 제출 답안에 연결 (B형 이후는 원래 순서로 변환)
+   */
+  const handleAttach = () => {
+    if (!selectedJob?.jobId) return;
+
+    const attendee = attendees?.content.find(
+      (item) => item.submissionId === selectedSubmissionId,
+    );
+    if (!attendee) {
+      toast.error("첨부할 학생을 선택해주세요.");
+      return;
+    }
+    if (selectedJob.version !== "A" && !printDocument) {
+      toast.error(
+        "시험 문항을 불러오지 못해 버전 답안을 원래 순서로 바꿀 수 없습니다.",
+      );
+      return;
+    }
+
+    attachRecognitionResult({
+      examId,
+      submissionId: attendee.submissionId,
+      studentName: attendee.studentName,
+      jobId: selectedJob.jobId,
+      fileName: selectedJob.file.name,
+      answers: printDocument
+        ? toOriginalOrderRecognizedAnswers(
+            selectedJob.answers,
+            printDocument,
+            selectedJob.version,
+          )
+        : selectedJob.answers,
+      version: selectedJob.version,
+      attachedAt: new Date().toISOString(),
+    });
+    toast.success(
+      `${attendee.studentName} 학생의 제출 답안에 인식 결과를 첨부했습니다.`,
+    );
+    setSelectedSubmissionId("");
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-5xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>종이 답안지 인식</DialogTitle>
+          <DialogDescription>
+            답안지 사진을 올리면 AI가 답안을 인식합니다. 결과를 검토한 뒤 학생
+            제출 답안에 첨부하세요.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 min-h-0 flex-1 overflow-hidden">
+          {/* 작업 목록 */}
+          <div
+            className={cn(
+              "flex flex-col min-h-0 space-y-3 rounded-lg transition-colors",
+              isDragging && "bg-blue-50 ring-2 ring-blue-300",
+            )}
+            onDragOver={(event) => {
+              event.preventDefault();
+              setIsDragging(true);
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
+          >
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={SUPPORTED_RECOGNITION_FILE_TYPES.join(",")}
+              multiple
+              className="hidden"
+              onChange={handleFileChange}
+            />
+            <Button
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              <ImageUp className="w-4 h-4 mr-2" />
+              답안지 사진 선택 (또는 끌어다 놓기)
+            </Button>
+
+            {jobs.length > 0 && (
+              <div className="flex items-center justify-between text-xs text-gray-600">
+                <span>
+                  전체 {jobs.length} · 대기 {queuedCount} · 진행 {activeCount} ·
+                  완료 {completedCount} · 실패 {failedCount}
+                </span>
+                <div className="flex gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={retryFailedJobs}
+                    disabled={failedCount === 0}
+                  >
+                    <RotateCcw className="w-3 h-3 mr-1" />
+                    실패 재시도
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={cancelPendingJobs}
+                    disabled={queuedCount === 0}
+                  >
+                    <Ban className="w-3 h-3 mr-1" />
+                    대기 취소
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            <div className="flex-1 overflow-y-auto space-y-2 pr-1">
+              {jobs.length === 0 && (
+                <p className="text-sm text-gray-500 text-center py-8">
+                  업로드한 답안지가 없습니다.
+                </p>
+              )}
+              {jobs.map((job) => (
+                <div
+                  key={job.id}
+                  className={cn(
+                    "border rounded-lg p-3 cursor-pointer transition-colors",
+                    selectedJobId === job.id
+                      ? "border-blue-500 bg-blue-50"
+                      : "hover:bg-gray-50",
+                  )}
+                  onClick={() => setSelectedJobId(job.id)}
+                >
+                  <div className="flex items-center gap-3">
+                    <img
+                      src={job.previewUrl}
+                      alt={job.file.name}
+                      className="w-12 h-12 object-cover rounded border"
+                    />
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-sm font-medium truncate">
+                          {job.file.name}
+                        </span>
+                        <Badge
+                          variant="secondary"
+                          className={PHASE_META[job.phase].className}
+                        >
+                          {(job.phase === "UPLOADING" ||
+                            job.phase === "PROCESSING") && (
+                            <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                          )}
+                          {PHASE_META[job.phase].label}
+                        </Badge>
+                      </div>
+                      <Progress value={getRecognitionJobProgress(job)} />
+                      {job.connectionState === "reconnecting" && (
+                        <p className="text-xs text-amber-600 flex items-center">
+                          <WifiOff className="w-3 h-3 mr-1" />
+                          연결이 끊겨 재연결 중입니다...
+                        </p>
+                      )}
+                      {job.errorMessage && (
+                        <p className="text-xs text-red-600">
+                          {job.errorMessage}
+                        </p>
+                      )}
+                    </div>
+                    {(job.phase === "FAILED" || job.phase === "CANCELLED") && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={(event) => {
+                          event.stopPropagation();
+                          retryJob(job.id);
+                        }}
+                        title="재시도"
+                      >
+                        <RotateCcw className="w-4 h-4" />
+                      </Button>
+                    )}
+                    {(job.phase === "QUEUED" ||
+                      isActiveRecognitionPhase(job.phase)) && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={(event) => {
+                          event.stopPropagation();
+                          cancelJob(job.id);
+                        }}
+                        title="취소"
+                      >
+                        <Ban className="w-4 h-4" />
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={(event) => {
+                        event.stopPropagation();
+                        handleRemove(job.id);
+                      }}
+                      title="제거"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* 인식 결과 검토 */}
+          <div className="flex flex-col min-h-0 border rounded-lg p-3">
+            {!selectedJob && (
+              <p className="text-sm text-gray-500 text-center py-8">
+                검토할 답안지를 선택하세요.
+              </p>
+            )}
+            {selectedJob && selectedJob.phase !== "COMPLETED" && (
+              <p className="text-sm text-gray-500 text-center py-8">
+                {selectedJob.phase === "FAILED" ||
+                selectedJob.phase === "CANCELLED"
+                  ? "인식이 완료되지 않은 답안지입니다. 재시도해주세요."
+                  : "인식이 완료되면 결과를 검토할 수 있습니다."}
+              </p>
+            )}
+            {selectedJob?.phase === "COMPLETED" && (
+              <>
+                <div className="flex items-center gap-2 pb-3 mb-3 border-b">
+                  <span className="text-sm font-medium text-gray-700">
+                    답안지 버전
+                  </span>
+                  <Select
+                    value={selectedJob.version}
+                    onValueChange={(value) =>
+                      updateJobVersion(
+                        selectedJob.id,
+                        value as ExamVersionLabel,
+                      )
+                    }
+                  >
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {EXAM_VERSION_LABELS.map((version) => (
+                        <SelectItem key={version} value={version}>
+                          {version === "A" ? "A형 (원래 순서)" : `${version}형`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {selectedJob.version !== "A" && (
+                    <span className="text-xs text-gray-500">
+                      번호는 {selectedJob.version}형 기준, 첨부 시 원래 문항
+                      번호로 변환
+                    </span>
+                  )}
+                </div>
+                <div className="flex-1 overflow-y-auto space-y-2 pr-1">
+                  {selectedJob.answers.length === 0 && (
+                    <p className="text-sm text-gray-500 text-center py-8">
+                      인식된 답안이 없습니다.
+                    </p>
+                  )}
+                  {selectedJob.answers.map((answer) => {
+                    const isLowConfidence =
+                      answer.confidence < LOW_CONFIDENCE_THRESHOLD;
+                    return (
+                      <div
+                        key={answer.questionNumber}
+                        className="flex items-center gap-2"
+                      >
+                        <span className="w-12 text-sm font-medium text-gray-700">
+                          {answer.questionNumber}번
+                        </span>
+                        <Input
+                          value={answer.recognizedText}
+                          onChange={(event) =>
+                            updateAnswer(
+                              selectedJob.id,
+                              answer.questionNumber,
+                              event.target.value,
+                            )
+                          }
+                          className={cn(
+                            isLowConfidence &&
+                              "border-amber-400 bg-amber-50 focus-visible:ring-amber-300",
+                          )}
+                        />
+                        <span
+                          className={cn(
+                            "w-12 text-xs text-right",
+                            isLowConfidence
+                              ? "text-amber-600 font-semibold"
+                              : "text-gray-500",
+                          )}
+                          title="인식 신뢰도"
+                        >
+                          {Math.round(answer.confidence * 100)}%
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+
+                <div className="flex items-center gap-2 pt-3 mt-3 border-t">
+                  <Select
+                    value={selectedSubmissionId}
+                    onValueChange={setSelectedSubmissionId}
+                  >
+                    <SelectTrigger className="flex-1">
+                      <SelectValue placeholder="첨부할 학생 선택" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {attendees?.content.map((attendee) => (
+                        <SelectItem
+                          key={attendee.submissionId}
+                          value={attendee.submissionId}
+                        >
+                          {attendee.studentName} ({attendee.studentPhone})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    onClick={handleAttach}
+                    disabled={!selectedSubmissionId}
+                  >
+                    제출 답안에 첨부
+                  </Button>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            닫기
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
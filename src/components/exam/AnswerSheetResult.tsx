@@ -1,3 +1,8 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useAtomValue, useSetAtom } from "jotai";
+import { Link } from "@tanstack/react-router";
+import { History, RotateCcw, Save, ScanText, UserRound, X } from "lucide-react";
 import {
   Dialog,
   DialogContent,
@@ -8,6 +13,24 @@ import {
 import type { ExamSubmitStatusDetail } from "@/types/exam";
 import type { QuestionAnswer } from "./ExamDetail";
 import type { ServerStudentAnswerDetail } from "@/types/server-exam";
+import { RichQuestionText } from "@/components/common/RichQuestionText";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { QuestionGradingEditor } from "./QuestionGradingEditor";
+import { submissionGradingQueryOptions } from "@/api/grading";
+import {
+  attachedRecognitionResultsAtom,
+  detachRecognitionResultAtom,
+} from "@/atoms/textRecognition";
+import { useRegradeSubmission } from "@/hooks/exam";
+import {
+  buildRegradeRequests,
+  calculateDraftTotalScore,
+  getEffectiveScore,
+  toGradingDraft,
+  validateGradingDraft,
+} from "@/utils/grading";
+import type { GradingDraft, GradingDrafts } from "@/types/grading";
 
 /**
  * 답안지 결과 모달 컴포넌트 Props
@@ -19,6 +42,8 @@ type Props = {
   studentAnswerData: ServerStudentAnswerDetail | null;
   /** 모달 닫기 핸들러 함수 - 사용자가 모달을 닫을 때 실행 */
   onClose: () => void;
+  /** 모달을 열 때 스크롤하고 강조할 문제 ID (선택적) */
+  focusedQuestionId?: string | null;
 };
 
 /**
@@ -39,6 +64,9 @@ type Props = {
  * - 정답/오답 시각적 구분
  * - 문항 난이도 및 타입 정보 표시
  * - 서버 데이터 구조 직접 활용 (변환 없음)
+ * - 특정 문항으로 스크롤 및 강조 (focusedQuestionId)
+ * - 주관식/OCR 인식 답안 수동 재채점 (부분 점수, 피드백, 실시간 총점)
+ * - 재채점 이력 표시 (변경자, 변경 시각, 점수 변화)
  *
  * @example
  * ```tsx
@@ -46,6 +74,7 @@ type Props = {
  *   selectedSubmission={selectedSubmission}
  *   studentAnswerData={studentAnswerData}
  *   onClose={handleClose}
+ *   focusedQuestionId={focusedQuestionId}
  * />
  * ```
  */
@@ -53,14 +82,88 @@ export function AnswerSheetCheckModal({
   selectedSubmission,
   studentAnswerData,
   onClose,
+  focusedQuestionId,
 }: Props) {
+  const isOpen = !!selectedSubmission && !!studentAnswerData;
+  const submissionId = studentAnswerData?.submissionId ?? "";
+
+  // 채점 정보 및 첨부된 OCR 인식 결과
+  const { data: grading, isError: isGradingError } = useQuery(
+    submissionGradingQueryOptions(submissionId),
+  );
+  const attachment = useAtomValue(attachedRecognitionResultsAtom)[submissionId];
+  const detachRecognitionResult = useSetAtom(detachRecognitionResultAtom);
+  const regradeMutation = useRegradeSubmission();
+
+  // 문제 ID별 재채점 입력값 (수정한 문항만 보관)
+  const [drafts, setDrafts] = useState<GradingDrafts>({});
+
+  // 다른 학생 답안을 열면 입력값 초기화
+  useEffect(() => {
+    setDrafts({});
+  }, [submissionId]);
+
+  const gradeById = new Map(
+    (grading?.questions ?? []).map((grade) => [grade.questionId, grade]),
+  );
+  const regradeRequests = grading
+    ? buildRegradeRequests(grading.questions, drafts)
+    : [];
+  const hasDraftError = (grading?.questions ?? []).some((grade) => {
+    const draft = drafts[grade.questionId];
+    return !!draft && !!validateGradingDraft(draft, grade.maxScore);
+  });
+  const liveTotalScore = grading
+    ? calculateDraftTotalScore(grading.questions, drafts)
+    : null;
+
+  /**
+   * 재채점 입력값 변경 핸들러
+   */
+  const handleDraftChange = (questionId: string, draft: GradingDraft) => {
+    setDrafts((prev) => ({ ...prev, [questionId]: draft }));
+  };
+
+  /**
+   * 재채점 저장 핸들러
+   * @description 점수나 피드백이 바뀐 문항만 전송하고 성공 시 입력값 초기화
+   */
+  const handleSaveGrades = () => {
+    regradeMutation.mutate(
+      { submissionId, grades: regradeRequests },
+      { onSuccess: () => setDrafts({}) },
+    );
+  };
+
+  /**
+   * 모달 닫기 요청 핸들러
+   * @description 저장하지 않은 재채점 내용이 있으면 확인 후 닫음
+   */
+  const handleOpenChange = (open: boolean) => {
+    if (open) return;
+    if (
+      regradeRequests.length > 0 &&
+      !confirm("저장하지 않은 재채점 내용이 있습니다. 닫으시겠습니까?")
+    ) {
+      return;
+    }
+    onClose();
+  };
+
+  // 모달이 열린 뒤 지정된 문항으로 스크롤
+  useEffect(() => {
+    if (!isOpen || !focusedQuestionId) return;
+
+    const frame = requestAnimationFrame(() => {
+      document
+        .getElementById(`answer-question-${focusedQuestionId}`)
+        ?.scrollIntoView({ block: "center" });
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [isOpen, focusedQuestionId]);
+
   return (
-    <Dialog
-      open={!!selectedSubmission && !!studentAnswerData}
-      onOpenChange={(o) => {
-        if (!o) onClose();
-      }}
-    >
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
       <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto bg-white">
         {selectedSubmission && studentAnswerData && (
           <>
@@ -68,8 +171,23 @@ export function AnswerSheetCheckModal({
               <DialogTitle className="text-xl font-bold">
                 {studentAnswerData.studentInfo.studentName} 님의 답안 확인
               </DialogTitle>
-              <DialogDescription className="text-lg">
+              <DialogDescription className="flex items-center justify-between text-lg">
                 {studentAnswerData.examInfo.examName}
+                <Link
+                  to="/main/students/$studentId"
+                  params={{
+                    studentId: String(studentAnswerData.studentInfo.studentId),
+                  }}
+                  search={{
+                    grade: [1, 2, 3].includes(studentAnswerData.examInfo.grade)
+                      ? (studentAnswerData.examInfo.grade as 1 | 2 | 3)
+                      : undefined,
+                  }}
+                  className="mr-6 flex items-center text-sm text-blue-600 hover:underline"
+                >
+                  <UserRound className="w-4 h-4 mr-1" />
+                  학생 프로필
+                </Link>
               </DialogDescription>
             </DialogHeader>
 
@@ -107,84 +225,235 @@ export function AnswerSheetCheckModal({
               </div>
             </div>
 
+            {/* 총점 및 재채점 저장 */}
+            {grading && liveTotalScore !== null && (
+              <div className="flex flex-wrap items-center justify-between gap-3 p-4 border rounded-lg mb-6">
+                <div>
+                  <p className="text-sm text-gray-600">총점</p>
+                  <p className="text-2xl font-bold text-blue-600">
+                    {liveTotalScore}
+                    <span className="text-base font-medium text-gray-500">
+                      {" "}
+                      / {grading.maxTotalScore}점
+                    </span>
+                    {liveTotalScore !== grading.totalScore && (
+                      <span className="ml-2 text-sm font-medium text-amber-600">
+                        (저장 전, 기존 {grading.totalScore}점)
+                      </span>
+                    )}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={
+                      Object.keys(drafts).length === 0 ||
+                      regradeMutation.isPending
+                    }
+                    onClick={() => setDrafts({})}
+                  >
+                    <RotateCcw className="w-4 h-4 mr-1" />
+                    되돌리기
+                  </Button>
+                  <Button
+                    size="sm"
+                    disabled={
+                      regradeRequests.length === 0 ||
+                      hasDraftError ||
+                      regradeMutation.isPending
+                    }
+                    onClick={handleSaveGrades}
+                  >
+                    <Save className="w-4 h-4 mr-1" />
+                    {regradeMutation.isPending
+                      ? "저장 중..."
+                      : `재채점 저장${regradeRequests.length > 0 ? ` (${regradeRequests.length})` : ""}`}
+                  </Button>
+                </div>
+              </div>
+            )}
+            {isGradingError && (
+              <p className="mb-6 text-sm text-red-600">
+                채점 정보를 불러오지 못해 재채점을 할 수 없습니다.
+              </p>
+            )}
+
+            {/* 첨부된 OCR 인식 결과 */}
+            {attachment && (
+              <div className="flex items-center justify-between gap-2 p-3 mb-4 rounded-lg border border-violet-200 bg-violet-50 text-sm">
+                <p className="flex items-center gap-1.5 text-violet-800">
+                  <ScanText className="w-4 h-4" />
+                  답안지 인식 결과 첨부됨 ({attachment.fileName},{" "}
+                  {attachment.version && `${attachment.version}형, `}
+                  {new Date(attachment.attachedAt).toLocaleString()})
+                </p>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => detachRecognitionResult(submissionId)}
+                >
+                  <X className="w-4 h-4 mr-1" />
+                  첨부 해제
+                </Button>
+              </div>
+            )}
+
             {/* 문항별 답안 목록 */}
             <div className="space-y-6">
               <h3 className="text-lg font-semibold mb-4">문항별 답안 분석</h3>
-              {studentAnswerData.questionAnswers.map((questionAnswer) => (
-                <div
-                  key={questionAnswer.questionId}
-                  className="border rounded-lg p-4 bg-white shadow-sm"
-                >
-                  {/* 문항 헤더 */}
-                  <div className="flex items-start justify-between mb-3">
-                    <div className="flex items-center space-x-3">
-                      <h4 className="text-lg font-medium">
-                        문항 {questionAnswer.questionNumber}
-                      </h4>
-                      <span className="px-2 py-1 bg-gray-100 text-gray-700 text-xs rounded">
-                        {questionAnswer.questionType === "MULTIPLE_CHOICE"
-                          ? "객관식"
-                          : "주관식"}
-                      </span>
-                      {questionAnswer.unitInfo && (
-                        <span className="px-2 py-1 bg-blue-100 text-blue-700 text-xs rounded">
-                          {questionAnswer.unitInfo.unitName}
+              {studentAnswerData.questionAnswers.map((questionAnswer) => {
+                const grade = gradeById.get(questionAnswer.questionId);
+                const draft = drafts[questionAnswer.questionId];
+                const recognizedText =
+                  attachment?.answers.find(
+                    (answer) =>
+                      answer.questionNumber === questionAnswer.questionNumber,
+                  )?.recognizedText ?? null;
+                const isGradable =
+                  questionAnswer.questionType === "SUBJECTIVE" ||
+                  recognizedText !== null;
+
+                return (
+                  <div
+                    key={questionAnswer.questionId}
+                    id={`answer-question-${questionAnswer.questionId}`}
+                    className={cn(
+                      "border rounded-lg p-4 bg-white shadow-sm",
+                      questionAnswer.questionId === focusedQuestionId &&
+                        "ring-2 ring-blue-500",
+                    )}
+                  >
+                    {/* 문항 헤더 */}
+                    <div className="flex items-start justify-between mb-3">
+                      <div className="flex items-center space-x-3">
+                        <h4 className="text-lg font-medium">
+                          문항 {questionAnswer.questionNumber}
+                        </h4>
+                        <span className="px-2 py-1 bg-gray-100 text-gray-700 text-xs rounded">
+                          {questionAnswer.questionType === "MULTIPLE_CHOICE"
+                            ? "객관식"
+                            : "주관식"}
                         </span>
-                      )}
-                    </div>
-                    <div className="flex items-center space-x-2">
-                      <span
-                        className={`px-3 py-1 rounded-full text-sm font-medium ${
-                          questionAnswer.studentAnswer ===
+                        {questionAnswer.unitInfo && (
+                          <span className="px-2 py-1 bg-blue-100 text-blue-700 text-xs rounded">
+                            {questionAnswer.unitInfo.unitName}
+                          </span>
+                        )}
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <span
+                          className={`px-3 py-1 rounded-full text-sm font-medium ${
+                            questionAnswer.studentAnswer ===
+                            questionAnswer.correctAnswer
+                              ? "bg-green-100 text-green-700"
+                              : "bg-red-100 text-red-700"
+                          }`}
+                        >
+                          {questionAnswer.studentAnswer ===
                           questionAnswer.correctAnswer
-                            ? "bg-green-100 text-green-700"
-                            : "bg-red-100 text-red-700"
-                        }`}
-                      >
-                        {questionAnswer.studentAnswer ===
-                        questionAnswer.correctAnswer
-                          ? "정답"
-                          : "오답"}
-                      </span>
-                      <span className="text-lg font-bold text-blue-600">
-                        최대 {questionAnswer.maxScore}점
-                      </span>
+                            ? "정답"
+                            : "오답"}
+                        </span>
+                        <span className="text-lg font-bold text-blue-600">
+                          {grade
+                            ? `${getEffectiveScore(grade, draft)} / ${grade.maxScore}점`
+                            : `최대 ${questionAnswer.maxScore}점`}
+                        </span>
+                      </div>
                     </div>
-                  </div>
 
-                  {/* 문제 내용 */}
-                  <div className="mb-4 p-3 bg-gray-50 rounded-lg">
-                    <p className="text-gray-800">
-                      <strong>문제:</strong> {questionAnswer.questionText}
-                    </p>
-                  </div>
+                    {/* 문제 내용 */}
+                    <div className="mb-4 p-3 bg-gray-50 rounded-lg">
+                      <div className="text-gray-800">
+                        <strong>문제:</strong>{" "}
+                        <RichQuestionText
+                          content={questionAnswer.questionText}
+                          isInline
+                        />
+                      </div>
+                    </div>
 
-                  {/* 답안 비교 */}
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    <div>
-                      <p className="text-sm font-medium text-gray-600 mb-2">
-                        학생 답안
-                      </p>
-                      <div className="p-3 border rounded-lg bg-white">
-                        <p className="text-gray-800">
-                          {questionAnswer.studentAnswer}
+                    {/* 답안 비교 */}
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div>
+                        <p className="text-sm font-medium text-gray-600 mb-2">
+                          학생 답안
                         </p>
+                        <div className="p-3 border rounded-lg bg-white">
+                          <p className="text-gray-800">
+                            {questionAnswer.studentAnswer}
+                          </p>
+                        </div>
                       </div>
-                    </div>
-                    <div>
-                      <p className="text-sm font-medium text-gray-600 mb-2">
-                        정답
-                      </p>
-                      <div className="p-3 border border-blue-200 rounded-lg bg-blue-50">
-                        <p className="text-blue-800 font-medium">
-                          {questionAnswer.correctAnswer}
+                      <div>
+                        <p className="text-sm font-medium text-gray-600 mb-2">
+                          정답
                         </p>
+                        <div className="p-3 border border-blue-200 rounded-lg bg-blue-50">
+                          <p className="text-blue-800 font-medium">
+                            {questionAnswer.correctAnswer}
+                          </p>
+                        </div>
                       </div>
                     </div>
+
+                    {/* 수동 재채점 (주관식/OCR 인식 답안) */}
+                    {grade && isGradable && (
+                      <QuestionGradingEditor
+                        grade={grade}
+                        draft={draft ?? toGradingDraft(grade)}
+                        onChange={(next) =>
+                          handleDraftChange(questionAnswer.questionId, next)
+                        }
+                        error={
+                          draft
+                            ? validateGradingDraft(draft, grade.maxScore)
+                            : null
+                        }
+                        lastChange={grading?.history.find(
+                          (entry) => entry.questionId === grade.questionId,
+                        )}
+                        recognizedText={recognizedText}
+                        isDisabled={regradeMutation.isPending}
+                      />
+                    )}
                   </div>
-                </div>
-              ))}
+                );
+              })}
             </div>
+
+            {/* 재채점 이력 */}
+            {grading && grading.history.length > 0 && (
+              <div className="mt-6 space-y-2">
+                <h3 className="flex items-center text-lg font-semibold">
+                  <History className="w-5 h-5 mr-2" />
+                  재채점 이력
+                </h3>
+                <ul className="divide-y rounded-lg border text-sm">
+                  {grading.history.map((entry) => (
+                    <li
+                      key={entry.id}
+                      className="flex flex-wrap items-center gap-x-3 gap-y-1 px-4 py-2"
+                    >
+                      <span className="font-medium">
+                        {entry.questionNumber}번
+                      </span>
+                      <span>
+                        {entry.previousScore}점 → {entry.newScore}점
+                      </span>
+                      {entry.newFeedback !== entry.previousFeedback && (
+                        <span className="text-gray-600">피드백 수정</span>
+                      )}
+                      <span className="ml-auto text-xs text-gray-500">
+                        {entry.gradedBy.teacherName} ·{" "}
+                        {new Date(entry.gradedAt).toLocaleString("ko-KR")}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
           </>
         )}
       </DialogContent>
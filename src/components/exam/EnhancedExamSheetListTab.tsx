@@ -19,13 +19,15 @@ import {
   AlertCircle,
   RefreshCw,
 } from "lucide-react";
-import { useEffect, useCallback, useRef, useState } from "react";
+import { useEffect, useCallback, useMemo, useRef, useState } from "react";
 
 // Components
 import { ExamTable } from "./ExamListTable";
 import { ExamSubmissionTable } from "./ExamSubmissionTable";
 import { ExamFilterSidebar } from "./ExamFilterSidebar";
+import { ExamLifecycleFilterBar } from "./ExamLifecycleFilterBar";
 import { ExamDetail } from "./ExamDetail";
+import { ExamDeleteDialog } from "./ExamDeleteDialog";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import {
@@ -43,6 +45,9 @@ import {
   showFilterSidebarAtom,
   collapsedFilterSidebarAtom,
   activeFiltersCountAtom,
+  examClientFiltersAtom,
+  activeClientFilterLabelsAtom,
+  unitFiltersAtom,
 } from "@/atoms/examFilters";
 import {
   selectedExamDetailAtom,
@@ -56,6 +61,12 @@ import {
   SubmissionStatusLoading,
 } from "@/components/loading/ExamLoadingStates";
 import { cn } from "@/lib/utils";
+import {
+  applyExamClientFilters,
+  collectExamUnitNames,
+  getExamClientFilterAvailability,
+  getUnavailableClientFilterLabels,
+} from "@/utils/examListFilters";
 
 /**
  * 시험 목록 탭 컴포넌트 Props
@@ -141,6 +152,7 @@ export function EnhancedExamSheetListTab({
     selectedIds,
     activeModal,
     selectedSheet,
+    deleteTargets,
     selectedExamId: currentSelectedExamId,
     searchKeyword,
     selectedGrade,
@@ -159,8 +171,35 @@ export function EnhancedExamSheetListTab({
     handleCloseModal,
     handleDeleteSelected,
     handleDelete,
+    handleCloseDeleteDialog,
+    handleExamsDeleted,
   } = useExamListWithFilters();
 
+  // 서버 미지원 필터 (진행 상태, 날짜, 문항 수 등) → 현재 페이지 내 클라이언트 필터링
+  const clientFilters = useAtomValue(examClientFiltersAtom);
+  const clientFilterLabels = useAtomValue(activeClientFilterLabelsAtom);
+  const visibleExams = useMemo(
+    () => applyExamClientFilters(exams, clientFilters),
+    [exams, clientFilters],
+  );
+
+  // 목록 응답에 정보가 없는 필터(응시 기간, 시험 유형, 진행 상태)는 비활성화하고 미적용 안내
+  const filterAvailability = useMemo(
+    () => getExamClientFilterAvailability(exams),
+    [exams],
+  );
+  const unavailableFilterLabels = getUnavailableClientFilterLabels(
+    clientFilters,
+    filterAvailability,
+  );
+
+  // 단원 필터 후보: 현재 페이지 단원 + 이미 선택된 단원 (다른 페이지로 가도 해제 가능하도록)
+  const unitFilters = useAtomValue(unitFiltersAtom);
+  const availableUnits = useMemo(
+    () => [...new Set([...collectExamUnitNames(exams), ...unitFilters])],
+    [exams, unitFilters],
+  );
+
   // URL 파라미터 동기화 (SSR 최적화)
   const { syncUrl, currentState } = useExamUrlSync({
     debounceMs: 300, // 300ms 디바운스로 불필요한 URL 업데이트 방지
@@ -216,8 +255,8 @@ export function EnhancedExamSheetListTab({
       {/* 필터 사이드바 */}
       {showSidebar && (
         <ExamFilterSidebar
-          availableUnits={[]}
-          availableExamTypes={[]}
+          availableUnits={availableUnits}
+          filterAvailability={filterAvailability}
           className="flex-shrink-0"
         />
       )}
@@ -391,18 +430,46 @@ export function EnhancedExamSheetListTab({
             </div>
           )}
 
-          {/* 시험 목록 테이블 */}
+          {/* 진행 상태 필터 */}
           {dataState.hasData && !dataState.isLoading && (
-            <ExamTable
-              sheets={exams}
-              selectedIds={selectedIds}
-              onSelectAll={handleSelectAll}
-              onSelect={handleSelect}
-              onOpenPrint={handleOpenPrint}
-              onOpenDetail={handleOpenDetail}
-              selectedExamId={selectedExamId}
-            />
+            <ExamLifecycleFilterBar exams={exams} className="mb-3" />
           )}
+
+          {/* 클라이언트 필터 안내 */}
+          {dataState.hasData &&
+            !dataState.isLoading &&
+            clientFilterLabels.length > 0 && (
+              <p className="mb-3 text-xs text-orange-600">
+                이 페이지 내에서만 필터링됨 ({clientFilterLabels.join(", ")}) ·{" "}
+                {exams.length}개 중 {visibleExams.length}개 표시
+                {unavailableFilterLabels.length > 0 &&
+                  ` · 정보 없음으로 미적용: ${unavailableFilterLabels.join(", ")}`}
+              </p>
+            )}
+
+          {dataState.hasData &&
+            !dataState.isLoading &&
+            visibleExams.length === 0 && (
+              <div className="py-12 text-center text-sm text-muted-foreground">
+                이 페이지에 조건에 맞는 시험이 없습니다.
+              </div>
+            )}
+
+          {/* 시험 목록 테이블 */}
+          {dataState.hasData &&
+            !dataState.isLoading &&
+            visibleExams.length > 0 && (
+              <ExamTable
+                sheets={visibleExams}
+                selectedIds={selectedIds}
+                onSelectAll={handleSelectAll}
+                onSelect={handleSelect}
+                onOpenPrint={handleOpenPrint}
+                onOpenDetail={handleOpenDetail}
+                selectedExamId={selectedExamId}
+                onDelete={handleDelete}
+              />
+            )}
         </div>
 
         {/* 페이지네이션 */}
@@ -466,6 +533,13 @@ export function EnhancedExamSheetListTab({
         )}
       </div>
 
+      {/* 시험 삭제 확인 다이얼로그 */}
+      <ExamDeleteDialog
+        exams={deleteTargets}
+        onClose={handleCloseDeleteDialog}
+        onDeleted={handleExamsDeleted}
+      />
+
       {/* 시험 상세 정보 모달 */}
       <Dialog
         open={activeModal !== null}
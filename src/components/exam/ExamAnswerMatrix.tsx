@@ -0,0 +1,273 @@
+import { useMemo, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useVirtualizer } from "@tanstack/react-virtual";
+import { Button } from "@/components/ui/button";
+
+import { cn } from "@/lib/utils";
+import { tableStyles } from "@/utils/commonStyles";
+import { allStudentsAnswerDetailsQueryOptions } from "@/api/dashboard";
+import { buildAnswerMatrix, sortAnswerMatrixRows } from "@/utils/itemAnalysis";
+import type { ServerStudentAnswerDetail } from "@/types/server-exam";
+import type { AnswerCellStatus, AnswerMatrixSort } from "@/types/item-analysis";
+
+/** 행 높이 (px) */
+const ROW_HEIGHT = 32;
+
+/** 셀 상태별 스타일 */
+const CELL_STYLES: Record<AnswerCellStatus, string> = {
+  correct: "bg-green-500 hover:bg-green-600",
+  wrong: "bg-red-400 hover:bg-red-500",
+  unanswered: "bg-gray-200 hover:bg-gray-300",
+};
+
+/** 셀 상태별 라벨 */
+const CELL_LABELS: Record<AnswerCellStatus, string> = {
+  correct: "정답",
+  wrong: "오답",
+  unanswered: "무응답",
+};
+
+/**
+ * 답안 매트릭스 컴포넌트 Props
+ */
+type ExamAnswerMatrixProps = {
+  /** 시험 ID */
+  examId: string;
+  /** 셀 클릭 시 해당 학생 답안지를 특정 문항 기준으로 여는 핸들러 */
+  onOpenCell?: (
+    answerSheet: ServerStudentAnswerDetail,
+    questionId: string,
+  ) => void;
+};
+
+/**
+ * 학생 × 문항 답안 매트릭스 컴포넌트
+ * @description 반 전체의 문항별 정오를 한눈에 보여주는 히트맵
+ *
+ * 주요 기능:
+ * - 학생별 행, 문항별 열로 정답/오답/무응답 색상 표시
+ * - 이름, 총점, 문항별 정렬 (헤더 클릭 시 방향 전환)
+ * - 행 가상화로 많은 학생도 부드럽게 스크롤
+ * - 셀 클릭 시 답안 확인 모달을 해당 문항 위치로 열기
+ *
+ * API 엔드포인트:
+ * - GET /teacher/dashboard/all-students-answer-details (전체 페이지 조회)
+ */
+export function ExamAnswerMatrix({
+  examId,
+  onOpenCell,
+}: ExamAnswerMatrixProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [sort, setSort] = useState<AnswerMatrixSort>({
+    key: "score",
+    direction: "desc",
+  });
+
+  const {
+    data: answerSheets,
+    isLoading,
+    isError,
+    refetch,
+  } = useQuery(allStudentsAnswerDetailsQueryOptions(examId));
+
+  const matrix = useMemo(
+    () => buildAnswerMatrix(answerSheets ?? []),
+    [answerSheets],
+  );
+  const rows = useMemo(
+    () => sortAnswerMatrixRows(matrix.rows, sort),
+    [matrix.rows, sort],
+  );
+
+  const rowVirtualizer = useVirtualizer({
+    count: rows.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => ROW_HEIGHT,
+    overscan: 10,
+  });
+
+  // 이름 160px, 총점 72px, 문항당 36px
+  const gridTemplateColumns = `160px 72px repeat(${matrix.columns.length}, 36px)`;
+
+  // 정렬 변경 핸들러 (같은 기준 클릭 시 방향 전환)
+  const handleSort = (key: AnswerMatrixSort["key"], questionId?: string) => {
+    setSort((prev) => {
+      const isSame = prev.key === key && prev.questionId === questionId;
+      if (isSame) {
+        return {
+          ...prev,
+          direction: prev.direction === "asc" ? "desc" : "asc",
+        };
+      }
+      return { key, questionId, direction: key === "name" ? "asc" : "desc" };
+    });
+  };
+
+  const renderSortIndicator = (
+    key: AnswerMatrixSort["key"],
+    questionId?: string,
+  ) =>
+    sort.key === key && sort.questionId === questionId ? (
+      <span className="ml-0.5">{sort.direction === "asc" ? "↑" : "↓"}</span>
+    ) : null;
+
+  // 로딩 상태
+  if (isLoading) {
+    return (
+      <div className={tableStyles.container}>
+        <div className="flex items-center justify-center min-h-[200px]">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">답안 매트릭스를 불러오는 중...</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // 에러 상태
+  if (isError) {
+    return (
+      <div className={tableStyles.container}>
+        <div className="flex items-center justify-center min-h-[200px]">
+          <div className="text-center">
+            <p className="text-red-600 mb-4">
+              답안 데이터를 불러오는데 실패했습니다.
+            </p>
+            <Button variant="outline" onClick={() => refetch()}>
+              다시 시도
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // 데이터가 없는 경우
+  if (rows.length === 0) {
+    return (
+      <div className={tableStyles.container}>
+        <div className="flex items-center justify-center min-h-[200px]">
+          <p className="text-gray-500">아직 제출한 학생이 없습니다.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {/* 범례 */}
+      <div className="flex items-center gap-4 text-xs text-gray-600">
+        {(Object.keys(CELL_LABELS) as AnswerCellStatus[]).map((status) => (
+          <span key={status} className="flex items-center gap-1">
+            <span
+              className={cn(
+                "inline-block w-3 h-3 rounded-sm",
+                CELL_STYLES[status],
+              )}
+            />
+            {CELL_LABELS[status]}
+          </span>
+        ))}
+        <span className="ml-auto">
+          셀을 클릭하면 해당 문항의 답안을 확인할 수 있습니다.
+        </span>
+      </div>
+
+      <div
+        ref={scrollRef}
+        className={cn(tableStyles.container, "max-h-[600px] overflow-auto")}
+      >
+        <div className="w-max min-w-full">
+          {/* 헤더 (상단 고정) */}
+          <div
+            className="sticky top-0 z-20 grid border-b bg-muted text-xs font-semibold"
+            style={{ gridTemplateColumns }}
+          >
+            <button
+              type="button"
+              className="sticky left-0 z-10 bg-muted px-3 py-2 text-left hover:bg-muted/70"
+              onClick={() => handleSort("name")}
+            >
+              이름
+              {renderSortIndicator("name")}
+            </button>
+            <button
+              type="button"
+              className="sticky left-[160px] z-10 bg-muted px-2 py-2 text-center hover:bg-muted/70"
+              onClick={() => handleSort("score")}
+            >
+              총점
+              {renderSortIndicator("score")}
+            </button>
+            {matrix.columns.map((column) => (
+              <button
+                key={column.questionId}
+                type="button"
+                className="py-2 text-center hover:bg-muted/70"
+                title={`${column.questionNumber}번 (${column.maxScore}점) · 정답률 ${Math.round(column.correctRate * 100)}%`}
+                onClick={() => handleSort("question", column.questionId)}
+              >
+                {column.questionNumber}
+                {renderSortIndicator("question", column.questionId)}
+              </button>
+            ))}
+          </div>
+
+          {/* 가상화된 학생 행 */}
+          <div
+            className="relative"
+            style={{ height: rowVirtualizer.getTotalSize() }}
+          >
+            {rowVirtualizer.getVirtualItems().map((virtualRow) => {
+              const row = rows[virtualRow.index];
+
+              return (
+                <div
+                  key={row.answerSheet.submissionId}
+                  className={cn(
+                    "absolute left-0 top-0 grid w-full items-center border-b text-sm",
+                    virtualRow.index % 2 === 0
+                      ? tableStyles.rowEven
+                      : tableStyles.rowOdd,
+                  )}
+                  style={{
+                    gridTemplateColumns,
+                    height: ROW_HEIGHT,
+                    transform: `translateY(${virtualRow.start}px)`,
+                  }}
+                >
+                  <div className="sticky left-0 z-10 h-full truncate bg-inherit px-3 leading-8 font-medium">
+                    {row.studentName}
+                  </div>
+                  <div className="sticky left-[160px] z-10 h-full bg-inherit px-2 text-center leading-8">
+                    {row.score}
+                  </div>
+                  {matrix.columns.map((column) => {
+                    const status = row.cells[column.questionId] ?? "unanswered";
+
+                    return (
+                      <button
+                        key={column.questionId}
+                        type="button"
+                        className={cn(
+                          "mx-auto h-6 w-7 rounded-sm transition-colors",
+                          CELL_STYLES[status],
+                        )}
+                        title={`${row.studentName} · ${column.questionNumber}번 ${CELL_LABELS[status]}`}
+                        aria-label={`${row.studentName} ${column.questionNumber}번 ${CELL_LABELS[status]}`}
+                        onClick={() =>
+                          onOpenCell?.(row.answerSheet, column.questionId)
+                        }
+                      />
+                    );
+                  })}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
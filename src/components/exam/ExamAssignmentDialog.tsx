@@ -0,0 +1,214 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Search } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  examAssignedStudentsQueryOptions,
+  studentRosterQueryOptions,
+} from "@/api/student";
+import { useStudentRosterMutations } from "@/hooks/student";
+
+/** 응시 대상 목록 최대 조회 수 */
+const ASSIGNMENT_ROSTER_SIZE = 100;
+
+/**
+ * 시험 응시 대상 지정 다이얼로그 Props
+ */
+type ExamAssignmentDialogProps = {
+  /** 시험 ID */
+  examId: string;
+  /** 시험 학년 (해당 학년 학생만 표시) */
+  grade?: number;
+  /** 다이얼로그 열림 여부 */
+  isOpen: boolean;
+  /** 다이얼로그 닫기 핸들러 */
+  onClose: () => void;
+};
+
+/**
+ * 시험 응시 대상 지정 다이얼로그
+ * @description 시험 학년의 학생 명단에서 응시 대상을 체크해 저장
+ *
+ * 주요 기능:
+ * - 현재 지정된 응시 대상 불러오기
+ * - 이름/전화번호 검색 및 화면에 보이는 학생 전체 선택
+ * - 검색으로 가려진 학생의 선택 상태는 그대로 유지
+ */
+export function ExamAssignmentDialog({
+  examId,
+  grade,
+  isOpen,
+  onClose,
+}: ExamAssignmentDialogProps) {
+  const { assignMutation } = useStudentRosterMutations();
+  const [search, setSearch] = useState("");
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+
+  const rosterGrade =
+    grade === 1 || grade === 2 || grade === 3 ? grade : undefined;
+  const rosterQuery = useQuery({
+    ...studentRosterQueryOptions({
+      grade: rosterGrade,
+      search: search.trim(),
+      size: ASSIGNMENT_ROSTER_SIZE,
+    }),
+    enabled: isOpen,
+  });
+  const assignedQuery = useQuery({
+    ...examAssignedStudentsQueryOptions(examId),
+    enabled: isOpen && examId.trim().length > 0,
+  });
+
+  // 다이얼로그가 열리거나 저장된 대상이 바뀌면 선택 상태 초기화
+  useEffect(() => {
+    if (!isOpen) return;
+    setSelectedIds(new Set(assignedQuery.data ?? []));
+  }, [isOpen, assignedQuery.data]);
+
+  const visibleStudents = rosterQuery.data?.content ?? [];
+  const isAllVisibleSelected =
+    visibleStudents.length > 0 &&
+    visibleStudents.every((student) => selectedIds.has(student.id));
+
+  /**
+   * 학생 선택 토글 핸들러
+   */
+  const handleToggle = (studentId: number) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(studentId)) {
+        next.delete(studentId);
+      } else {
+        next.add(studentId);
+      }
+      return next;
+    });
+  };
+
+  /**
+   * 보이는 학생 전체 선택/해제 핸들러
+   */
+  const handleToggleAll = () => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      visibleStudents.forEach((student) => {
+        if (isAllVisibleSelected) {
+          next.delete(student.id);
+        } else {
+          next.add(student.id);
+        }
+      });
+      return next;
+    });
+  };
+
+  /**
+   * 응시 대상 저장 핸들러
+   */
+  const handleSave = () => {
+    assignMutation.mutate(
+      { examId, studentIds: Array.from(selectedIds) },
+      { onSuccess: onClose },
+    );
+  };
+
+  const isLoading = rosterQuery.isLoading || assignedQuery.isLoading;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>응시 대상 지정</DialogTitle>
+          <DialogDescription>
+            {rosterGrade ? `${rosterGrade}학년 ` : ""}학생 중 이 시험을 응시할
+            학생을 선택하세요.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 w-4 h-4 -translate-y-1/2 text-gray-400" />
+          <Input
+            value={search}
+            placeholder="이름 또는 전화번호 검색"
+            className="pl-9"
+            onChange={(e) => setSearch(e.target.value)}
+          />
+        </div>
+
+        <div className="flex items-center justify-between text-sm">
+          <label className="flex items-center gap-2 cursor-pointer">
+            <Checkbox
+              checked={isAllVisibleSelected}
+              disabled={visibleStudents.length === 0}
+              onCheckedChange={handleToggleAll}
+            />
+            보이는 학생 전체 선택
+          </label>
+          <span className="text-gray-500">{selectedIds.size}명 선택됨</span>
+        </div>
+
+        <div className="max-h-80 overflow-y-auto rounded-md border divide-y">
+          {isLoading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+            </div>
+          ) : rosterQuery.isError || assignedQuery.isError ? (
+            <p className="p-4 text-sm text-red-600">
+              학생 명단을 불러오는데 실패했습니다.
+            </p>
+          ) : visibleStudents.length === 0 ? (
+            <p className="p-4 text-sm text-gray-500">
+              {search ? "검색 결과가 없습니다." : "등록된 학생이 없습니다."}
+            </p>
+          ) : (
+            visibleStudents.map((student) => (
+              <label
+                key={student.id}
+                className="flex items-center gap-3 px-3 py-2 cursor-pointer hover:bg-gray-50"
+              >
+                <Checkbox
+                  checked={selectedIds.has(student.id)}
+                  onCheckedChange={() => handleToggle(student.id)}
+                />
+                <span className="font-medium">{student.name}</span>
+                <span className="ml-auto text-sm text-gray-500">
+                  {student.phone}
+                </span>
+              </label>
+            ))
+          )}
+        </div>
+
+        {rosterQuery.data &&
+          rosterQuery.data.totalElements > ASSIGNMENT_ROSTER_SIZE && (
+            <p className="text-xs text-gray-500">
+              상위 {ASSIGNMENT_ROSTER_SIZE}명만 표시됩니다. 검색으로 범위를 좁혀
+              주세요.
+            </p>
+          )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            취소
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={isLoading || assignMutation.isPending}
+          >
+            {assignMutation.isPending ? "저장 중..." : "저장"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
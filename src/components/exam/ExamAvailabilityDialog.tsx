@@ -0,0 +1,141 @@
+import { useEffect, useState } from "react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { ServerExam } from "@/api/exam";
+import { useExamMutations } from "@/hooks/exam/useExamMutations";
+import {
+  toDateTimeLocalValue,
+  validateReopenEndDate,
+} from "@/utils/examSchedule";
+
+/** 다시 열기 기본 연장 기간 (1일) */
+const DEFAULT_REOPEN_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 시험 마감/다시 열기 작업 종류
+ */
+export type ExamAvailabilityAction = "close" | "reopen";
+
+/**
+ * 시험 마감/다시 열기 확인 다이얼로그 Props
+ */
+type ExamAvailabilityDialogProps = {
+  /** 대상 시험 (null이면 닫힘) */
+  exam: ServerExam | null;
+  /** 수행할 작업 */
+  action: ExamAvailabilityAction;
+  /** 다이얼로그 닫기 핸들러 */
+  onClose: () => void;
+};
+
+/**
+ * 시험 마감/다시 열기 확인 다이얼로그
+ * @description 진행 중인 시험을 지금 마감하거나, 마감된 시험을 새 종료일시로 다시 엶
+ *
+ * 주요 기능:
+ * - 마감: 확인 후 종료일시를 현재로 당김 (이후 제출 불가)
+ * - 다시 열기: 새 종료일시 입력 (기본값: 지금부터 1일 뒤, 현재 이후만 허용)
+ *
+ * API 엔드포인트:
+ * - POST /exams/{examId}/close
+ * - POST /exams/{examId}/reopen
+ */
+export function ExamAvailabilityDialog({
+  exam,
+  action,
+  onClose,
+}: ExamAvailabilityDialogProps) {
+  const { closeMutation, reopenMutation } = useExamMutations();
+  const [endDate, setEndDate] = useState("");
+
+  // 다이얼로그가 열릴 때 새 종료일시 기본값 설정
+  useEffect(() => {
+    if (exam && action === "reopen") {
+      setEndDate(
+        toDateTimeLocalValue(new Date(Date.now() + DEFAULT_REOPEN_MS)),
+      );
+    }
+  }, [exam, action]);
+
+  const isReopen = action === "reopen";
+  const endDateError = isReopen ? validateReopenEndDate(endDate) : null;
+  const isPending = closeMutation.isPending || reopenMutation.isPending;
+
+  /**
+   * 확인 핸들러
+   */
+  const handleConfirm = (event: React.MouseEvent) => {
+    // 요청이 끝날 때까지 다이얼로그 유지
+    event.preventDefault();
+    if (!exam) return;
+
+    if (isReopen) {
+      if (endDateError) return;
+      reopenMutation.mutate(
+        { examId: exam.id, endDate: new Date(endDate).toISOString() },
+        { onSuccess: onClose },
+      );
+    } else {
+      closeMutation.mutate(exam.id, { onSuccess: onClose });
+    }
+  };
+
+  return (
+    <AlertDialog open={!!exam} onOpenChange={(open) => !open && onClose()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>
+            {isReopen ? "시험 다시 열기" : "시험 마감"}
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            {isReopen
+              ? `'${exam?.examName}' 시험을 다시 열어 새 종료일시까지 제출을 받습니다.`
+              : `'${exam?.examName}' 시험을 지금 마감하시겠습니까? 마감 후에는 학생들이 답안을 제출할 수 없습니다.`}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {isReopen && (
+          <div className="space-y-2">
+            <Label htmlFor="reopen-end-date">새 종료일시</Label>
+            <Input
+              id="reopen-end-date"
+              type="datetime-local"
+              value={endDate}
+              min={toDateTimeLocalValue(new Date())}
+              onChange={(event) => setEndDate(event.target.value)}
+              disabled={isPending}
+            />
+            {endDateError && (
+              <p className="text-sm text-destructive">{endDateError}</p>
+            )}
+          </div>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isPending}>취소</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={handleConfirm}
+            disabled={isPending || !!endDateError}
+            className={
+              isReopen
+                ? undefined
+                : "bg-destructive text-white hover:bg-destructive/90"
+            }
+          >
+            {isPending ? "처리 중..." : isReopen ? "다시 열기" : "지금 마감"}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
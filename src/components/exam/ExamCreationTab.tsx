@@ -26,6 +26,14 @@ import { refreshExamListAtom } from "@/atoms/exam";
 import { useExamTab } from "@/contexts/ExamTabContext";
 import { Combobox } from "@/components/ui/combobox";
 import type { ComboboxItem } from "@/components/ui/combobox";
+import { ExamLifecycleBadge } from "./ExamLifecycleBadge";
+import {
+  MAX_EXAM_DURATION_MINUTES,
+  createDefaultExamSchedule,
+  getExamLifecycleStatus,
+  validateExamSchedule,
+} from "@/utils/examSchedule";
+import type { ExamScheduleValues } from "@/types/exam";
 
 const MAX_STUDENT_OPTIONS: ComboboxItem[] = Array.from(
   { length: 100 },
@@ -46,7 +54,7 @@ const MAX_STUDENT_OPTIONS: ComboboxItem[] = Array.from(
  * - 선택된 문제지 정보 미리보기
  * - 시험 출제 처리 (실제 API 연동)
  * - 로딩 상태 및 에러 처리
- * - 시작/종료 날짜 자동 설정 (현재 날짜 ~ +7일)
+ * - 시작/종료일시, 제한시간 입력 및 검증 (기본값: 다음 정각부터 7일, 120분)
  * - 컨텍스트를 통한 탭 전환 지원
  */
 export function ExamCreationTab() {
@@ -71,6 +79,11 @@ export function ExamCreationTab() {
     duration: 120, // 기본 2시간
   });
 
+  const [schedule, setSchedule] = useState<ExamScheduleValues>(() =>
+    createDefaultExamSchedule(),
+  );
+  const scheduleError = validateExamSchedule(schedule);
+
   const { data } = useAtomValue(sheetListQueryAtom);
 
   // 시험 생성 mutation
@@ -106,6 +119,7 @@ export function ExamCreationTab() {
         grade: 0,
         maxStudent: 100,
       });
+      setSchedule(createDefaultExamSchedule());
 
       // 시험 목록 탭으로 이동 (약간의 딜레이 후)
       setTimeout(() => {
@@ -152,12 +166,14 @@ export function ExamCreationTab() {
       return;
     }
 
-    // 현재 날짜와 7일 후 날짜 자동 설정
-    const now = new Date();
-    const startDate = now.toISOString();
-    const endDate = new Date(
-      now.getTime() + 7 * 24 * 60 * 60 * 1000,
-    ).toISOString();
+    if (scheduleError) {
+      toast.error(scheduleError);
+      return;
+    }
+
+    // datetime-local 값(로컬 시간)을 ISO 8601로 변환
+    const startDate = new Date(schedule.startDate).toISOString();
+    const endDate = new Date(schedule.endDate).toISOString();
 
     // API 요청 데이터 구성
     const requestData: CreateExamRequest = {
@@ -168,7 +184,7 @@ export function ExamCreationTab() {
       maxStudent: formData.maxStudent,
       startDate,
       endDate,
-      duration: formData.duration,
+      duration: schedule.duration,
     };
 
     logger.info("시험 생성 요청:", requestData);
@@ -318,6 +334,83 @@ export function ExamCreationTab() {
             </div>
           </div>
 
+          {/* 시험 일정 입력 */}
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <Label className="text-base font-medium">응시 기간 *</Label>
+              {!scheduleError && (
+                <ExamLifecycleBadge
+                  status={getExamLifecycleStatus({
+                    startDate: schedule.startDate,
+                    endDate: schedule.endDate,
+                  })}
+                />
+              )}
+            </div>
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-[1fr_1fr_10rem]">
+              <div className="space-y-1">
+                <Label htmlFor="startDate" className="text-sm text-gray-600">
+                  시작일시
+                </Label>
+                <Input
+                  id="startDate"
+                  type="datetime-local"
+                  value={schedule.startDate}
+                  onChange={(e) =>
+                    setSchedule((prev) => ({
+                      ...prev,
+                      startDate: e.target.value,
+                    }))
+                  }
+                  className="h-12"
+                  disabled={createExamMutation.isPending}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="endDate" className="text-sm text-gray-600">
+                  종료일시
+                </Label>
+                <Input
+                  id="endDate"
+                  type="datetime-local"
+                  value={schedule.endDate}
+                  min={schedule.startDate}
+                  onChange={(e) =>
+                    setSchedule((prev) => ({
+                      ...prev,
+                      endDate: e.target.value,
+                    }))
+                  }
+                  className="h-12"
+                  disabled={createExamMutation.isPending}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="duration" className="text-sm text-gray-600">
+                  제한시간 (분)
+                </Label>
+                <Input
+                  id="duration"
+                  type="number"
+                  min={1}
+                  max={MAX_EXAM_DURATION_MINUTES}
+                  value={schedule.duration}
+                  onChange={(e) =>
+                    setSchedule((prev) => ({
+                      ...prev,
+                      duration: Number(e.target.value),
+                    }))
+                  }
+                  className="h-12"
+                  disabled={createExamMutation.isPending}
+                />
+              </div>
+            </div>
+            {scheduleError && (
+              <p className="text-sm text-destructive">{scheduleError}</p>
+            )}
+          </div>
+
           {/* 시험 설명 입력 (선택사항) */}
           <div className="space-y-2">
             <Label htmlFor="description" className="text-base font-medium">
@@ -402,6 +495,7 @@ export function ExamCreationTab() {
                 createExamMutation.isPending ||
                 !formData.examName.trim() ||
                 !formData.examSheetId ||
+                !!scheduleError ||
                 examSheets.length === 0
               }
             >
@@ -0,0 +1,149 @@
+import { useQueries } from "@tanstack/react-query";
+import { AlertTriangle, Loader2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { submissionStatusQueryOptions } from "@/api/exam";
+import type { ServerExam } from "@/api/exam";
+import { useExamMutations } from "@/hooks/exam/useExamMutations";
+
+/**
+ * 시험 삭제 확인 다이얼로그 Props
+ */
+type ExamDeleteDialogProps = {
+  /** 삭제할 시험 목록 (비어 있으면 닫힘) */
+  exams: Array<Pick<ServerExam, "id" | "examName">>;
+  /** 다이얼로그 닫기 핸들러 */
+  onClose: () => void;
+  /** 삭제 완료 후 콜백 (삭제된 시험 ID 목록) */
+  onDeleted?: (deletedIds: string[]) => void;
+};
+
+/**
+ * 시험 삭제 확인 다이얼로그
+ * @description 삭제 전에 제출 현황을 조회하여 제출이 있는 시험은 삭제 대상에서 제외
+ *
+ * 주요 기능:
+ * - 시험별 제출 현황(GET /exams/{id}/submission-status) 조회
+ * - 제출이 있는 시험은 경고와 함께 삭제 차단
+ * - 제출이 없는 시험만 삭제
+ */
+export function ExamDeleteDialog({
+  exams,
+  onClose,
+  onDeleted,
+}: ExamDeleteDialogProps) {
+  const { deleteMutation } = useExamMutations();
+
+  const statusQueries = useQueries({
+    queries: exams.map((exam) => submissionStatusQueryOptions(exam.id)),
+  });
+
+  const isCheckingStatus = statusQueries.some((query) => query.isPending);
+  const hasStatusError = statusQueries.some((query) => query.isError);
+  const submittedExams = exams
+    .map((exam, index) => ({
+      ...exam,
+      submissionCount:
+        statusQueries[index]?.data?.submissionStats.actualSubmissions ?? 0,
+    }))
+    .filter((exam) => exam.submissionCount > 0);
+  const deletableExams = exams.filter(
+    (exam) => !submittedExams.some((submitted) => submitted.id === exam.id),
+  );
+
+  /**
+   * 삭제 확인 핸들러
+   */
+  const handleConfirm = (event: React.MouseEvent) => {
+    // 삭제가 끝날 때까지 다이얼로그 유지
+    event.preventDefault();
+    deleteMutation.mutate(deletableExams, {
+      onSuccess: ({ deletedIds }) => {
+        onDeleted?.(deletedIds);
+        onClose();
+      },
+    });
+  };
+
+  return (
+    <AlertDialog
+      open={exams.length > 0}
+      onOpenChange={(open) => !open && onClose()}
+    >
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>시험 삭제</AlertDialogTitle>
+          <AlertDialogDescription asChild>
+            <div className="space-y-3 text-sm">
+              {isCheckingStatus && (
+                <p className="flex items-center gap-2">
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  시험 제출 현황을 확인하는 중...
+                </p>
+              )}
+              {!isCheckingStatus && hasStatusError && (
+                <p className="text-destructive">
+                  제출 현황을 확인하지 못했습니다. 잠시 후 다시 시도해주세요.
+                </p>
+              )}
+              {!isCheckingStatus && !hasStatusError && (
+                <>
+                  {deletableExams.length > 0 ? (
+                    <p>
+                      {deletableExams.length === 1
+                        ? `'${deletableExams[0].examName}' 시험을`
+                        : `시험 ${deletableExams.length}개를`}{" "}
+                      삭제하시겠습니까? 삭제한 시험은 되돌릴 수 없습니다.
+                    </p>
+                  ) : (
+                    <p>삭제할 수 있는 시험이 없습니다.</p>
+                  )}
+                  {submittedExams.length > 0 && (
+                    <div className="rounded-md border border-amber-300 bg-amber-50 p-3 text-amber-800">
+                      <p className="flex items-center gap-2 font-medium">
+                        <AlertTriangle className="w-4 h-4" />
+                        제출이 있는 시험은 삭제할 수 없습니다.
+                      </p>
+                      <ul className="mt-2 list-disc pl-5">
+                        {submittedExams.map((exam) => (
+                          <li key={exam.id}>
+                            {exam.examName} (제출 {exam.submissionCount}명)
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={deleteMutation.isPending}>
+            취소
+          </AlertDialogCancel>
+          <AlertDialogAction
+            onClick={handleConfirm}
+            disabled={
+              isCheckingStatus ||
+              hasStatusError ||
+              deletableExams.length === 0 ||
+              deleteMutation.isPending
+            }
+            className="bg-destructive text-white hover:bg-destructive/90"
+          >
+            {deleteMutation.isPending ? "삭제 중..." : "삭제"}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -3,10 +3,24 @@ import { useAtomValue, useSetAtom } from "jotai";
 import { useHydrateAtoms } from "jotai/utils";
 
 import { ExamAttendeesTable } from "./ExamAttendeesTable";
+import { ExamItemAnalysis } from "./ExamItemAnalysis";
+import { ExamAnswerMatrix } from "./ExamAnswerMatrix";
 import { Badge } from "@/components/ui/badge";
 import type { ExamSubmitStatusDetail } from "@/types/exam";
 
 import { AnswerSheetCheckModal } from "./AnswerSheetResult";
+import { AnswerSheetRecognitionModal } from "./AnswerSheetRecognitionModal";
+import { ExamAssignmentDialog } from "./ExamAssignmentDialog";
+import { ExamNonSubmittersPanel } from "./ExamNonSubmittersPanel";
+import { LiveSubmissionMonitor } from "./LiveSubmissionMonitor";
+import { ExamLifecycleBadge } from "./ExamLifecycleBadge";
+import {
+  formatExamSchedule,
+  getExamLifecycleStatus,
+} from "@/utils/examSchedule";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ScanText, UserCheck } from "lucide-react";
 import { fetchStudentAnswerSheet } from "@/api/exam/api";
 import type { ServerStudentAnswerDetail } from "@/types/server-exam";
 import { useRouter } from "@tanstack/react-router";
@@ -78,6 +92,9 @@ type ExamDetailProps = {
  * - 제출/미제출 통계 표시
  * - 학생별 제출 현황 테이블
  * - 답안 상세 확인 모달
+ * - 종이 답안지 사진 인식(OCR) 및 결과 첨부
+ * - 문항 분석 (정답률, 변별도, 오답 선택지 분포)
+ * - 학생 × 문항 답안 매트릭스 (셀 클릭 시 해당 문항 답안 확인)
  * - 뒤로가기 기능
  * - SSR 사전 로드된 서버 데이터 기반 제출 현황 표시
  * - 로딩 상태 없는 즉시 렌더링 (SSR 장점 활용)
@@ -96,6 +113,11 @@ export function ExamDetail({ onBack, examName, examId }: ExamDetailProps = {}) {
     useState<ServerStudentAnswerDetail | null>(null);
   const [isLoadingAnswer, setIsLoadingAnswer] = useState(false);
   const [answerError, setAnswerError] = useState<string | null>(null);
+  const [isRecognitionOpen, setIsRecognitionOpen] = useState(false);
+  const [isAssignmentOpen, setIsAssignmentOpen] = useState(false);
+  const [focusedQuestionId, setFocusedQuestionId] = useState<string | null>(
+    null,
+  );
 
   // Atoms 가져오기
   const selectExam = useSetAtom(selectExamAtom);
@@ -150,6 +172,7 @@ export function ExamDetail({ onBack, examName, examId }: ExamDetailProps = {}) {
     };
 
     setSelectedSubmission(submission);
+    setFocusedQuestionId(null);
     setIsLoadingAnswer(true);
     setAnswerError(null);
 
@@ -165,6 +188,37 @@ export function ExamDetail({ onBack, examName, examId }: ExamDetailProps = {}) {
     }
   };
 
+  /**
+   * 답안 매트릭스 셀 클릭 핸들러
+   * @description 매트릭스에서 이미 받아온 답안지로 모달을 열고 클릭한 문항으로 이동
+   */
+  const handleOpenMatrixCell = (
+    answerSheet: ServerStudentAnswerDetail,
+    questionId: string,
+  ) => {
+    setSelectedSubmission({
+      id: answerSheet.submissionId,
+      student: {
+        id: answerSheet.studentInfo.studentId.toString(),
+        name: answerSheet.studentInfo.studentName,
+      },
+      examName: answerSheet.examInfo.examName,
+      submissionDate: new Date(answerSheet.submittedAt).toLocaleDateString(
+        "ko-KR",
+      ),
+      submittedAt: answerSheet.submittedAt,
+      score: null,
+      totalScore: 0,
+      status: "submitted",
+      submissionStatus: "제출완료",
+      correctAnswerCount: 0,
+      wrongAnswerCount: 0,
+    });
+    setStudentAnswerData(answerSheet);
+    setFocusedQuestionId(questionId);
+    setAnswerError(null);
+  };
+
   /**
    * 모달 닫기 핸들러
    * @description 답안 상세 모달을 닫고 관련 상태를 초기화
@@ -172,6 +226,7 @@ export function ExamDetail({ onBack, examName, examId }: ExamDetailProps = {}) {
   const handleClose = () => {
     setSelectedSubmission(null);
     setStudentAnswerData(null);
+    setFocusedQuestionId(null);
     setAnswerError(null);
   };
 
@@ -214,9 +269,17 @@ export function ExamDetail({ onBack, examName, examId }: ExamDetailProps = {}) {
           <h1 className="text-2xl font-bold text-gray-900">
             {examDetail?.examName}
           </h1>
-          <Badge variant="outline" className="text-sm">
-            {examDetail?.grade}학년
-          </Badge>
+          <div className="flex items-center gap-2">
+            {examDetail && (
+              <ExamLifecycleBadge
+                status={getExamLifecycleStatus(examDetail)}
+                className="text-sm"
+              />
+            )}
+            <Badge variant="outline" className="text-sm">
+              {examDetail?.grade}학년
+            </Badge>
+          </div>
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
@@ -240,6 +303,13 @@ export function ExamDetail({ onBack, examName, examId }: ExamDetailProps = {}) {
                 : "-"}
             </span>
           </div>
+          <div className="md:col-span-3">
+            <span className="text-gray-500">응시 기간:</span>
+            <span className="ml-2 font-medium">
+              {(examDetail && formatExamSchedule(examDetail)) ||
+                "일정 정보 없음"}
+            </span>
+          </div>
         </div>
 
         {examDetail?.content && (
@@ -286,17 +356,80 @@ export function ExamDetail({ onBack, examName, examId }: ExamDetailProps = {}) {
         </div>
       )}
 
-      {/* 응시자 테이블 컴포넌트 - 별도 API에서 데이터 로드 */}
-      <ExamAttendeesTable
-        examId={examId || ""}
-        onOpenDetail={handleOpenDetail}
-      />
+      {/* 실시간 제출 모니터링 */}
+      <LiveSubmissionMonitor examId={examId || ""} />
+
+      {/* 응시 대상 지정 / 종이 답안지 인식 */}
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={() => setIsAssignmentOpen(true)}>
+          <UserCheck className="w-4 h-4 mr-2" />
+          응시 대상 지정
+        </Button>
+        <Button variant="outline" onClick={() => setIsRecognitionOpen(true)}>
+          <ScanText className="w-4 h-4 mr-2" />
+          종이 답안지 인식
+        </Button>
+      </div>
+
+      <Tabs defaultValue="attendees" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="attendees">응시자 현황</TabsTrigger>
+          <TabsTrigger value="answer-matrix">답안 매트릭스</TabsTrigger>
+          <TabsTrigger value="item-analysis">문항 분석</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="attendees">
+          <div className="grid grid-cols-1 gap-4 xl:grid-cols-[1fr_20rem]">
+            {/* 응시자 테이블 컴포넌트 - 별도 API에서 데이터 로드 */}
+            <ExamAttendeesTable
+              examId={examId || ""}
+              onOpenDetail={handleOpenDetail}
+            />
+
+            {/* 미제출 학생 - 학생 명단과 응시자 비교 */}
+            <ExamNonSubmittersPanel
+              examId={examId || ""}
+              examName={examDetail?.examName ?? ""}
+              grade={examDetail?.grade}
+            />
+          </div>
+        </TabsContent>
+
+        <TabsContent value="answer-matrix">
+          {/* 학생 × 문항 답안 매트릭스 */}
+          <ExamAnswerMatrix
+            examId={examId || ""}
+            onOpenCell={handleOpenMatrixCell}
+          />
+        </TabsContent>
+
+        <TabsContent value="item-analysis">
+          {/* 문항 분석 - 전체 학생 답안 기반 집계 */}
+          <ExamItemAnalysis examId={examId || ""} />
+        </TabsContent>
+      </Tabs>
 
       {/* 답안 확인 모달 */}
       <AnswerSheetCheckModal
         selectedSubmission={selectedSubmission}
         studentAnswerData={studentAnswerData}
         onClose={handleClose}
+        focusedQuestionId={focusedQuestionId}
+      />
+
+      {/* 종이 답안지 인식 모달 */}
+      <AnswerSheetRecognitionModal
+        examId={examId || ""}
+        isOpen={isRecognitionOpen}
+        onClose={() => setIsRecognitionOpen(false)}
+      />
+
+      {/* 응시 대상 지정 다이얼로그 */}
+      <ExamAssignmentDialog
+        examId={examId || ""}
+        grade={examDetail?.grade}
+        isOpen={isAssignmentOpen}
+        onClose={() => setIsAssignmentOpen(false)}
       />
 
       {/* 로딩 오버레이 (답안 데이터 로딩 중) */}
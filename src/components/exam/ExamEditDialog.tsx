@@ -0,0 +1,364 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { AlertTriangle } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Combobox } from "@/components/ui/combobox";
+import { submissionStatusQueryOptions } from "@/api/exam";
+import type { ServerExam } from "@/api/exam";
+import { examSheetListQueryOptions } from "@/api/exam-sheet";
+import { useExamMutations } from "@/hooks/exam/useExamMutations";
+import {
+  MAX_EXAM_DURATION_MINUTES,
+  toExamScheduleValues,
+  validateExamSchedule,
+} from "@/utils/examSchedule";
+import type { ExamScheduleValues } from "@/types/exam";
+
+/** 최대 학생 수 상한 (서버 검증 규칙과 동일) */
+const MAX_STUDENT_LIMIT = 100;
+
+/**
+ * 시험 수정 폼 값
+ */
+type ExamEditFormValues = {
+  examName: string;
+  examSheetId: string;
+  grade: number;
+  maxStudent: number;
+  description: string;
+};
+
+/**
+ * 시험 수정 다이얼로그 Props
+ */
+type ExamEditDialogProps = {
+  /** 수정할 시험 (null이면 닫힘) */
+  exam: ServerExam | null;
+  /** 다이얼로그 닫기 핸들러 */
+  onClose: () => void;
+};
+
+/**
+ * 시험 수정 다이얼로그
+ * @description 시험명, 문제지, 학년, 최대 학생 수, 응시 기간, 설명을 수정하고 저장
+ *
+ * 주요 기능:
+ * - 현재 시험 정보와 제출 현황(최대 학생 수)으로 폼 초기화
+ * - 제출이 있는 시험은 문제지와 학년 변경 차단 (채점 기준이 바뀌므로)
+ * - 응시 기간 검증 (출제 화면과 같은 규칙)
+ *
+ * API 엔드포인트:
+ * - PUT /exams/{examId}
+ */
+export function ExamEditDialog({ exam, onClose }: ExamEditDialogProps) {
+  const { updateMutation } = useExamMutations();
+  const [values, setValues] = useState<ExamEditFormValues>({
+    examName: "",
+    examSheetId: "",
+    grade: 1,
+    maxStudent: 20,
+    description: "",
+  });
+  const [schedule, setSchedule] = useState<ExamScheduleValues>({
+    startDate: "",
+    endDate: "",
+    duration: 120,
+  });
+
+  const submissionQuery = useQuery(
+    submissionStatusQueryOptions(exam?.id ?? ""),
+  );
+  const submissionStats = submissionQuery.data?.submissionStats;
+  const hasSubmissions = (submissionStats?.actualSubmissions ?? 0) > 0;
+
+  const sheetListQuery = useQuery({
+    ...examSheetListQueryOptions({
+      page: 0,
+      size: 100,
+      sort: "createdAt",
+      direction: "desc",
+      grade: values.grade,
+    }),
+    enabled: !!exam,
+  });
+
+  // 다이얼로그가 열릴 때 현재 시험 기준으로 초기화
+  useEffect(() => {
+    if (exam) {
+      setValues({
+        examName: exam.examName,
+        examSheetId: exam.examSheetInfo?.id ?? "",
+        grade: exam.grade,
+        maxStudent: 20,
+        description: exam.content ?? "",
+      });
+      setSchedule(toExamScheduleValues(exam));
+    }
+  }, [exam]);
+
+  // 제출 현황이 도착하면 최대 학생 수 반영
+  useEffect(() => {
+    if (submissionStats) {
+      setValues((prev) => ({
+        ...prev,
+        maxStudent: submissionStats.maxStudent,
+      }));
+    }
+  }, [submissionStats]);
+
+  const scheduleError = validateExamSchedule(schedule);
+  const validationError = !values.examName.trim()
+    ? "시험명을 입력해주세요."
+    : !values.examSheetId
+      ? "문제지를 선택해주세요."
+      : values.maxStudent < 1 || values.maxStudent > MAX_STUDENT_LIMIT
+        ? `최대 학생 수는 1~${MAX_STUDENT_LIMIT}명 사이로 입력해주세요.`
+        : scheduleError;
+
+  const sheetItems = (sheetListQuery.data?.content ?? []).map((sheet) => ({
+    value: sheet.id,
+    label: sheet.examName,
+    disabled: false,
+  }));
+  // 현재 문제지가 목록 첫 페이지에 없어도 선택값이 표시되도록 보완
+  if (
+    exam?.examSheetInfo?.id &&
+    values.grade === exam.grade &&
+    !sheetItems.some((item) => item.value === exam.examSheetInfo?.id)
+  ) {
+    sheetItems.unshift({
+      value: exam.examSheetInfo.id,
+      label: exam.examSheetInfo.examName ?? "현재 문제지",
+      disabled: false,
+    });
+  }
+
+  /**
+   * 저장 핸들러
+   */
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!exam || validationError) return;
+
+    updateMutation.mutate(
+      {
+        examId: exam.id,
+        data: {
+          examName: values.examName,
+          examSheetId: values.examSheetId,
+          description: values.description,
+          grade: values.grade,
+          maxStudent: values.maxStudent,
+          startDate: new Date(schedule.startDate).toISOString(),
+          endDate: new Date(schedule.endDate).toISOString(),
+          duration: schedule.duration,
+        },
+      },
+      { onSuccess: onClose },
+    );
+  };
+
+  const isDisabled = updateMutation.isPending || submissionQuery.isPending;
+
+  return (
+    <Dialog open={!!exam} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>시험 수정</DialogTitle>
+            <DialogDescription>
+              시험 정보와 응시 기간을 수정할 수 있습니다.
+            </DialogDescription>
+          </DialogHeader>
+
+          {hasSubmissions && (
+            <div className="flex items-start gap-2 rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800">
+              <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+              <p>
+                이미 {submissionStats?.actualSubmissions}명이 제출한 시험이라
+                문제지와 학년은 변경할 수 없습니다.
+              </p>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="edit-exam-title">시험명</Label>
+            <Input
+              id="edit-exam-title"
+              value={values.examName}
+              maxLength={100}
+              onChange={(event) =>
+                setValues((prev) => ({
+                  ...prev,
+                  examName: event.target.value,
+                }))
+              }
+              disabled={isDisabled}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-[1fr_8rem_8rem]">
+            <div className="space-y-2">
+              <Label>문제지</Label>
+              <Combobox
+                items={sheetItems}
+                value={values.examSheetId}
+                onValueChange={(value) =>
+                  setValues((prev) => ({ ...prev, examSheetId: value }))
+                }
+                placeholder="문제지를 선택하세요"
+                searchPlaceholder="문제지 검색..."
+                emptyText="결과가 없습니다."
+                buttonClassName="w-full"
+                buttonVariant="outline"
+                disabled={isDisabled || hasSubmissions}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>대상 학년</Label>
+              <Select
+                value={values.grade.toString()}
+                onValueChange={(value) =>
+                  setValues((prev) => ({
+                    ...prev,
+                    grade: Number(value),
+                    // 학년이 바뀌면 다른 학년 문제지는 쓸 수 없으므로 선택 해제
+                    examSheetId: "",
+                  }))
+                }
+                disabled={isDisabled || hasSubmissions}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {["1", "2", "3"].map((grade) => (
+                    <SelectItem key={grade} value={grade}>
+                      {grade}학년
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-exam-max-student">최대 학생 수</Label>
+              <Input
+                id="edit-exam-max-student"
+                type="number"
+                min={Math.max(1, submissionStats?.actualSubmissions ?? 1)}
+                max={MAX_STUDENT_LIMIT}
+                value={values.maxStudent}
+                onChange={(event) =>
+                  setValues((prev) => ({
+                    ...prev,
+                    maxStudent: Number(event.target.value),
+                  }))
+                }
+                disabled={isDisabled}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-[1fr_1fr_8rem]">
+            <div className="space-y-2">
+              <Label htmlFor="edit-exam-start">시작일시</Label>
+              <Input
+                id="edit-exam-start"
+                type="datetime-local"
+                value={schedule.startDate}
+                onChange={(event) =>
+                  setSchedule((prev) => ({
+                    ...prev,
+                    startDate: event.target.value,
+                  }))
+                }
+                disabled={isDisabled}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-exam-end">종료일시</Label>
+              <Input
+                id="edit-exam-end"
+                type="datetime-local"
+                value={schedule.endDate}
+                min={schedule.startDate}
+                onChange={(event) =>
+                  setSchedule((prev) => ({
+                    ...prev,
+                    endDate: event.target.value,
+                  }))
+                }
+                disabled={isDisabled}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-exam-duration">제한시간 (분)</Label>
+              <Input
+                id="edit-exam-duration"
+                type="number"
+                min={1}
+                max={MAX_EXAM_DURATION_MINUTES}
+                value={schedule.duration}
+                onChange={(event) =>
+                  setSchedule((prev) => ({
+                    ...prev,
+                    duration: Number(event.target.value),
+                  }))
+                }
+                disabled={isDisabled}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="edit-exam-description">시험 설명</Label>
+            <Textarea
+              id="edit-exam-description"
+              value={values.description}
+              maxLength={500}
+              className="resize-none h-24"
+              onChange={(event) =>
+                setValues((prev) => ({
+                  ...prev,
+                  description: event.target.value,
+                }))
+              }
+              disabled={isDisabled}
+            />
+          </div>
+
+          {validationError && (
+            <p className="text-sm text-destructive">{validationError}</p>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              취소
+            </Button>
+            <Button type="submit" disabled={!!validationError || isDisabled}>
+              {updateMutation.isPending ? "저장 중..." : "저장"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -74,12 +74,27 @@ import {
   collapsedFilterSidebarAtom,
   activeFiltersCountAtom,
   resetAllFiltersAtom,
-  filterPresetsAtom,
+  examFilterPresetSearchAtom,
+  applyExamFilterPresetAtom,
 } from "@/atoms/examFilters";
+import { examFilterPresetAtoms } from "@/atoms/filterPresets";
+import { FilterPresetMenu } from "@/components/layout/FilterPresetMenu";
 
 // Types
-import type { ExamStatus, SearchScope } from "@/types/exam";
+import type {
+  ExamClientFilterAvailability,
+  ExamQuestionTypeMix,
+  ExamStatus,
+  SearchScope,
+} from "@/types/exam";
 import { cn } from "@/lib/utils";
+import {
+  EXAM_PARTICIPATION_RATE_BOUNDS,
+  EXAM_QUESTION_COUNT_BOUNDS,
+  EXAM_QUESTION_TYPE_LABEL,
+  EXAM_QUESTION_TYPE_ORDER,
+} from "@/utils/examListFilters";
+import { EXAM_FILTER_PRESET_SEARCH_KEYS } from "@/utils/filterPresets";
 
 /**
  * 필터 콘텐츠 컴포넌트의 Props 타입
@@ -95,36 +110,56 @@ type FilterContentProps = {
   /** 사용 가능한 단원 목록 */
   availableUnits: string[];
   /** 사용 가능한 시험 유형 목록 */
-  availableExamTypes: string[];
+  availableExamTypes: ExamQuestionTypeMix[];
+  /** 클라이언트 필터 사용 가능 여부 */
+  filterAvailability: ExamClientFilterAvailability;
 };
 
 /**
  * 필터 사이드바 Props 타입
  */
 type ExamFilterSidebarProps = {
-  /** 사용 가능한 단원 목록 */
+  /** 사용 가능한 단원 목록 (현재 페이지 시험의 단원) */
   availableUnits?: string[];
-  /** 사용 가능한 시험 유형 목록 */
-  availableExamTypes?: string[];
+  /** 사용 가능한 시험 유형 목록 (기본값: 전체 유형) */
+  availableExamTypes?: ExamQuestionTypeMix[];
+  /** 클라이언트 필터 사용 가능 여부 (현재 페이지 시험 기준, 기본값: 모두 사용 가능) */
+  filterAvailability?: ExamClientFilterAvailability;
   /** 사이드바 클래스명 */
   className?: string;
 };
 
 const defaultAvailableUnits: string[] = [];
-const defaultAvailableExamTypes: string[] = [];
+
+const defaultFilterAvailability: ExamClientFilterAvailability = {
+  schedule: true,
+  examType: true,
+  lifecycle: true,
+};
+
+/** 클라이언트 필터 섹션 안내 문구 */
+function PageOnlyHint() {
+  return (
+    <p className="text-[11px] text-orange-600">이 페이지 내에서만 필터링됨</p>
+  );
+}
 
 /**
  * 필터 콘텐츠 컴포넌트
  * @description 필터 사이드바의 내부 콘텐츠를 렌더링하는 컴포넌트
  *
  * 주요 기능:
- * - 빠른 필터 프리셋 제공
+ * - 저장된 필터 프리셋 (저장, 적용, 기본 지정, 공유)
  * - 검색 필터 (키워드, 범위, 고급 옵션)
  * - 상태 및 난이도 필터
  * - 날짜 범위 필터
  * - 성과 지표 필터 (문항 수, 참여율)
  * - 콘텐츠 분류 필터 (단원, 시험 유형)
  *
+ * 서버(/exams)는 시험명 검색·학년·최근 필터만 지원하므로
+ * 나머지 필터는 현재 페이지 결과에만 적용되며 섹션마다 안내 문구를 표시
+ * 현재 페이지에 조건을 확인할 정보가 없는 필터(응시 기간, 시험 유형)는 비활성화
+ *
  * @param props 필터 콘텐츠 Props
  */
 function FilterContent({
@@ -133,6 +168,7 @@ function FilterContent({
   toggleSection,
   availableUnits,
   availableExamTypes,
+  filterAvailability,
 }: FilterContentProps) {
   // 모든 상태를 Jotai atoms에서 직접 가져오기
   const [searchKeyword, setSearchKeyword] = useAtom(searchKeywordAtom);
@@ -148,7 +184,8 @@ function FilterContent({
   const [advancedOptions, setAdvancedOptions] = useAtom(
     advancedSearchOptionsAtom,
   );
-  const [filterPresets] = useAtom(filterPresetsAtom);
+  const presetSearch = useAtomValue(examFilterPresetSearchAtom);
+  const applyPreset = useSetAtom(applyExamFilterPresetAtom);
 
   /**
    * 상태 필터 핸들러
@@ -171,7 +208,10 @@ function FilterContent({
   /**
    * 시험 유형 필터 핸들러
    */
-  const handleExamTypeFilter = (type: string, checked: boolean) => {
+  const handleExamTypeFilter = (
+    type: ExamQuestionTypeMix,
+    checked: boolean,
+  ) => {
     setExamTypeFilters((prev) =>
       checked ? [...prev, type] : prev.filter((t) => t !== type),
     );
@@ -181,7 +221,7 @@ function FilterContent({
    * 날짜 범위 핸들러
    */
   const handleDateRangeChange = (
-    type: "createdFrom" | "createdTo" | "updatedFrom" | "updatedTo",
+    type: "createdFrom" | "createdTo" | "scheduledFrom" | "scheduledTo",
     date: Date | undefined,
   ) => {
     setDateFilters((prev) => ({
@@ -190,17 +230,6 @@ function FilterContent({
     }));
   };
 
-  /**
-   * 프리셋 적용 핸들러
-   */
-  const applyPreset = (presetKey: string) => {
-    const preset = filterPresets[presetKey];
-    if (!preset) return;
-
-    setStatusFilters(preset.filters.statusFilters);
-    setQuestionRange(preset.filters.questionCountRange);
-    setParticipationRange(preset.filters.participationRateRange);
-  };
   return (
     <ScrollArea
       className={cn(
@@ -209,22 +238,16 @@ function FilterContent({
       )}
     >
       <div className="space-y-4 p-1">
-        {/* 빠른 필터 프리셋 */}
+        {/* 저장된 필터 프리셋 */}
         <div className="space-y-2">
-          <Label className="text-sm font-medium">빠른 필터</Label>
-          <div className="grid grid-cols-1 gap-2">
-            {Object.entries(filterPresets).map(([key, preset]) => (
-              <Button
-                key={key}
-                variant="outline"
-                size="sm"
-                className="justify-start text-xs h-9"
-                onClick={() => applyPreset(key)}
-              >
-                {preset.name}
-              </Button>
-            ))}
-          </div>
+          <Label className="text-sm font-medium">저장된 필터</Label>
+          <FilterPresetMenu
+            atoms={examFilterPresetAtoms}
+            currentSearch={presetSearch}
+            searchKeys={EXAM_FILTER_PRESET_SEARCH_KEYS}
+            onApply={applyPreset}
+            className="w-full justify-start"
+          />
         </div>
 
         <Separator />
@@ -270,15 +293,18 @@ function FilterContent({
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="all">전체 (시험명 + 단원명)</SelectItem>
+                  <SelectItem value="all">전체 (시험명)</SelectItem>
                   <SelectItem value="examName">시험명만</SelectItem>
                   <SelectItem value="unitName">단원명만</SelectItem>
                 </SelectContent>
               </Select>
             </div>
 
-            {/* 고급 검색 옵션 */}
+            {/* 고급 검색 옵션 (서버 검색은 부분 일치·대소문자 무관) */}
             <div className="space-y-3">
+              {(searchScope === "unitName" ||
+                advancedOptions.caseSensitive ||
+                advancedOptions.exactMatch) && <PageOnlyHint />}
               <div className="flex items-center justify-between">
                 <Label className="text-xs">대소문자 구분</Label>
                 <Switch
@@ -375,6 +401,8 @@ function FilterContent({
             </Button>
           </CollapsibleTrigger>
           <CollapsibleContent className="space-y-4 mt-3">
+            <PageOnlyHint />
+
             {/* 생성일 범위 */}
             <div className="space-y-2">
               <Label className="text-xs">생성일</Label>
@@ -440,9 +468,14 @@ function FilterContent({
               </div>
             </div>
 
-            {/* 수정일 범위 */}
+            {/* 응시 기간 범위 (기간이 겹치는 시험) */}
             <div className="space-y-2">
-              <Label className="text-xs">수정일</Label>
+              <Label className="text-xs">응시 기간</Label>
+              {!filterAvailability.schedule && (
+                <p className="text-[11px] text-muted-foreground">
+                  시험 일정 정보 없음 (사용할 수 없음)
+                </p>
+              )}
               <div
                 className={cn(
                   "grid gap-2",
@@ -455,10 +488,11 @@ function FilterContent({
                       variant="outline"
                       size="sm"
                       className="justify-start text-xs h-9"
+                      disabled={!filterAvailability.schedule}
                     >
                       <CalendarIcon className="mr-1 h-3 w-3" />
-                      {dateFilters.updatedFrom
-                        ? format(dateFilters.updatedFrom, "MM/dd", {
+                      {dateFilters.scheduledFrom
+                        ? format(dateFilters.scheduledFrom, "MM/dd", {
                             locale: ko,
                           })
                         : "시작일"}
@@ -467,9 +501,9 @@ function FilterContent({
                   <PopoverContent className="w-auto p-0">
                     <Calendar
                       mode="single"
-                      selected={dateFilters.updatedFrom}
+                      selected={dateFilters.scheduledFrom}
                       onSelect={(date) =>
-                        handleDateRangeChange("updatedFrom", date)
+                        handleDateRangeChange("scheduledFrom", date)
                       }
                       initialFocus
                     />
@@ -482,10 +516,11 @@ function FilterContent({
                       variant="outline"
                       size="sm"
                       className="justify-start text-xs h-9"
+                      disabled={!filterAvailability.schedule}
                     >
                       <CalendarIcon className="mr-1 h-3 w-3" />
-                      {dateFilters.updatedTo
-                        ? format(dateFilters.updatedTo, "MM/dd", {
+                      {dateFilters.scheduledTo
+                        ? format(dateFilters.scheduledTo, "MM/dd", {
                             locale: ko,
                           })
                         : "종료일"}
@@ -494,9 +529,9 @@ function FilterContent({
                   <PopoverContent className="w-auto p-0">
                     <Calendar
                       mode="single"
-                      selected={dateFilters.updatedTo}
+                      selected={dateFilters.scheduledTo}
                       onSelect={(date) =>
-                        handleDateRangeChange("updatedTo", date)
+                        handleDateRangeChange("scheduledTo", date)
                       }
                       initialFocus
                     />
@@ -528,6 +563,8 @@ function FilterContent({
             </Button>
           </CollapsibleTrigger>
           <CollapsibleContent className="space-y-4 mt-3">
+            <PageOnlyHint />
+
             {/* 문항 수 범위 */}
             <div className="space-y-3">
               <div className="flex justify-between items-center">
@@ -539,8 +576,8 @@ function FilterContent({
               <Slider
                 value={[questionRange.min, questionRange.max]}
                 onValueChange={([min, max]) => setQuestionRange({ min, max })}
-                max={40}
-                min={10}
+                max={EXAM_QUESTION_COUNT_BOUNDS.max}
+                min={EXAM_QUESTION_COUNT_BOUNDS.min}
                 step={1}
                 className="w-full"
               />
@@ -559,8 +596,8 @@ function FilterContent({
                 onValueChange={([min, max]) =>
                   setParticipationRange({ min, max })
                 }
-                max={100}
-                min={0}
+                max={EXAM_PARTICIPATION_RATE_BOUNDS.max}
+                min={EXAM_PARTICIPATION_RATE_BOUNDS.min}
                 step={5}
                 className="w-full"
               />
@@ -589,6 +626,8 @@ function FilterContent({
             </Button>
           </CollapsibleTrigger>
           <CollapsibleContent className="space-y-4 mt-3">
+            <PageOnlyHint />
+
             {/* 단원 필터 */}
             {availableUnits.length > 0 && (
               <div className="space-y-2">
@@ -619,12 +658,18 @@ function FilterContent({
             {availableExamTypes.length > 0 && (
               <div className="space-y-2">
                 <Label className="text-xs">시험 유형</Label>
+                {!filterAvailability.examType && (
+                  <p className="text-[11px] text-muted-foreground">
+                    문항 유형 정보 없음 (사용할 수 없음)
+                  </p>
+                )}
                 <div className="space-y-3">
                   {availableExamTypes.map((type) => (
                     <div key={type} className="flex items-center space-x-3">
                       <Checkbox
                         id={`type-${type}`}
                         checked={examTypeFilters.includes(type)}
+                        disabled={!filterAvailability.examType}
                         onCheckedChange={(checked) =>
                           handleExamTypeFilter(type, checked as boolean)
                         }
@@ -633,7 +678,7 @@ function FilterContent({
                         htmlFor={`type-${type}`}
                         className="text-xs cursor-pointer"
                       >
-                        {type}
+                        {EXAM_QUESTION_TYPE_LABEL[type]}
                       </Label>
                     </div>
                   ))}
@@ -653,7 +698,7 @@ function FilterContent({
  *
  * 주요 기능:
  * - 빠른 필터 (상태, 난이도)
- * - 날짜 범위 필터 (생성일, 수정일)
+ * - 날짜 범위 필터 (생성일, 응시 기간)
  * - 성과 지표 필터 (문항 수, 참여율)
  * - 콘텐츠 필터 (단원, 시험 유형)
  * - 고급 검색 옵션
@@ -666,13 +711,14 @@ function FilterContent({
  * ```tsx
  * <ExamFilterSidebar
  *   availableUnits={["1단원: 다항식", "2단원: 인수분해"]}
- *   availableExamTypes={["중간고사", "기말고사", "단원평가"]}
+ *   availableExamTypes={["objective", "mixed"]}
  * />
  * ```
  */
 export function ExamFilterSidebar({
   availableUnits = defaultAvailableUnits,
-  availableExamTypes = defaultAvailableExamTypes,
+  availableExamTypes = EXAM_QUESTION_TYPE_ORDER,
+  filterAvailability = defaultFilterAvailability,
   className,
 }: ExamFilterSidebarProps) {
   // 사이드바 상태
@@ -766,6 +812,7 @@ export function ExamFilterSidebar({
               toggleSection={toggleSection}
               availableUnits={availableUnits}
               availableExamTypes={availableExamTypes}
+              filterAvailability={filterAvailability}
             />
           </div>
         </SheetContent>
@@ -839,6 +886,7 @@ export function ExamFilterSidebar({
             toggleSection={toggleSection}
             availableUnits={availableUnits}
             availableExamTypes={availableExamTypes}
+            filterAvailability={filterAvailability}
           />
         </CardContent>
       )}
@@ -0,0 +1,344 @@
+import { Fragment, useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { RichQuestionText } from "@/components/common/RichQuestionText";
+
+import { cn } from "@/lib/utils";
+import { tableStyles } from "@/utils/commonStyles";
+import { allStudentsAnswerDetailsQueryOptions } from "@/api/dashboard";
+import {
+  analyzeExamItems,
+  ITEM_ANALYSIS_FLAG_LABEL,
+} from "@/utils/itemAnalysis";
+import type { ItemAnalysis } from "@/types/item-analysis";
+
+/**
+ * 시험 문항 분석 컴포넌트 Props
+ */
+type ExamItemAnalysisProps = {
+  /** 시험 ID */
+  examId: string;
+};
+
+/**
+ * 선택지 분포 막대 컴포넌트 Props
+ */
+type ChoiceDistributionBarsProps = {
+  /** 분석 대상 문항 */
+  item: ItemAnalysis;
+  /** 상위/하위 집단 인원 */
+  groupSize: number;
+};
+
+/**
+ * 선택지 분포 막대 컴포넌트
+ * @description 객관식 문항의 선택지별 선택 비율과 상위/하위 집단 선택 인원을 표시
+ */
+function ChoiceDistributionBars({
+  item,
+  groupSize,
+}: ChoiceDistributionBarsProps) {
+  if (item.choiceDistribution.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        주관식 문항은 선택지 분석을 제공하지 않습니다. (정답:{" "}
+        {item.correctAnswer})
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {item.choiceDistribution.map((choice) => (
+        <div key={choice.choice || "none"} className="flex items-center gap-3">
+          <div className="w-40 shrink-0 truncate text-sm">
+            <span
+              className={cn(
+                "font-medium",
+                choice.isCorrect ? "text-green-700" : "text-gray-700",
+              )}
+            >
+              {choice.choice ? `${choice.choice}번` : "무응답"}
+            </span>
+            {choice.label && (
+              <span className="ml-1 text-gray-500">{choice.label}</span>
+            )}
+          </div>
+          <div className="h-3 flex-1 overflow-hidden rounded bg-gray-100">
+            <div
+              className={cn(
+                "h-full rounded",
+                choice.isCorrect ? "bg-green-500" : "bg-blue-300",
+                !choice.isCorrect &&
+                  item.flags.includes("attractiveDistractor") &&
+                  choice.upperCount > 0 &&
+                  "bg-amber-400",
+              )}
+              style={{ width: `${Math.round(choice.rate * 100)}%` }}
+            />
+          </div>
+          <div className="w-48 shrink-0 text-right text-xs text-gray-600">
+            {choice.count}명 ({Math.round(choice.rate * 100)}%) · 상위{" "}
+            {choice.upperCount}/{groupSize} · 하위 {choice.lowerCount}/
+            {groupSize}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * 시험 문항 분석 컴포넌트
+ * @description 시험 전체 답안을 바탕으로 문항별 난이도, 변별도, 오답 선택지 분포를 표시
+ *
+ * 주요 기능:
+ * - 문항별 정답률(p), 상위/하위 27% 정답률, 변별도(D) 표시
+ * - 너무 쉬움/어려움, 낮은/음수 변별도, 매력적 오답 문항 강조
+ * - 행을 펼쳐 객관식 선택지별 분포 확인
+ *
+ * API 엔드포인트:
+ * - GET /teacher/dashboard/all-students-answer-details (전체 페이지 조회)
+ */
+export function ExamItemAnalysis({ examId }: ExamItemAnalysisProps) {
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+
+  const {
+    data: answerSheets,
+    isLoading,
+    isError,
+    refetch,
+  } = useQuery(allStudentsAnswerDetailsQueryOptions(examId));
+
+  const analysis = useMemo(
+    () => analyzeExamItems(answerSheets ?? []),
+    [answerSheets],
+  );
+
+  // 행 펼치기/접기 핸들러
+  const handleToggle = (questionId: string) => {
+    setExpandedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(questionId)) next.delete(questionId);
+      else next.add(questionId);
+      return next;
+    });
+  };
+
+  // 로딩 상태
+  if (isLoading) {
+    return (
+      <div className={tableStyles.container}>
+        <div className="flex items-center justify-center min-h-[200px]">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">문항 분석 데이터를 불러오는 중...</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // 에러 상태
+  if (isError) {
+    return (
+      <div className={tableStyles.container}>
+        <div className="flex items-center justify-center min-h-[200px]">
+          <div className="text-center">
+            <p className="text-red-600 mb-4">
+              문항 분석 데이터를 불러오는데 실패했습니다.
+            </p>
+            <Button variant="outline" onClick={() => refetch()}>
+              다시 시도
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // 데이터가 없는 경우
+  if (analysis.studentCount === 0) {
+    return (
+      <div className={tableStyles.container}>
+        <div className="flex items-center justify-center min-h-[200px]">
+          <p className="text-gray-500">
+            제출된 답안이 없어 문항 분석을 할 수 없습니다.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const flaggedCount = analysis.items.filter(
+    (item) => item.flags.length > 0,
+  ).length;
+
+  return (
+    <div className="space-y-4">
+      {/* 분석 요약 */}
+      <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600">
+        <span>
+          응시자{" "}
+          <strong className="text-gray-900">{analysis.studentCount}</strong>명
+        </span>
+        <span>
+          상위/하위 집단 각{" "}
+          <strong className="text-gray-900">{analysis.groupSize}</strong>명
+          (27%)
+        </span>
+        <span>
+          검토 필요 문항{" "}
+          <strong
+            className={cn(flaggedCount > 0 ? "text-red-600" : "text-gray-900")}
+          >
+            {flaggedCount}
+          </strong>
+          개
+        </span>
+      </div>
+
+      <div className={tableStyles.container}>
+        <Table>
+          <TableHeader>
+            <TableRow className={tableStyles.header}>
+              <TableHead className="w-[40px]" />
+              <TableHead className={tableStyles.headerCellCenter}>
+                번호
+              </TableHead>
+              <TableHead className={tableStyles.headerCell}>유형</TableHead>
+              <TableHead className={tableStyles.headerCell}>단원</TableHead>
+              <TableHead className={tableStyles.headerCellCenter}>
+                정답률(p)
+              </TableHead>
+              <TableHead className={tableStyles.headerCellCenter}>
+                상위/하위 정답률
+              </TableHead>
+              <TableHead className={tableStyles.headerCellCenter}>
+                변별도(D)
+              </TableHead>
+              <TableHead className={tableStyles.headerCell}>판정</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {analysis.items.map((item, index) => {
+              const isExpanded = expandedIds.has(item.questionId);
+              const hasWarning =
+                item.flags.includes("negativeDiscrimination") ||
+                item.flags.includes("attractiveDistractor");
+
+              return (
+                <Fragment key={item.questionId}>
+                  <TableRow
+                    className={cn(
+                      tableStyles.row,
+                      "cursor-pointer",
+                      index % 2 === 0
+                        ? tableStyles.rowEven
+                        : tableStyles.rowOdd,
+                      hasWarning && "bg-red-50/60",
+                    )}
+                    onClick={() => handleToggle(item.questionId)}
+                  >
+                    <TableCell className={tableStyles.cellCenter}>
+                      {isExpanded ? (
+                        <ChevronDown className="w-4 h-4" />
+                      ) : (
+                        <ChevronRight className="w-4 h-4" />
+                      )}
+                    </TableCell>
+                    <TableCell className={tableStyles.cellCenter}>
+                      {item.questionNumber}
+                    </TableCell>
+                    <TableCell className={tableStyles.cell}>
+                      {item.questionType === "MULTIPLE_CHOICE"
+                        ? "객관식"
+                        : "주관식"}
+                    </TableCell>
+                    <TableCell className={tableStyles.cellMedium}>
+                      {item.unitName ?? "-"}
+                    </TableCell>
+                    <TableCell className={tableStyles.cellCenter}>
+                      {Math.round(item.pValue * 100)}%
+                      <span className="ml-1 text-xs text-gray-500">
+                        ({item.correctCount}/{item.responseCount})
+                      </span>
+                    </TableCell>
+                    <TableCell className={tableStyles.cellCenter}>
+                      {Math.round(item.upperPValue * 100)}% /{" "}
+                      {Math.round(item.lowerPValue * 100)}%
+                    </TableCell>
+                    <TableCell
+                      className={cn(
+                        tableStyles.cellCenter,
+                        "font-medium",
+                        item.discrimination < 0 && "text-red-600",
+                      )}
+                    >
+                      {item.discrimination.toFixed(2)}
+                    </TableCell>
+                    <TableCell className={tableStyles.cell}>
+                      <div className="flex flex-wrap gap-1">
+                        {item.flags.length === 0 ? (
+                          <Badge variant="outline">양호</Badge>
+                        ) : (
+                          item.flags.map((flag) => (
+                            <Badge
+                              key={flag}
+                              variant={
+                                flag === "negativeDiscrimination" ||
+                                flag === "attractiveDistractor"
+                                  ? "destructive"
+                                  : "secondary"
+                              }
+                            >
+                              {ITEM_ANALYSIS_FLAG_LABEL[flag]}
+                            </Badge>
+                          ))
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+
+                  {/* 선택지 분포 (펼침) */}
+                  {isExpanded && (
+                    <TableRow className="bg-muted/10 hover:bg-muted/10">
+                      <TableCell colSpan={8} className="px-6 py-4">
+                        <div className="mb-3 text-sm text-gray-700">
+                          <RichQuestionText
+                            content={item.questionText}
+                            isInline
+                          />
+                        </div>
+                        <ChoiceDistributionBars
+                          item={item}
+                          groupSize={analysis.groupSize}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </Fragment>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        정답률 20% 미만/90% 초과, 변별도 0.2 미만인 문항은 검토가 필요합니다.
+        변별도가 음수이거나 상위 집단이 정답보다 특정 오답을 더 많이 고른 문항은
+        정답 오류나 모호한 표현을 확인하세요.
+      </p>
+    </div>
+  );
+}
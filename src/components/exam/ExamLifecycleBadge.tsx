@@ -0,0 +1,51 @@
+/**
+ * 시험 진행 상태 뱃지 컴포넌트
+ * @description 시험 일정으로 계산한 진행 상태(예정/진행중/마감/채점완료/일정 없음)를 표시하는 뱃지
+ */
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { EXAM_LIFECYCLE_LABEL } from "@/utils/examSchedule";
+import type { ExamLifecycleStatus } from "@/types/exam";
+
+/** 진행 상태별 뱃지 색상 */
+const LIFECYCLE_BADGE_CLASS: Record<ExamLifecycleStatus, string> = {
+  scheduled: "border-amber-200 bg-amber-50 text-amber-700",
+  open: "border-green-200 bg-green-50 text-green-700",
+  closed: "border-gray-200 bg-gray-100 text-gray-600",
+  graded: "border-blue-200 bg-blue-50 text-blue-700",
+  unknown: "border-dashed border-gray-200 text-gray-400",
+};
+
+/**
+ * 시험 진행 상태 뱃지 Props
+ */
+type ExamLifecycleBadgeProps = {
+  /** 진행 상태 */
+  status: ExamLifecycleStatus;
+  /** 추가 CSS 클래스명 */
+  className?: string;
+};
+
+/**
+ * 시험 진행 상태 뱃지 컴포넌트
+ * @example
+ * ```tsx
+ * <ExamLifecycleBadge status={getExamLifecycleStatus(exam)} />
+ * ```
+ */
+export function ExamLifecycleBadge({
+  status,
+  className,
+}: ExamLifecycleBadgeProps) {
+  return (
+    <Badge
+      variant="outline"
+      className={cn("font-medium", LIFECYCLE_BADGE_CLASS[status], className)}
+    >
+      {status === "open" && (
+        <span className="mr-1 inline-block size-1.5 rounded-full bg-green-500" />
+      )}
+      {EXAM_LIFECYCLE_LABEL[status]}
+    </Badge>
+  );
+}
@@ -0,0 +1,72 @@
+import { useAtom } from "jotai";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { examLifecycleFilterAtom } from "@/atoms/examFilters";
+import {
+  EXAM_LIFECYCLE_LABEL,
+  EXAM_LIFECYCLE_ORDER,
+  getExamLifecycleStatus,
+  hasKnownExamLifecycle,
+} from "@/utils/examSchedule";
+import type { ServerExam } from "@/api/exam/types";
+
+/**
+ * 시험 진행 상태 필터 바 Props
+ */
+type ExamLifecycleFilterBarProps = {
+  /** 현재 페이지 시험 목록 (상태별 개수 계산용) */
+  exams: ServerExam[];
+  /** 추가 CSS 클래스명 */
+  className?: string;
+};
+
+/**
+ * 시험 진행 상태 필터 바 컴포넌트
+ * @description 예정/진행중/마감/채점완료 상태별 개수를 보여주고 선택한 상태만 표시하도록 필터링
+ *
+ * 서버 API에 상태 필터가 없어 현재 페이지에서만 필터링 (안내 문구는 목록의 클라이언트 필터 안내에 함께 표시)
+ * 현재 페이지에 일정 정보가 있는 시험이 없으면 표시하지 않음
+ */
+export function ExamLifecycleFilterBar({
+  exams,
+  className,
+}: ExamLifecycleFilterBarProps) {
+  const [lifecycleFilter, setLifecycleFilter] = useAtom(
+    examLifecycleFilterAtom,
+  );
+
+  if (!hasKnownExamLifecycle(exams)) return null;
+
+  const now = new Date();
+  const counts = exams.reduce<Record<string, number>>((acc, exam) => {
+    const status = getExamLifecycleStatus(exam, now);
+    acc[status] = (acc[status] ?? 0) + 1;
+    return acc;
+  }, {});
+
+  const options = [
+    { value: "all" as const, label: "전체", count: exams.length },
+    ...EXAM_LIFECYCLE_ORDER.map((status) => ({
+      value: status,
+      label: EXAM_LIFECYCLE_LABEL[status],
+      count: counts[status] ?? 0,
+    })),
+  ];
+
+  return (
+    <div className={cn("flex flex-wrap items-center gap-2", className)}>
+      {options.map((option) => (
+        <Button
+          key={option.value}
+          size="sm"
+          variant={lifecycleFilter === option.value ? "default" : "outline"}
+          className="h-8"
+          onClick={() => setLifecycleFilter(option.value)}
+        >
+          {option.label}
+          <span className="ml-1 text-xs opacity-70">{option.count}</span>
+        </Button>
+      ))}
+    </div>
+  );
+}
@@ -16,10 +16,33 @@ import { cn } from "@/lib/utils";
 import { useState } from "react";
 import { tableStyles, buttonStyles, badgeStyles } from "@/utils/commonStyles";
 import type { ServerExam as Exam } from "@/api/exam/types";
-import { Link } from "@tanstack/react-router";
+import { Link, useRouter } from "@tanstack/react-router";
 import { ScrollArea, ScrollBar } from "../ui/scroll-area";
 import { PrintButton } from "../common/PrintButton";
 import { ExamPrintModal } from "./ExamPrintModal";
+import { ExamLifecycleBadge } from "./ExamLifecycleBadge";
+import { ExamEditDialog } from "./ExamEditDialog";
+import { ExamAvailabilityDialog } from "./ExamAvailabilityDialog";
+import type { ExamAvailabilityAction } from "./ExamAvailabilityDialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  LockKeyhole,
+  LockKeyholeOpen,
+  MoreHorizontal,
+  Pencil,
+  QrCode,
+  Trash2,
+} from "lucide-react";
+import {
+  formatExamSchedule,
+  getExamLifecycleStatus,
+} from "@/utils/examSchedule";
 
 /**
  * 시험지 테이블 컴포넌트 props 타입
@@ -51,6 +74,8 @@ type ExamTableProps = {
   onOpenDetail: (sheet: Exam) => void;
   /** 대시보드에서 선택된 시험 ID (하이라이트 표시용) */
   selectedExamId?: string;
+  /** 시험 삭제 요청 핸들러 - 관리 메뉴의 삭제 클릭 시 실행 (확인은 부모에서 처리) */
+  onDelete?: (sheet: Exam) => void;
 };
 
 /**
@@ -80,7 +105,9 @@ type ExamTableProps = {
  * - 문항수 열: 총 문제 개수 (배지 형태로 표시)
  * - 시험난이도 열: 상/중/하 난이도 (색상 구분 배지)
  * - 참여현황 열: 학생 참여 통계 (ParticipationBadge 컴포넌트)
+ * - 상태 열: 일정 기반 진행 상태 (ExamLifecycleBadge 컴포넌트)
  * - 제출명단 열: 상세보기 링크 버튼
+ * - 관리 열: 수정 / 지금 마감(예정·진행중) / 다시 열기(마감) / 삭제 메뉴
  *
  * 상태 관리:
  * - selectedIds: Set<string> 구조로 선택된 시험 ID 관리
@@ -196,11 +223,30 @@ export function ExamTable({
   onSelect,
   onOpenDetail: _onOpenDetail,
   selectedExamId,
+  onDelete,
 }: ExamTableProps) {
+  const router = useRouter();
   const [printModalExamId, setPrintModalExamId] = useState<string | null>(null);
+  const [editingExam, setEditingExam] = useState<Exam | null>(null);
+  const [availabilityTarget, setAvailabilityTarget] = useState<{
+    exam: Exam;
+    action: ExamAvailabilityAction;
+  } | null>(null);
   // "전체 선택" 체크박스의 상태를 결정하는 변수
   const isAllSelected = sheets.length > 0 && selectedIds.size === sheets.length;
 
+  /**
+   * QR 안내문 열기 핸들러
+   * @description 포스터·학생용 쪽지 인쇄와 칠판 표시를 새 창에서 제공
+   */
+  const handleOpenQrSheet = (examId: string) => {
+    const { href } = router.buildLocation({
+      to: "/print/exam/$examId/qr",
+      params: { examId },
+    });
+    window.open(href, "_blank");
+  };
+
   return (
     <div className={tableStyles.container}>
       <Table>
@@ -222,102 +268,170 @@ export function ExamTable({
             <TableHead className={tableStyles.headerCellCenter}>
               참여 현황
             </TableHead>
+            <TableHead className={tableStyles.headerCellCenter}>상태</TableHead>
             <TableHead className={tableStyles.headerCellCenter}>
               제출명단
             </TableHead>
             <TableHead className={tableStyles.headerCellCenter}>인쇄</TableHead>
+            <TableHead className={tableStyles.headerCellCenter}>관리</TableHead>
           </TableRow>
         </TableHeader>
         <TableBody>
-          {sheets.map((sheet, index) => (
-            <TableRow
-              key={sheet.id}
-              className={cn(
-                tableStyles.row,
-                index % 2 === 0 ? tableStyles.rowEven : tableStyles.rowOdd,
-                selectedExamId === sheet.id &&
-                  "ring-2 ring-blue-500 bg-blue-50/50 hover:bg-blue-100/50",
-              )}
-            >
-              <TableCell className={tableStyles.cellCenter}>
-                <Checkbox
-                  checked={selectedIds.has(sheet.id)}
-                  onCheckedChange={(checked) =>
-                    onSelect(sheet.id, Boolean(checked))
-                  }
-                  className={tableStyles.checkbox}
-                />
-              </TableCell>
-              <TableCell className={tableStyles.cell}>
-                {sheet.examName}
-              </TableCell>
-              <TableCell className={tableStyles.cellMedium}>
-                {/* 단원 정보를 Badge 컴포넌트들로 표시 */}
-                {sheet.units && sheet.units.length > 0 ? (
-                  sheet.units.map((unit) => (
+          {sheets.map((sheet, index) => {
+            const lifecycleStatus = getExamLifecycleStatus(sheet);
+            const isClosed = lifecycleStatus === "closed";
+            // 채점완료·일정 없음 시험은 마감/다시 열기 대상이 아님
+            const canToggleAvailability =
+              lifecycleStatus !== "graded" && lifecycleStatus !== "unknown";
+
+            return (
+              <TableRow
+                key={sheet.id}
+                className={cn(
+                  tableStyles.row,
+                  index % 2 === 0 ? tableStyles.rowEven : tableStyles.rowOdd,
+                  selectedExamId === sheet.id &&
+                    "ring-2 ring-blue-500 bg-blue-50/50 hover:bg-blue-100/50",
+                )}
+              >
+                <TableCell className={tableStyles.cellCenter}>
+                  <Checkbox
+                    checked={selectedIds.has(sheet.id)}
+                    onCheckedChange={(checked) =>
+                      onSelect(sheet.id, Boolean(checked))
+                    }
+                    className={tableStyles.checkbox}
+                  />
+                </TableCell>
+                <TableCell className={tableStyles.cell}>
+                  {sheet.examName}
+                </TableCell>
+                <TableCell className={tableStyles.cellMedium}>
+                  {/* 단원 정보를 Badge 컴포넌트들로 표시 */}
+                  {sheet.units && sheet.units.length > 0 ? (
+                    sheet.units.map((unit) => (
+                      <Badge
+                        key={unit.id}
+                        variant="secondary"
+                        className={cn(badgeStyles.secondary, "text-xs")}
+                      >
+                        {unit.unitName}
+                      </Badge>
+                    ))
+                  ) : (
                     <Badge
-                      key={unit.id}
-                      variant="secondary"
-                      className={cn(badgeStyles.secondary, "text-xs")}
+                      variant="outline"
+                      className={cn(
+                        badgeStyles.outline,
+                        "text-xs text-muted-foreground",
+                      )}
                     >
-                      {unit.unitName}
+                      {sheet.grade}학년 수학
                     </Badge>
-                  ))
-                ) : (
-                  <Badge
-                    variant="outline"
-                    className={cn(
-                      badgeStyles.outline,
-                      "text-xs text-muted-foreground",
+                  )}
+                </TableCell>
+                <TableCell className={tableStyles.cellCenter}>
+                  <Badge variant="outline" className={badgeStyles.outline}>
+                    {sheet.totalQuestions ? (
+                      `${sheet.totalQuestions}문항`
+                    ) : sheet.examSheetInfo?.totalQuestions ? (
+                      `${sheet.examSheetInfo.totalQuestions}문항`
+                    ) : (
+                      <span className="text-muted-foreground">미등록</span>
                     )}
-                  >
-                    {sheet.grade}학년 수학
                   </Badge>
-                )}
-              </TableCell>
-              <TableCell className={tableStyles.cellCenter}>
-                <Badge variant="outline" className={badgeStyles.outline}>
-                  {sheet.totalQuestions ? (
-                    `${sheet.totalQuestions}문항`
-                  ) : sheet.examSheetInfo?.totalQuestions ? (
-                    `${sheet.examSheetInfo.totalQuestions}문항`
-                  ) : (
-                    <span className="text-muted-foreground">미등록</span>
-                  )}
-                </Badge>
-              </TableCell>
-              <TableCell className={tableStyles.cellCenter}>
-                <Badge variant="outline" className={badgeStyles.outline}>
-                  {sheet.attendanceInfo ? (
-                    `${sheet.attendanceInfo.actualAttendees}/${sheet.attendanceInfo.totalAssigned}`
-                  ) : (
-                    <span className="text-muted-foreground">집계중</span>
-                  )}
-                </Badge>
-              </TableCell>
-              {/* 3. UI에 있던 버튼들도 추가 */}
-              <TableCell className={tableStyles.cellCenter}>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  asChild
-                  className={buttonStyles.primary}
+                </TableCell>
+                <TableCell className={tableStyles.cellCenter}>
+                  <Badge variant="outline" className={badgeStyles.outline}>
+                    {sheet.attendanceInfo ? (
+                      `${sheet.attendanceInfo.actualAttendees}/${sheet.attendanceInfo.totalAssigned}`
+                    ) : (
+                      <span className="text-muted-foreground">집계중</span>
+                    )}
+                  </Badge>
+                </TableCell>
+                <TableCell
+                  className={tableStyles.cellCenter}
+                  title={formatExamSchedule(sheet) ?? "일정 정보 없음"}
                 >
-                  <Link
-                    to="/main/exam/manage/$examId"
-                    params={{ examId: sheet.id }}
+                  <ExamLifecycleBadge status={lifecycleStatus} />
+                </TableCell>
+                {/* 3. UI에 있던 버튼들도 추가 */}
+                <TableCell className={tableStyles.cellCenter}>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    asChild
+                    className={buttonStyles.primary}
                   >
-                    상세보기
-                  </Link>
-                </Button>
-              </TableCell>
+                    <Link
+                      to="/main/exam/manage/$examId"
+                      params={{ examId: sheet.id }}
+                    >
+                      상세보기
+                    </Link>
+                  </Button>
+                </TableCell>
+
+                {/* 4. 인쇄 버튼  */}
+                <TableCell className={tableStyles.cellCenter}>
+                  <PrintButton onClick={() => setPrintModalExamId(sheet.id)} />
+                </TableCell>
 
-              {/* 4. 인쇄 버튼  */}
-              <TableCell className={tableStyles.cellCenter}>
-                <PrintButton onClick={() => setPrintModalExamId(sheet.id)} />
-              </TableCell>
-            </TableRow>
-          ))}
+                {/* 5. 관리 메뉴 */}
+                <TableCell className={tableStyles.cellCenter}>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        aria-label={`${sheet.examName} 관리`}
+                      >
+                        <MoreHorizontal className="w-4 h-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem onSelect={() => setEditingExam(sheet)}>
+                        <Pencil />
+                        수정
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        onSelect={() => handleOpenQrSheet(sheet.id)}
+                      >
+                        <QrCode />
+                        QR 코드
+                      </DropdownMenuItem>
+                      {canToggleAvailability && (
+                        <DropdownMenuItem
+                          onSelect={() =>
+                            setAvailabilityTarget({
+                              exam: sheet,
+                              action: isClosed ? "reopen" : "close",
+                            })
+                          }
+                        >
+                          {isClosed ? <LockKeyholeOpen /> : <LockKeyhole />}
+                          {isClosed ? "다시 열기" : "지금 마감"}
+                        </DropdownMenuItem>
+                      )}
+                      {onDelete && (
+                        <>
+                          <DropdownMenuSeparator />
+                          <DropdownMenuItem
+                            variant="destructive"
+                            onSelect={() => onDelete(sheet)}
+                          >
+                            <Trash2 />
+                            삭제
+                          </DropdownMenuItem>
+                        </>
+                      )}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </TableCell>
+              </TableRow>
+            );
+          })}
         </TableBody>
       </Table>
 
@@ -327,6 +441,14 @@ export function ExamTable({
         isOpen={!!printModalExamId}
         onClose={() => setPrintModalExamId(null)}
       />
+
+      {/* 수정 / 마감·다시 열기 다이얼로그 */}
+      <ExamEditDialog exam={editingExam} onClose={() => setEditingExam(null)} />
+      <ExamAvailabilityDialog
+        exam={availabilityTarget?.exam ?? null}
+        action={availabilityTarget?.action ?? "close"}
+        onClose={() => setAvailabilityTarget(null)}
+      />
     </div>
   );
 }
@@ -0,0 +1,238 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Copy, Download, MessageSquareText } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { examRosterStatusQueryOptions } from "@/api/student";
+import {
+  DEFAULT_REMINDER_SMS_TEMPLATE,
+  SMS_EXAM_PLACEHOLDER,
+  SMS_NAME_PLACEHOLDER,
+  buildNonSubmittersCsv,
+  findNonSubmitters,
+  formatStudentContacts,
+  renderReminderSms,
+} from "@/utils/nonSubmitters";
+import { downloadTextFile, toSafeFileName } from "@/utils/download";
+
+/**
+ * 미제출 학생 패널 Props
+ */
+type ExamNonSubmittersPanelProps = {
+  /** 시험 ID */
+  examId: string;
+  /** 시험명 (파일명, 문자 템플릿에 사용) */
+  examName: string;
+  /** 시험 학년 */
+  grade?: number;
+};
+
+/**
+ * 미제출 학생 패널 컴포넌트
+ * @description 학생 명단과 응시자 목록을 비교해 미제출 학생을 보여주고 연락용으로 내보내기
+ *
+ * 주요 기능:
+ * - 응시 대상(지정되지 않았으면 학년 전체) 중 미제출 학생 목록
+ * - 이름/전화번호 복사
+ * - CSV 내보내기
+ * - 문자 안내 템플릿 편집 후 복사 또는 발송용 CSV 내보내기
+ */
+export function ExamNonSubmittersPanel({
+  examId,
+  examName,
+  grade,
+}: ExamNonSubmittersPanelProps) {
+  const [isSmsOpen, setIsSmsOpen] = useState(false);
+  const [smsTemplate, setSmsTemplate] = useState(DEFAULT_REMINDER_SMS_TEMPLATE);
+
+  const rosterGrade =
+    grade === 1 || grade === 2 || grade === 3 ? grade : undefined;
+  const { data, isLoading, isError, refetch } = useQuery({
+    ...examRosterStatusQueryOptions({ examId, grade: rosterGrade ?? 1 }),
+    enabled: examId.trim().length > 0 && rosterGrade !== undefined,
+  });
+
+  const nonSubmitters = useMemo(
+    () => (data ? findNonSubmitters(data) : []),
+    [data],
+  );
+  const fileName = toSafeFileName(`${examName}_미제출자`);
+
+  /**
+   * 클립보드 복사 핸들러
+   */
+  const handleCopy = async (text: string, label: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast.success(`${label}을(를) 복사했습니다.`);
+    } catch {
+      toast.error("클립보드에 복사하지 못했습니다.");
+    }
+  };
+
+  /**
+   * 문자 템플릿 예시 (첫 번째 미제출 학생 기준)
+   */
+  const smsPreview = renderReminderSms(
+    smsTemplate,
+    nonSubmitters[0]?.name ?? "홍길동",
+    examName,
+  );
+
+  return (
+    <div className="rounded-lg border bg-card shadow-sm p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">미제출 학생</h3>
+        {data && (
+          <span className="text-sm text-red-600 font-medium">
+            {nonSubmitters.length}명
+          </span>
+        )}
+      </div>
+
+      {!rosterGrade ? (
+        <p className="text-sm text-gray-500">시험 학년 정보가 없습니다.</p>
+      ) : isLoading ? (
+        <div className="flex items-center justify-center h-24">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+        </div>
+      ) : isError ? (
+        <div className="space-y-2">
+          <p className="text-sm text-red-600">
+            학생 명단을 불러오는데 실패했습니다.
+          </p>
+          <Button size="sm" variant="outline" onClick={() => refetch()}>
+            다시 시도
+          </Button>
+        </div>
+      ) : nonSubmitters.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          {data?.students.length === 0
+            ? "학생 명단이 비어 있습니다. 학생 관리에서 학생을 등록하세요."
+            : "모든 학생이 제출했습니다."}
+        </p>
+      ) : (
+        <>
+          <ul className="max-h-80 overflow-y-auto divide-y rounded-md border text-sm">
+            {nonSubmitters.map((student) => (
+              <li
+                key={student.id}
+                className="flex items-center justify-between px-3 py-2"
+              >
+                <span className="font-medium">{student.name}</span>
+                <span className="text-gray-500">{student.phone}</span>
+              </li>
+            ))}
+          </ul>
+
+          <div className="grid grid-cols-1 gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() =>
+                handleCopy(
+                  formatStudentContacts(nonSubmitters),
+                  "이름과 전화번호",
+                )
+              }
+            >
+              <Copy className="w-4 h-4 mr-2" />
+              이름·전화번호 복사
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() =>
+                downloadTextFile(
+                  `${fileName}.csv`,
+                  buildNonSubmittersCsv(nonSubmitters),
+                  "text/csv;charset=utf-8",
+                )
+              }
+            >
+              <Download className="w-4 h-4 mr-2" />
+              CSV 내보내기
+            </Button>
+            <Button size="sm" onClick={() => setIsSmsOpen(true)}>
+              <MessageSquareText className="w-4 h-4 mr-2" />
+              문자 안내 템플릿
+            </Button>
+          </div>
+        </>
+      )}
+
+      {/* 문자 안내 템플릿 다이얼로그 */}
+      <Dialog open={isSmsOpen} onOpenChange={setIsSmsOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>미제출 안내 문자</DialogTitle>
+            <DialogDescription>
+              {SMS_NAME_PLACEHOLDER}과 {SMS_EXAM_PLACEHOLDER}은 학생별로
+              치환됩니다.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Textarea
+            value={smsTemplate}
+            rows={4}
+            onChange={(e) => setSmsTemplate(e.target.value)}
+          />
+
+          <div className="rounded-md bg-gray-50 p-3 text-sm text-gray-700 whitespace-pre-wrap">
+            {smsPreview}
+          </div>
+
+          <DialogFooter className="gap-2">
+            <Button
+              variant="outline"
+              onClick={() => setSmsTemplate(DEFAULT_REMINDER_SMS_TEMPLATE)}
+            >
+              기본값
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() =>
+                handleCopy(
+                  nonSubmitters
+                    .map(
+                      (student) =>
+                        `${student.phone}\t${renderReminderSms(smsTemplate, student.name, examName)}`,
+                    )
+                    .join("\n"),
+                  "학생별 문자 내용",
+                )
+              }
+            >
+              <Copy className="w-4 h-4 mr-2" />
+              학생별 문자 복사
+            </Button>
+            <Button
+              onClick={() =>
+                downloadTextFile(
+                  `${fileName}_문자.csv`,
+                  buildNonSubmittersCsv(nonSubmitters, {
+                    template: smsTemplate,
+                    examName,
+                  }),
+                  "text/csv;charset=utf-8",
+                )
+              }
+            >
+              <Download className="w-4 h-4 mr-2" />
+              발송용 CSV
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,255 +1,462 @@
-import { forwardRef, useEffect } from "react";
-import type { ExamQuestionsData } from "@/api/exam/exam-questions-types";
+import { Fragment } from "react";
+import type {
+  ExamPrintColumns,
+  ExamPrintDocumentData,
+  ExamPrintKind,
+  ExamPrintQuestion,
+} from "@/types/exam-print";
 import { cn } from "@/lib/utils";
-import logger from "@/utils/logger";
+import { RichQuestionText } from "@/components/common/RichQuestionText";
+import {
+  EXAM_PRINT_KIND_LABEL,
+  STUDENT_NUMBER_DIGITS,
+  buildExamPrintPageCss,
+  chunkPrintQuestions,
+  formatPrintAnswer,
+  toChoiceMarker,
+} from "@/utils/examPrint";
+import {
+  buildExamVersionKeyRows,
+  getExamVersionLabels,
+} from "@/utils/examVersions";
 
 /**
- * 시험지 인쇄 템플릿 컴포넌트
- * @description 피그마 디자인에 맞는 A4 용지 형태의 시험지 인쇄 템플릿
- *
- * 주요 기능:
- * - 피그마 디자인 완벽 재현 (704x1051px → A4 비율)
- * - 문제별 점수 표시 ([5점] 형태)
- * - 답안 작성 공간 자동 배치
- * - 페이지 분할 지원
- * - @media print 최적화
- *
- * 설계 원칙:
- * - 실제 인쇄물과 동일한 레이아웃
- * - 이미지 로딩 최적화
- * - 폰트 및 여백 정확한 재현
- * - 페이지 넘김 처리
+ * 인쇄 문서 공통 스타일
+ * @description 화면에서는 A4 폭 미리보기, 인쇄 시에는 배경을 지우고 색을 그대로 출력
  */
+const EXAM_PRINT_BASE_CSS = `
+  @media print {
+    html, body, main {
+      background: #fff !important;
+      height: auto !important;
+      overflow: visible !important;
+    }
+    .exam-print-document {
+      width: auto;
+      margin: 0;
+      padding: 0;
+      box-shadow: none;
+      -webkit-print-color-adjust: exact;
+      print-color-adjust: exact;
+    }
+  }
+  @media screen {
+    .exam-print-document {
+      width: 210mm;
+      min-height: 297mm;
+      margin: 24px auto;
+      padding: 16mm 14mm 18mm;
+      background: #fff;
+      box-shadow: 0 4px 12px rgba(0, 0, 0, 0.12);
+    }
+  }
+`;
+
+/** 학생 번호 표기란 숫자 (0 ~ 9) */
+const DIGITS = ["0", "1", "2", "3", "4", "5", "6", "7", "8", "9"];
 
 type ExamPrintTemplateProps = {
-  /** 시험 문제 데이터 */
-  examData: ExamQuestionsData;
-  /** 인쇄 타입 */
-  printType?: "problem" | "answer" | "studentAnswer";
+  /** 인쇄 문서 데이터 */
+  data: ExamPrintDocumentData;
+  /** 인쇄 문서 종류 */
+  printType: ExamPrintKind;
+  /** 문제 배치 단 수 (학생 답안지에는 적용하지 않음) */
+  columns?: ExamPrintColumns;
+  /** 버전별 정답표에 포함할 버전 수 (versionKey 문서에만 사용) */
+  versionCount?: number;
   /** 추가 CSS 클래스 */
   className?: string;
-  /** 인라인 스타일 */
-  style?: React.CSSProperties;
 };
 
 /**
- * 문제 텍스트에서 HTML 태그 제거 및 LaTeX 변환
+ * 시험 인쇄 문서 템플릿 컴포넌트
+ * @description 문제지, 문제 답안지, 학생 답안지(OMR) 중 하나를 A4 문서로 렌더링
+ *
+ * 페이지 처리:
+ * - 페이지 분할은 브라우저 인쇄 엔진에 맡기고, 문항·표기란 묶음은 `break-inside: avoid`로 쪼개지지 않게 함
+ * - 2단 배치는 CSS 다단(columns)으로 처리하여 문항 높이와 관계없이 자연스럽게 채움
+ * - 모든 쪽에 시험명·문서 종류 머리글과 쪽 번호 출력 (@page 여백 상자)
+ * - 학생 이름/번호 기입란은 첫 쪽 머리말에 표시
+ * - 버전(A/B/C형) 문서는 머리말과 모든 쪽 머리글에 버전 라벨 표시
+ *
+ * 헤드리스 검증:
+ * - `data-testid="exam-print-document"`, `data-print-kind`, `data-columns`
+ * - 문항마다 `data-testid="exam-print-question"`, `data-question-number`
+ * - 학생 답안지: `omr-student-number`, `omr-group`(객관식 표기란 묶음), `omr-subjective`(주관식 답안 칸)
  */
-function processQuestionText(text: string): string {
-  // HTML 태그 제거
-  const withoutHtml = text.replace(/<[^>]*>/g, "");
-  
-  // LaTeX 수식을 읽기 쉬운 형태로 변환 (간단한 처리)
-  const withoutLatex = withoutHtml
-    .replace(/\$\$?(.*?)\$\$?/g, "$1") // $...$ 또는 $$...$$ 제거
-    .replace(/\\\\([a-zA-Z]+)/g, "$1") // \sqrt -> sqrt
-    .replace(/\{([^}]*)\}/g, "($1)") // {x} -> (x)
-    .replace(/\\\\/g, ""); // \\ 제거
-  
-  return withoutLatex.trim();
+export function ExamPrintTemplate({
+  data,
+  printType,
+  columns = 1,
+  versionCount = 1,
+  className,
+}: ExamPrintTemplateProps) {
+  const { examName, questions, version } = data;
+  const isTwoColumns =
+    (printType === "problem" || printType === "answer") && columns === 2;
+
+  return (
+    <article
+      className={cn("exam-print-document text-black", className)}
+      data-testid="exam-print-document"
+      data-print-kind={printType}
+      data-print-version={version}
+      data-columns={isTwoColumns ? 2 : 1}
+    >
+      <style>
+        {EXAM_PRINT_BASE_CSS +
+          buildExamPrintPageCss(examName, printType, version)}
+      </style>
+
+      <PrintHeader data={data} printType={printType} />
+
+      {printType === "studentAnswer" && (
+        <OmrAnswerSheet questions={questions} />
+      )}
+      {printType === "versionKey" && (
+        <VersionKeyTable data={data} versionCount={versionCount} />
+      )}
+      {(printType === "problem" || printType === "answer") && (
+        <div
+          className={cn(
+            isTwoColumns && "columns-2 gap-x-8 [column-rule:1px_solid_#d4d4d4]",
+          )}
+        >
+          {questions.map((question) => (
+            <QuestionBlock
+              key={question.questionId}
+              question={question}
+              isAnswerVisible={printType === "answer"}
+            />
+          ))}
+        </div>
+      )}
+    </article>
+  );
 }
 
-const ExamPrintTemplate = forwardRef<HTMLDivElement, ExamPrintTemplateProps>(
-  ({ examData, printType = "problem", className, style }, ref) => {
-    const { examName, grade, questions, totalQuestions, totalPoints } = examData;
-    
-    // 로깅: 컴포넌트 렌더링 및 ref 상태
-    useEffect(() => {
-      logger.debug("[ExamPrintTemplate] 컴포넌트 렌더링", {
-        examName,
-        grade,
-        questionsLength: questions?.length || 0,
-        totalQuestions,
-        totalPoints,
-        printType,
-        refExists: !!ref,
-        refCurrent: ref && typeof ref === "object" && "current" in ref ? !!ref.current : false
-      });
-      
-      // ref가 할당된 후 DOM 요소 확인
-      if (ref && typeof ref === "object" && "current" in ref && ref.current) {
-        const element = ref.current;
-        logger.debug("[ExamPrintTemplate] ref DOM 요소 확인", {
-          tagName: element.tagName,
-          className: element.className,
-          offsetHeight: element.offsetHeight,
-          scrollHeight: element.scrollHeight,
-          children: element.children.length
-        });
-      }
-    }, [examData, printType, ref]);
-    
-    // 한 페이지당 문제 수 (피그마 디자인 기준: 7문제)
-    const questionsPerPage = 7;
-    const totalPages = Math.ceil(questions.length / questionsPerPage);
-    
-    return (
-      <div ref={ref} className={cn("print-container", className)} style={style}>
-        {/* 인쇄용 스타일 */}
-        <style>{`
-          @media print {
-            html, body {
-              height: initial !important;
-              overflow: initial !important;
-              -webkit-print-color-adjust: exact;
-            }
-            
-            .print-container {
-              margin: 0;
-              padding: 0;
-              width: 210mm;
-              min-height: 297mm;
-            }
-            
-            .exam-page {
-              width: 210mm;
-              height: 297mm;
-              padding: 20mm;
-              margin: 0;
-              box-sizing: border-box;
-              page-break-after: always;
-              background: white;
-            }
-            
-            .exam-page:last-child {
-              page-break-after: auto;
-            }
-            
-            .page-break {
-              page-break-before: always;
-            }
-          }
-          
-          @media screen {
-            .print-container {
-              max-width: 794px;
-              margin: 0 auto;
-              background: #f5f5f5;
-              padding: 20px;
-            }
-            
-            .exam-page {
-              width: 100%;
-              min-height: 1123px;
-              background: white;
-              box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
-              margin-bottom: 20px;
-              padding: 40px;
-              box-sizing: border-box;
-            }
-          }
-        `}</style>
-        
-        {Array.from({ length: totalPages }).map((_, pageIndex) => {
-          const startIndex = pageIndex * questionsPerPage;
-          const endIndex = Math.min(startIndex + questionsPerPage, questions.length);
-          const pageQuestions = questions.slice(startIndex, endIndex);
-          
-          return (
-            <div key={pageIndex} className="exam-page">
-              {pageIndex > 0 && <div className="page-break" />}
-              
-              {/* 시험지 헤더 */}
-              <div className="text-center mb-12">
-                <div className="border-2 border-black inline-block px-16 py-4 mb-6">
-                  <h1 className="text-4xl font-bold text-black">
-                    {examName || "시험 문제지"}
-                  </h1>
-                </div>
-                
-                {/* 시험 정보 */}
-                <div className="text-sm text-gray-600 space-y-1">
-                  <div>학년: {grade}학년</div>
-                  <div>총 문제 수: {totalQuestions}문제</div>
-                  <div>총 배점: {totalPoints}점</div>
-                  {totalPages > 1 && <div>페이지: {pageIndex + 1}/{totalPages}</div>}
-                </div>
-              </div>
-              
-              {/* 문제 목록 */}
-              <div className="space-y-8">
-                {pageQuestions.map((question, index) => {
-                  const globalIndex = startIndex + index;
-                  
-                  return (
-                    <div
+/**
+ * 인쇄 문서 머리말 (첫 쪽)
+ * @description 시험명, 학년, 문항 수/총점, 버전 라벨과 학생 이름·번호 기입란 (교사용 문서는 "교사용" 표시)
+ */
+function PrintHeader({
+  data,
+  printType,
+}: {
+  data: ExamPrintDocumentData;
+  printType: ExamPrintKind;
+}) {
+  return (
+    <header
+      className="mb-6 break-inside-avoid border-b-2 border-black pb-3"
+      data-testid="exam-print-header"
+    >
+      <div className="flex items-end justify-between gap-6">
+        <div className="min-w-0 space-y-1">
+          <p className="text-xs text-neutral-600">
+            {data.grade}학년 · {EXAM_PRINT_KIND_LABEL[printType]}
+          </p>
+          <h1 className="text-2xl font-bold leading-tight">{data.examName}</h1>
+          <p className="text-xs text-neutral-600">
+            총 {data.questions.length}문항 · {data.totalPoints}점
+          </p>
+        </div>
+        {data.version && (
+          <span
+            className="ml-auto shrink-0 rounded border-2 border-black px-3 py-1 text-lg font-bold"
+            data-testid="exam-print-version"
+          >
+            {data.version}형
+          </span>
+        )}
+        {printType === "answer" || printType === "versionKey" ? (
+          <span className="shrink-0 rounded border-2 border-red-600 px-3 py-1 text-sm font-bold text-red-600">
+            교사용
+          </span>
+        ) : (
+          <table className="shrink-0 border-collapse text-sm">
+            <tbody>
+              <tr>
+                <th className="w-12 border border-black bg-neutral-100 px-2 py-1 font-medium">
+                  번호
+                </th>
+                <td className="w-16 border border-black px-2 py-1" />
+                <th className="w-12 border border-black bg-neutral-100 px-2 py-1 font-medium">
+                  이름
+                </th>
+                <td className="w-32 border border-black px-2 py-1" />
+              </tr>
+            </tbody>
+          </table>
+        )}
+      </div>
+    </header>
+  );
+}
+
+/**
+ * 문항 블록
+ * @description 한 문항(본문, 이미지, 선택지, 답안)을 페이지·단 사이에서 나뉘지 않게 출력
+ */
+function QuestionBlock({
+  question,
+  isAnswerVisible,
+}: {
+  question: ExamPrintQuestion;
+  isAnswerVisible: boolean;
+}) {
+  const answer = isAnswerVisible ? formatPrintAnswer(question) : null;
+
+  return (
+    <section
+      className="mb-6 break-inside-avoid"
+      data-testid="exam-print-question"
+      data-question-number={question.number}
+    >
+      <div className="flex items-start gap-2">
+        <span className="shrink-0 font-bold">{question.number}.</span>
+        <RichQuestionText
+          content={question.questionText}
+          className="min-w-0 flex-1 leading-relaxed"
+        />
+        <span className="shrink-0 text-xs text-neutral-600">
+          [{question.points}점]
+        </span>
+      </div>
+
+      {question.imageUrls.length > 0 && (
+        <div className="mt-2 flex flex-wrap justify-center gap-2">
+          {question.imageUrls.map((url) => (
+            <img
+              key={url}
+              src={url}
+              alt={`${question.number}번 문제 그림`}
+              className="max-h-48 max-w-full object-contain"
+            />
+          ))}
+        </div>
+      )}
+
+      {question.choices.length > 0 && (
+        <ol className="mt-2 space-y-1 pl-6">
+          {question.choices.map((choice) => (
+            <li key={choice.key} className="flex items-start gap-1.5">
+              <span className="shrink-0">{toChoiceMarker(choice.key)}</span>
+              <RichQuestionText content={choice.text} isInline />
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {isAnswerVisible ? (
+        <p
+          className="mt-2 rounded border border-red-300 bg-red-50 px-2 py-1 text-sm text-red-700"
+          data-testid="exam-print-answer"
+        >
+          정답: {answer ?? "확인 불가 (제출 답안이 있어야 표시됩니다)"}
+        </p>
+      ) : (
+        question.questionType === "SUBJECTIVE" && (
+          <div className="mt-3 h-16 border-b border-dashed border-neutral-400" />
+        )
+      )}
+    </section>
+  );
+}
+
+/**
+ * OMR 형태 학생 답안지
+ * @description 학생 번호 표기란, 객관식 5문항 묶음 표기란, 주관식 답안 칸으로 구성
+ */
+function OmrAnswerSheet({ questions }: { questions: ExamPrintQuestion[] }) {
+  const choiceQuestions = questions.filter(
+    (question) => question.questionType === "MULTIPLE_CHOICE",
+  );
+  const subjectiveQuestions = questions.filter(
+    (question) => question.questionType === "SUBJECTIVE",
+  );
+  const choiceCount = Math.max(
+    5,
+    ...choiceQuestions.map((question) => question.choices.length),
+  );
+  const choiceKeys = Array.from({ length: choiceCount }, (_, index) =>
+    String(index + 1),
+  );
+
+  return (
+    <div className="space-y-6 text-sm">
+      {/* 학생 번호 표기란 */}
+      <section className="break-inside-avoid" data-testid="omr-student-number">
+        <h2 className="mb-2 font-bold">번호 표기</h2>
+        <div className="flex gap-1">
+          {Array.from({ length: STUDENT_NUMBER_DIGITS }, (_, digitIndex) => (
+            <div
+              key={`digit-${digitIndex + 1}`}
+              className="flex flex-col items-center gap-1 border border-black px-1.5 py-1"
+            >
+              <span className="h-6 w-6 border-b border-black" />
+              {DIGITS.map((digit) => (
+                <OmrBubble key={digit} label={digit} />
+              ))}
+            </div>
+          ))}
+        </div>
+      </section>
+
+      {/* 객관식 표기란 */}
+      {choiceQuestions.length > 0 && (
+        <section>
+          <h2 className="mb-2 font-bold">객관식</h2>
+          <div className="grid grid-cols-3 gap-4">
+            {chunkPrintQuestions(choiceQuestions).map((group) => (
+              <table
+                key={group[0].questionId}
+                className="break-inside-avoid border-collapse border-2 border-black"
+                data-testid="omr-group"
+              >
+                <tbody>
+                  {group.map((question) => (
+                    <tr
                       key={question.questionId}
-                      className="question-item border border-black rounded p-6 relative"
+                      className="border-b border-neutral-400 last:border-b-0"
+                      data-question-number={question.number}
                     >
-                      {/* 문제 번호와 점수 */}
-                      <div className="flex justify-between items-start mb-4">
-                        <h3 className="text-lg font-semibold">
-                          {globalIndex + 1}.
-                        </h3>
-                        <span className="text-sm text-gray-600 bg-gray-100 px-2 py-1 rounded">
-                          [ {question.points}점 ]
-                        </span>
-                      </div>
-                      
-                      {/* 문제 내용 */}
-                      <div className="question-content mb-6">
-                        <p className="text-base leading-relaxed">
-                          {processQuestionText(question.questionText)}
-                        </p>
-                      </div>
-                      
-                      {/* 이미지 영역 (피그마 디자인처럼 3개 이미지 배치) */}
-                      <div className="grid grid-cols-3 gap-4 mb-6">
-                        <div className="border border-gray-300 h-16 bg-gray-50 flex items-center justify-center text-xs text-gray-400">
-                          이미지 1
+                      <th className="w-8 border-r border-black bg-neutral-100 py-1 text-center font-medium">
+                        {question.number}
+                      </th>
+                      <td className="px-1.5 py-1">
+                        <div className="flex gap-1">
+                          {choiceKeys.map((key) => (
+                            <OmrBubble key={key} label={key} />
+                          ))}
                         </div>
-                        <div className="border border-gray-300 h-16 bg-gray-50 flex items-center justify-center text-xs text-gray-400">
-                          이미지 2
-                        </div>
-                        <div className="border border-gray-300 h-16 bg-gray-50 flex items-center justify-center text-xs text-gray-400">
-                          이미지 3
-                        </div>
-                      </div>
-                      
-                      {/* 답안 작성 공간 */}
-                      {question.questionType === "MULTIPLE_CHOICE" ? (
-                        <div className="answer-area">
-                          <div className="text-sm text-gray-600 mb-2">정답:</div>
-                          <div className="flex space-x-6">
-                            {["①", "②", "③", "④", "⑤"].map((option) => (
-                              <label key={option} className="flex items-center space-x-2 cursor-pointer">
-                                <input
-                                  type="radio"
-                                  name={`question-${question.questionId}`}
-                                  className="w-4 h-4"
-                                  disabled
-                                />
-                                <span>{option}</span>
-                              </label>
-                            ))}
-                          </div>
-                        </div>
-                      ) : (
-                        <div className="answer-area">
-                          <div className="text-sm text-gray-600 mb-2">답안:</div>
-                          <div className="border border-gray-300 min-h-16 p-3 bg-gray-50">
-                            {/* 답안 작성 공간 */}
-                          </div>
-                        </div>
-                      )}
-                    </div>
-                  );
-                })}
-              </div>
-              
-              {/* 페이지 하단 정보 */}
-              <div className="mt-8 pt-4 border-t border-gray-200 text-center text-xs text-gray-500">
-                <div>이룸클래스 시험 시스템</div>
-                {totalPages > 1 && <div>{pageIndex + 1} / {totalPages}</div>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {/* 주관식 답안 칸 */}
+      {subjectiveQuestions.length > 0 && (
+        <section>
+          <h2 className="mb-2 font-bold">주관식</h2>
+          <div className="grid grid-cols-2 gap-3">
+            {subjectiveQuestions.map((question) => (
+              <div
+                key={question.questionId}
+                className="break-inside-avoid border border-black"
+                data-testid="omr-subjective"
+                data-question-number={question.number}
+              >
+                <div className="border-b border-black bg-neutral-100 px-2 py-0.5 font-medium">
+                  {question.number}번
+                </div>
+                <div className="h-20" />
               </div>
-            </div>
-          );
-        })}
-      </div>
-    );
-  }
-);
+            ))}
+          </div>
+        </section>
+      )}
+    </div>
+  );
+}
+
+/**
+ * OMR 표기 동그라미
+ */
+function OmrBubble({ label }: { label: string }) {
+  return (
+    <span className="flex h-5 w-4 items-center justify-center rounded-[50%] border border-red-500 text-[9px] text-red-500">
+      {label}
+    </span>
+  );
+}
 
-ExamPrintTemplate.displayName = "ExamPrintTemplate";
+/**
+ * 버전별 정답표
+ * @description 원래 문항 순서(seqNo)마다 각 버전의 번호와 정답을 한 표로 출력
+ * 어느 버전의 답안이든 이 표로 원래 순서의 문항을 찾아 채점 결과를 읽을 수 있음
+ */
+function VersionKeyTable({
+  data,
+  versionCount,
+}: {
+  data: ExamPrintDocumentData;
+  versionCount: number;
+}) {
+  const versions = getExamVersionLabels(versionCount);
+  const rows = buildExamVersionKeyRows(data, versions);
 
-export { ExamPrintTemplate };
\ No newline at end of file
+  return (
+    <table
+      className="w-full border-collapse border-2 border-black text-center text-sm"
+      data-testid="exam-version-key"
+    >
+      <thead className="bg-neutral-100">
+        <tr>
+          <th rowSpan={2} className="border border-black px-2 py-1">
+            원래 번호
+          </th>
+          <th rowSpan={2} className="border border-black px-2 py-1">
+            seqNo
+          </th>
+          <th rowSpan={2} className="border border-black px-2 py-1">
+            배점
+          </th>
+          {versions.map((version) => (
+            <th
+              key={version}
+              colSpan={2}
+              className="border border-black px-2 py-1"
+            >
+              {version}형
+            </th>
+          ))}
+        </tr>
+        <tr>
+          {versions.map((version) => (
+            <Fragment key={version}>
+              <th className="border border-black px-2 py-1 font-medium">
+                번호
+              </th>
+              <th className="border border-black px-2 py-1 font-medium">
+                정답
+              </th>
+            </Fragment>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((row) => (
+          <tr
+            key={row.seqNo}
+            className="break-inside-avoid"
+            data-seq-no={row.seqNo}
+          >
+            <td className="border border-black px-2 py-1 font-medium">
+              {row.originalNumber}
+            </td>
+            <td className="border border-black px-2 py-1 text-neutral-600">
+              {row.seqNo}
+            </td>
+            <td className="border border-black px-2 py-1">{row.points}</td>
+            {versions.map((version) => (
+              <Fragment key={version}>
+                <td className="border border-black px-2 py-1">
+                  {row.versions[version]?.number ?? "-"}
+                </td>
+                <td className="border border-black px-2 py-1 text-red-700">
+                  {row.versions[version]?.answer ?? "?"}
+                </td>
+              </Fragment>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,96 @@
+import { useMemo, useState } from "react";
+import { cn } from "@/lib/utils";
+import { buildQrSvgPath } from "@/utils/examQr";
+
+type ExamQrCodeProps = {
+  /** QR 코드에 담을 응시 주소 (로컬 생성 시 사용, 미설정 시 null) */
+  value: string | null;
+  /** 서버 QR 코드 이미지 URL (없거나 불러오지 못하면 로컬 생성) */
+  imageUrl?: string | null;
+  /** 대체 텍스트 */
+  label: string;
+  /** 추가 CSS 클래스 (크기 지정) */
+  className?: string;
+  /** 로컬 생성(대체) QR 코드일 때 아래에 출처 안내 표시 여부 */
+  shouldShowFallbackLabel?: boolean;
+};
+
+/**
+ * 시험 QR 코드 컴포넌트
+ * @description 서버 QR 이미지를 우선 표시하고, 없거나 로드에 실패하면 응시 주소로 QR 코드를 직접 생성
+ * - 응시 주소도 없으면(VITE_STUDENT_EXAM_URL_BASE 미설정) QR 코드 대신 안내 문구 표시
+ */
+export function ExamQrCode({
+  value,
+  imageUrl,
+  label,
+  className,
+  shouldShowFallbackLabel = false,
+}: ExamQrCodeProps) {
+  const [hasImageError, setHasImageError] = useState(false);
+  const isLocal = !imageUrl || hasImageError;
+  const qr = useMemo(
+    () => (isLocal && value ? buildQrSvgPath(value) : null),
+    [isLocal, value],
+  );
+
+  if (isLocal && !qr) {
+    return (
+      <div
+        role="img"
+        aria-label={label}
+        className={cn(
+          "flex aspect-square flex-col items-center justify-center gap-1 border border-dashed border-neutral-400 bg-white p-2 text-center text-neutral-600",
+          className,
+        )}
+        data-testid="exam-qr-code"
+        data-qr-source="none"
+      >
+        <p className="text-sm font-semibold">QR 코드 없음</p>
+        <p className="text-xs">학생 응시 주소가 설정되지 않았습니다.</p>
+      </div>
+    );
+  }
+
+  if (!qr) {
+    return (
+      <img
+        src={imageUrl ?? undefined}
+        alt={label}
+        onError={() => setHasImageError(true)}
+        className={cn("aspect-square bg-white object-contain", className)}
+        data-testid="exam-qr-code"
+        data-qr-source="server"
+      />
+    );
+  }
+
+  const svg = (
+    <svg
+      viewBox={`0 0 ${qr.size} ${qr.size}`}
+      role="img"
+      aria-label={label}
+      shapeRendering="crispEdges"
+      className={cn("aspect-square bg-white", className)}
+      data-testid="exam-qr-code"
+      data-qr-source="local"
+    >
+      <rect width={qr.size} height={qr.size} fill="#fff" />
+      <path d={qr.path} fill="#000" />
+    </svg>
+  );
+
+  if (!shouldShowFallbackLabel) return svg;
+
+  return (
+    <>
+      {svg}
+      <p
+        className="text-xs text-neutral-500"
+        data-testid="exam-qr-fallback-label"
+      >
+        대체 QR 코드 · 서버 QR 이미지가 없어 설정된 응시 주소로 생성했습니다.
+      </p>
+    </>
+  );
+}
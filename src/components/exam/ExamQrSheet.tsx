@@ -0,0 +1,124 @@
+import type { ExamQrInfo } from "@/types/exam-qr";
+import { ExamQrCode } from "./ExamQrCode";
+import { EXAM_QR_INSTRUCTIONS, paginateExamQrSlips } from "@/utils/examQr";
+
+/**
+ * QR 포스터 컴포넌트
+ * @description A4 한 장에 시험명, 학년, 응시 기간, 큰 QR 코드와 응시 방법을 출력
+ */
+export function ExamQrPoster({ info }: { info: ExamQrInfo }) {
+  return (
+    <article
+      className="exam-qr-page mx-auto flex w-[186mm] flex-col items-center gap-6 bg-white p-8 text-center text-black print:p-0"
+      data-testid="exam-qr-poster"
+    >
+      <header className="space-y-2">
+        <p className="text-lg text-neutral-600">{info.grade}학년 온라인 시험</p>
+        <h1 className="text-4xl font-bold leading-tight">{info.examName}</h1>
+        <p className="text-lg">
+          응시 기간: {info.scheduleText ?? "기간 제한 없음"}
+        </p>
+      </header>
+
+      <ExamQrCode
+        value={info.examUrl}
+        imageUrl={info.qrImageUrl}
+        label={`${info.examName} 응시 QR 코드`}
+        className="w-[110mm] border-4 border-black p-2"
+        shouldShowFallbackLabel
+      />
+
+      <ol className="w-full max-w-[150mm] list-decimal space-y-2 pl-6 text-left text-lg">
+        {EXAM_QR_INSTRUCTIONS.map((instruction) => (
+          <li key={instruction}>{instruction}</li>
+        ))}
+      </ol>
+
+      {info.examUrl && (
+        <p className="break-all text-sm text-neutral-500">{info.examUrl}</p>
+      )}
+    </article>
+  );
+}
+
+/**
+ * 학생용 QR 쪽지 컴포넌트
+ * @description 재단선(점선)으로 나뉜 쪽지를 한 쪽에 2열로 배치하고, 쪽마다 나눠 인쇄
+ */
+export function ExamQrSlips({
+  info,
+  count,
+  perPage,
+}: {
+  info: ExamQrInfo;
+  count: number;
+  perPage: number;
+}) {
+  const rowCount = Math.ceil(perPage / 2);
+
+  return (
+    <div className="space-y-6 print:space-y-0" data-testid="exam-qr-slips">
+      {paginateExamQrSlips(count, perPage).map((slipNumbers) => (
+        <section
+          key={slipNumbers[0]}
+          className="exam-qr-page mx-auto grid h-[273mm] w-[186mm] grid-cols-2 bg-white text-black [break-after:page] last:[break-after:auto]"
+          style={{ gridTemplateRows: `repeat(${rowCount}, minmax(0, 1fr))` }}
+        >
+          {slipNumbers.map((slipNumber) => (
+            <div
+              key={slipNumber}
+              className="flex min-h-0 items-center gap-3 overflow-hidden border border-dashed border-neutral-400 p-3"
+              data-testid="exam-qr-slip"
+            >
+              <ExamQrCode
+                value={info.examUrl}
+                imageUrl={info.qrImageUrl}
+                label={`${info.examName} 응시 QR 코드`}
+                className="h-full max-h-[45mm] shrink-0"
+              />
+              <div className="min-w-0 space-y-1 text-xs">
+                <p className="text-neutral-600">{info.grade}학년</p>
+                <p className="text-sm font-bold leading-snug">
+                  {info.examName}
+                </p>
+                <p>{info.scheduleText ?? "기간 제한 없음"}</p>
+                <p className="text-neutral-600">{EXAM_QR_INSTRUCTIONS[0]}</p>
+              </div>
+            </div>
+          ))}
+        </section>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * 칠판 표시 컴포넌트
+ * @description 교실 프로젝터용으로 어두운 배경에 QR 코드를 화면 높이에 맞춰 크게 표시
+ */
+export function ExamQrBoard({ info }: { info: ExamQrInfo }) {
+  return (
+    <div
+      className="flex min-h-screen w-full flex-col items-center justify-center gap-6 bg-neutral-950 p-8 text-center text-white"
+      data-testid="exam-qr-board"
+    >
+      <div className="space-y-2">
+        <p className="text-2xl text-neutral-300">{info.grade}학년</p>
+        <h1 className="text-5xl font-bold">{info.examName}</h1>
+      </div>
+      <ExamQrCode
+        value={info.examUrl}
+        imageUrl={info.qrImageUrl}
+        label={`${info.examName} 응시 QR 코드`}
+        className="h-[min(60vh,60vw)] rounded-xl p-4"
+        shouldShowFallbackLabel
+      />
+      <div className="space-y-1 text-2xl">
+        <p>{EXAM_QR_INSTRUCTIONS[0]}</p>
+        <p className="text-neutral-300">
+          응시 기간: {info.scheduleText ?? "기간 제한 없음"}
+        </p>
+      </div>
+    </div>
+  );
+}
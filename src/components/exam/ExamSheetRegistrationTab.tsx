@@ -6,15 +6,28 @@ import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
-import { Eye, FileText, Target, BookOpen, Calculator } from "lucide-react";
+import {
+  Eye,
+  FileText,
+  Target,
+  BookOpen,
+  Calculator,
+  Wand2,
+} from "lucide-react";
 import {
   UnitsTreeProblemSelector,
   SelectedProblemsPanel,
+  BlueprintGeneratorDialog,
 } from "@/components/units-tree";
 import {
   selectedProblemsStatsAtom,
   selectedProblemsDetailAtom,
+  orderedSelectedProblemsAtom,
 } from "@/atoms/unitsTree";
+import {
+  normalizeQuestionOrder,
+  validateExamSheetRequest,
+} from "@/utils/examSheet";
 
 /**
  * 시험 출제 및 등록 탭 컴포넌트
@@ -74,8 +87,10 @@ import {
 export function ExamSheetRegistrationTab() {
   const stats = useAtomValue(selectedProblemsStatsAtom);
   const selectedProblemsDetail = useAtomValue(selectedProblemsDetailAtom);
+  const orderedProblems = useAtomValue(orderedSelectedProblemsAtom);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [examName, setExamName] = useState<string>("");
+  const [isBlueprintOpen, setIsBlueprintOpen] = useState(false);
 
   /**
    * 선택된 문제들에서 학년 자동 추출
@@ -90,28 +105,15 @@ export function ExamSheetRegistrationTab() {
 
   /**
    * 선택된 문제들을 API 요청 형식으로 변환
-   * @description selectedProblemsDetail의 데이터를 API 요청 형식에 맞게 변환
+   * @description 선택 문제 패널에서 정한 순서와 배점을 그대로 API 요청 형식에 맞게 변환
    */
-  const prepareQuestionsForAPI = () => {
-    const questions: Array<{
-      questionId: string;
-      questionOrder: number;
-      points: number;
-    }> = [];
-
-    let questionOrder = 1;
-    selectedProblemsDetail.forEach((unit) => {
-      unit.problems.forEach((problem) => {
-        questions.push({
-          questionId: problem.id,
-          questionOrder: questionOrder++,
-          points: problem.points || 10, // 기본 배점 10점
-        });
-      });
-    });
-
-    return questions;
-  };
+  const prepareQuestionsForAPI = () =>
+    normalizeQuestionOrder(
+      orderedProblems.map(({ problem, points }) => ({
+        questionId: problem.id,
+        points,
+      })),
+    );
 
   /**
    * 시험지 생성 처리 핸들러
@@ -139,6 +141,12 @@ export function ExamSheetRegistrationTab() {
         questions: prepareQuestionsForAPI(),
       };
 
+      const validationError = validateExamSheetRequest(requestData);
+      if (validationError) {
+        alert(validationError);
+        return;
+      }
+
       console.log("시험지 생성 요청 데이터:", requestData);
 
       const result = await createExamSheet(requestData);
@@ -198,10 +206,16 @@ export function ExamSheetRegistrationTab() {
       {/* 문제 선택 섹션 */}
       <Card>
         <CardHeader>
-          <CardTitle className="text-sky-600 flex items-center gap-2">
-            <BookOpen className="h-5 w-5" />
-            문제 선택
-          </CardTitle>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-sky-600 flex items-center gap-2">
+              <BookOpen className="h-5 w-5" />
+              문제 선택
+            </CardTitle>
+            <Button variant="outline" onClick={() => setIsBlueprintOpen(true)}>
+              <Wand2 className="h-4 w-4 mr-2" />
+              자동 출제
+            </Button>
+          </div>
         </CardHeader>
         <CardContent>
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -331,6 +345,12 @@ export function ExamSheetRegistrationTab() {
         </Card>
       )}
 
+      {/* 자동 출제 다이얼로그 */}
+      <BlueprintGeneratorDialog
+        isOpen={isBlueprintOpen}
+        onClose={() => setIsBlueprintOpen(false)}
+      />
+
       {/* 시험지 생성 버튼 */}
       <div className="flex justify-center pt-6">
         <Button
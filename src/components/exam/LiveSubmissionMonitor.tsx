@@ -0,0 +1,299 @@
+import { AnimatePresence, motion } from "framer-motion";
+import { Bell, BellOff, Pause, Radio } from "lucide-react";
+import {
+  Bar,
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Switch } from "@/components/ui/switch";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { cn } from "@/lib/utils";
+import { useLiveSubmissionMonitor } from "@/hooks/exam";
+import { LIVE_MONITORING_INTERVAL_OPTIONS } from "@/utils/liveMonitoring";
+
+/** 타임라인 차트 설정 */
+const TIMELINE_CHART_CONFIG = {
+  count: { label: "분당 제출", color: "hsl(217 91% 60%)" },
+  cumulative: { label: "누적 제출", color: "hsl(142 71% 45%)" },
+} as const;
+
+/**
+ * 실시간 제출 모니터링 컴포넌트 Props
+ */
+type LiveSubmissionMonitorProps = {
+  /** 시험 ID */
+  examId: string;
+};
+
+/**
+ * 실시간 제출 모니터링 컴포넌트
+ * @description 시험 진행 중 제출 현황을 주기적으로 갱신해 보여주는 패널
+ *
+ * 주요 기능:
+ * - "실시간 모니터링" 토글 및 폴링 간격 설정
+ * - 탭이 숨겨지면 폴링 일시정지 표시
+ * - 새로 들어온 제출을 최근 제출 목록에 애니메이션으로 추가
+ * - 최근 60분 분 단위 제출 타임라인 차트
+ * - 목표 제출률 도달 시 알림음 (선택)
+ */
+export function LiveSubmissionMonitor({ examId }: LiveSubmissionMonitorProps) {
+  const {
+    isLive,
+    isPaused,
+    settings,
+    submissionStatus,
+    lastUpdated,
+    timeline,
+    setIsLive,
+    updateSettings,
+  } = useLiveSubmissionMonitor(examId);
+
+  const submissionRate = Math.round(
+    submissionStatus?.submissionStats.submissionRate ?? 0,
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6 space-y-4">
+      {/* 토글 및 설정 */}
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="flex items-center gap-2">
+          <Switch
+            id="live-monitoring"
+            checked={isLive}
+            onCheckedChange={setIsLive}
+          />
+          <Label htmlFor="live-monitoring" className="font-semibold">
+            실시간 모니터링
+          </Label>
+        </div>
+
+        {isLive && (
+          <>
+            <span
+              className={cn(
+                "flex items-center gap-1 text-sm font-medium",
+                isPaused ? "text-amber-600" : "text-green-600",
+              )}
+            >
+              {isPaused ? (
+                <Pause className="w-4 h-4" />
+              ) : (
+                <Radio className="w-4 h-4 animate-pulse" />
+              )}
+              {isPaused ? "탭이 숨겨져 일시정지됨" : "수신 중"}
+            </span>
+            {lastUpdated > 0 && (
+              <span className="text-xs text-gray-500">
+                마지막 갱신{" "}
+                {new Date(lastUpdated).toLocaleTimeString("ko-KR", {
+                  hour12: false,
+                })}
+              </span>
+            )}
+
+            <div className="ml-auto flex flex-wrap items-center gap-3">
+              <div className="flex items-center gap-2">
+                <Label className="text-sm text-gray-600">갱신 간격</Label>
+                <Select
+                  value={String(settings.intervalSeconds)}
+                  onValueChange={(value) =>
+                    updateSettings({ intervalSeconds: Number(value) })
+                  }
+                >
+                  <SelectTrigger className="w-24 h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LIVE_MONITORING_INTERVAL_OPTIONS.map((seconds) => (
+                      <SelectItem key={seconds} value={String(seconds)}>
+                        {seconds}초
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Label
+                  htmlFor="live-target-rate"
+                  className="text-sm text-gray-600"
+                >
+                  목표 제출률
+                </Label>
+                <Input
+                  id="live-target-rate"
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={settings.targetRate}
+                  className="w-20 h-8"
+                  onChange={(e) => {
+                    const value = Number(e.target.value);
+                    if (Number.isInteger(value) && value >= 1 && value <= 100) {
+                      updateSettings({ targetRate: value });
+                    }
+                  }}
+                />
+                <span className="text-sm text-gray-600">%</span>
+              </div>
+
+              <button
+                type="button"
+                className={cn(
+                  "flex items-center gap-1 text-sm",
+                  settings.isSoundEnabled ? "text-blue-600" : "text-gray-400",
+                )}
+                onClick={() =>
+                  updateSettings({ isSoundEnabled: !settings.isSoundEnabled })
+                }
+                aria-pressed={settings.isSoundEnabled}
+                title="목표 제출률 도달 시 알림음"
+              >
+                {settings.isSoundEnabled ? (
+                  <Bell className="w-4 h-4" />
+                ) : (
+                  <BellOff className="w-4 h-4" />
+                )}
+                알림음
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+
+      {isLive && submissionStatus && (
+        <>
+          {/* 목표 대비 제출률 */}
+          <div className="space-y-1">
+            <div className="flex justify-between text-sm text-gray-600">
+              <span>
+                제출률 {submissionRate}% (목표 {settings.targetRate}%)
+              </span>
+              <span>
+                {submissionStatus.submissionStats.actualSubmissions}/
+                {submissionStatus.submissionStats.maxStudent}
+              </span>
+            </div>
+            <Progress
+              value={submissionRate}
+              className={cn(
+                "h-2 bg-gray-200",
+                submissionRate >= settings.targetRate
+                  ? "[&>div]:bg-green-600"
+                  : "[&>div]:bg-blue-600",
+              )}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 gap-4 lg:grid-cols-[1fr_18rem]">
+            {/* 분 단위 제출 타임라인 */}
+            <div>
+              <h3 className="text-sm font-semibold text-gray-700 mb-2">
+                최근 60분 제출 추이
+              </h3>
+              <ChartContainer
+                config={TIMELINE_CHART_CONFIG}
+                className="h-56 w-full"
+              >
+                <ComposedChart data={timeline}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                  <XAxis dataKey="label" minTickGap={24} />
+                  <YAxis yAxisId="count" allowDecimals={false} width={28} />
+                  <YAxis
+                    yAxisId="cumulative"
+                    orientation="right"
+                    allowDecimals={false}
+                    width={32}
+                  />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar
+                    yAxisId="count"
+                    dataKey="count"
+                    fill="var(--color-count)"
+                    radius={[2, 2, 0, 0]}
+                    isAnimationActive={false}
+                  />
+                  <Line
+                    yAxisId="cumulative"
+                    dataKey="cumulative"
+                    type="stepAfter"
+                    stroke="var(--color-cumulative)"
+                    strokeWidth={2}
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                </ComposedChart>
+              </ChartContainer>
+            </div>
+
+            {/* 최근 제출 (새 제출 애니메이션) */}
+            <div>
+              <h3 className="text-sm font-semibold text-gray-700 mb-2">
+                최근 제출
+              </h3>
+              {submissionStatus.recentSubmissions.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  아직 제출한 학생이 없습니다.
+                </p>
+              ) : (
+                <ul className="space-y-1 overflow-hidden">
+                  <AnimatePresence initial={false}>
+                    {submissionStatus.recentSubmissions.map((submission) => (
+                      <motion.li
+                        key={submission.submissionId}
+                        layout
+                        initial={{
+                          opacity: 0,
+                          y: -12,
+                          backgroundColor: "rgb(219 234 254)",
+                        }}
+                        animate={{
+                          opacity: 1,
+                          y: 0,
+                          backgroundColor: "rgba(255, 255, 255, 0)",
+                        }}
+                        exit={{ opacity: 0 }}
+                        transition={{
+                          duration: 0.4,
+                          backgroundColor: { duration: 2 },
+                        }}
+                        className="flex justify-between rounded px-2 py-1 text-sm"
+                      >
+                        <span className="font-medium">
+                          {submission.studentName}
+                        </span>
+                        <span className="text-gray-500">
+                          {new Date(submission.submittedAt).toLocaleTimeString(
+                            "ko-KR",
+                            { hour12: false },
+                          )}
+                        </span>
+                      </motion.li>
+                    ))}
+                  </AnimatePresence>
+                </ul>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import { History } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { MAX_GRADING_FEEDBACK_LENGTH } from "@/utils/grading";
+import type { GradingHistoryEntry, QuestionGrade } from "@/api/grading";
+import type { GradingDraft } from "@/types/grading";
+
+/**
+ * 문항 재채점 편집기 Props
+ */
+type QuestionGradingEditorProps = {
+  /** 저장된 문항 채점 결과 */
+  grade: QuestionGrade;
+  /** 현재 입력값 */
+  draft: GradingDraft;
+  /** 입력값 변경 핸들러 */
+  onChange: (draft: GradingDraft) => void;
+  /** 입력값 검증 오류 (없으면 null) */
+  error: string | null;
+  /** 이 문항의 가장 최근 재채점 이력 */
+  lastChange?: GradingHistoryEntry;
+  /** 첨부된 OCR 인식 답안 (있는 경우) */
+  recognizedText?: string | null;
+  /** 저장 중 여부 */
+  isDisabled?: boolean;
+};
+
+/**
+ * 문항 재채점 편집기 컴포넌트
+ * @description 주관식/OCR 인식 답안에 대해 교사가 부분 점수와 피드백을 입력하는 편집기
+ *
+ * 주요 기능:
+ * - 0 ~ 배점 범위의 점수 입력 (0.5점 단위)
+ * - 선택적 피드백 메모
+ * - 첨부된 OCR 인식 답안 표시
+ * - "재채점됨" 배지와 최근 변경자/시각 표시
+ */
+export function QuestionGradingEditor({
+  grade,
+  draft,
+  onChange,
+  error,
+  lastChange,
+  recognizedText,
+  isDisabled = false,
+}: QuestionGradingEditorProps) {
+  return (
+    <div className="mt-4 space-y-3 rounded-lg border border-amber-200 bg-amber-50/50 p-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-sm font-medium text-gray-700">수동 채점</span>
+        <div className="flex items-center gap-1">
+          <Input
+            type="number"
+            inputMode="decimal"
+            min={0}
+            max={grade.maxScore}
+            step={0.5}
+            value={draft.score}
+            disabled={isDisabled}
+            aria-invalid={!!error}
+            aria-label={`${grade.questionNumber}번 점수`}
+            className="h-8 w-20 bg-white text-right"
+            onChange={(e) => onChange({ ...draft, score: e.target.value })}
+          />
+          <span className="text-sm text-gray-600">/ {grade.maxScore}점</span>
+        </div>
+        {grade.isRegraded && (
+          <Badge
+            variant="outline"
+            className="border-amber-400 bg-amber-100 text-amber-800"
+          >
+            <History className="w-3 h-3 mr-1" />
+            재채점됨
+          </Badge>
+        )}
+        {lastChange && (
+          <span className="text-xs text-gray-500">
+            {lastChange.gradedBy.teacherName} ·{" "}
+            {new Date(lastChange.gradedAt).toLocaleString("ko-KR")}
+          </span>
+        )}
+      </div>
+
+      {recognizedText && (
+        <p className="text-sm text-gray-700">
+          <span className="font-medium text-gray-600">OCR 인식 답안: </span>
+          {recognizedText}
+        </p>
+      )}
+
+      <Textarea
+        value={draft.feedback}
+        disabled={isDisabled}
+        maxLength={MAX_GRADING_FEEDBACK_LENGTH}
+        placeholder="학생에게 남길 피드백 (선택)"
+        aria-label={`${grade.questionNumber}번 피드백`}
+        className="min-h-12 bg-white text-sm"
+        onChange={(e) => onChange({ ...draft, feedback: e.target.value })}
+      />
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -6,10 +6,21 @@ export * from "./ExamSheetListTab";
 export * from "./ExamSheetRegistrationTab";
 export * from "./ExamListTable";
 export * from "./ExamSubmissionTable";
-export * from "./ExamDetailTable";
 export * from "./ParticipationBadge";
 export * from "./ExamDetail";
 export * from "./ExamSubmissionStatus";
 export * from "./ExamFilterSidebar";
 export * from "./EnhancedExamSheetListTab";
 export * from "./ExamCreationTab";
+export * from "./AnswerSheetRecognitionModal";
+export * from "./ExamItemAnalysis";
+export * from "./ExamAnswerMatrix";
+export * from "./QuestionGradingEditor";
+export * from "./ExamAssignmentDialog";
+export * from "./ExamNonSubmittersPanel";
+export * from "./LiveSubmissionMonitor";
+export * from "./ExamLifecycleBadge";
+export * from "./ExamLifecycleFilterBar";
+export * from "./ExamEditDialog";
+export * from "./ExamDeleteDialog";
+export * from "./ExamAvailabilityDialog";
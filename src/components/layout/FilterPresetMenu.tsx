@@ -0,0 +1,357 @@
+import { useState } from "react";
+import { defaultStringifySearch, useRouter } from "@tanstack/react-router";
+import { useAtomValue, useSetAtom } from "jotai";
+import {
+  Bookmark,
+  Check,
+  Link2,
+  MoreHorizontal,
+  Pencil,
+  Star,
+  StarOff,
+  Trash2,
+  X,
+} from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { FilterPresetAtoms } from "@/atoms/filterPresets";
+import type { FilterPreset, FilterPresetSearch } from "@/types/filter-preset";
+import {
+  MAX_FILTER_PRESET_NAME_LENGTH,
+  pickFilterPresetSearch,
+  validateFilterPresetName,
+} from "@/utils/filterPresets";
+import { cn } from "@/lib/utils";
+
+/**
+ * 필터 프리셋 메뉴 Props
+ */
+type FilterPresetMenuProps<TSearch extends FilterPresetSearch> = {
+  /** 목록 종류별 프리셋 원자 묶음 */
+  atoms: FilterPresetAtoms<TSearch>;
+  /** 현재 필터·정렬·페이지 크기 (URL 파라미터 형태) */
+  currentSearch: TSearch;
+  /** 프리셋이 저장하는 URL 파라미터 키 목록 */
+  searchKeys: Array<keyof TSearch>;
+  /** 프리셋 적용 핸들러 */
+  onApply: (search: TSearch) => void;
+  /** 트리거 버튼 클래스명 */
+  className?: string;
+};
+
+/**
+ * 필터 프리셋 메뉴 컴포넌트
+ * @description 현재 필터 조합을 이름으로 저장하고 다시 적용하는 팝오버 메뉴
+ *
+ * 주요 기능:
+ * - 현재 필터·정렬·페이지 크기를 이름으로 저장 (브라우저에 보관)
+ * - 프리셋 적용, 이름 변경, 삭제 (토스트에서 되돌리기)
+ * - 기본 프리셋 지정 (URL에 필터 없이 들어오면 자동 적용)
+ * - 공유 링크 복사 (받는 사람은 같은 필터가 적용된 목록을 봄)
+ */
+export function FilterPresetMenu<TSearch extends FilterPresetSearch>({
+  atoms,
+  currentSearch,
+  searchKeys,
+  onApply,
+  className,
+}: FilterPresetMenuProps<TSearch>) {
+  const router = useRouter();
+  const presets = useAtomValue(atoms.presetsAtom);
+  const defaultPresetId = useAtomValue(atoms.defaultPresetIdAtom);
+  const savePreset = useSetAtom(atoms.savePresetAtom);
+  const renamePreset = useSetAtom(atoms.renamePresetAtom);
+  const deletePreset = useSetAtom(atoms.deletePresetAtom);
+  const restorePreset = useSetAtom(atoms.restorePresetAtom);
+  const setDefaultPreset = useSetAtom(atoms.setDefaultPresetAtom);
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState("");
+
+  const newNameError = newName
+    ? validateFilterPresetName(newName, presets)
+    : null;
+  const editingNameError = editingId
+    ? validateFilterPresetName(editingName, presets, editingId)
+    : null;
+
+  /**
+   * 현재 필터 저장 핸들러
+   */
+  const handleSave = (event: React.FormEvent) => {
+    event.preventDefault();
+    const error = validateFilterPresetName(newName, presets);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    const preset = savePreset({
+      name: newName,
+      search: pickFilterPresetSearch(currentSearch, searchKeys),
+    });
+    setNewName("");
+    toast.success(`'${preset.name}' 프리셋을 저장했습니다.`);
+  };
+
+  /**
+   * 프리셋 적용 핸들러
+   */
+  const handleApply = (preset: FilterPreset<TSearch>) => {
+    onApply(preset.search);
+    setIsOpen(false);
+  };
+
+  /**
+   * 이름 변경 시작 핸들러
+   */
+  const handleStartRename = (preset: FilterPreset<TSearch>) => {
+    setEditingId(preset.id);
+    setEditingName(preset.name);
+  };
+
+  /**
+   * 이름 변경 저장 핸들러
+   */
+  const handleRename = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!editingId || editingNameError) return;
+    renamePreset({ id: editingId, name: editingName });
+    setEditingId(null);
+  };
+
+  /**
+   * 삭제 핸들러 (토스트에서 되돌리기 가능)
+   */
+  const handleDelete = (preset: FilterPreset<TSearch>) => {
+    const index = presets.findIndex((item) => item.id === preset.id);
+    const wasDefault = defaultPresetId === preset.id;
+    deletePreset(preset.id);
+    toast.success(`'${preset.name}' 프리셋을 삭제했습니다.`, {
+      action: {
+        label: "되돌리기",
+        onClick: () => {
+          restorePreset({ preset, index });
+          if (wasDefault) setDefaultPreset(preset.id);
+        },
+      },
+    });
+  };
+
+  /**
+   * 기본 프리셋 지정/해제 핸들러
+   */
+  const handleToggleDefault = (preset: FilterPreset<TSearch>) => {
+    if (defaultPresetId === preset.id) {
+      setDefaultPreset(null);
+      toast.success("기본 프리셋을 해제했습니다.");
+    } else {
+      setDefaultPreset(preset.id);
+      toast.success(`'${preset.name}' 프리셋을 기본으로 설정했습니다.`, {
+        description: "필터 없이 목록을 열면 이 프리셋이 적용됩니다.",
+      });
+    }
+  };
+
+  /**
+   * 공유 링크 복사 핸들러
+   */
+  const handleCopyLink = async (preset: FilterPreset<TSearch>) => {
+    const url = `${window.location.origin}${router.latestLocation.pathname}${defaultStringifySearch(preset.search)}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success(`'${preset.name}' 공유 링크를 복사했습니다.`);
+    } catch {
+      toast.error("클립보드에 복사하지 못했습니다.");
+    }
+  };
+
+  return (
+    <Popover
+      open={isOpen}
+      onOpenChange={(open) => {
+        setIsOpen(open);
+        if (!open) setEditingId(null);
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className={cn("h-8 px-3", className)}
+        >
+          <Bookmark className="h-4 w-4 mr-1" />
+          저장된 필터
+          {presets.length > 0 && (
+            <span className="ml-1 text-xs text-muted-foreground">
+              {presets.length}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 space-y-3">
+        {/* 현재 필터 저장 */}
+        <form onSubmit={handleSave} className="space-y-2">
+          <Label htmlFor="filter-preset-name" className="text-xs">
+            현재 필터·정렬·페이지 크기 저장
+          </Label>
+          <div className="flex gap-2">
+            <Input
+              id="filter-preset-name"
+              value={newName}
+              maxLength={MAX_FILTER_PRESET_NAME_LENGTH}
+              placeholder="프리셋 이름"
+              onChange={(event) => setNewName(event.target.value)}
+              className="h-8 text-sm"
+            />
+            <Button
+              type="submit"
+              size="sm"
+              className="h-8"
+              disabled={!newName.trim() || !!newNameError}
+            >
+              저장
+            </Button>
+          </div>
+          {newNameError && (
+            <p className="text-xs text-destructive">{newNameError}</p>
+          )}
+        </form>
+
+        {/* 저장된 프리셋 목록 */}
+        <div className="border-t pt-3">
+          {presets.length === 0 ? (
+            <p className="text-xs text-muted-foreground">
+              저장된 프리셋이 없습니다.
+            </p>
+          ) : (
+            <ul className="space-y-1">
+              {presets.map((preset) =>
+                editingId === preset.id ? (
+                  <li key={preset.id}>
+                    <form
+                      onSubmit={handleRename}
+                      className="flex items-center gap-1"
+                    >
+                      <Input
+                        value={editingName}
+                        maxLength={MAX_FILTER_PRESET_NAME_LENGTH}
+                        autoFocus
+                        onChange={(event) => setEditingName(event.target.value)}
+                        className="h-8 text-sm"
+                      />
+                      <Button
+                        type="submit"
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0"
+                        disabled={!!editingNameError}
+                        title="이름 저장"
+                      >
+                        <Check className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0"
+                        onClick={() => setEditingId(null)}
+                        title="취소"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </form>
+                    {editingNameError && (
+                      <p className="mt-1 text-xs text-destructive">
+                        {editingNameError}
+                      </p>
+                    )}
+                  </li>
+                ) : (
+                  <li key={preset.id} className="flex items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 flex-1 justify-start truncate text-sm"
+                      onClick={() => handleApply(preset)}
+                      title="이 프리셋 적용"
+                    >
+                      {defaultPresetId === preset.id && (
+                        <Star className="h-3.5 w-3.5 mr-1 fill-amber-400 text-amber-400" />
+                      )}
+                      <span className="truncate">{preset.name}</span>
+                    </Button>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0"
+                          title="프리셋 관리"
+                        >
+                          <MoreHorizontal className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem
+                          onSelect={() => handleStartRename(preset)}
+                        >
+                          <Pencil className="h-4 w-4" />
+                          이름 변경
+                        </DropdownMenuItem>
+                        <DropdownMenuItem
+                          onSelect={() => handleToggleDefault(preset)}
+                        >
+                          {defaultPresetId === preset.id ? (
+                            <>
+                              <StarOff className="h-4 w-4" />
+                              기본 해제
+                            </>
+                          ) : (
+                            <>
+                              <Star className="h-4 w-4" />
+                              기본으로 설정
+                            </>
+                          )}
+                        </DropdownMenuItem>
+                        <DropdownMenuItem
+                          onSelect={() => handleCopyLink(preset)}
+                        >
+                          <Link2 className="h-4 w-4" />
+                          공유 링크 복사
+                        </DropdownMenuItem>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem
+                          variant="destructive"
+                          onSelect={() => handleDelete(preset)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                          삭제
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </li>
+                ),
+              )}
+            </ul>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -1,5 +1,5 @@
 import { Link, useLocation } from "@tanstack/react-router";
-import { ChartColumn, House, FileCog, FolderCog } from "lucide-react";
+import { ChartColumn, House, FileCog, FolderCog, Users } from "lucide-react";
 
 // 1. framer-motion에서 필요한 것들을 import
 import { motion } from "framer-motion";
@@ -16,6 +16,7 @@ const menuItems = [
     icon: FileCog,
     label: "시험 관리",
   } as const,
+  { path: "/main/students", icon: Users, label: "학생 관리" } as const,
   { path: "/main/statistics", icon: ChartColumn, label: "통계 관리" } as const,
 ];
 
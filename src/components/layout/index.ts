@@ -11,3 +11,4 @@ export { HeaderTitle } from "./HeaderTitle";
 export { HealthCheckStatus } from "./HealthCheckStatus";
 export { ExamList } from "./ExamList";
 export { ProblemModal } from "./ProblemModal";
+export { FilterPresetMenu } from "./FilterPresetMenu";
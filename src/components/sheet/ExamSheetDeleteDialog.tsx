@@ -0,0 +1,148 @@
+import { useQueries } from "@tanstack/react-query";
+import { AlertTriangle, Loader2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { examSheetUsageQueryOptions } from "@/api/exam-sheet";
+import { useExamSheetMutations } from "@/hooks/exam-sheet/useExamSheetMutations";
+import type { ExamSheet } from "@/types/exam-sheet";
+
+/**
+ * 문제지 삭제 확인 다이얼로그 Props
+ */
+type ExamSheetDeleteDialogProps = {
+  /** 삭제할 문제지 목록 (비어 있으면 닫힘) */
+  sheets: Array<Pick<ExamSheet, "id" | "examName">>;
+  /** 다이얼로그 닫기 핸들러 */
+  onClose: () => void;
+  /** 삭제 완료 후 콜백 (삭제된 문제지 ID 목록) */
+  onDeleted?: (deletedIds: string[]) => void;
+};
+
+/**
+ * 문제지 삭제 확인 다이얼로그
+ * @description 삭제 전에 사용 현황을 조회하여 시험으로 발행된 문제지는 삭제 대상에서 제외
+ *
+ * 주요 기능:
+ * - 문제지별 사용 현황(GET /exam-sheets/{id}/usage) 조회
+ * - 발행된 문제지는 경고와 함께 삭제 차단
+ * - 발행되지 않은 문제지만 삭제
+ */
+export function ExamSheetDeleteDialog({
+  sheets,
+  onClose,
+  onDeleted,
+}: ExamSheetDeleteDialogProps) {
+  const { deleteMutation } = useExamSheetMutations();
+
+  const usageQueries = useQueries({
+    queries: sheets.map((sheet) => examSheetUsageQueryOptions(sheet.id)),
+  });
+
+  const isCheckingUsage = usageQueries.some((query) => query.isPending);
+  const hasUsageError = usageQueries.some((query) => query.isError);
+  const inUseSheets = sheets
+    .map((sheet, index) => ({
+      ...sheet,
+      usageCount: usageQueries[index]?.data?.usageCount ?? 0,
+    }))
+    .filter((sheet) => sheet.usageCount > 0);
+  const deletableSheets = sheets.filter(
+    (sheet) => !inUseSheets.some((inUse) => inUse.id === sheet.id),
+  );
+
+  /**
+   * 삭제 확인 핸들러
+   */
+  const handleConfirm = (event: React.MouseEvent) => {
+    // 삭제가 끝날 때까지 다이얼로그 유지
+    event.preventDefault();
+    deleteMutation.mutate(deletableSheets, {
+      onSuccess: ({ deletedIds }) => {
+        onDeleted?.(deletedIds);
+        onClose();
+      },
+    });
+  };
+
+  return (
+    <AlertDialog
+      open={sheets.length > 0}
+      onOpenChange={(open) => !open && onClose()}
+    >
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>문제지 삭제</AlertDialogTitle>
+          <AlertDialogDescription asChild>
+            <div className="space-y-3 text-sm">
+              {isCheckingUsage && (
+                <p className="flex items-center gap-2">
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  문제지 사용 현황을 확인하는 중...
+                </p>
+              )}
+              {!isCheckingUsage && hasUsageError && (
+                <p className="text-destructive">
+                  사용 현황을 확인하지 못했습니다. 잠시 후 다시 시도해주세요.
+                </p>
+              )}
+              {!isCheckingUsage && !hasUsageError && (
+                <>
+                  {deletableSheets.length > 0 ? (
+                    <p>
+                      {deletableSheets.length === 1
+                        ? `'${deletableSheets[0].examName}' 문제지를`
+                        : `문제지 ${deletableSheets.length}개를`}{" "}
+                      삭제하시겠습니까? 삭제한 문제지는 되돌릴 수 없습니다.
+                    </p>
+                  ) : (
+                    <p>삭제할 수 있는 문제지가 없습니다.</p>
+                  )}
+                  {inUseSheets.length > 0 && (
+                    <div className="rounded-md border border-amber-300 bg-amber-50 p-3 text-amber-800">
+                      <p className="flex items-center gap-2 font-medium">
+                        <AlertTriangle className="w-4 h-4" />
+                        시험으로 발행된 문제지는 삭제할 수 없습니다.
+                      </p>
+                      <ul className="mt-2 list-disc pl-5">
+                        {inUseSheets.map((sheet) => (
+                          <li key={sheet.id}>
+                            {sheet.examName} (시험 {sheet.usageCount}개)
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={deleteMutation.isPending}>
+            취소
+          </AlertDialogCancel>
+          <AlertDialogAction
+            onClick={handleConfirm}
+            disabled={
+              isCheckingUsage ||
+              hasUsageError ||
+              deletableSheets.length === 0 ||
+              deleteMutation.isPending
+            }
+            className="bg-destructive text-white hover:bg-destructive/90"
+          >
+            {deleteMutation.isPending ? "삭제 중..." : "삭제"}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,456 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useNavigate } from "@tanstack/react-router";
+import { Copy, Pencil, Trash2 } from "lucide-react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import type { ChartConfig } from "@/components/ui/chart";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { RichQuestionText } from "@/components/common/RichQuestionText";
+import { ExamSheetEditDialog } from "./ExamSheetEditDialog";
+import { ExamSheetDuplicateDialog } from "./ExamSheetDuplicateDialog";
+import { ExamSheetDeleteDialog } from "./ExamSheetDeleteDialog";
+import {
+  examSheetDetailQueryOptions,
+  examSheetPublishedExamsQueryOptions,
+  examSheetUsageQueryOptions,
+} from "@/api/exam-sheet";
+import { cn } from "@/lib/utils";
+import {
+  buttonStyles,
+  getDifficultyBadgeVariant,
+  tableStyles,
+} from "@/utils/commonStyles";
+import type { ExamSheetQuestion } from "@/types/exam-sheet";
+
+/** 분포 차트 설정 */
+const distributionChartConfig = {
+  questionCount: {
+    label: "문항 수",
+    color: "var(--chart-2)",
+  },
+} satisfies ChartConfig;
+
+/** 난이도 표시 라벨 */
+const DIFFICULTY_LABEL: Record<ExamSheetQuestion["difficulty"], string> = {
+  EASY: "하",
+  MEDIUM: "중",
+  HARD: "상",
+};
+
+/**
+ * 단원 분포 차트 Props
+ */
+type DistributionChartProps = {
+  /** 차트 제목 */
+  title: string;
+  /** 분포 데이터 (이름, 문항 수) */
+  data: Array<{ name: string; questionCount: number }>;
+};
+
+/**
+ * 단원 분포 가로 막대 차트
+ * @description 긴 단원명이 잘리지 않도록 가로 막대로 표시
+ */
+function DistributionChart({ title, data }: DistributionChartProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {data.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            분포 정보가 없습니다.
+          </p>
+        ) : (
+          <ChartContainer
+            config={distributionChartConfig}
+            className="w-full"
+            style={{ height: Math.max(160, data.length * 36) }}
+          >
+            <BarChart accessibilityLayer data={data} layout="vertical">
+              <CartesianGrid horizontal={false} />
+              <XAxis type="number" allowDecimals={false} hide />
+              <YAxis
+                type="category"
+                dataKey="name"
+                width={140}
+                tickLine={false}
+                axisLine={false}
+              />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar
+                dataKey="questionCount"
+                fill="var(--color-questionCount)"
+                radius={4}
+              />
+            </BarChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * 문제지 상세 컴포넌트 Props
+ */
+type ExamSheetDetailProps = {
+  /** 문제지 ID */
+  sheetId: string;
+};
+
+/**
+ * 문제지 상세 컴포넌트
+ * @description 문제지 하나의 전체 문항, 단원 분포, 사용 현황을 보여주는 상세 화면
+ *
+ * 주요 기능:
+ * - 문제지 기본 정보 (학년, 문항 수, 배점, 생성일)
+ * - 사용 현황 (발행된 시험 수)
+ * - 단원 대분류/중분류별 문항 분포 차트
+ * - 전체 문항 목록 (수식 포함 문제 텍스트 렌더링)
+ * - 이 문제지로 발행된 시험 목록 및 시험 상세 링크
+ * - 문제지 수정/복제/삭제
+ *
+ * API 엔드포인트:
+ * - GET /exam-sheets/{examSheetId}
+ * - GET /exam-sheets/{examSheetId}/usage
+ * - GET /exams (학년별 조회 후 문제지 ID로 필터링)
+ */
+export function ExamSheetDetail({ sheetId }: ExamSheetDetailProps) {
+  const navigate = useNavigate();
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const [isDuplicateOpen, setIsDuplicateOpen] = useState(false);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+
+  const {
+    data: sheet,
+    isPending,
+    isError,
+    refetch,
+  } = useQuery(examSheetDetailQueryOptions(sheetId));
+  const { data: usage } = useQuery(examSheetUsageQueryOptions(sheetId));
+  const { data: publishedExams, isPending: isExamsPending } = useQuery(
+    examSheetPublishedExamsQueryOptions(sheetId, sheet?.grade ?? 0),
+  );
+
+  if (isPending) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">문제지 정보를 불러오는 중...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (isError) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center space-y-4">
+          <p className="text-destructive">문제지 정보를 불러올 수 없습니다.</p>
+          <Button variant="outline" onClick={() => refetch()}>
+            다시 시도
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const questions = [...(sheet.questions ?? [])].sort(
+    (a, b) => a.seqNo - b.seqNo,
+  );
+  const categoryData = sheet.unitSummary.categoryDistribution.map((item) => ({
+    name: item.categoryName,
+    questionCount: item.questionCount,
+  }));
+  const subcategoryData = sheet.unitSummary.subcategoryDistribution.map(
+    (item) => ({
+      name: item.subcategoryName,
+      questionCount: item.questionCount,
+    }),
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* 문제지 정보 섹션 */}
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-3">
+            <h1 className="text-2xl font-bold text-gray-900">
+              {sheet.examName}
+            </h1>
+            <Badge variant="outline" className="text-sm">
+              {sheet.grade}학년
+            </Badge>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsEditOpen(true)}
+            >
+              <Pencil className="w-4 h-4 mr-1" />
+              수정
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsDuplicateOpen(true)}
+            >
+              <Copy className="w-4 h-4 mr-1" />
+              복제
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsDeleteOpen(true)}
+              className="text-destructive"
+            >
+              <Trash2 className="w-4 h-4 mr-1" />
+              삭제
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <Link to="/main/exam/sheet/manage" search={{ tab: "list" }}>
+                목록으로
+              </Link>
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          <div className="text-center p-4 bg-blue-50 rounded-lg">
+            <div className="text-2xl font-bold text-blue-600">
+              {sheet.totalQuestions}
+            </div>
+            <div className="text-sm text-blue-600 mt-1">총 문항</div>
+          </div>
+          <div className="text-center p-4 bg-gray-50 rounded-lg">
+            <div className="text-2xl font-bold text-gray-700">
+              {sheet.multipleChoiceCount} / {sheet.subjectiveCount}
+            </div>
+            <div className="text-sm text-gray-600 mt-1">객관식 / 주관식</div>
+          </div>
+          <div className="text-center p-4 bg-green-50 rounded-lg">
+            <div className="text-2xl font-bold text-green-600">
+              {sheet.totalPoints}
+            </div>
+            <div className="text-sm text-green-600 mt-1">총 배점</div>
+          </div>
+          <div className="text-center p-4 bg-purple-50 rounded-lg">
+            <div className="text-2xl font-bold text-purple-600">
+              {usage?.usageCount ?? "-"}
+            </div>
+            <div className="text-sm text-purple-600 mt-1">발행된 시험</div>
+          </div>
+          <div className="text-center p-4 bg-gray-50 rounded-lg">
+            <div className="text-lg font-bold text-gray-700">
+              {new Date(sheet.createdAt).toLocaleDateString("ko-KR")}
+            </div>
+            <div className="text-sm text-gray-600 mt-1">생성일</div>
+          </div>
+        </div>
+      </div>
+
+      {/* 단원 분포 차트 */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <DistributionChart title="대분류별 문항 분포" data={categoryData} />
+        <DistributionChart title="중분류별 문항 분포" data={subcategoryData} />
+      </div>
+
+      {/* 문항 목록 */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">
+            문항 목록 ({questions.length}문항)
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className={tableStyles.container}>
+            <Table>
+              <TableHeader>
+                <TableRow className={tableStyles.header}>
+                  <TableHead className="w-[60px] text-center">번호</TableHead>
+                  <TableHead className={tableStyles.headerCell}>문제</TableHead>
+                  <TableHead className={tableStyles.headerCell}>단원</TableHead>
+                  <TableHead className={tableStyles.headerCellCenter}>
+                    유형
+                  </TableHead>
+                  <TableHead className={tableStyles.headerCellCenter}>
+                    난이도
+                  </TableHead>
+                  <TableHead className={tableStyles.headerCellCenter}>
+                    배점
+                  </TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {questions.map((question, index) => (
+                  <TableRow
+                    key={question.questionId}
+                    className={cn(
+                      tableStyles.row,
+                      index % 2 === 0
+                        ? tableStyles.rowEven
+                        : tableStyles.rowOdd,
+                    )}
+                  >
+                    <TableCell className={tableStyles.cellCenter}>
+                      {question.seqNo}
+                    </TableCell>
+                    <TableCell className={tableStyles.cell}>
+                      <RichQuestionText
+                        content={question.questionText}
+                        className="text-sm leading-relaxed"
+                      />
+                    </TableCell>
+                    <TableCell className={tableStyles.cell}>
+                      {question.unitInfo ? (
+                        <div className="text-xs">
+                          <div className="font-medium">
+                            {question.unitInfo.unitName}
+                          </div>
+                          <div className="text-muted-foreground">
+                            {question.unitInfo.categoryName} &gt;{" "}
+                            {question.unitInfo.subcategoryName}
+                          </div>
+                        </div>
+                      ) : (
+                        "-"
+                      )}
+                    </TableCell>
+                    <TableCell className={tableStyles.cellCenter}>
+                      <Badge
+                        variant={
+                          question.questionType === "MULTIPLE_CHOICE"
+                            ? "default"
+                            : "secondary"
+                        }
+                        className="text-xs"
+                      >
+                        {question.questionType === "MULTIPLE_CHOICE"
+                          ? "객관식"
+                          : "주관식"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className={tableStyles.cellCenter}>
+                      <Badge
+                        variant={getDifficultyBadgeVariant(
+                          DIFFICULTY_LABEL[question.difficulty],
+                        )}
+                        className="text-xs"
+                      >
+                        {DIFFICULTY_LABEL[question.difficulty]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className={tableStyles.cellCenter}>
+                      {question.points}점
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* 발행된 시험 목록 */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">
+            이 문제지로 발행된 시험
+            {publishedExams && ` (${publishedExams.length})`}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isExamsPending && (
+            <p className="text-sm text-muted-foreground">
+              시험 목록을 불러오는 중...
+            </p>
+          )}
+          {publishedExams?.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              아직 이 문제지로 발행된 시험이 없습니다.
+            </p>
+          )}
+          {publishedExams && publishedExams.length > 0 && (
+            <ul className="divide-y">
+              {publishedExams.map((exam) => (
+                <li
+                  key={exam.id}
+                  className="flex items-center justify-between py-3"
+                >
+                  <div>
+                    <div className="font-medium">{exam.examName}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {new Date(exam.createdAt).toLocaleDateString("ko-KR")}{" "}
+                      발행
+                    </div>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    asChild
+                    className={buttonStyles.primary}
+                  >
+                    <Link
+                      to="/main/exam/manage/$examId"
+                      params={{ examId: exam.id }}
+                    >
+                      상세보기
+                    </Link>
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* 문제지 수정/복제/삭제 다이얼로그 */}
+      <ExamSheetEditDialog
+        sheet={sheet}
+        isOpen={isEditOpen}
+        onClose={() => setIsEditOpen(false)}
+      />
+      <ExamSheetDuplicateDialog
+        sheet={isDuplicateOpen ? sheet : null}
+        onClose={() => setIsDuplicateOpen(false)}
+        onDuplicated={(created) =>
+          navigate({
+            to: "/main/exam/sheet/manage/$sheetId",
+            params: { sheetId: created.id },
+          })
+        }
+      />
+      <ExamSheetDeleteDialog
+        sheets={isDeleteOpen ? [sheet] : []}
+        onClose={() => setIsDeleteOpen(false)}
+        onDeleted={(deletedIds) => {
+          if (deletedIds.includes(sheet.id)) {
+            navigate({
+              to: "/main/exam/sheet/manage",
+              search: { tab: "list" },
+            });
+          }
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useExamSheetMutations } from "@/hooks/exam-sheet/useExamSheetMutations";
+import { MAX_EXAM_SHEET_NAME_LENGTH } from "@/utils/examSheet";
+import type { ExamSheet } from "@/types/exam-sheet";
+
+/**
+ * 문제지 복제 다이얼로그 Props
+ */
+type ExamSheetDuplicateDialogProps = {
+  /** 복제할 원본 문제지 (null이면 닫힘) */
+  sheet: Pick<ExamSheet, "id" | "examName" | "grade"> | null;
+  /** 다이얼로그 닫기 핸들러 */
+  onClose: () => void;
+  /** 복제 완료 후 콜백 (새 문제지) */
+  onDuplicated?: (sheet: ExamSheet) => void;
+};
+
+/**
+ * 문제지 복제 다이얼로그
+ * @description 기존 문제지의 문항과 배점을 복사해 새 이름으로 저장 (다른 반용 변형 등)
+ *
+ * 주요 기능:
+ * - 새 문제지명 입력 (기본값: "원본명 (사본)")
+ * - 학년 선택 (원본 학년 기본값, 문항 학년이 다르면 서버에서 거부)
+ * - 같은 학년 내 이름 중복 사전 확인
+ */
+export function ExamSheetDuplicateDialog({
+  sheet,
+  onClose,
+  onDuplicated,
+}: ExamSheetDuplicateDialogProps) {
+  const { duplicateMutation } = useExamSheetMutations();
+  const [examName, setExamName] = useState("");
+  const [grade, setGrade] = useState("1");
+
+  // 다이얼로그가 열릴 때 원본 기준으로 초기화
+  useEffect(() => {
+    if (sheet) {
+      setExamName(
+        `${sheet.examName} (사본)`.slice(0, MAX_EXAM_SHEET_NAME_LENGTH),
+      );
+      setGrade(String(sheet.grade));
+    }
+  }, [sheet]);
+
+  /**
+   * 복제 실행 핸들러
+   */
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!sheet) return;
+
+    duplicateMutation.mutate(
+      { examSheetId: sheet.id, examName, grade: Number(grade) },
+      {
+        onSuccess: (created) => {
+          onDuplicated?.(created);
+          onClose();
+        },
+      },
+    );
+  };
+
+  return (
+    <Dialog open={!!sheet} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>문제지 복제</DialogTitle>
+            <DialogDescription>
+              문항과 배점을 그대로 복사한 새 문제지를 만듭니다.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="duplicate-exam-name">새 문제지명</Label>
+            <Input
+              id="duplicate-exam-name"
+              value={examName}
+              maxLength={MAX_EXAM_SHEET_NAME_LENGTH}
+              onChange={(event) => setExamName(event.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>학년</Label>
+            <Select value={grade} onValueChange={setGrade}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="1">1학년</SelectItem>
+                <SelectItem value="2">2학년</SelectItem>
+                <SelectItem value="3">3학년</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              취소
+            </Button>
+            <Button
+              type="submit"
+              disabled={!examName.trim() || duplicateMutation.isPending}
+            >
+              {duplicateMutation.isPending ? "복제 중..." : "복제"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
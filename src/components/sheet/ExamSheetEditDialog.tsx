@@ -0,0 +1,244 @@
+import { useEffect, useRef, useState } from "react";
+import { ArrowDown, ArrowUp, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RichQuestionText } from "@/components/common/RichQuestionText";
+import { useExamSheetMutations } from "@/hooks/exam-sheet/useExamSheetMutations";
+import {
+  MAX_EXAM_SHEET_NAME_LENGTH,
+  normalizeQuestionOrder,
+  validateExamSheetRequest,
+} from "@/utils/examSheet";
+import type { ExamSheet, ExamSheetQuestion } from "@/types/exam-sheet";
+
+/**
+ * 문제지 수정 다이얼로그 Props
+ */
+type ExamSheetEditDialogProps = {
+  /** 수정할 문제지 (문항 포함 상세 데이터) */
+  sheet: ExamSheet;
+  /** 다이얼로그 열림 상태 */
+  isOpen: boolean;
+  /** 다이얼로그 닫기 핸들러 */
+  onClose: () => void;
+};
+
+/**
+ * 문제지 수정 다이얼로그
+ * @description 문제지명, 문항 순서, 문항별 배점을 수정하고 저장
+ *
+ * 주요 기능:
+ * - 문제지명 수정
+ * - 위/아래 버튼으로 문항 순서 변경 (저장 시 1번부터 연속 번호로 재정렬)
+ * - 문항별 배점 수정 및 문항 제외
+ * - 저장 전 서버 규칙 검증 결과 표시
+ *
+ * API 엔드포인트:
+ * - PUT /exam-sheets/{examSheetId}
+ */
+export function ExamSheetEditDialog({
+  sheet,
+  isOpen,
+  onClose,
+}: ExamSheetEditDialogProps) {
+  const { updateMutation } = useExamSheetMutations();
+  const [examName, setExamName] = useState(sheet.examName);
+  const [questions, setQuestions] = useState<ExamSheetQuestion[]>([]);
+  const wasOpenRef = useRef(false);
+
+  // 닫힘 → 열림 전환 시에만 현재 문제지 기준으로 초기화
+  // (열려 있는 동안 문제지가 다시 조회되어도 수정 중인 내용을 덮어쓰지 않음)
+  useEffect(() => {
+    if (isOpen && !wasOpenRef.current) {
+      setExamName(sheet.examName);
+      setQuestions(
+        [...(sheet.questions ?? [])].sort((a, b) => a.seqNo - b.seqNo),
+      );
+    }
+    wasOpenRef.current = isOpen;
+  }, [isOpen, sheet]);
+
+  const request = {
+    examName,
+    grade: sheet.grade,
+    questions: normalizeQuestionOrder(questions),
+  };
+  const validationError = validateExamSheetRequest(request);
+  const totalPoints = questions.reduce(
+    (sum, question) => sum + (question.points || 0),
+    0,
+  );
+
+  /**
+   * 문항 이동 핸들러
+   * @param index 이동할 문항 위치
+   * @param offset 이동 방향 (-1: 위, 1: 아래)
+   */
+  const handleMove = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= questions.length) return;
+
+    setQuestions((prev) => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  /**
+   * 배점 변경 핸들러
+   */
+  const handlePointsChange = (questionId: string, value: string) => {
+    setQuestions((prev) =>
+      prev.map((question) =>
+        question.questionId === questionId
+          ? { ...question, points: Number(value) }
+          : question,
+      ),
+    );
+  };
+
+  /**
+   * 문항 제외 핸들러
+   */
+  const handleRemove = (questionId: string) => {
+    setQuestions((prev) =>
+      prev.filter((question) => question.questionId !== questionId),
+    );
+  };
+
+  /**
+   * 저장 핸들러
+   */
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (validationError) return;
+
+    updateMutation.mutate(
+      { examSheetId: sheet.id, data: request },
+      { onSuccess: onClose },
+    );
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] flex flex-col">
+        <form
+          onSubmit={handleSubmit}
+          className="flex flex-col gap-4 min-h-0 flex-1"
+        >
+          <DialogHeader>
+            <DialogTitle>문제지 수정</DialogTitle>
+            <DialogDescription>
+              문제지명, 문항 순서와 배점을 수정할 수 있습니다.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="edit-exam-name">문제지명</Label>
+            <Input
+              id="edit-exam-name"
+              value={examName}
+              maxLength={MAX_EXAM_SHEET_NAME_LENGTH}
+              onChange={(event) => setExamName(event.target.value)}
+            />
+          </div>
+
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-medium">문항 {questions.length}개</span>
+            <span className="text-muted-foreground">
+              총 배점 {totalPoints}점
+            </span>
+          </div>
+
+          <ul className="flex-1 min-h-0 overflow-y-auto divide-y border rounded-md">
+            {questions.map((question, index) => (
+              <li
+                key={question.questionId}
+                className="flex items-center gap-3 px-3 py-2"
+              >
+                <span className="w-8 text-center font-medium text-sm">
+                  {index + 1}
+                </span>
+                <div className="flex-1 min-w-0 truncate text-sm">
+                  <RichQuestionText
+                    content={question.questionText}
+                    isInline
+                    className="truncate"
+                  />
+                </div>
+                <Input
+                  type="number"
+                  min={1}
+                  step={1}
+                  value={question.points || ""}
+                  onChange={(event) =>
+                    handlePointsChange(question.questionId, event.target.value)
+                  }
+                  className="w-20 h-8"
+                  aria-label={`${index + 1}번 배점`}
+                />
+                <div className="flex items-center">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    disabled={index === 0}
+                    onClick={() => handleMove(index, -1)}
+                    title="위로 이동"
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    disabled={index === questions.length - 1}
+                    onClick={() => handleMove(index, 1)}
+                    title="아래로 이동"
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleRemove(question.questionId)}
+                    title="문항 제외"
+                  >
+                    <Trash2 className="w-4 h-4 text-destructive" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          {validationError && (
+            <p className="text-sm text-destructive">{validationError}</p>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              취소
+            </Button>
+            <Button
+              type="submit"
+              disabled={!!validationError || updateMutation.isPending}
+            >
+              {updateMutation.isPending ? "저장 중..." : "저장"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
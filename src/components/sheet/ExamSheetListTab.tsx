@@ -6,6 +6,8 @@ import { Toolbar } from "@/components/layout/Toolbar";
 import { ProblemModal } from "@/components/layout/ProblemModal";
 import { PrintOptionsModal } from "./PrintOptionsModal";
 import { ExamSheetTable } from "./ExamSheetTable";
+import { ExamSheetDeleteDialog } from "./ExamSheetDeleteDialog";
+import { FilterPresetMenu } from "@/components/layout/FilterPresetMenu";
 import {
   filteredSheetListAtom,
   sheetSearchKeywordAtom,
@@ -16,7 +18,11 @@ import {
   setSheetSearchKeywordAtom,
   setSheetPageAtom,
   setSheetSortAtom,
+  sheetFilterPresetSearchAtom,
 } from "@/atoms/sheetFilters";
+import { sheetFilterPresetAtoms } from "@/atoms/filterPresets";
+import { useApplySheetFilterPreset } from "@/hooks/exam-sheet";
+import { SHEET_FILTER_PRESET_SEARCH_KEYS } from "@/utils/filterPresets";
 import type { ExamSheet } from "@/types/exam-sheet";
 import logger from "@/utils/logger";
 
@@ -30,6 +36,7 @@ import logger from "@/utils/logger";
  * - 문제지 목록 조회 및 표시 (테이블 형태의 구조화된 뷰)
  * - 대량 선택을 통한 일괄 관리 (체크박스 기반 다중 선택)
  * - 실시간 검색 및 필터링 (단원명, 문제지명 기준)
+ * - 필터·정렬·페이지 크기 조합을 프리셋으로 저장/적용/공유
  * - 동적 정렬 기능 (단원명, 문제지명, 생성일시 기준)
  * - 페이지네이션을 통한 성능 최적화
  * - 문제지별 상세 액션 (인쇄, 문제 보기, 답안 확인, 삭제)
@@ -90,6 +97,10 @@ export function ExamSheetListTab() {
   const setSheetPage = useSetAtom(setSheetPageAtom);
   const setSheetSort = useSetAtom(setSheetSortAtom);
 
+  // 필터 프리셋
+  const presetSearch = useAtomValue(sheetFilterPresetSearchAtom);
+  const applyFilterPreset = useApplySheetFilterPreset();
+
   logger.info("ExamSheetListTab rendered", {
     totalElements,
     currentPage,
@@ -102,6 +113,9 @@ export function ExamSheetListTab() {
   const [selectedIds, setSelectedIds] = useState(new Set<string>());
   const [selectedSheet, setSelectedSheet] = useState<ExamSheet | null>(null);
   const [isPrintModalOpen, setIsPrintModalOpen] = useState(false);
+  const [sheetsToDelete, setSheetsToDelete] = useState<
+    Array<Pick<ExamSheet, "id" | "examName">>
+  >([]);
   const [searchScope, setSearchScope] = useState<
     "both" | "unitName" | "examName"
   >("both");
@@ -156,33 +170,28 @@ export function ExamSheetListTab() {
     alert(`${sheet.examName}의 답안을 확인합니다.`);
   }, []);
 
-  const handleDelete = useCallback((sheet: ExamSheet) => {
-    console.log("시험지 삭제:", sheet);
-    if (confirm(`${sheet.examName}을(를) 삭제하시겠습니까?`)) {
-      alert(`${sheet.examName}이(가) 삭제되었습니다.`);
-    }
-  }, []);
-
   const handleDeleteSelected = useCallback(() => {
     if (selectedIds.size === 0) return;
 
-    const selectedSheets = sheets.filter((sheet: ExamSheet) =>
-      selectedIds.has(sheet.id),
+    // 삭제 다이얼로그에서 사용 현황 확인 후 삭제
+    setSheetsToDelete(
+      sheets
+        .filter((sheet: ExamSheet) => selectedIds.has(sheet.id))
+        .map((sheet: ExamSheet) => ({
+          id: sheet.id,
+          examName: sheet.examName,
+        })),
     );
-    const sheetNames = selectedSheets
-      .map((sheet: ExamSheet) => sheet.examName)
-      .join(", ");
-
-    if (
-      confirm(
-        `선택된 ${selectedIds.size}개의 시험지(${sheetNames})를 삭제하시겠습니까?`,
-      )
-    ) {
-      alert(`${selectedIds.size}개의 시험지가 삭제되었습니다.`);
-      setSelectedIds(new Set());
-    }
   }, [sheets, selectedIds]);
 
+  const handleSheetsDeleted = useCallback((deletedIds: string[]) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      deletedIds.forEach((id) => next.delete(id));
+      return next;
+    });
+  }, []);
+
   // TanStack Router navigate를 사용한 정렬 처리 함수
   const handleSort = useCallback(
     (field: "examName" | "createdAt") => {
@@ -323,7 +332,15 @@ export function ExamSheetListTab() {
 
   return (
     <div className="flex flex-col h-full space-y-4">
-      <div className="text-[2.5rem] font-bold flex-shrink-0">문제지 목록</div>
+      <div className="flex items-center gap-4 flex-shrink-0">
+        <div className="text-[2.5rem] font-bold">문제지 목록</div>
+        <FilterPresetMenu
+          atoms={sheetFilterPresetAtoms}
+          currentSearch={presetSearch}
+          searchKeys={SHEET_FILTER_PRESET_SEARCH_KEYS}
+          onApply={applyFilterPreset}
+        />
+      </div>
 
       {/* 1. 툴바 영역: 필터와 검색 */}
       <Toolbar
@@ -370,6 +387,13 @@ export function ExamSheetListTab() {
         className="flex-shrink-0"
       />
 
+      {/* 문제지 삭제 확인 다이얼로그 */}
+      <ExamSheetDeleteDialog
+        sheets={sheetsToDelete}
+        onClose={() => setSheetsToDelete([])}
+        onDeleted={handleSheetsDeleted}
+      />
+
       {/* 인쇄 옵션 모달 */}
       <PrintOptionsModal
         isOpen={isPrintModalOpen}
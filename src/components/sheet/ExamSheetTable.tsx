@@ -1,5 +1,6 @@
 // src/routes/exam-sheet/_components/ExamSheetTable.tsx
 
+import { Link } from "@tanstack/react-router";
 import type { ExamSheet } from "@/types/exam-sheet";
 // 1. shadcn/ui 컴포넌트들을 모두 import
 import {
@@ -582,7 +583,13 @@ export function ExamSheetTable({
                 </div>
               </TableCell>
               <TableCell className={tableStyles.cell}>
-                {sheet.examName}
+                <Link
+                  to="/main/exam/sheet/manage/$sheetId"
+                  params={{ sheetId: sheet.id }}
+                  className="hover:underline hover:text-sky-600"
+                >
+                  {sheet.examName}
+                </Link>
               </TableCell>
               <TableCell className={tableStyles.cellCenter}>
                 <Badge variant="outline" className={badgeStyles.outline}>
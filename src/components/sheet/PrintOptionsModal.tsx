@@ -3,7 +3,16 @@ import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent } from "@/components/ui/dialog";
 import { Checkbox } from "@/components/ui/checkbox";
 import { cn } from "@/lib/utils";
-import { Printer } from "lucide-react";
+import { Eye, Printer } from "lucide-react";
+import type {
+  ExamPrintColumns,
+  ExamPrintKind,
+  ExamPrintLayoutOptions,
+} from "@/types/exam-print";
+import {
+  getExamVersionLabels,
+  MAX_EXAM_VERSION_COUNT,
+} from "@/utils/examVersions";
 
 /**
  * 인쇄 옵션 선택 모달 컴포넌트
@@ -12,6 +21,9 @@ import { Printer } from "lucide-react";
  * 주요 기능:
  * - 시각적으로 명확한 프린터 아이콘과 제목 표시
  * - 3가지 인쇄 항목 중 다중 선택 가능 (문제지, 문제 답안지, 학생 답안지)
+ * - 문제 배치(1단/2단) 선택, 미리보기 버튼 (onPreview 지정 시)
+ * - 버전 수(A~E형) 선택, 2개 이상이면 버전별 정답표 항목 표시
+ * - 문제 답안지·버전별 정답표 선택 시 정답 출처(학생 제출 답안) 안내
  * - 체크박스 상태 관리를 통한 직관적인 선택 인터페이스
  * - 취소/확인 버튼으로 명확한 액션 구분
  * - 선택된 항목이 없을 때 확인 버튼 비활성화
@@ -37,20 +49,14 @@ import { Printer } from "lucide-react";
  * function ExamPrintComponent() {
  *   const [isPrintModalOpen, setIsPrintModalOpen] = useState(false);
  *
- *   const handlePrint = (selectedItems: PrintItem[]) => {
- *     selectedItems.forEach(item => {
- *       switch (item) {
- *         case 'problem':
- *           printProblemSheet();
- *           break;
- *         case 'answer':
- *           printAnswerSheet();
- *           break;
- *         case 'studentAnswer':
- *           printStudentAnswerSheet();
- *           break;
- *       }
- *     });
+ *   const { printDocuments } = useExamPrint(examId);
+ *
+ *   const handlePrint = (
+ *     selectedItems: PrintItem[],
+ *     layout: ExamPrintLayoutOptions,
+ *   ) => {
+ *     // 선택한 문서를 각각 별도의 A4 문서로 순서대로 인쇄
+ *     printDocuments(selectedItems, layout);
  *   };
  *
  *   return (
@@ -95,8 +101,9 @@ import { Printer } from "lucide-react";
  * - `problem`: 문제지 - 학생들이 풀 수 있는 문제만 포함된 시트
  * - `answer`: 문제 답안지 - 문제와 정답이 함께 표시된 교사용 시트
  * - `studentAnswer`: 학생 답안지 - 학생이 답을 작성할 수 있는 빈 답안 시트
+ * - `versionKey`: 버전별 정답표 - 버전마다 섞인 번호·정답과 원래 순서를 정리한 교사용 표 (버전 2개 이상일 때만)
  */
-export type PrintItem = "problem" | "answer" | "studentAnswer";
+export type PrintItem = ExamPrintKind;
 
 type PrintOptionsModalProps = {
   /**
@@ -128,7 +135,20 @@ type PrintOptionsModalProps = {
    * };
    * ```
    */
-  onConfirm: (selectedItems: PrintItem[]) => void;
+  onConfirm: (
+    selectedItems: PrintItem[],
+    layout: ExamPrintLayoutOptions,
+  ) => void;
+
+  /**
+   * 미리보기 버튼 클릭 핸들러
+   * @description 지정하면 미리보기 버튼을 표시하고, 선택한 항목과 레이아웃으로 호출
+   * @default undefined
+   */
+  onPreview?: (
+    selectedItems: PrintItem[],
+    layout: ExamPrintLayoutOptions,
+  ) => void;
 
   /**
    * 추가 CSS 클래스
@@ -150,9 +170,13 @@ export function PrintOptionsModal({
   isOpen,
   onClose,
   onConfirm,
+  onPreview,
   className,
 }: PrintOptionsModalProps) {
   const [selectedItems, setSelectedItems] = useState<PrintItem[]>(["problem"]);
+  const [columns, setColumns] = useState<ExamPrintColumns>(1);
+  const [versionCount, setVersionCount] = useState(1);
+  const isVersioned = versionCount > 1;
 
   const printOptions = [
     {
@@ -170,8 +194,27 @@ export function PrintOptionsModal({
       label: "학생 답안지",
       description: "Student Answer Sheet",
     },
+    ...(isVersioned
+      ? [
+          {
+            id: "versionKey" as PrintItem,
+            label: "버전별 정답표",
+            description: "Answer Key by Version",
+          },
+        ]
+      : []),
   ];
 
+  // 버전이 1개면 버전별 정답표는 선택에서 제외
+  const effectiveItems = isVersioned
+    ? selectedItems
+    : selectedItems.filter((item) => item !== "versionKey");
+
+  // 정답은 문제 조회 응답에 없어 제출 답안에서 모음 (docs/pending-endpoints.md)
+  const isAnswerKeySelected = effectiveItems.some(
+    (item) => item === "answer" || item === "versionKey",
+  );
+
   const handleItemToggle = (itemId: PrintItem, checked: boolean) => {
     setSelectedItems((prev) => {
       if (checked) {
@@ -183,12 +226,18 @@ export function PrintOptionsModal({
   };
 
   const handleConfirm = () => {
-    onConfirm(selectedItems);
+    onConfirm(effectiveItems, { columns, versionCount });
     onClose();
   };
 
+  const handlePreview = () => {
+    onPreview?.(effectiveItems, { columns, versionCount });
+  };
+
   const handleCancel = () => {
     setSelectedItems(["problem"]); // 기본값으로 리셋
+    setColumns(1);
+    setVersionCount(1);
     onClose();
   };
 
@@ -243,6 +292,62 @@ export function PrintOptionsModal({
           ))}
         </div>
 
+        {isAnswerKeySelected && (
+          <p className="mx-6 mt-3 rounded-md bg-amber-50 px-3 py-2 text-xs text-amber-700">
+            문제 답안지·버전별 정답표의 정답은 학생 제출 답안에서 가져옵니다.
+            시험 시작 전(제출 0건)에는 정답을 확인할 수 없어 인쇄되지 않습니다.
+          </p>
+        )}
+
+        {/* 문제 배치 (문제지/문제 답안지에 적용) */}
+        <div className="px-6 pt-4">
+          <p className="text-sm font-medium text-gray-900 mb-2">문제 배치</p>
+          <div className="grid grid-cols-2 gap-2">
+            {([1, 2] as const).map((value) => (
+              <Button
+                key={value}
+                type="button"
+                variant={columns === value ? "default" : "outline"}
+                size="sm"
+                onClick={() => setColumns(value)}
+                aria-pressed={columns === value}
+              >
+                {value}단
+              </Button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            학생 답안지는 OMR 형태로 고정 배치됩니다.
+          </p>
+        </div>
+
+        {/* 버전 수 (문항·선택지 순서를 섞은 A/B/C형) */}
+        <div className="px-6 pt-4">
+          <p className="text-sm font-medium text-gray-900 mb-2">버전 수</p>
+          <div className="grid grid-cols-5 gap-2">
+            {Array.from(
+              { length: MAX_EXAM_VERSION_COUNT },
+              (_, index) => index + 1,
+            ).map((count) => (
+              <Button
+                key={count}
+                type="button"
+                variant={versionCount === count ? "default" : "outline"}
+                size="sm"
+                onClick={() => setVersionCount(count)}
+                aria-pressed={versionCount === count}
+              >
+                {count}개
+              </Button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            {isVersioned
+              ? `${getExamVersionLabels(versionCount).join("·")}형으로 인쇄합니다. A형은 원래 순서, 나머지는 문항과 선택지 순서를 섞습니다.`
+              : "버전 구분 없이 원래 순서로 인쇄합니다."}
+          </p>
+        </div>
+
         {/* 버튼 영역 */}
         <div className="flex gap-3 p-6 pt-4">
           <Button
@@ -252,9 +357,20 @@ export function PrintOptionsModal({
           >
             취소
           </Button>
+          {onPreview && (
+            <Button
+              variant="outline"
+              onClick={handlePreview}
+              disabled={effectiveItems.length === 0}
+              className="flex-1"
+            >
+              <Eye className="w-4 h-4" />
+              미리보기
+            </Button>
+          )}
           <Button
             onClick={handleConfirm}
-            disabled={selectedItems.length === 0}
+            disabled={effectiveItems.length === 0}
             className="flex-1 bg-blue-500 hover:bg-blue-600 text-white"
           >
             확인
@@ -5,6 +5,7 @@ import { Badge } from "@/components/ui/badge";
 import { Eye, X } from "lucide-react";
 import { cn } from "@/lib/utils";
 import type { Problem } from "@/types/exam-sheet";
+import { RichQuestionText } from "@/components/common/RichQuestionText";
 
 /**
  * 문제 상세보기 모달 컴포넌트
@@ -300,16 +301,19 @@ export function ProblemDetailModal({
                 {problem.points}점
               </Badge>
             </div>
-            <h3 className="text-lg font-semibold">{problem.title}</h3>
+            <h3 className="text-lg font-semibold">
+              <RichQuestionText content={problem.title} isInline />
+            </h3>
           </div>
 
           {/* 문제 내용 */}
           <div className="space-y-2">
             <h4 className="font-medium text-gray-700">문제 내용</h4>
             <div className="p-4 bg-gray-50 rounded-lg">
-              <p className="text-sm leading-relaxed whitespace-pre-line">
-                {problem.content}
-              </p>
+              <RichQuestionText
+                content={problem.content}
+                className="text-sm leading-relaxed whitespace-pre-line"
+              />
             </div>
           </div>
 
@@ -325,7 +325,22 @@ export function ProblemListTab({
             : 0,
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
-        questions: problems,
+        questions: problems.map((p, index) => ({
+          questionId: p.id,
+          seqNo: index + 1,
+          points: p.points,
+          questionType:
+            p.type === "objective" ? "MULTIPLE_CHOICE" : "SUBJECTIVE",
+          difficulty:
+            p.difficulty === "high"
+              ? "HARD"
+              : p.difficulty === "medium"
+                ? "MEDIUM"
+                : "EASY",
+          questionText: p.content,
+          unitInfo: null,
+          selectionMethod: "MANUAL",
+        })),
         unitSummary: {
           totalUnits: new Set(problems.map((p) => p.unitName)).size,
           unitDetails: Array.from(new Set(problems.map((p) => p.unitName))).map(
@@ -9,3 +9,7 @@ export * from "./ProblemListTab";
 export * from "./UnitSelectionModal";
 export * from "./ProblemDetailModal";
 export * from "./UnitTreeItem";
+export * from "./ExamSheetDetail";
+export * from "./ExamSheetEditDialog";
+export * from "./ExamSheetDuplicateDialog";
+export * from "./ExamSheetDeleteDialog";
@@ -0,0 +1,199 @@
+import { useEffect, useState } from "react";
+import { FileUp } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { useStudentRosterMutations } from "@/hooks/student";
+import { parseStudentCsv } from "@/utils/studentRoster";
+import type { StudentCsvParseResult } from "@/types/student-roster";
+
+/**
+ * CSV 일괄 등록 다이얼로그 Props
+ */
+type StudentCsvImportDialogProps = {
+  /** 다이얼로그 열림 여부 */
+  isOpen: boolean;
+  /** 학년 열이 비어 있을 때 사용할 학년 */
+  defaultGrade?: 1 | 2 | 3 | null;
+  /** 다이얼로그 닫기 핸들러 */
+  onClose: () => void;
+};
+
+/**
+ * 학생 CSV 일괄 등록 다이얼로그
+ * @description CSV 파일을 읽어 미리보기와 오류를 보여준 뒤 학생을 한 번에 등록
+ *
+ * 주요 기능:
+ * - 헤더(이름, 전화번호, 생년월일, 학년) 자동 인식, 없으면 해당 순서로 해석
+ * - 등록 전 행별 오류 표시 (오류 행은 건너뜀)
+ * - 등록 진행률 표시
+ */
+export function StudentCsvImportDialog({
+  isOpen,
+  defaultGrade = null,
+  onClose,
+}: StudentCsvImportDialogProps) {
+  const { importMutation } = useStudentRosterMutations();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [parsed, setParsed] = useState<StudentCsvParseResult | null>(null);
+  const [doneCount, setDoneCount] = useState(0);
+
+  // 다이얼로그가 열릴 때 초기화
+  useEffect(() => {
+    if (isOpen) {
+      setFileName(null);
+      setParsed(null);
+      setDoneCount(0);
+    }
+  }, [isOpen]);
+
+  /**
+   * 파일 선택 핸들러
+   */
+  const handleFileChange = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    setParsed(parseStudentCsv(await file.text(), defaultGrade));
+  };
+
+  /**
+   * 일괄 등록 핸들러
+   */
+  const handleImport = () => {
+    if (!parsed || parsed.rows.length === 0) return;
+
+    setDoneCount(0);
+    importMutation.mutate(
+      { rows: parsed.rows, onProgress: setDoneCount },
+      { onSuccess: onClose },
+    );
+  };
+
+  const isImporting = importMutation.isPending;
+
+  return (
+    <Dialog
+      open={isOpen}
+      onOpenChange={(open) => !open && !isImporting && onClose()}
+    >
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>CSV로 학생 일괄 등록</DialogTitle>
+          <DialogDescription>
+            이름, 전화번호, 생년월일, 학년 순서의 CSV 파일을 선택하세요. 첫 줄이
+            헤더여도 됩니다.
+          </DialogDescription>
+        </DialogHeader>
+
+        <label className="flex cursor-pointer items-center gap-3 rounded-lg border border-dashed p-4 hover:bg-muted/50">
+          <FileUp className="w-5 h-5 text-gray-500" />
+          <span className="text-sm text-gray-700">
+            {fileName ?? "CSV 파일 선택 (UTF-8)"}
+          </span>
+          <Input
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            disabled={isImporting}
+            onChange={handleFileChange}
+          />
+        </label>
+
+        {parsed && (
+          <div className="space-y-3">
+            <p className="text-sm">
+              등록 가능{" "}
+              <strong className="text-blue-600">{parsed.rows.length}</strong>명
+              {parsed.errors.length > 0 && (
+                <>
+                  , 오류{" "}
+                  <strong className="text-red-600">
+                    {parsed.errors.length}
+                  </strong>
+                  행 (건너뜀)
+                </>
+              )}
+            </p>
+
+            {parsed.rows.length > 0 && (
+              <div className="max-h-48 overflow-y-auto rounded border text-sm">
+                <table className="w-full">
+                  <thead className="sticky top-0 bg-muted text-left">
+                    <tr>
+                      <th className="px-3 py-1">행</th>
+                      <th className="px-3 py-1">이름</th>
+                      <th className="px-3 py-1">전화번호</th>
+                      <th className="px-3 py-1">생년월일</th>
+                      <th className="px-3 py-1">학년</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {parsed.rows.map((row) => (
+                      <tr key={row.line} className="border-t">
+                        <td className="px-3 py-1 text-gray-500">{row.line}</td>
+                        <td className="px-3 py-1">{row.name}</td>
+                        <td className="px-3 py-1">{row.phone}</td>
+                        <td className="px-3 py-1">{row.birthDate}</td>
+                        <td className="px-3 py-1">
+                          {row.grade ? `${row.grade}학년` : "-"}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {parsed.errors.length > 0 && (
+              <ul className="max-h-32 overflow-y-auto rounded border border-red-200 bg-red-50 p-3 text-xs text-red-700">
+                {parsed.errors.map((error) => (
+                  <li key={error.line}>
+                    {error.line}행: {error.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {isImporting && parsed && (
+          <div className="space-y-1">
+            <Progress value={(doneCount / parsed.rows.length) * 100} />
+            <p className="text-right text-xs text-gray-500">
+              {doneCount} / {parsed.rows.length}
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            disabled={isImporting}
+            onClick={onClose}
+          >
+            취소
+          </Button>
+          <Button
+            disabled={!parsed || parsed.rows.length === 0 || isImporting}
+            onClick={handleImport}
+          >
+            {isImporting ? "등록 중..." : `${parsed?.rows.length ?? 0}명 등록`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,209 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useStudentRosterMutations } from "@/hooks/student";
+import {
+  MAX_STUDENT_NAME_LENGTH,
+  normalizeBirthDate,
+  normalizePhoneNumber,
+  validateStudentForm,
+} from "@/utils/studentRoster";
+import type { RosterStudent } from "@/api/student";
+import type { StudentFormValues } from "@/types/student-roster";
+
+/** 학년 미지정 Select 값 */
+const NO_GRADE = "none";
+
+/**
+ * 학생 등록/수정 다이얼로그 Props
+ */
+type StudentFormDialogProps = {
+  /** 다이얼로그 열림 여부 */
+  isOpen: boolean;
+  /** 수정할 학생 (null이면 신규 등록) */
+  student: RosterStudent | null;
+  /** 신규 등록 시 기본 학년 */
+  defaultGrade?: 1 | 2 | 3 | null;
+  /** 다이얼로그 닫기 핸들러 */
+  onClose: () => void;
+};
+
+/**
+ * 학생 등록/수정 다이얼로그
+ * @description 학생 이름, 연락처, 생년월일, 학년을 입력받아 저장
+ *
+ * 주요 기능:
+ * - 신규 등록: /auth/upsert-student로 등록 (같은 3가지 정보의 학생이 있으면 기존 학생에 연결)
+ * - 수정: 연락처/생년월일/학년 변경
+ * - 전화번호, 생년월일 자동 정규화 및 인라인 검증
+ */
+export function StudentFormDialog({
+  isOpen,
+  student,
+  defaultGrade = null,
+  onClose,
+}: StudentFormDialogProps) {
+  const { saveMutation } = useStudentRosterMutations();
+  const [values, setValues] = useState<StudentFormValues>({
+    name: "",
+    phone: "",
+    birthDate: "",
+    grade: defaultGrade,
+  });
+  const [isSubmitted, setIsSubmitted] = useState(false);
+
+  // 다이얼로그가 열릴 때 대상 학생 기준으로 초기화
+  useEffect(() => {
+    if (!isOpen) return;
+    setValues(
+      student
+        ? {
+            name: student.name,
+            phone: student.phone,
+            birthDate: student.birthDate,
+            grade: student.grade,
+          }
+        : { name: "", phone: "", birthDate: "", grade: defaultGrade },
+    );
+    setIsSubmitted(false);
+  }, [isOpen, student, defaultGrade]);
+
+  const normalizedValues: StudentFormValues = {
+    ...values,
+    name: values.name.trim(),
+    phone: normalizePhoneNumber(values.phone),
+    birthDate: normalizeBirthDate(values.birthDate),
+  };
+  const validationError = validateStudentForm(normalizedValues);
+
+  /**
+   * 저장 핸들러
+   */
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSubmitted(true);
+    if (validationError) return;
+
+    saveMutation.mutate(
+      { studentId: student?.id, values: normalizedValues },
+      { onSuccess: onClose },
+    );
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>
+              {student ? "학생 정보 수정" : "학생 등록"}
+            </DialogTitle>
+            <DialogDescription>
+              {student
+                ? "연락처와 학년 정보를 수정합니다."
+                : "이름, 전화번호, 생년월일이 모두 같은 학생이 있으면 기존 학생으로 연결됩니다."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="student-name">이름</Label>
+            <Input
+              id="student-name"
+              value={values.name}
+              maxLength={MAX_STUDENT_NAME_LENGTH}
+              onChange={(e) => setValues({ ...values, name: e.target.value })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="student-phone">전화번호</Label>
+            <Input
+              id="student-phone"
+              inputMode="tel"
+              placeholder="010-1234-5678"
+              value={values.phone}
+              onChange={(e) => setValues({ ...values, phone: e.target.value })}
+              onBlur={() =>
+                setValues({
+                  ...values,
+                  phone: normalizePhoneNumber(values.phone),
+                })
+              }
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="student-birth-date">생년월일</Label>
+            <Input
+              id="student-birth-date"
+              placeholder="2010-03-15"
+              value={values.birthDate}
+              onChange={(e) =>
+                setValues({ ...values, birthDate: e.target.value })
+              }
+              onBlur={() =>
+                setValues({
+                  ...values,
+                  birthDate: normalizeBirthDate(values.birthDate),
+                })
+              }
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>학년</Label>
+            <Select
+              value={values.grade ? String(values.grade) : NO_GRADE}
+              onValueChange={(value) =>
+                setValues({
+                  ...values,
+                  grade:
+                    value === NO_GRADE ? null : (Number(value) as 1 | 2 | 3),
+                })
+              }
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_GRADE}>미지정</SelectItem>
+                <SelectItem value="1">1학년</SelectItem>
+                <SelectItem value="2">2학년</SelectItem>
+                <SelectItem value="3">3학년</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {isSubmitted && validationError && (
+            <p className="text-sm text-red-600">{validationError}</p>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              취소
+            </Button>
+            <Button type="submit" disabled={saveMutation.isPending}>
+              {saveMutation.isPending ? "저장 중..." : "저장"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,333 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useNavigate } from "@tanstack/react-router";
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ReferenceLine,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { tableStyles } from "@/utils/commonStyles";
+import { studentExamHistoryQueryOptions } from "@/api/student";
+import { examAverageScoresQueryOptions } from "@/api/statistics";
+import { scoreDistributionQueryOptions } from "@/api/dashboard";
+import { buildStudentProfile, pickWeakestUnits } from "@/utils/studentProfile";
+import { StudentUnitMasteryList } from "./StudentUnitMasteryList";
+
+/** 점수 추이 차트 설정 */
+const SCORE_CHART_CONFIG = {
+  score: { label: "학생 점수", color: "hsl(217 91% 60%)" },
+  examAverage: { label: "시험 평균", color: "hsl(215 16% 57%)" },
+} as const;
+
+/**
+ * 학생 프로필 컴포넌트 Props
+ */
+type StudentProfileProps = {
+  /** 학생 ID */
+  studentId: number;
+  /** 학년 */
+  grade: 1 | 2 | 3;
+};
+
+/**
+ * 학생 프로필 컴포넌트
+ * @description 한 학생이 응시한 모든 시험의 누적 성적을 보여주는 학생 중심 화면 (학부모 상담용)
+ *
+ * 주요 기능:
+ * - 시험별 점수 추이 차트 (시험 평균, 학년 평균과 비교)
+ * - 응시한 시험 목록 (클릭 시 시험 상세로 이동)
+ * - 단원별 성취도 및 취약 단원 TOP 3
+ *
+ * 데이터 출처:
+ * - 시험별 학생 답안: GET /teacher/dashboard/student-answer-detail
+ * - 시험 평균: GET /teacher/dashboard/exam-average-scores
+ * - 학년 평균: GET /teacher/dashboard/score-distribution
+ */
+export function StudentProfile({ studentId, grade }: StudentProfileProps) {
+  const navigate = useNavigate();
+
+  const {
+    data: answerSheets,
+    isLoading,
+    isError,
+    refetch,
+  } = useQuery(studentExamHistoryQueryOptions({ studentId, grade }));
+  const { data: examAverages } = useQuery(
+    examAverageScoresQueryOptions({ grade, limit: 50 }),
+  );
+  const { data: scoreDistribution } = useQuery(
+    scoreDistributionQueryOptions({ grade }),
+  );
+
+  const profile = useMemo(
+    () =>
+      buildStudentProfile(
+        answerSheets ?? [],
+        examAverages?.examAverageScores ?? [],
+      ),
+    [answerSheets, examAverages],
+  );
+  const weakestUnits = useMemo(
+    () => pickWeakestUnits(profile?.unitMasteries ?? []),
+    [profile],
+  );
+
+  const gradeAverage = scoreDistribution?.averageScore ?? null;
+
+  // 로딩 상태
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">학생 성적 기록을 불러오는 중...</p>
+        </div>
+      </div>
+    );
+  }
+
+  // 에러 상태
+  if (isError) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <p className="text-red-600 mb-4">
+            학생 성적 기록을 불러오는데 실패했습니다.
+          </p>
+          <Button variant="outline" onClick={() => refetch()}>
+            다시 시도
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  // 응시 기록이 없는 경우
+  if (!profile) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <p className="text-gray-500">
+          {grade}학년 시험 중 이 학생이 응시한 시험이 없습니다.
+        </p>
+      </div>
+    );
+  }
+
+  const averageDiff =
+    profile.averageScore !== null && gradeAverage !== null
+      ? profile.averageScore - gradeAverage
+      : null;
+
+  return (
+    <div className="space-y-6">
+      {/* 학생 기본 정보 및 요약 */}
+      <Card className="p-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <h1 className="text-2xl font-bold text-gray-900">
+              {profile.studentName}
+            </h1>
+            <Badge variant="outline">{grade}학년</Badge>
+            <span className="text-sm text-gray-500">{profile.phoneNumber}</span>
+          </div>
+          <div className="flex gap-6 text-sm">
+            <div className="text-center">
+              <div className="text-gray-500">응시 시험</div>
+              <div className="text-xl font-bold">
+                {profile.records.length}회
+              </div>
+            </div>
+            <div className="text-center">
+              <div className="text-gray-500">학생 평균</div>
+              <div className="text-xl font-bold text-blue-600">
+                {profile.averageScore?.toFixed(1) ?? "-"}점
+              </div>
+            </div>
+            <div className="text-center">
+              <div className="text-gray-500">학년 평균</div>
+              <div className="text-xl font-bold text-gray-700">
+                {gradeAverage?.toFixed(1) ?? "-"}점
+              </div>
+            </div>
+            {averageDiff !== null && (
+              <div className="text-center">
+                <div className="text-gray-500">학년 대비</div>
+                <div
+                  className={cn(
+                    "text-xl font-bold",
+                    averageDiff >= 0 ? "text-green-600" : "text-red-600",
+                  )}
+                >
+                  {averageDiff >= 0 ? "+" : ""}
+                  {averageDiff.toFixed(1)}점
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </Card>
+
+      {/* 점수 추이 */}
+      <Card className="p-6">
+        <h2 className="text-lg font-semibold text-gray-900">점수 추이</h2>
+        <ChartContainer config={SCORE_CHART_CONFIG} className="h-72 w-full">
+          <LineChart
+            data={profile.records}
+            margin={{ left: 8, right: 16, top: 16, bottom: 8 }}
+          >
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="examName" padding={{ left: 24, right: 24 }} />
+            <YAxis />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            {gradeAverage !== null && (
+              <ReferenceLine
+                y={gradeAverage}
+                stroke="hsl(25 95% 53%)"
+                strokeDasharray="4 4"
+                label={{
+                  value: `학년 평균 ${gradeAverage.toFixed(1)}`,
+                  position: "insideTopRight",
+                  fontSize: 12,
+                }}
+              />
+            )}
+            <Line
+              type="monotone"
+              dataKey="score"
+              stroke="var(--color-score)"
+              strokeWidth={2}
+              dot={{ r: 4, fill: "var(--color-score)" }}
+              activeDot={{ r: 5 }}
+            />
+            <Line
+              type="monotone"
+              dataKey="examAverage"
+              stroke="var(--color-examAverage)"
+              strokeWidth={2}
+              strokeDasharray="5 5"
+              dot={{ r: 3, fill: "var(--color-examAverage)" }}
+              connectNulls
+            />
+          </LineChart>
+        </ChartContainer>
+      </Card>
+
+      <div className="grid grid-cols-1 gap-6 xl:grid-cols-2">
+        {/* 응시 시험 목록 */}
+        <Card className="p-6">
+          <h2 className="text-lg font-semibold text-gray-900">응시한 시험</h2>
+          <div className={tableStyles.container}>
+            <Table>
+              <TableHeader>
+                <TableRow className={tableStyles.header}>
+                  <TableHead className={tableStyles.headerCell}>
+                    시험명
+                  </TableHead>
+                  <TableHead className={tableStyles.headerCell}>
+                    제출일
+                  </TableHead>
+                  <TableHead className={tableStyles.headerCellCenter}>
+                    점수
+                  </TableHead>
+                  <TableHead className={tableStyles.headerCellCenter}>
+                    시험 평균
+                  </TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {[...profile.records].reverse().map((record, index) => (
+                  <TableRow
+                    key={record.examId}
+                    className={cn(
+                      tableStyles.row,
+                      "cursor-pointer",
+                      index % 2 === 0
+                        ? tableStyles.rowEven
+                        : tableStyles.rowOdd,
+                    )}
+                    onClick={() =>
+                      navigate({
+                        to: "/main/exam/manage/$examId",
+                        params: { examId: record.examId },
+                      })
+                    }
+                  >
+                    <TableCell className={tableStyles.cellMedium}>
+                      {record.examName}
+                    </TableCell>
+                    <TableCell className={tableStyles.cell}>
+                      {new Date(record.submittedAt).toLocaleDateString("ko-KR")}
+                    </TableCell>
+                    <TableCell className={tableStyles.cellCenter}>
+                      {record.score} / {record.maxScore}점
+                      <span className="ml-1 text-xs text-gray-500">
+                        ({record.correctCount}/{record.totalQuestions})
+                      </span>
+                    </TableCell>
+                    <TableCell
+                      className={cn(
+                        tableStyles.cellCenter,
+                        record.examAverage !== null &&
+                          (record.score >= record.examAverage
+                            ? "text-green-600"
+                            : "text-red-600"),
+                      )}
+                    >
+                      {record.examAverage?.toFixed(1) ?? "-"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </Card>
+
+        {/* 단원별 성취도 */}
+        <Card className="p-6">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-gray-900">
+              단원별 성취도
+            </h2>
+            {weakestUnits.length > 0 && (
+              <div className="flex flex-wrap items-center gap-1 text-sm">
+                <span className="text-gray-500">취약 단원</span>
+                {weakestUnits.map((unit) => (
+                  <Badge key={unit.unitId} variant="destructive">
+                    {unit.unitName}
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+          <StudentUnitMasteryList
+            unitMasteries={profile.unitMasteries}
+            weakUnitIds={weakestUnits.map((unit) => unit.unitId)}
+          />
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,244 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "@tanstack/react-router";
+import { FileUp, Pencil, Search, UserPlus } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { PagePagination } from "@/components/layout/PagePagination";
+import { cn } from "@/lib/utils";
+import { tableStyles } from "@/utils/commonStyles";
+import { studentRosterQueryOptions } from "@/api/student";
+import type { RosterStudent } from "@/api/student";
+import { StudentFormDialog } from "./StudentFormDialog";
+import { StudentCsvImportDialog } from "./StudentCsvImportDialog";
+
+/** 전체 학년 Select 값 */
+const ALL_GRADES = "all";
+
+/** 페이지 크기 */
+const PAGE_SIZE = 20;
+
+/**
+ * 학생 명단 관리 컴포넌트
+ * @description 학년별 학생 명단을 조회하고 등록/수정/일괄 등록하는 화면
+ *
+ * 주요 기능:
+ * - 이름 또는 전화번호 검색 (300ms 디바운스)
+ * - 학년 필터 및 페이지네이션
+ * - 학생 개별 등록/수정
+ * - CSV 일괄 등록
+ * - 학생 이름 클릭 시 학생 프로필로 이동
+ */
+export function StudentRoster() {
+  const [grade, setGrade] = useState<1 | 2 | 3 | undefined>(undefined);
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [page, setPage] = useState(0);
+
+  const [editingStudent, setEditingStudent] = useState<RosterStudent | null>(
+    null,
+  );
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+
+  // 검색어 디바운스
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearch(searchInput.trim());
+      setPage(0);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const { data, isLoading, isError, refetch } = useQuery(
+    studentRosterQueryOptions({ grade, search, page, size: PAGE_SIZE }),
+  );
+
+  /**
+   * 학생 등록 다이얼로그 열기 핸들러
+   */
+  const handleCreate = () => {
+    setEditingStudent(null);
+    setIsFormOpen(true);
+  };
+
+  /**
+   * 학생 수정 다이얼로그 열기 핸들러
+   */
+  const handleEdit = (student: RosterStudent) => {
+    setEditingStudent(student);
+    setIsFormOpen(true);
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* 검색 및 작업 도구 */}
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="relative w-72">
+          <Search className="absolute left-3 top-1/2 w-4 h-4 -translate-y-1/2 text-gray-400" />
+          <Input
+            value={searchInput}
+            placeholder="이름 또는 전화번호 검색"
+            className="pl-9"
+            onChange={(e) => setSearchInput(e.target.value)}
+          />
+        </div>
+        <Select
+          value={grade ? String(grade) : ALL_GRADES}
+          onValueChange={(value) => {
+            setGrade(
+              value === ALL_GRADES ? undefined : (Number(value) as 1 | 2 | 3),
+            );
+            setPage(0);
+          }}
+        >
+          <SelectTrigger className="w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_GRADES}>전체 학년</SelectItem>
+            <SelectItem value="1">1학년</SelectItem>
+            <SelectItem value="2">2학년</SelectItem>
+            <SelectItem value="3">3학년</SelectItem>
+          </SelectContent>
+        </Select>
+        <span className="text-sm text-gray-500">
+          총 {data?.totalElements ?? 0}명
+        </span>
+
+        <div className="ml-auto flex gap-2">
+          <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+            <FileUp className="w-4 h-4 mr-2" />
+            CSV 일괄 등록
+          </Button>
+          <Button onClick={handleCreate}>
+            <UserPlus className="w-4 h-4 mr-2" />
+            학생 등록
+          </Button>
+        </div>
+      </div>
+
+      {/* 학생 명단 테이블 */}
+      <div className={tableStyles.container}>
+        {isLoading ? (
+          <div className="flex items-center justify-center min-h-[200px]">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : isError ? (
+          <div className="flex flex-col items-center justify-center min-h-[200px] gap-4">
+            <p className="text-red-600">학생 명단을 불러오는데 실패했습니다.</p>
+            <Button variant="outline" onClick={() => refetch()}>
+              다시 시도
+            </Button>
+          </div>
+        ) : !data || data.content.length === 0 ? (
+          <div className="flex items-center justify-center min-h-[200px]">
+            <p className="text-gray-500">
+              {search ? "검색 결과가 없습니다." : "등록된 학생이 없습니다."}
+            </p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow className={tableStyles.header}>
+                <TableHead className={tableStyles.headerCell}>이름</TableHead>
+                <TableHead className={tableStyles.headerCellCenter}>
+                  학년
+                </TableHead>
+                <TableHead className={tableStyles.headerCell}>
+                  전화번호
+                </TableHead>
+                <TableHead className={tableStyles.headerCell}>
+                  생년월일
+                </TableHead>
+                <TableHead className={tableStyles.headerCell}>등록일</TableHead>
+                <TableHead className={tableStyles.headerCellCenter}>
+                  관리
+                </TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.content.map((student, index) => (
+                <TableRow
+                  key={student.id}
+                  className={cn(
+                    tableStyles.row,
+                    index % 2 === 0 ? tableStyles.rowEven : tableStyles.rowOdd,
+                  )}
+                >
+                  <TableCell className={tableStyles.cellMedium}>
+                    <Link
+                      to="/main/students/$studentId"
+                      params={{ studentId: String(student.id) }}
+                      search={{ grade: student.grade ?? undefined }}
+                      className="text-blue-700 hover:underline"
+                    >
+                      {student.name}
+                    </Link>
+                  </TableCell>
+                  <TableCell className={tableStyles.cellCenter}>
+                    {student.grade ? `${student.grade}학년` : "-"}
+                  </TableCell>
+                  <TableCell className={tableStyles.cell}>
+                    {student.phone}
+                  </TableCell>
+                  <TableCell className={tableStyles.cell}>
+                    {student.birthDate}
+                  </TableCell>
+                  <TableCell className={tableStyles.cell}>
+                    {new Date(student.createdAt).toLocaleDateString("ko-KR")}
+                  </TableCell>
+                  <TableCell className={tableStyles.cellCenter}>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleEdit(student)}
+                    >
+                      <Pencil className="w-4 h-4 mr-1" />
+                      수정
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+
+      {data && data.totalPages > 1 && (
+        <PagePagination
+          currentPage={page + 1}
+          totalPages={data.totalPages}
+          onPageChange={(nextPage) => setPage(nextPage - 1)}
+        />
+      )}
+
+      <StudentFormDialog
+        isOpen={isFormOpen}
+        student={editingStudent}
+        defaultGrade={grade ?? null}
+        onClose={() => setIsFormOpen(false)}
+      />
+      <StudentCsvImportDialog
+        isOpen={isImportOpen}
+        defaultGrade={grade ?? null}
+        onClose={() => setIsImportOpen(false)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import { cn } from "@/lib/utils";
+import type { UnitMastery } from "@/types/student-profile";
+
+/**
+ * 단원별 성취도 목록 Props
+ */
+type StudentUnitMasteryListProps = {
+  /** 단원별 성취도 (성취도 낮은 순) */
+  unitMasteries: UnitMastery[];
+  /** 취약 단원 ID 목록 (강조 표시) */
+  weakUnitIds: string[];
+};
+
+/**
+ * 단원별 성취도 목록 컴포넌트
+ * @description 단원마다 배점 기준 득점률을 막대로 표시 (취약 단원은 빨간색 강조)
+ */
+export function StudentUnitMasteryList({
+  unitMasteries,
+  weakUnitIds,
+}: StudentUnitMasteryListProps) {
+  if (unitMasteries.length === 0) {
+    return (
+      <p className="py-6 text-center text-sm text-gray-500">
+        단원 정보가 있는 문항이 없습니다.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="space-y-2">
+      {unitMasteries.map((unit) => {
+        const percent = Math.round(unit.masteryRate * 100);
+        const isWeak = weakUnitIds.includes(unit.unitId);
+
+        return (
+          <li key={unit.unitId} className="flex items-center gap-3 text-sm">
+            <span
+              className={cn(
+                "w-48 shrink-0 truncate",
+                isWeak ? "font-semibold text-red-600" : "text-gray-700",
+              )}
+              title={unit.unitName}
+            >
+              {unit.unitName}
+            </span>
+            <div className="h-3 flex-1 overflow-hidden rounded bg-gray-100">
+              <div
+                className={cn(
+                  "h-full rounded",
+                  percent >= 80
+                    ? "bg-green-500"
+                    : percent >= 50
+                      ? "bg-blue-400"
+                      : "bg-red-400",
+                )}
+                style={{ width: `${percent}%` }}
+              />
+            </div>
+            <span className="w-40 shrink-0 text-right text-xs text-gray-600">
+              {percent}% · {unit.correctCount}/{unit.questionCount}문항
+            </span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,9 @@
+/**
+ * 학생 관련 컴포넌트들
+ */
+
+export * from "./StudentProfile";
+export * from "./StudentUnitMasteryList";
+export * from "./StudentRoster";
+export * from "./StudentFormDialog";
+export * from "./StudentCsvImportDialog";
@@ -0,0 +1,378 @@
+import { useEffect, useState } from "react";
+import { useAtomValue, useSetAtom } from "jotai";
+import { toast } from "sonner";
+import { AlertTriangle, Dices, Wand2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  unitsTreeWithProblemsAtom,
+  applyBlueprintResultAtom,
+} from "@/atoms/unitsTree";
+import {
+  BLUEPRINT_DIFFICULTY_LABEL,
+  createBlueprintSeed,
+  formatBlueprintGap,
+  generateFromBlueprint,
+} from "@/utils/blueprint";
+import { MAX_EXAM_SHEET_QUESTIONS } from "@/utils/examSheet";
+import type { Problem } from "@/types/exam-sheet";
+import type {
+  BlueprintGenerationResult,
+  ExamBlueprint,
+  PointsDistributionMode,
+} from "@/types/units-tree";
+
+/** 난이도 입력 순서 */
+const DIFFICULTIES: Problem["difficulty"][] = ["low", "medium", "high"];
+
+/**
+ * 자동 출제 다이얼로그 Props
+ */
+type BlueprintGeneratorDialogProps = {
+  /** 다이얼로그 열림 상태 */
+  isOpen: boolean;
+  /** 다이얼로그 닫기 핸들러 */
+  onClose: () => void;
+};
+
+/**
+ * 자동 출제 다이얼로그 컴포넌트
+ * @description 청사진(단원별 문항 수, 난이도 비율, 객관식 비율, 총점)으로 문제를 자동 선택
+ *
+ * 주요 기능:
+ * - 현재 학년 단원 트리에서 단원별 문항 수 입력 (보유 문제 수 표시)
+ * - 난이도(하/중/상) 비율, 객관식 비율, 총점, 배점 분배 방식 설정
+ * - 시드 입력으로 같은 조건이면 같은 결과 재현, 주사위 버튼으로 새 시드
+ * - 문제 은행이 부족한 항목 보고
+ * - 결과를 일반 선택 상태로 반영하여 저장 전에 직접 수정 가능
+ */
+export function BlueprintGeneratorDialog({
+  isOpen,
+  onClose,
+}: BlueprintGeneratorDialogProps) {
+  const { data } = useAtomValue(unitsTreeWithProblemsAtom);
+  const applyBlueprintResult = useSetAtom(applyBlueprintResultAtom);
+
+  const [unitCounts, setUnitCounts] = useState<Record<string, number>>({});
+  const [difficultyRatio, setDifficultyRatio] = useState<
+    ExamBlueprint["difficultyRatio"]
+  >({ low: 30, medium: 50, high: 20 });
+  const [objectiveRatio, setObjectiveRatio] = useState(80);
+  const [totalPoints, setTotalPoints] = useState(100);
+  const [pointsDistribution, setPointsDistribution] =
+    useState<PointsDistributionMode>("difficulty");
+  const [seed, setSeed] = useState("");
+  const [result, setResult] = useState<BlueprintGenerationResult | null>(null);
+
+  // 다이얼로그가 열릴 때 새 시드와 결과 초기화
+  useEffect(() => {
+    if (isOpen) {
+      setSeed(createBlueprintSeed());
+      setResult(null);
+    }
+  }, [isOpen]);
+
+  const totalQuestions = Object.values(unitCounts).reduce(
+    (sum, count) => sum + count,
+    0,
+  );
+  const difficultySum = DIFFICULTIES.reduce(
+    (sum, difficulty) => sum + difficultyRatio[difficulty],
+    0,
+  );
+
+  let validationError: string | null = null;
+  if (totalQuestions === 0) {
+    validationError = "단원별 문항 수를 1개 이상 입력해주세요.";
+  } else if (totalQuestions > MAX_EXAM_SHEET_QUESTIONS) {
+    validationError = `문제지에는 최대 ${MAX_EXAM_SHEET_QUESTIONS}문항까지 담을 수 있습니다.`;
+  } else if (difficultySum !== 100) {
+    validationError = `난이도 비율의 합이 100%가 되어야 합니다. (현재 ${difficultySum}%)`;
+  } else if (objectiveRatio < 0 || objectiveRatio > 100) {
+    validationError = "객관식 비율은 0~100% 사이로 입력해주세요.";
+  } else if (totalPoints < totalQuestions) {
+    validationError = "총점은 문항 수 이상이어야 합니다. (문항당 최소 1점)";
+  } else if (!seed.trim()) {
+    validationError = "시드를 입력해주세요.";
+  }
+
+  /**
+   * 단원별 문항 수 변경 핸들러
+   */
+  const handleUnitCountChange = (unitId: string, value: string) => {
+    const count = Math.max(0, Math.floor(Number(value) || 0));
+    setUnitCounts((prev) => ({ ...prev, [unitId]: count }));
+  };
+
+  /**
+   * 자동 출제 실행 핸들러
+   * @description 청사진으로 문제를 추출해 선택 상태에 반영하고, 부족 항목이 있으면 보고서를 표시
+   */
+  const handleGenerate = () => {
+    if (!data || validationError) return;
+
+    const blueprint: ExamBlueprint = {
+      units: Object.entries(unitCounts)
+        .filter(([, count]) => count > 0)
+        .map(([unitId, questionCount]) => ({ unitId, questionCount })),
+      difficultyRatio,
+      objectiveRatio,
+      totalPoints,
+      pointsDistribution,
+      seed: seed.trim(),
+    };
+
+    const generated = generateFromBlueprint(data, blueprint);
+    applyBlueprintResult({ result: generated, blueprint });
+    toast.success(
+      `${generated.problems.length}문항을 자동 출제했습니다. (시드 ${generated.seed})`,
+    );
+
+    if (generated.gaps.length === 0) {
+      onClose();
+      return;
+    }
+    setResult(generated);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Wand2 className="h-5 w-5" />
+            자동 출제
+          </DialogTitle>
+          <DialogDescription>
+            출제 조건을 입력하면 문제 은행에서 문제를 골라 선택 목록에
+            채워줍니다. 같은 시드는 같은 결과를 만듭니다.
+          </DialogDescription>
+        </DialogHeader>
+
+        {result ? (
+          /* 부족 항목 보고서 */
+          <div className="space-y-3 min-h-0 flex-1 flex flex-col">
+            <div className="rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800">
+              <p className="flex items-center gap-2 font-medium">
+                <AlertTriangle className="h-4 w-4" />
+                문제 은행이 부족해 조건을 모두 채우지 못했습니다.
+              </p>
+              <p className="mt-1">
+                {result.problems.length}문항이 선택되었습니다. 선택된 문제
+                패널에서 직접 추가하거나 수정해주세요.
+              </p>
+            </div>
+            <ScrollArea className="h-[300px] pr-4">
+              <ul className="space-y-2 text-sm">
+                {result.gaps.map((gap) => (
+                  <li
+                    key={`${gap.unitId}-${gap.kind}-${gap.detail ?? "all"}`}
+                    className="border rounded-md p-2"
+                  >
+                    <div className="font-medium">{gap.unitName}</div>
+                    <div className="text-muted-foreground">
+                      {formatBlueprintGap(gap)}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </ScrollArea>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setResult(null)}>
+                조건 다시 설정
+              </Button>
+              <Button onClick={onClose}>확인</Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <div className="space-y-4 min-h-0 flex-1 flex flex-col">
+            {/* 단원별 문항 수 */}
+            <div className="flex items-center justify-between">
+              <Label>단원별 문항 수</Label>
+              <span className="text-sm text-muted-foreground">
+                총 {totalQuestions}문항
+              </span>
+            </div>
+            <ScrollArea className="h-[260px] border rounded-md p-3">
+              {!data ? (
+                <p className="text-sm text-muted-foreground text-center py-8">
+                  단원 정보를 불러오는 중입니다...
+                </p>
+              ) : (
+                <div className="space-y-3">
+                  {data.categories.map((category) => (
+                    <div key={category.id} className="space-y-1">
+                      <div className="text-sm font-semibold">
+                        {category.name}
+                      </div>
+                      {category.children.map((subcategory) =>
+                        subcategory.children.map((unit) => {
+                          const problems = unit.problems ?? [];
+                          return (
+                            <div
+                              key={unit.id}
+                              className="flex items-center gap-2 pl-3"
+                            >
+                              <span className="flex-1 text-sm truncate">
+                                {subcategory.name} &gt; {unit.name}
+                              </span>
+                              <div className="flex gap-1">
+                                {DIFFICULTIES.map((difficulty) => (
+                                  <Badge
+                                    key={difficulty}
+                                    variant="outline"
+                                    className="text-xs"
+                                  >
+                                    {BLUEPRINT_DIFFICULTY_LABEL[difficulty]}{" "}
+                                    {
+                                      problems.filter(
+                                        (p) => p.difficulty === difficulty,
+                                      ).length
+                                    }
+                                  </Badge>
+                                ))}
+                              </div>
+                              <Input
+                                type="number"
+                                min={0}
+                                step={1}
+                                value={unitCounts[unit.id] || ""}
+                                placeholder="0"
+                                onChange={(e) =>
+                                  handleUnitCountChange(unit.id, e.target.value)
+                                }
+                                className="h-8 w-16"
+                                aria-label={`${unit.name} 문항 수`}
+                              />
+                            </div>
+                          );
+                        }),
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+
+            {/* 난이도 / 유형 / 배점 조건 */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {DIFFICULTIES.map((difficulty) => (
+                <div key={difficulty} className="space-y-1">
+                  <Label htmlFor={`blueprint-${difficulty}`}>
+                    난이도 {BLUEPRINT_DIFFICULTY_LABEL[difficulty]} (%)
+                  </Label>
+                  <Input
+                    id={`blueprint-${difficulty}`}
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={difficultyRatio[difficulty]}
+                    onChange={(e) =>
+                      setDifficultyRatio((prev) => ({
+                        ...prev,
+                        [difficulty]: Number(e.target.value) || 0,
+                      }))
+                    }
+                  />
+                </div>
+              ))}
+              <div className="space-y-1">
+                <Label htmlFor="blueprint-objective">객관식 비율 (%)</Label>
+                <Input
+                  id="blueprint-objective"
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={objectiveRatio}
+                  onChange={(e) =>
+                    setObjectiveRatio(Number(e.target.value) || 0)
+                  }
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="blueprint-total-points">총점</Label>
+                <Input
+                  id="blueprint-total-points"
+                  type="number"
+                  min={1}
+                  value={totalPoints}
+                  onChange={(e) => setTotalPoints(Number(e.target.value) || 0)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>배점 분배</Label>
+                <Select
+                  value={pointsDistribution}
+                  onValueChange={(value) =>
+                    setPointsDistribution(value as PointsDistributionMode)
+                  }
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="difficulty">난이도별</SelectItem>
+                    <SelectItem value="even">균등</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="blueprint-seed">시드</Label>
+                <div className="flex gap-1">
+                  <Input
+                    id="blueprint-seed"
+                    value={seed}
+                    onChange={(e) => setSeed(e.target.value)}
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="icon"
+                    onClick={() => setSeed(createBlueprintSeed())}
+                    title="새 시드"
+                  >
+                    <Dices className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+
+            {validationError && (
+              <p className="text-sm text-destructive">{validationError}</p>
+            )}
+
+            <DialogFooter>
+              <Button variant="outline" onClick={onClose}>
+                취소
+              </Button>
+              <Button
+                onClick={handleGenerate}
+                disabled={!data || !!validationError}
+              >
+                자동 출제
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,34 +1,179 @@
 import { useAtomValue, useSetAtom } from "jotai";
-import { X, FileText, Calculator } from "lucide-react";
+import { X, FileText, Calculator, GripVertical, Scale } from "lucide-react";
+import type { DragEndEvent } from "@dnd-kit/core";
+import {
+  DndContext,
+  closestCenter,
+  KeyboardSensor,
+  PointerSensor,
+  useSensor,
+  useSensors,
+} from "@dnd-kit/core";
+import {
+  SortableContext,
+  sortableKeyboardCoordinates,
+  verticalListSortingStrategy,
+  useSortable,
+} from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { RichQuestionText } from "@/components/common/RichQuestionText";
 import {
-  selectedProblemsDetailAtom,
+  orderedSelectedProblemsAtom,
   selectedProblemsStatsAtom,
   toggleUnitOrProblemAtom,
   resetUnitsTreeSelectionAtom,
+  reorderSelectedProblemsAtom,
+  setSelectedProblemPointsAtom,
+  distributeSelectedProblemPointsAtom,
 } from "@/atoms/unitsTree";
+import type { OrderedSelectedProblem } from "@/types/units-tree";
+
+/** 자동 분배 목표 총점 */
+const TARGET_TOTAL_POINTS = 100;
+
+/**
+ * 드래그 가능한 선택 문제 행 Props
+ */
+type SortableSelectedProblemRowProps = {
+  /** 순서/배점이 적용된 선택 문제 */
+  item: OrderedSelectedProblem;
+  /** 문제지 내 문항 번호 (1부터) */
+  questionNumber: number;
+  /** 배점 변경 핸들러 */
+  onPointsChange: (points: number) => void;
+  /** 선택 해제 핸들러 */
+  onRemove: () => void;
+};
+
+/**
+ * 드래그 가능한 선택 문제 행 컴포넌트
+ * @description 드래그 핸들로 순서를 바꾸고 배점을 바로 수정할 수 있는 한 줄 항목
+ */
+function SortableSelectedProblemRow({
+  item,
+  questionNumber,
+  onPointsChange,
+  onRemove,
+}: SortableSelectedProblemRowProps) {
+  const { problem, unitName, points } = item;
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({ id: problem.id });
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+  };
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={style}
+      className={cn(
+        "flex items-center gap-2 p-1.5 rounded-md border bg-card",
+        "hover:bg-muted/50 group transition-colors",
+        isDragging && "opacity-50 shadow-lg z-10",
+      )}
+    >
+      {/* 드래그 핸들 */}
+      <div
+        {...attributes}
+        {...listeners}
+        className="cursor-grab active:cursor-grabbing p-0.5 hover:bg-gray-100 rounded"
+      >
+        <GripVertical className="h-3.5 w-3.5 text-gray-400" />
+      </div>
+      <span className="text-xs text-muted-foreground w-6">
+        {questionNumber}.
+      </span>
+      <div className="flex-1 min-w-0">
+        <RichQuestionText
+          content={problem.title}
+          isInline
+          className="text-xs block truncate"
+        />
+        <div className="text-[11px] text-muted-foreground truncate">
+          {unitName}
+        </div>
+      </div>
+      <Badge
+        variant={problem.type === "objective" ? "default" : "secondary"}
+        className="text-xs h-5"
+      >
+        {problem.type === "objective" ? "객관식" : "주관식"}
+      </Badge>
+      <div className="flex items-center gap-1">
+        <Input
+          type="number"
+          min={1}
+          step={1}
+          value={points || ""}
+          onChange={(e) => onPointsChange(Number(e.target.value))}
+          className="h-7 w-14 px-2 text-xs"
+          aria-label={`${questionNumber}번 배점`}
+        />
+        <span className="text-xs text-muted-foreground">점</span>
+      </div>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={onRemove}
+        className="h-5 w-5 p-0 opacity-0 group-hover:opacity-100 transition-opacity"
+      >
+        <X className="h-3 w-3" />
+      </Button>
+    </div>
+  );
+}
 
 /**
  * 선택된 문제 표시 패널 컴포넌트
- * @description 사용자가 선택한 문제들을 단원별로 정리하여 표시하는 패널
+ * @description 사용자가 선택한 문제들을 출제 순서대로 표시하고 순서와 배점을 편집하는 패널
  *
  * 주요 기능:
- * - 선택된 문제를 단원별로 그룹화하여 표시
- * - 문제별 배점 표시
- * - 단원별 문제 수와 총 배점 표시
+ * - 드래그 앤 드롭으로 문항 순서 변경 (키보드 조작 지원)
+ * - 문항별 배점 직접 입력
+ * - 100점 균등 분배 / 난이도별 분배
  * - 개별 문제 선택 해제 기능
  * - 전체 선택 초기화 기능
- * - 통계 정보 표시 (총 문제 수, 객관식/주관식 비율, 총 배점)
+ * - 통계 정보 표시 (총 문제 수, 객관식/주관식 비율, 실시간 총 배점)
  */
 export function SelectedProblemsPanel() {
-  const selectedProblemsDetail = useAtomValue(selectedProblemsDetailAtom);
+  const orderedProblems = useAtomValue(orderedSelectedProblemsAtom);
   const stats = useAtomValue(selectedProblemsStatsAtom);
   const toggleProblem = useSetAtom(toggleUnitOrProblemAtom);
   const resetSelection = useSetAtom(resetUnitsTreeSelectionAtom);
+  const reorderProblems = useSetAtom(reorderSelectedProblemsAtom);
+  const setProblemPoints = useSetAtom(setSelectedProblemPointsAtom);
+  const distributePoints = useSetAtom(distributeSelectedProblemPointsAtom);
+
+  // 드래그 센서 설정 (포인터 + 키보드 접근성)
+  const sensors = useSensors(
+    useSensor(PointerSensor),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    }),
+  );
+
+  // 드래그 종료 핸들러
+  const handleDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event;
+
+    if (over && active.id !== over.id) {
+      reorderProblems({ activeId: String(active.id), overId: String(over.id) });
+    }
+  };
 
   // 선택된 문제가 없는 경우
   if (stats.totalCount === 0) {
@@ -88,85 +233,73 @@ export function SelectedProblemsPanel() {
           </div>
           <div className="text-center p-2 bg-muted/50 rounded-md">
             <div className="text-xs text-muted-foreground">총 배점</div>
-            <div className="font-semibold flex items-center justify-center gap-1">
+            <div
+              className={cn(
+                "font-semibold flex items-center justify-center gap-1",
+                stats.totalPoints !== TARGET_TOTAL_POINTS && "text-amber-600",
+              )}
+            >
               <Calculator className="h-3.5 w-3.5" />
               {stats.totalPoints}점
             </div>
           </div>
         </div>
+
+        {/* 배점 자동 분배 */}
+        <div className="flex items-center gap-2 mt-3">
+          <Scale className="h-4 w-4 text-muted-foreground" />
+          <span className="text-xs text-muted-foreground">
+            {TARGET_TOTAL_POINTS}점 분배
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => distributePoints("even")}
+            disabled={stats.totalCount > TARGET_TOTAL_POINTS}
+            className="text-xs h-7"
+          >
+            균등 분배
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => distributePoints("difficulty")}
+            disabled={stats.totalCount > TARGET_TOTAL_POINTS}
+            className="text-xs h-7"
+          >
+            난이도별 분배
+          </Button>
+        </div>
       </CardHeader>
 
       <CardContent className="flex-1 overflow-hidden pb-4">
-        <ScrollArea className="h-[380px] pr-4">
-          <div className="space-y-3">
-            {selectedProblemsDetail.map((unitGroup) => (
-              <div
-                key={unitGroup.unitId}
-                className="border rounded-lg p-3 bg-card"
-              >
-                {/* 단원 헤더 */}
-                <div className="mb-2">
-                  <div className="flex items-center justify-between mb-1">
-                    <h4 className="font-medium text-sm">
-                      {unitGroup.unitName}
-                    </h4>
-                    <Badge variant="secondary" className="text-xs">
-                      {unitGroup.problemCount}문제 / {unitGroup.totalPoints}점
-                    </Badge>
-                  </div>
-                  <div className="flex gap-1">
-                    <Badge variant="outline" className="text-xs">
-                      {unitGroup.categoryName}
-                    </Badge>
-                    <Badge variant="outline" className="text-xs">
-                      {unitGroup.subcategoryName}
-                    </Badge>
-                  </div>
-                </div>
-
-                {/* 문제 목록 */}
-                <div className="space-y-1">
-                  {unitGroup.problems.map((problem) => (
-                    <div
-                      key={problem.id}
-                      className={cn(
-                        "flex items-center gap-2 p-1.5 rounded-md",
-                        "hover:bg-muted/50 group transition-colors",
-                      )}
-                    >
-                      <span className="text-xs text-muted-foreground w-8">
-                        {problem.number}.
-                      </span>
-                      <span className="text-xs flex-1 truncate">
-                        {problem.title}
-                      </span>
-                      <Badge
-                        variant={
-                          problem.type === "objective" ? "default" : "secondary"
-                        }
-                        className="text-xs h-5"
-                      >
-                        {problem.type === "objective" ? "객관식" : "주관식"}
-                      </Badge>
-                      <span className="text-xs text-muted-foreground">
-                        {problem.points}점
-                      </span>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() =>
-                          toggleProblem({ type: "problem", id: problem.id })
-                        }
-                        className="h-5 w-5 p-0 opacity-0 group-hover:opacity-100 transition-opacity"
-                      >
-                        <X className="h-3 w-3" />
-                      </Button>
-                    </div>
-                  ))}
-                </div>
+        <ScrollArea className="h-[340px] pr-4">
+          <DndContext
+            sensors={sensors}
+            collisionDetection={closestCenter}
+            onDragEnd={handleDragEnd}
+          >
+            <SortableContext
+              items={orderedProblems.map(({ problem }) => problem.id)}
+              strategy={verticalListSortingStrategy}
+            >
+              <div className="space-y-1">
+                {orderedProblems.map((item, index) => (
+                  <SortableSelectedProblemRow
+                    key={item.problem.id}
+                    item={item}
+                    questionNumber={index + 1}
+                    onPointsChange={(points) =>
+                      setProblemPoints({ problemId: item.problem.id, points })
+                    }
+                    onRemove={() =>
+                      toggleProblem({ type: "problem", id: item.problem.id })
+                    }
+                  />
+                ))}
               </div>
-            ))}
-          </div>
+            </SortableContext>
+          </DndContext>
         </ScrollArea>
       </CardContent>
     </Card>
@@ -5,3 +5,4 @@
 export { UnitsTreeLoadingSpinner } from "./UnitsTreeLoadingSpinner";
 export { UnitsTreeProblemSelector } from "./UnitsTreeProblemSelector";
 export { SelectedProblemsPanel } from "./SelectedProblemsPanel";
+export { BlueprintGeneratorDialog } from "./BlueprintGeneratorDialog";
@@ -1 +1,2 @@
 export { useLogout } from "./useLogout";
+export { useSessionExpiredRedirect } from "./useSessionExpiredRedirect";
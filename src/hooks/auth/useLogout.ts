@@ -1,14 +1,15 @@
 import { useNavigate } from "@tanstack/react-router";
 import { useMutation } from "@tanstack/react-query";
-import { logout } from "@/api/auth";
-import { getErrorMessage, logError } from "@/utils/errorHandling";
+import { useSetAtom } from "jotai";
+import { logoutAtom } from "@/atoms/auth";
+import { logError } from "@/utils/errorHandling";
 
 /**
  * 로그아웃 커스텀 훅
- * @description 로그아웃 API 호출과 로그인 페이지 리다이렉트를 처리하는 훅
+ * @description 로그아웃 처리와 로그인 페이지 리다이렉트를 처리하는 훅
  *
  * 주요 기능:
- * - 로그아웃 API 호출
+ * - logoutAtom을 통한 서버 세션 종료 및 클라이언트 캐시 초기화
  * - 에러 처리 및 로깅
  * - 로그인 페이지로 자동 리다이렉트
  * - 로딩 상태 관리
@@ -33,24 +34,20 @@ import { getErrorMessage, logError } from "@/utils/errorHandling";
  */
 export function useLogout() {
   const navigate = useNavigate();
+  const logout = useSetAtom(logoutAtom);
 
   const logoutMutation = useMutation({
+    // logoutAtom은 서버 에러가 발생해도 클라이언트 상태를 항상 정리함
     mutationFn: logout,
-    onSuccess: (data) => {
+    onSuccess: () => {
       // 로그아웃 성공 시 로그인 페이지로 리다이렉트
-      console.log("로그아웃 성공:", data.message);
       navigate({ to: "/" });
     },
     onError: (error) => {
       // 에러 로깅
       logError(error, "useLogout");
 
-      // 사용자에게 에러 메시지 표시 (필요시 토스트 등 사용)
-      const errorMessage = getErrorMessage(error);
-      console.error("로그아웃 실패:", errorMessage);
-
-      // 네트워크 에러 등으로 인해 로그아웃이 실패해도
-      // 클라이언트 상태를 초기화하고 로그인 페이지로 이동
+      // 예상치 못한 에러가 발생해도 로그인 페이지로 이동
       navigate({ to: "/" });
     },
   });
@@ -0,0 +1,49 @@
+import { useEffect } from "react";
+import { useNavigate } from "@tanstack/react-router";
+import { useSetAtom } from "jotai";
+import { toast } from "sonner";
+import { onSessionExpired } from "@/api/client";
+import { resetSessionAtom } from "@/atoms/auth";
+
+/**
+ * 세션 만료 처리 커스텀 훅
+ * @description API 클라이언트의 세션 갱신이 최종 실패했을 때 재로그인 흐름을 처리하는 훅
+ *
+ * 주요 기능:
+ * - 인증 관련 atom과 서버 데이터 캐시 초기화 (resetSessionAtom)
+ * - 로그인 상태였던 경우에만 안내 토스트 표시 후 로그인 페이지로 이동
+ * - 현재 경로를 `redirect`로 전달하여 재로그인 후 원래 화면으로 복귀
+ *
+ * 루트 컴포넌트에서 한 번만 호출
+ *
+ * @example
+ * ```typescript
+ * function RootComponent() {
+ *   useSessionExpiredRedirect();
+ *   return <Outlet />;
+ * }
+ * ```
+ */
+export function useSessionExpiredRedirect() {
+  const navigate = useNavigate();
+  const resetSession = useSetAtom(resetSessionAtom);
+
+  useEffect(() => {
+    return onSessionExpired(() => {
+      const wasAuthenticated = resetSession();
+
+      // 로그인한 적 없는 사용자(로그인 페이지의 세션 확인 등)는 안내 불필요
+      if (!wasAuthenticated) {
+        return;
+      }
+
+      toast.error("세션이 만료되었습니다. 다시 로그인해주세요.");
+      navigate({
+        to: "/",
+        search: {
+          redirect: `${window.location.pathname}${window.location.search}`,
+        },
+      });
+    });
+  }, [navigate, resetSession]);
+}
@@ -3,3 +3,5 @@
  */
 
 export { useExamSheetRegistration } from "./useExamSheetRegistration";
+export { useExamSheetMutations } from "./useExamSheetMutations";
+export { useApplySheetFilterPreset } from "./useApplySheetFilterPreset";
@@ -0,0 +1,39 @@
+import { useCallback } from "react";
+import { useNavigate } from "@tanstack/react-router";
+import { useSetAtom } from "jotai";
+import { applySheetFilterPresetAtom } from "@/atoms/sheetFilters";
+import type { SheetFilterPresetSearch } from "@/types/filter-preset";
+
+/**
+ * 문제지 목록 필터 프리셋 적용 훅
+ * @description 프리셋 값을 atom과 URL에 함께 반영
+ *
+ * URL → atom 동기화는 값이 있는 파라미터만 반영하므로,
+ * 프리셋에 없는 항목은 atom에서 직접 기본값으로 되돌린 뒤 URL에서도 제거
+ *
+ * @returns 프리셋 적용 함수
+ */
+export function useApplySheetFilterPreset() {
+  const navigate = useNavigate();
+  const applyPreset = useSetAtom(applySheetFilterPresetAtom);
+
+  return useCallback(
+    (search: SheetFilterPresetSearch) => {
+      applyPreset(search);
+      navigate({
+        to: ".",
+        search: (prev) => ({
+          ...prev,
+          search: search.search,
+          grade: search.grade,
+          sort: search.sort,
+          direction: search.direction,
+          size: search.size,
+          page: 0,
+        }),
+        replace: true,
+      });
+    },
+    [applyPreset, navigate],
+  );
+}
@@ -0,0 +1,171 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  deleteExamSheet,
+  duplicateExamSheet,
+  examSheetQueryInvalidation,
+  getExamSheetUsage,
+  isExamSheetNameTaken,
+  updateExamSheet,
+} from "@/api/exam-sheet";
+import { getErrorMessage } from "@/utils/errorHandling";
+import { validateExamSheetRequest } from "@/utils/examSheet";
+import type { ExamSheet, ExamSheetSaveRequest } from "@/types/exam-sheet";
+
+/** 이름 중복 안내 메시지 */
+const DUPLICATE_NAME_MESSAGE =
+  "같은 학년에 이미 같은 이름의 문제지가 있습니다. 다른 이름을 입력해주세요.";
+
+/**
+ * 문제지 삭제 결과
+ */
+export type DeleteExamSheetsResult = {
+  /** 삭제된 문제지 ID 목록 */
+  deletedIds: string[];
+  /** 시험으로 발행되어 삭제하지 않은 문제지 목록 */
+  blocked: Array<{ id: string; examName: string; usageCount: number }>;
+};
+
+/**
+ * 문제지 수정/복제/삭제 커스텀 훅
+ * @description 문제지 관리 화면에서 사용하는 변경 작업들을 TanStack Query mutation으로 제공
+ *
+ * 주요 기능:
+ * - 저장 전 서버 규칙 검증 (연속 문항 순서, 최대 50문항, 학년 내 이름 중복)
+ * - 수정/복제 후 문제지 목록 및 상세 캐시 무효화
+ * - 삭제 전 사용 현황(/usage) 재확인으로 발행된 문제지 삭제 차단
+ * - 성공/실패 토스트 알림
+ */
+export function useExamSheetMutations() {
+  const queryClient = useQueryClient();
+
+  const invalidateSheets = () =>
+    queryClient.invalidateQueries({
+      queryKey: examSheetQueryInvalidation.all(),
+    });
+
+  /**
+   * 문제지 수정 mutation
+   */
+  const updateMutation = useMutation({
+    mutationKey: ["updateExamSheet"],
+    mutationFn: async ({
+      examSheetId,
+      data,
+    }: {
+      examSheetId: string;
+      data: ExamSheetSaveRequest;
+    }): Promise<ExamSheet> => {
+      const request = { ...data, examName: data.examName.trim() };
+      const validationError = validateExamSheetRequest(request);
+      if (validationError) {
+        throw new Error(validationError);
+      }
+      if (
+        await isExamSheetNameTaken(request.examName, request.grade, {
+          excludeId: examSheetId,
+        })
+      ) {
+        throw new Error(DUPLICATE_NAME_MESSAGE);
+      }
+      return updateExamSheet(examSheetId, request);
+    },
+    onSuccess: async (sheet) => {
+      await invalidateSheets();
+      toast.success(`'${sheet.examName}' 문제지를 수정했습니다.`);
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error));
+    },
+  });
+
+  /**
+   * 문제지 복제 mutation
+   */
+  const duplicateMutation = useMutation({
+    mutationKey: ["duplicateExamSheet"],
+    mutationFn: async ({
+      examSheetId,
+      examName,
+      grade,
+    }: {
+      examSheetId: string;
+      examName: string;
+      grade: number;
+    }): Promise<ExamSheet> => {
+      const trimmedName = examName.trim();
+      if (!trimmedName) {
+        throw new Error("문제지명을 입력해주세요.");
+      }
+      if (await isExamSheetNameTaken(trimmedName, grade)) {
+        throw new Error(DUPLICATE_NAME_MESSAGE);
+      }
+      return duplicateExamSheet(examSheetId, { examName: trimmedName, grade });
+    },
+    onSuccess: async (sheet) => {
+      await invalidateSheets();
+      toast.success(`'${sheet.examName}' 문제지를 새로 만들었습니다.`);
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error));
+    },
+  });
+
+  /**
+   * 문제지 삭제 mutation
+   * @description 삭제 직전에 사용 현황을 다시 확인하여 발행된 문제지는 건너뜀
+   */
+  const deleteMutation = useMutation({
+    mutationKey: ["deleteExamSheets"],
+    mutationFn: async (
+      sheets: Array<Pick<ExamSheet, "id" | "examName">>,
+    ): Promise<DeleteExamSheetsResult> => {
+      const result: DeleteExamSheetsResult = { deletedIds: [], blocked: [] };
+
+      for (const sheet of sheets) {
+        const usage = await getExamSheetUsage(sheet.id);
+        if (usage.usageCount > 0) {
+          result.blocked.push({
+            id: sheet.id,
+            examName: sheet.examName,
+            usageCount: usage.usageCount,
+          });
+          continue;
+        }
+        await deleteExamSheet(sheet.id);
+        result.deletedIds.push(sheet.id);
+      }
+
+      return result;
+    },
+    onSuccess: async ({ deletedIds, blocked }) => {
+      deletedIds.forEach((id) =>
+        queryClient.removeQueries({
+          queryKey: examSheetQueryInvalidation.detail(id),
+        }),
+      );
+      await invalidateSheets();
+
+      if (deletedIds.length > 0) {
+        toast.success(`문제지 ${deletedIds.length}개를 삭제했습니다.`);
+      }
+      if (blocked.length > 0) {
+        toast.warning(
+          `시험으로 발행된 문제지 ${blocked.length}개는 삭제하지 않았습니다.`,
+          { description: blocked.map((sheet) => sheet.examName).join(", ") },
+        );
+      }
+    },
+    onError: async (error) => {
+      // 일부만 삭제된 경우에도 목록을 최신 상태로 맞춤
+      await invalidateSheets();
+      toast.error(getErrorMessage(error));
+    },
+  });
+
+  return {
+    updateMutation,
+    duplicateMutation,
+    deleteMutation,
+  };
+}
@@ -3,3 +3,7 @@
  */
 
 export { useExamList } from "./useExamList";
+export { useAnswerSheetRecognition } from "./useAnswerSheetRecognition";
+export { useRegradeSubmission } from "./useRegradeSubmission";
+export { useLiveSubmissionMonitor } from "./useLiveSubmissionMonitor";
+export { useExamMutations } from "./useExamMutations";
@@ -0,0 +1,368 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  submitTextRecognition,
+  subscribeToJobEvents,
+} from "@/api/text-recognition";
+import type {
+  JobEventsSubscription,
+  SubmitTextRecognitionParams,
+} from "@/api/text-recognition";
+import { getErrorMessage } from "@/utils/errorHandling";
+import {
+  isActiveRecognitionPhase,
+  validateRecognitionFile,
+} from "@/utils/textRecognition";
+import type {
+  AnswerSheetRecognitionJob,
+  RejectedRecognitionFile,
+} from "@/types/text-recognition";
+import type { ExamVersionLabel } from "@/types/exam-print";
+
+/** 동시에 진행할 인식 작업 수 기본값 */
+const DEFAULT_CONCURRENCY = 3;
+
+/**
+ * 작업별 정리 대상 리소스
+ * @description 업로드 취소와 SSE 구독 해제를 위해 보관
+ */
+type JobResources = {
+  abortController: AbortController;
+  subscription: JobEventsSubscription | null;
+};
+
+/**
+ * 답안지 인식 훅 옵션
+ */
+type UseAnswerSheetRecognitionOptions = {
+  /** 인식 옵션 (페이지 번호, 질문 유형, 학년 수준) */
+  params?: SubmitTextRecognitionParams;
+  /** 동시에 진행할 작업 수 (기본 3) */
+  concurrency?: number;
+};
+
+/**
+ * 재시도를 위해 초기화된 작업 상태
+ */
+function resetForQueue(
+  job: AnswerSheetRecognitionJob,
+): AnswerSheetRecognitionJob {
+  return {
+    ...job,
+    phase: "QUEUED",
+    uploadProgress: 0,
+    jobId: null,
+    connectionState: null,
+    answers: [],
+    errorMessage: null,
+  };
+}
+
+/**
+ * 답안지 인식(OCR) 업로드 큐 관리 커스텀 훅
+ * @description 답안지 사진 업로드 → 인식 작업 제출 → SSE 진행 상황 수신 → 결과 검토까지의 상태를 관리
+ *
+ * 주요 기능:
+ * - 파일 형식(JPEG/PNG/WEBP/GIF) 및 크기(20MB) 사전 검증
+ * - 대기열 기반 동시 실행 수 제한 (한 학급 분량 일괄 업로드 대응)
+ * - 파일별 업로드 진행률 및 작업 상태 추적
+ * - 작업별 SSE 구독 (연결 끊김 시 자동 재연결)
+ * - 실패/취소 작업 재시도, 대기/진행 중 작업 취소, 작업 제거
+ * - 인식된 답안 텍스트 수정 (검토 단계)
+ * - 답안지 버전(A~E형) 지정 (B형 이후는 첨부 시 원래 문항·선택지 번호로 변환)
+ * - 언마운트 시 모든 업로드/구독/미리보기 URL 정리
+ */
+export function useAnswerSheetRecognition({
+  params,
+  concurrency = DEFAULT_CONCURRENCY,
+}: UseAnswerSheetRecognitionOptions = {}) {
+  const [jobs, setJobs] = useState<AnswerSheetRecognitionJob[]>([]);
+  const resourcesRef = useRef(new Map<string, JobResources>());
+  const jobsRef = useRef(jobs);
+  jobsRef.current = jobs;
+  const paramsRef = useRef(params);
+  paramsRef.current = params;
+
+  /**
+   * 단일 작업 상태 갱신
+   * @param id 클라이언트 작업 ID
+   * @param patch 변경할 필드
+   */
+  const updateJob = useCallback(
+    (id: string, patch: Partial<AnswerSheetRecognitionJob>) => {
+      setJobs((prev) =>
+        prev.map((job) => (job.id === id ? { ...job, ...patch } : job)),
+      );
+    },
+    [],
+  );
+
+  /**
+   * 작업 리소스 정리
+   * @description 진행 중인 업로드를 취소하고 SSE 구독을 해제
+   * @param id 클라이언트 작업 ID
+   */
+  const releaseResources = useCallback((id: string) => {
+    const resources = resourcesRef.current.get(id);
+    if (resources) {
+      resources.abortController.abort();
+      resources.subscription?.close();
+      resourcesRef.current.delete(id);
+    }
+  }, []);
+
+  /**
+   * 인식 작업 시작
+   * @description 업로드 후 발급된 jobId로 SSE 구독을 시작
+   */
+  const startJob = useCallback(
+    async (job: AnswerSheetRecognitionJob) => {
+      const resources: JobResources = {
+        abortController: new AbortController(),
+        subscription: null,
+      };
+      resourcesRef.current.set(job.id, resources);
+      // 취소/재시도로 리소스가 교체되었으면 이후 결과는 무시
+      const isCurrent = () => resourcesRef.current.get(job.id) === resources;
+
+      updateJob(job.id, { phase: "UPLOADING", uploadProgress: 0 });
+
+      try {
+        const { jobId, status } = await submitTextRecognition(
+          job.file,
+          paramsRef.current,
+          {
+            signal: resources.abortController.signal,
+            onUploadProgress: (percent) =>
+              updateJob(job.id, { uploadProgress: percent }),
+          },
+        );
+
+        if (!isCurrent()) return;
+
+        updateJob(job.id, { jobId, phase: status, uploadProgress: 100 });
+
+        resources.subscription = subscribeToJobEvents(jobId, {
+          onStatus: (event) => updateJob(job.id, { phase: event.status }),
+          onResult: (event) => {
+            resourcesRef.current.delete(job.id);
+            updateJob(job.id, {
+              phase: "COMPLETED",
+              answers: [...event.answers].sort(
+                (a, b) => a.questionNumber - b.questionNumber,
+              ),
+            });
+          },
+          onError: (event) => {
+            resourcesRef.current.delete(job.id);
+            updateJob(job.id, {
+              phase: "FAILED",
+              errorMessage: event.errorMessage,
+            });
+          },
+          onConnectionChange: (connectionState) =>
+            updateJob(job.id, { connectionState }),
+        });
+      } catch (error) {
+        if (!isCurrent() || resources.abortController.signal.aborted) return;
+        resourcesRef.current.delete(job.id);
+        updateJob(job.id, {
+          phase: "FAILED",
+          errorMessage: getErrorMessage(error),
+        });
+      }
+    },
+    [updateJob],
+  );
+
+  // 대기열 처리: 진행 중 작업이 동시 실행 한도보다 적으면 대기 작업 시작
+  useEffect(() => {
+    const activeCount = jobs.filter((job) =>
+      isActiveRecognitionPhase(job.phase),
+    ).length;
+    const availableSlots = concurrency - activeCount;
+    if (availableSlots <= 0) return;
+
+    jobs
+      .filter(
+        (job) => job.phase === "QUEUED" && !resourcesRef.current.has(job.id),
+      )
+      .slice(0, availableSlots)
+      .forEach((job) => {
+        void startJob(job);
+      });
+  }, [jobs, concurrency, startJob]);
+
+  /**
+   * 파일 추가
+   * @description 형식/크기 검증을 통과한 파일만 대기열에 추가
+   * @param files 업로드할 답안지 이미지 파일들
+   * @returns 검증에 실패한 파일과 사유 목록
+   */
+  const addFiles = useCallback((files: File[]): RejectedRecognitionFile[] => {
+    const rejected: RejectedRecognitionFile[] = [];
+    const newJobs: AnswerSheetRecognitionJob[] = [];
+
+    files.forEach((file) => {
+      const reason = validateRecognitionFile(file);
+      if (reason) {
+        rejected.push({ file, reason });
+        return;
+      }
+      newJobs.push({
+        id: crypto.randomUUID(),
+        file,
+        previewUrl: URL.createObjectURL(file),
+        phase: "QUEUED",
+        uploadProgress: 0,
+        jobId: null,
+        connectionState: null,
+        answers: [],
+        version: "A",
+        errorMessage: null,
+      });
+    });
+
+    if (newJobs.length > 0) {
+      setJobs((prev) => [...prev, ...newJobs]);
+    }
+    return rejected;
+  }, []);
+
+  /**
+   * 작업 재시도
+   * @description 실패/취소된 작업을 대기열로 되돌림
+   * @param id 클라이언트 작업 ID
+   */
+  const retryJob = useCallback(
+    (id: string) => {
+      releaseResources(id);
+      setJobs((prev) =>
+        prev.map((job) =>
+          job.id === id && (job.phase === "FAILED" || job.phase === "CANCELLED")
+            ? resetForQueue(job)
+            : job,
+        ),
+      );
+    },
+    [releaseResources],
+  );
+
+  /**
+   * 실패한 작업 전체 재시도
+   */
+  const retryFailedJobs = useCallback(() => {
+    setJobs((prev) =>
+      prev.map((job) => (job.phase === "FAILED" ? resetForQueue(job) : job)),
+    );
+  }, []);
+
+  /**
+   * 작업 취소
+   * @description 대기 중이거나 진행 중인 작업을 중단 (업로드 취소 및 구독 해제)
+   * @param id 클라이언트 작업 ID
+   */
+  const cancelJob = useCallback(
+    (id: string) => {
+      releaseResources(id);
+      setJobs((prev) =>
+        prev.map((job) =>
+          job.id === id &&
+          (job.phase === "QUEUED" || isActiveRecognitionPhase(job.phase))
+            ? { ...job, phase: "CANCELLED", connectionState: null }
+            : job,
+        ),
+      );
+    },
+    [releaseResources],
+  );
+
+  /**
+   * 대기 중인 작업 전체 취소
+   */
+  const cancelPendingJobs = useCallback(() => {
+    setJobs((prev) =>
+      prev.map((job) =>
+        job.phase === "QUEUED" ? { ...job, phase: "CANCELLED" } : job,
+      ),
+    );
+  }, []);
+
+  /**
+   * 작업 제거
+   * @description 진행 중이면 업로드 취소 및 SSE 구독 해제 후 목록에서 제거
+   * @param id 클라이언트 작업 ID
+   */
+  const removeJob = useCallback(
+    (id: string) => {
+      releaseResources(id);
+      const job = jobsRef.current.find((item) => item.id === id);
+      if (job) {
+        URL.revokeObjectURL(job.previewUrl);
+      }
+      setJobs((prev) => prev.filter((item) => item.id !== id));
+    },
+    [releaseResources],
+  );
+
+  /**
+   * 인식된 답안 텍스트 수정
+   * @param id 클라이언트 작업 ID
+   * @param questionNumber 문제 번호
+   * @param recognizedText 수정된 답안 텍스트
+   */
+  const updateAnswer = useCallback(
+    (id: string, questionNumber: number, recognizedText: string) => {
+      setJobs((prev) =>
+        prev.map((job) =>
+          job.id === id
+            ? {
+                ...job,
+                answers: job.answers.map((answer) =>
+                  answer.questionNumber === questionNumber
+                    ? { ...answer, recognizedText }
+                    : answer,
+                ),
+              }
+            : job,
+        ),
+      );
+    },
+    [],
+  );
+
+  /**
+   * 답안지 버전 지정
+   * @description 인식 답안은 버전 번호 그대로 두고, 첨부할 때 원래 순서로 변환
+   * @param id 클라이언트 작업 ID
+   * @param version 답안지 버전
+   */
+  const updateJobVersion = useCallback(
+    (id: string, version: ExamVersionLabel) => updateJob(id, { version }),
+    [updateJob],
+  );
+
+  // 언마운트 시 모든 업로드/구독/미리보기 정리
+  useEffect(() => {
+    const resources = resourcesRef.current;
+    return () => {
+      resources.forEach(({ abortController, subscription }) => {
+        abortController.abort();
+        subscription?.close();
+      });
+      resources.clear();
+      jobsRef.current.forEach((job) => URL.revokeObjectURL(job.previewUrl));
+    };
+  }, []);
+
+  return {
+    jobs,
+    addFiles,
+    retryJob,
+    retryFailedJobs,
+    cancelJob,
+    cancelPendingJobs,
+    removeJob,
+    updateAnswer,
+    updateJobVersion,
+  };
+}
@@ -74,6 +74,7 @@ export function useExamListWithFilters() {
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [activeModal, setActiveModal] = useState<ModalState>(null);
   const [selectedSheet, setSelectedSheet] = useState<Exam | null>(null);
+  const [deleteTargets, setDeleteTargets] = useState<Exam[]>([]);
 
   /**
    * 검색어 변경 핸들러
@@ -214,28 +215,37 @@ export function useExamListWithFilters() {
   }, []);
 
   /**
-   * 시험 삭제 핸들러 (TODO: 실제 API 연동 필요)
+   * 선택된 시험 삭제 요청 핸들러
+   * @description 현재 페이지에서 선택된 시험들로 삭제 확인 다이얼로그를 엶
    */
   const handleDeleteSelected = useCallback(() => {
-    console.warn(
-      "[TODO] 선택된 시험 삭제 API 연동 필요:",
-      Array.from(selectedIds),
+    setDeleteTargets(
+      examListData.exams.filter((exam) => selectedIds.has(exam.id)),
     );
-    // TODO: 실제 삭제 API 호출
-    // await deleteExams(Array.from(selectedIds));
-    setSelectedIds(new Set());
-  }, [selectedIds]);
+  }, [examListData.exams, selectedIds]);
+
+  /**
+   * 개별 시험 삭제 요청 핸들러
+   */
+  const handleDelete = useCallback((exam: Exam) => {
+    setDeleteTargets([exam]);
+  }, []);
+
+  /**
+   * 삭제 확인 다이얼로그 닫기 핸들러
+   */
+  const handleCloseDeleteDialog = useCallback(() => {
+    setDeleteTargets([]);
+  }, []);
 
   /**
-   * 개별 시험 삭제 핸들러 (TODO: 실제 API 연동 필요)
+   * 삭제 완료 핸들러
+   * @description 삭제된 시험을 선택 목록에서 제거 (제출이 있어 남은 시험은 선택 유지)
    */
-  const handleDelete = useCallback((id: string) => {
-    console.warn("[TODO] 개별 시험 삭제 API 연동 필요:", id);
-    // TODO: 실제 삭제 API 호출
-    // await deleteExam(id);
+  const handleExamsDeleted = useCallback((deletedIds: string[]) => {
     setSelectedIds((prev) => {
       const next = new Set(prev);
-      next.delete(id);
+      deletedIds.forEach((id) => next.delete(id));
       return next;
     });
   }, []);
@@ -287,6 +297,7 @@ export function useExamListWithFilters() {
     selectedIds,
     activeModal,
     selectedSheet,
+    deleteTargets,
     selectedExamId,
     searchKeyword,
     selectedGrade,
@@ -310,8 +321,10 @@ export function useExamListWithFilters() {
     handleOpenPrint,
     handleCloseModal,
 
-    // 데이터 조작 액션 (TODO: API 연동)
+    // 데이터 조작 액션
     handleDeleteSelected,
     handleDelete,
+    handleCloseDeleteDialog,
+    handleExamsDeleted,
   };
 }
@@ -0,0 +1,197 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  closeExam,
+  deleteExam,
+  examKeys,
+  examQueryInvalidation,
+  fetchSubmissionStatus,
+  reopenExam,
+  updateExam,
+} from "@/api/exam";
+import type { ServerExam } from "@/api/exam";
+import type { UpdateExamRequest } from "@/api/exam/types";
+import { dashboardKeys } from "@/api/dashboard";
+import { getErrorMessage } from "@/utils/errorHandling";
+
+/**
+ * 시험 삭제 결과
+ */
+export type DeleteExamsResult = {
+  /** 삭제된 시험 ID 목록 */
+  deletedIds: string[];
+  /** 제출이 있어 삭제하지 않은 시험 목록 */
+  blocked: Array<{ id: string; examName: string; submissionCount: number }>;
+};
+
+/**
+ * 시험 수정/마감/다시 열기/삭제 커스텀 훅
+ * @description 시험 관리 화면에서 사용하는 변경 작업들을 TanStack Query mutation으로 제공
+ *
+ * 주요 기능:
+ * - 수정/마감/다시 열기 후 해당 시험의 상세·제출 현황과 목록 캐시 무효화
+ * - 삭제 전 제출 현황 재확인으로 제출이 있는 시험 삭제 차단
+ * - 삭제된 시험의 상세·제출 현황 캐시 제거
+ * - 성공/실패 토스트 알림
+ */
+export function useExamMutations() {
+  const queryClient = useQueryClient();
+
+  /**
+   * 시험 변경 후 캐시 무효화
+   * @param examId 변경된 시험 ID
+   */
+  const invalidateExam = async (examId: string) => {
+    await Promise.all([
+      ...examQueryInvalidation
+        .examRelated(examId)
+        .map((queryKey) => queryClient.invalidateQueries({ queryKey })),
+      queryClient.invalidateQueries({
+        queryKey: examQueryInvalidation.lists(),
+      }),
+      queryClient.invalidateQueries({
+        queryKey: examQueryInvalidation.statistics(),
+      }),
+      queryClient.invalidateQueries({ queryKey: dashboardKeys.all }),
+    ]);
+  };
+
+  /**
+   * 시험 수정 mutation
+   */
+  const updateMutation = useMutation({
+    mutationKey: ["updateExam"],
+    mutationFn: async ({
+      examId,
+      data,
+    }: {
+      examId: string;
+      data: UpdateExamRequest;
+    }): Promise<ServerExam> => {
+      const examName = data.examName.trim();
+      if (!examName) {
+        throw new Error("시험명을 입력해주세요.");
+      }
+      if (!data.examSheetId) {
+        throw new Error("문제지를 선택해주세요.");
+      }
+      return updateExam(examId, {
+        ...data,
+        examName,
+        description: data.description?.trim() || undefined,
+      });
+    },
+    onSuccess: async (exam, { examId }) => {
+      await invalidateExam(examId);
+      toast.success(`'${exam.examName}' 시험을 수정했습니다.`);
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error));
+    },
+  });
+
+  /**
+   * 시험 조기 마감 mutation
+   */
+  const closeMutation = useMutation({
+    mutationKey: ["closeExam"],
+    mutationFn: (examId: string): Promise<ServerExam> => closeExam(examId),
+    onSuccess: async (exam, examId) => {
+      await invalidateExam(examId);
+      toast.success(`'${exam.examName}' 시험을 마감했습니다.`);
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error));
+    },
+  });
+
+  /**
+   * 시험 다시 열기 mutation
+   */
+  const reopenMutation = useMutation({
+    mutationKey: ["reopenExam"],
+    mutationFn: ({
+      examId,
+      endDate,
+    }: {
+      examId: string;
+      endDate: string;
+    }): Promise<ServerExam> => reopenExam(examId, { endDate }),
+    onSuccess: async (exam, { examId }) => {
+      await invalidateExam(examId);
+      toast.success(`'${exam.examName}' 시험을 다시 열었습니다.`);
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error));
+    },
+  });
+
+  /**
+   * 시험 삭제 mutation
+   * @description 삭제 직전에 제출 현황을 다시 확인하여 제출이 있는 시험은 건너뜀
+   */
+  const deleteMutation = useMutation({
+    mutationKey: ["deleteExams"],
+    mutationFn: async (
+      exams: Array<Pick<ServerExam, "id" | "examName">>,
+    ): Promise<DeleteExamsResult> => {
+      const result: DeleteExamsResult = { deletedIds: [], blocked: [] };
+
+      for (const exam of exams) {
+        const status = await fetchSubmissionStatus(exam.id);
+        const submissionCount = status.submissionStats.actualSubmissions;
+        if (submissionCount > 0) {
+          result.blocked.push({
+            id: exam.id,
+            examName: exam.examName,
+            submissionCount,
+          });
+          continue;
+        }
+        await deleteExam(exam.id);
+        result.deletedIds.push(exam.id);
+      }
+
+      return result;
+    },
+    onSuccess: async ({ deletedIds, blocked }) => {
+      deletedIds.forEach((id) => {
+        queryClient.removeQueries({ queryKey: examKeys.detail(id) });
+        queryClient.removeQueries({ queryKey: examKeys.submission(id) });
+      });
+      await Promise.all([
+        queryClient.invalidateQueries({
+          queryKey: examQueryInvalidation.lists(),
+        }),
+        queryClient.invalidateQueries({
+          queryKey: examQueryInvalidation.statistics(),
+        }),
+        queryClient.invalidateQueries({ queryKey: dashboardKeys.all }),
+      ]);
+
+      if (deletedIds.length > 0) {
+        toast.success(`시험 ${deletedIds.length}개를 삭제했습니다.`);
+      }
+      if (blocked.length > 0) {
+        toast.warning(
+          `제출이 있는 시험 ${blocked.length}개는 삭제하지 않았습니다.`,
+          { description: blocked.map((exam) => exam.examName).join(", ") },
+        );
+      }
+    },
+    onError: async (error) => {
+      // 일부만 삭제된 경우에도 목록을 최신 상태로 맞춤
+      await queryClient.invalidateQueries({
+        queryKey: examQueryInvalidation.lists(),
+      });
+      toast.error(getErrorMessage(error));
+    },
+  });
+
+  return {
+    updateMutation,
+    closeMutation,
+    reopenMutation,
+    deleteMutation,
+  };
+}
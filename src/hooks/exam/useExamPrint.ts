@@ -1,174 +1,153 @@
-import { useRef, useEffect, useCallback } from "react";
+import { useCallback, useState } from "react";
+import { useRouter } from "@tanstack/react-router";
+import type {
+  ExamPrintJob,
+  ExamPrintKind,
+  ExamPrintLayoutOptions,
+} from "@/types/exam-print";
+import { EXAM_PRINT_MESSAGE } from "@/utils/examPrint";
+import { buildExamPrintJobs } from "@/utils/examVersions";
 import logger from "@/utils/logger";
-import { examQuestionsIdAtom, examQuestionsQueryAtom } from "@/atoms/exam";
-import { useAtomValue, useSetAtom } from "jotai";
+
+/** 인쇄 문서 준비·인쇄 대기 최대 시간 (인쇄 대화상자가 열려 있는 시간 포함) */
+const PRINT_TIMEOUT_MS = 10 * 60 * 1000;
 
 /**
  * 시험 인쇄 기능 커스텀 훅
- * @description 시험 API를 통합한 인쇄 기능 훅
+ * @description 인쇄 전용 라우트(/print/exam/$examId)를 문서 종류별로 불러와 인쇄
  *
  * 주요 기능:
- * - 시험 문제 데이터 자동 조회
- * - 인쇄 옵션별 처리 (문제지, 답안지, 학생 답안지)
- * - 에러 및 로딩 상태 관리
- * - 인쇄 전후 콜백 처리
+ * - 문제지, 문제 답안지, 학생 답안지를 각각 독립된 A4 문서로 순서대로 인쇄
+ * - 버전 수가 2 이상이면 문서마다 A형부터 버전별로 인쇄하고 버전별 정답표를 추가로 인쇄 가능
+ * - 문서마다 숨은 iframe에서 인쇄 라우트를 열고, 인쇄가 끝나면 다음 문서로 진행
+ * - 새 창 미리보기 (브라우저의 PDF로 저장 사용 가능)
  *
  * @param examId 시험 ID
- * @returns 인쇄 관련 상태와 함수들
+ * @returns 인쇄 상태와 함수들
  */
 export function useExamPrint(examId: string) {
-  const printRef = useRef<HTMLDivElement>(null);
-  const setExamQuestionsId = useSetAtom(examQuestionsIdAtom);
-  
-  // 로깅: printRef 생성
-  logger.debug("[useExamPrint] printRef 생성됨", { examId, printRef });
-
-  // 시험 ID 설정
-  useEffect(() => {
-    logger.debug("[useExamPrint] examId 설정", { examId });
-    setExamQuestionsId(examId);
-  }, [examId, setExamQuestionsId]);
-
-  // 시험 문제 데이터 조회
-  const {
-    data: examData,
-    isLoading,
-    error,
-  } = useAtomValue(examQuestionsQueryAtom);
-  
-  // 로깅: 데이터 조회 상태
-  useEffect(() => {
-    logger.debug("[useExamPrint] 데이터 상태 변경", {
-      examId,
-      hasExamData: !!examData,
-      examDataQuestions: examData?.questions?.length || 0,
-      isLoading,
-      error: error ? String(error) : null
-    });
-  }, [examData, isLoading, error, examId]);
-
-  // SSR 체크 - 클라이언트에서만 인쇄 기능 활성화
-  useEffect(() => {
-    if (typeof window !== "undefined" && printRef.current && examData) {
-      logger.debug("[useExamPrint] 클라이언트 환경, ref와 데이터 준비됨", {
-        examId,
-        hasRef: !!printRef.current,
-        hasData: !!examData
-      });
-    }
-  }, [examId, examData]);
+  const router = useRouter();
+  const [printQueue, setPrintQueue] = useState<ExamPrintJob[]>([]);
+  const [printingIndex, setPrintingIndex] = useState<number | null>(null);
 
-  // 수동 인쇄 함수 (react-to-print 대체)
-  const handlePrint = useCallback(() => {
-    logger.debug("[useExamPrint] 인쇄 시작", {
-      examId,
-      hasExamData: !!examData,
-      questionsCount: examData?.questions?.length || 0,
-      printRefExists: !!printRef.current
-    });
-
-    if (!printRef.current) {
-      logger.error("[useExamPrint] printRef.current가 null입니다!");
-      return;
-    }
-
-    try {
-      // DOM 상태 로깅
-      const refElement = printRef.current;
-      logger.debug("[useExamPrint] printRef DOM 상태", {
-        tagName: refElement.tagName,
-        className: refElement.className,
-        childElementCount: refElement.childElementCount,
-        offsetHeight: refElement.offsetHeight,
-        scrollHeight: refElement.scrollHeight,
-        innerHTML: refElement.innerHTML.length
-      });
+  /**
+   * 인쇄 문서 주소 생성
+   */
+  const buildPrintHref = useCallback(
+    (job: ExamPrintJob, layout: ExamPrintLayoutOptions, isAutoPrint: boolean) =>
+      router.buildLocation({
+        to: "/print/exam/$examId",
+        params: { examId },
+        search: {
+          kind: job.kind,
+          columns: layout.columns,
+          version: job.version,
+          versions: job.kind === "versionKey" ? layout.versionCount : undefined,
+          autoPrint: isAutoPrint || undefined,
+        },
+      }).href,
+    [router, examId],
+  );
 
-      // 인쇄용 iframe 생성
-      const iframe = document.createElement('iframe');
-      iframe.style.position = 'absolute';
-      iframe.style.top = '-9999px';
-      iframe.style.left = '-9999px';
-      iframe.style.width = '210mm';
-      iframe.style.height = '297mm';
-      document.body.appendChild(iframe);
+  /**
+   * 문서 하나를 숨은 iframe에서 인쇄
+   * @description 인쇄 라우트가 afterprint 후 보내는 메시지를 받으면 완료
+   */
+  const printInFrame = useCallback(
+    (href: string) =>
+      new Promise<void>((resolve, reject) => {
+        const iframe = document.createElement("iframe");
+        iframe.setAttribute("aria-hidden", "true");
+        iframe.style.position = "fixed";
+        iframe.style.left = "-10000px";
+        iframe.style.top = "0";
+        iframe.style.width = "210mm";
+        iframe.style.height = "297mm";
+        iframe.style.border = "0";
+
+        const cleanup = () => {
+          window.removeEventListener("message", handleMessage);
+          window.clearTimeout(timeoutId);
+          iframe.remove();
+        };
+
+        const handleMessage = (event: MessageEvent) => {
+          if (
+            event.origin !== window.location.origin ||
+            event.source !== iframe.contentWindow
+          ) {
+            return;
+          }
+          if (event.data?.type === EXAM_PRINT_MESSAGE.done) {
+            cleanup();
+            resolve();
+          } else if (event.data?.type === EXAM_PRINT_MESSAGE.error) {
+            cleanup();
+            reject(new Error(event.data.message ?? "인쇄 문서 로딩 실패"));
+          }
+        };
+
+        const timeoutId = window.setTimeout(() => {
+          cleanup();
+          reject(new Error("인쇄 문서 준비 시간이 초과되었습니다."));
+        }, PRINT_TIMEOUT_MS);
+
+        window.addEventListener("message", handleMessage);
+        iframe.src = href;
+        document.body.appendChild(iframe);
+      }),
+    [],
+  );
 
-      const iframeDoc = iframe.contentWindow?.document;
-      if (!iframeDoc) {
-        throw new Error("iframe document를 생성할 수 없습니다");
+  /**
+   * 선택한 문서들을 순서대로 인쇄
+   * @param kinds 인쇄할 문서 종류 (표시 순서대로 정렬하여 인쇄)
+   * @param layout 레이아웃 옵션 (버전 수만큼 문서마다 버전별로 인쇄)
+   */
+  const printDocuments = useCallback(
+    async (kinds: ExamPrintKind[], layout: ExamPrintLayoutOptions) => {
+      const jobs = buildExamPrintJobs(kinds, layout.versionCount);
+      setPrintQueue(jobs);
+
+      try {
+        for (const [index, job] of jobs.entries()) {
+          setPrintingIndex(index);
+          logger.debug("[useExamPrint] 인쇄 시작", { examId, job, layout });
+          await printInFrame(buildPrintHref(job, layout, true));
+        }
+      } catch (error) {
+        logger.error("[useExamPrint] 인쇄 중 오류", { examId, error });
+        throw error;
+      } finally {
+        setPrintingIndex(null);
       }
-
-      // 스타일 복사
-      const styles = Array.from(document.querySelectorAll('style, link[rel="stylesheet"]'));
-      const styleHTML = styles.map(style => style.outerHTML).join('\n');
-
-      // 인쇄 내용 작성
-      const printContent = `
-        <!DOCTYPE html>
-        <html>
-          <head>
-            <meta charset="utf-8">
-            <title>시험 인쇄</title>
-            ${styleHTML}
-            <style>
-              @media print {
-                body { margin: 0; }
-                @page { size: A4; margin: 20mm; }
-              }
-            </style>
-          </head>
-          <body>
-            ${refElement.innerHTML}
-          </body>
-        </html>
-      `;
-      
-      iframeDoc.open();
-      iframeDoc.write(printContent);
-      iframeDoc.close();
-
-      // 인쇄 실행
-      setTimeout(() => {
-        iframe.contentWindow?.print();
-        setTimeout(() => {
-          document.body.removeChild(iframe);
-          logger.debug("[useExamPrint] 인쇄 완료", { examId });
-        }, 100);
-      }, 250);
-
-    } catch (error) {
-      logger.error("[useExamPrint] 인쇄 중 오류", { examId, error });
-    }
-  }, [examId, examData]);
+    },
+    [examId, buildPrintHref, printInFrame],
+  );
 
   /**
-   * 인쇄 준비 상태 확인
+   * 선택한 문서들을 새 창으로 미리보기
+   * @param kinds 미리볼 문서 종류
+   * @param layout 레이아웃 옵션
    */
-  const isReadyToPrint =
-    !isLoading && !error && !!examData && typeof window !== "undefined";
-    
-  // 로깅: 인쇄 준비 상태
-  useEffect(() => {
-    logger.debug("[useExamPrint] 인쇄 준비 상태", {
-      examId,
-      isReadyToPrint,
-      isLoading,
-      hasError: !!error,
-      hasExamData: !!examData,
-      isClient: typeof window !== "undefined",
-      printRefCurrent: !!printRef.current
-    });
-  }, [isReadyToPrint, isLoading, error, examData, examId]);
+  const openPreview = useCallback(
+    (kinds: ExamPrintKind[], layout: ExamPrintLayoutOptions) => {
+      buildExamPrintJobs(kinds, layout.versionCount).forEach((job) => {
+        window.open(buildPrintHref(job, layout, false), "_blank");
+      });
+    },
+    [buildPrintHref],
+  );
 
   return {
-    // 데이터 상태
-    examData,
-    isLoading,
-    error,
-
-    // 인쇄 상태 및 함수
-    isReadyToPrint,
-    printRef,
-    handlePrint,
+    // 인쇄 상태 (진행 중인 작업과 전체 작업 수)
+    isPrinting: printingIndex !== null,
+    printingJob: printingIndex !== null ? printQueue[printingIndex] : null,
+    printingIndex,
+    printCount: printQueue.length,
+
+    // 인쇄 함수
+    printDocuments,
+    openPreview,
   };
 }
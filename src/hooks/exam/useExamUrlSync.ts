@@ -8,6 +8,7 @@
  * - 북마크 가능한 URL 생성
  * - 브라우저 뒤로가기/앞으로가기 지원
  * - SSR 하이드레이션과 완전 호환
+ * - 클라이언트 필터(검색 옵션, 날짜, 문항 수, 참여율, 단원, 시험 유형, 진행 상태) 동기화
  */
 
 import { useEffect, useCallback } from "react";
@@ -22,7 +23,25 @@ import {
   recentExamFilterAtom,
   showFilterSidebarAtom,
   collapsedFilterSidebarAtom,
+  examClientFiltersAtom,
 } from "@/atoms/examFilters";
+import {
+  EXAM_FILTER_SEARCH_KEYS,
+  toExamFilterSearch,
+} from "@/utils/examListFilters";
+
+/** 이 훅이 관리하는 URL 파라미터 키 (해제된 필터를 URL에서 지우기 위해 사용) */
+const MANAGED_SEARCH_KEYS = [
+  "search",
+  "grade",
+  "page",
+  "size",
+  "sort",
+  "recent",
+  "showSidebar",
+  "collapsedSidebar",
+  ...EXAM_FILTER_SEARCH_KEYS,
+];
 
 /**
  * 시험 필터 상태를 URL과 동기화하는 훅
@@ -56,6 +75,7 @@ export function useExamUrlSync(
   const recentExamFilter = useAtomValue(recentExamFilterAtom);
   const showFilterSidebar = useAtomValue(showFilterSidebarAtom);
   const collapsedFilterSidebar = useAtomValue(collapsedFilterSidebarAtom);
+  const clientFilters = useAtomValue(examClientFiltersAtom);
 
   /**
    * URL 파라미터 업데이트 함수
@@ -107,8 +127,13 @@ export function useExamUrlSync(
       searchParams.collapsedSidebar = true;
     }
 
+    // 클라이언트 필터 (기본값이 아닌 항목만)
+    Object.assign(searchParams, toExamFilterSearch(clientFilters));
+
     // 현재 URL의 다른 파라미터 유지 (selectedExam, examName 등)
-    const currentSearch = router.latestLocation.search as any;
+    // 관리 대상 키는 지워서 해제된 필터가 URL에 남지 않도록 함
+    const currentSearch = { ...(router.latestLocation.search as any) };
+    MANAGED_SEARCH_KEYS.forEach((key) => delete currentSearch[key]);
     const mergedParams = {
       ...currentSearch,
       ...searchParams,
@@ -144,6 +169,7 @@ export function useExamUrlSync(
     recentExamFilter,
     showFilterSidebar,
     collapsedFilterSidebar,
+    clientFilters,
     router,
   ]);
 
@@ -0,0 +1,142 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAtom, useAtomValue } from "jotai";
+import { toast } from "sonner";
+import {
+  isLiveMonitoringAtom,
+  liveMonitoringSettingsAtom,
+  selectedExamSubmissionStatusAtom,
+} from "@/atoms/examDetail";
+import { allExamAttendeesQueryOptions, examKeys } from "@/api/exam/query";
+import { useIsDocumentVisible } from "@/hooks/ui/useIsDocumentVisible";
+import {
+  buildMinuteTimeline,
+  hasReachedTargetRate,
+  mergeSubmissionTimes,
+  playTargetReachedChime,
+} from "@/utils/liveMonitoring";
+import type { LiveMonitoringSettings } from "@/types/live-monitoring";
+
+/**
+ * 실시간 제출 모니터링 훅
+ * @description 시험 진행 중 제출 현황 폴링 상태와 분 단위 타임라인을 관리
+ *
+ * 주요 기능:
+ * - 모니터링 켜기/끄기 (제출 현황 쿼리 원자의 refetchInterval 제어)
+ * - 탭이 숨겨지면 폴링 일시정지 상태 노출
+ * - 응시자 전체 목록 + 폴링마다 받은 최근 제출로 분 단위 타임라인 계산
+ * - 새 제출이 들어오면 페이지 단위 응시자 목록(화면의 응시자 표)만 무효화
+ * - 목표 제출률 도달 시 토스트 및 (선택) 알림음
+ *
+ * @param examId 시험 ID
+ */
+export function useLiveSubmissionMonitor(examId: string) {
+  const queryClient = useQueryClient();
+  const [isLive, setIsLive] = useAtom(isLiveMonitoringAtom);
+  const [settings, setSettings] = useAtom(liveMonitoringSettingsAtom);
+  const { submissionStatus, lastUpdated } = useAtomValue(
+    selectedExamSubmissionStatusAtom,
+  );
+  const isDocumentVisible = useIsDocumentVisible();
+
+  const { data: attendees } = useQuery({
+    ...allExamAttendeesQueryOptions(examId),
+    enabled: isLive && !!examId,
+  });
+
+  const [submissionTimes, setSubmissionTimes] = useState<Map<string, string>>(
+    () => new Map(),
+  );
+  const previousRateRef = useRef<number | null>(null);
+  const knownSubmissionIdsRef = useRef<Set<string> | null>(null);
+
+  // 페이지를 벗어나면 모니터링 종료
+  useEffect(() => () => setIsLive(false), [setIsLive]);
+
+  // 모니터링을 끄면 비교 기준 초기화
+  useEffect(() => {
+    if (isLive) return;
+    previousRateRef.current = null;
+    knownSubmissionIdsRef.current = null;
+  }, [isLive]);
+
+  // 응시자 전체 목록으로 타임라인 초기값 채우기
+  useEffect(() => {
+    if (!attendees) return;
+    setSubmissionTimes((prev) => mergeSubmissionTimes(prev, attendees));
+  }, [attendees]);
+
+  // 폴링 결과 반영: 최근 제출 누적, 새 제출 감지, 목표 제출률 알림
+  useEffect(() => {
+    if (!isLive || !submissionStatus) return;
+
+    const { recentSubmissions, submissionStats } = submissionStatus;
+    setSubmissionTimes((prev) => mergeSubmissionTimes(prev, recentSubmissions));
+
+    const knownIds = knownSubmissionIdsRef.current;
+    const hasNewSubmission =
+      knownIds !== null &&
+      recentSubmissions.some(
+        (submission) => !knownIds.has(submission.submissionId),
+      );
+    knownSubmissionIdsRef.current = new Set([
+      ...(knownIds ?? []),
+      ...recentSubmissions.map((submission) => submission.submissionId),
+    ]);
+    if (hasNewSubmission) {
+      // 빈 params는 이 시험의 모든 페이지 조회와 부분 일치하고 전체 목록("all")과는 일치하지 않음
+      // 전체 목록은 다시 받지 않고 타임라인은 recentSubmissions로 보충
+      void queryClient.invalidateQueries({
+        queryKey: examKeys.attendee(examId, {}),
+      });
+    }
+
+    const rate = submissionStats.submissionRate;
+    if (
+      hasReachedTargetRate(previousRateRef.current, rate, settings.targetRate)
+    ) {
+      toast.success(`목표 제출률 ${settings.targetRate}%에 도달했습니다.`);
+      if (settings.isSoundEnabled) {
+        playTargetReachedChime();
+      }
+    }
+    previousRateRef.current = rate;
+  }, [
+    examId,
+    isLive,
+    submissionStatus,
+    settings.targetRate,
+    settings.isSoundEnabled,
+    queryClient,
+  ]);
+
+  const timeline = useMemo(
+    () =>
+      buildMinuteTimeline(
+        Array.from(submissionTimes.values()),
+        lastUpdated || Date.now(),
+      ),
+    [submissionTimes, lastUpdated],
+  );
+
+  /**
+   * 모니터링 설정 일부 변경 함수
+   */
+  const updateSettings = (patch: Partial<LiveMonitoringSettings>) => {
+    setSettings((prev) => ({ ...prev, ...patch }));
+  };
+
+  return {
+    // 상태
+    isLive,
+    isPaused: isLive && !isDocumentVisible,
+    settings,
+    submissionStatus,
+    lastUpdated,
+    timeline,
+
+    // 액션
+    setIsLive,
+    updateSettings,
+  };
+}
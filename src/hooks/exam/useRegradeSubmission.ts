@@ -0,0 +1,63 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { gradingKeys, regradeSubmission } from "@/api/grading";
+import type { RegradeSubmissionParams, SubmissionGrading } from "@/api/grading";
+import { dashboardKeys } from "@/api/dashboard";
+import { examKeys } from "@/api/exam";
+import { statisticsKeys } from "@/api/statistics";
+import { studentKeys } from "@/api/student";
+import { getErrorMessage } from "@/utils/errorHandling";
+
+/**
+ * 제출 답안 재채점 커스텀 훅
+ * @description 교사가 수정한 문항별 점수와 피드백을 저장하는 mutation
+ *
+ * 주요 기능:
+ * - 변경 문항이 없으면 요청하지 않음
+ * - 저장 후 채점 정보 캐시를 서버 응답으로 교체
+ * - 총점이 바뀌므로 점수를 쓰는 캐시 무효화
+ *   (대시보드 학생 답안·문항 분석, 통계 평균·성적 분포, 시험 제출 현황·통계, 학생 시험 이력)
+ * - 성공/실패 토스트 알림
+ *
+ * @example
+ * ```typescript
+ * const regradeMutation = useRegradeSubmission();
+ * regradeMutation.mutate({ submissionId, grades });
+ * ```
+ */
+export function useRegradeSubmission() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationKey: ["regradeSubmission"],
+    mutationFn: async (
+      params: RegradeSubmissionParams,
+    ): Promise<SubmissionGrading> => {
+      if (params.grades.length === 0) {
+        throw new Error("변경된 점수나 피드백이 없습니다.");
+      }
+      return regradeSubmission(params);
+    },
+    onSuccess: async (grading, { grades }) => {
+      queryClient.setQueryData(
+        gradingKeys.submission(grading.submissionId),
+        grading,
+      );
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: dashboardKeys.all }),
+        queryClient.invalidateQueries({ queryKey: statisticsKeys.all }),
+        queryClient.invalidateQueries({ queryKey: examKeys.submissions() }),
+        queryClient.invalidateQueries({ queryKey: examKeys.statistics() }),
+        queryClient.invalidateQueries({
+          queryKey: studentKeys.examHistories(),
+        }),
+      ]);
+      toast.success(
+        `${grades.length}개 문항을 재채점했습니다. (총점 ${grading.totalScore}점)`,
+      );
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error));
+    },
+  });
+}
@@ -0,0 +1,5 @@
+/**
+ * 학생 관련 커스텀 훅들
+ */
+
+export { useStudentRosterMutations } from "./useStudentRosterMutations";
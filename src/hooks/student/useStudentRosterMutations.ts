@@ -0,0 +1,164 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  studentKeys,
+  updateExamAssignedStudents,
+  updateStudent,
+  upsertStudent,
+} from "@/api/student";
+import type { RosterStudent } from "@/api/student";
+import { examKeys } from "@/api/exam/query";
+import { getErrorMessage } from "@/utils/errorHandling";
+import { validateStudentForm } from "@/utils/studentRoster";
+import type {
+  StudentFormValues,
+  StudentImportResult,
+} from "@/types/student-roster";
+
+/**
+ * 학생 등록 함수
+ * @description /auth/upsert-student로 학생을 등록(또는 기존 학생 조회)한 뒤 학년을 지정
+ */
+async function registerStudent(
+  values: StudentFormValues,
+): Promise<RosterStudent> {
+  const { grade, ...identity } = values;
+  const student = await upsertStudent(identity);
+  return updateStudent(student.id, { ...identity, grade });
+}
+
+/**
+ * 학생 명단 등록/수정/응시 대상 지정 커스텀 훅
+ * @description 학생 관리 화면에서 사용하는 변경 작업들을 TanStack Query mutation으로 제공
+ *
+ * 주요 기능:
+ * - 저장 전 입력값 검증 (이름, 010 전화번호, 생년월일)
+ * - CSV 일괄 등록 (행별 순차 처리, 실패 행 보고)
+ * - 시험 응시 대상 지정 후 시험 목록/제출 현황 캐시 무효화
+ * - 성공/실패 토스트 알림
+ */
+export function useStudentRosterMutations() {
+  const queryClient = useQueryClient();
+
+  const invalidateRoster = () =>
+    Promise.all([
+      queryClient.invalidateQueries({ queryKey: studentKeys.rosters() }),
+      queryClient.invalidateQueries({
+        queryKey: studentKeys.examRosterStatuses(),
+      }),
+    ]);
+
+  /**
+   * 학생 등록/수정 mutation
+   * @description studentId가 있으면 수정, 없으면 신규 등록
+   */
+  const saveMutation = useMutation({
+    mutationKey: ["saveStudent"],
+    mutationFn: async ({
+      studentId,
+      values,
+    }: {
+      studentId?: number;
+      values: StudentFormValues;
+    }): Promise<RosterStudent> => {
+      const validationError = validateStudentForm(values);
+      if (validationError) {
+        throw new Error(validationError);
+      }
+      return studentId
+        ? updateStudent(studentId, values)
+        : registerStudent(values);
+    },
+    onSuccess: async (student, { studentId }) => {
+      await invalidateRoster();
+      toast.success(
+        studentId
+          ? `${student.name} 학생 정보를 수정했습니다.`
+          : `${student.name} 학생을 등록했습니다.`,
+      );
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error));
+    },
+  });
+
+  /**
+   * CSV 일괄 등록 mutation
+   * @description 행마다 순서대로 등록하며 실패한 행은 건너뛰고 결과에 기록
+   */
+  const importMutation = useMutation({
+    mutationKey: ["importStudents"],
+    mutationFn: async ({
+      rows,
+      onProgress,
+    }: {
+      rows: Array<StudentFormValues & { line: number }>;
+      onProgress?: (done: number) => void;
+    }): Promise<StudentImportResult> => {
+      const result: StudentImportResult = { importedCount: 0, failures: [] };
+
+      for (const [index, { line, ...values }] of rows.entries()) {
+        try {
+          await registerStudent(values);
+          result.importedCount += 1;
+        } catch (error) {
+          result.failures.push({ line, message: getErrorMessage(error) });
+        }
+        onProgress?.(index + 1);
+      }
+
+      return result;
+    },
+    onSuccess: async ({ importedCount, failures }) => {
+      await invalidateRoster();
+      if (importedCount > 0) {
+        toast.success(`학생 ${importedCount}명을 등록했습니다.`);
+      }
+      if (failures.length > 0) {
+        toast.warning(`${failures.length}개 행은 등록하지 못했습니다.`, {
+          description: failures
+            .slice(0, 5)
+            .map((failure) => `${failure.line}행: ${failure.message}`)
+            .join("\n"),
+        });
+      }
+    },
+    onError: async (error) => {
+      await invalidateRoster();
+      toast.error(getErrorMessage(error));
+    },
+  });
+
+  /**
+   * 시험 응시 대상 지정 mutation
+   */
+  const assignMutation = useMutation({
+    mutationKey: ["assignExamStudents"],
+    mutationFn: ({
+      examId,
+      studentIds,
+    }: {
+      examId: string;
+      studentIds: number[];
+    }): Promise<number[]> => updateExamAssignedStudents(examId, studentIds),
+    onSuccess: async (studentIds, { examId }) => {
+      queryClient.setQueryData(studentKeys.examAssignment(examId), studentIds);
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: examKeys.all }),
+        queryClient.invalidateQueries({
+          queryKey: studentKeys.examRosterStatuses(),
+        }),
+      ]);
+      toast.success(`응시 대상 ${studentIds.length}명을 지정했습니다.`);
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error));
+    },
+  });
+
+  return {
+    saveMutation,
+    importMutation,
+    assignMutation,
+  };
+}
@@ -0,0 +1,46 @@
+import { useEffect, useRef } from "react";
+import { useRouter } from "@tanstack/react-router";
+import { useAtomValue } from "jotai";
+import type { FilterPresetAtoms } from "@/atoms/filterPresets";
+import type { FilterPresetSearch } from "@/types/filter-preset";
+import { hasFilterPresetSearch } from "@/utils/filterPresets";
+
+/**
+ * 기본 필터 프리셋 자동 적용 훅
+ * @description 페이지에 처음 들어왔을 때 URL에 필터가 없으면 기본 프리셋을 한 번 적용
+ *
+ * URL 파라미터를 atom에 동기화하는 effect보다 뒤에 호출해야 프리셋 값이 덮어쓰이지 않음
+ *
+ * @param atoms 목록 종류별 프리셋 원자 묶음
+ * @param searchKeys 프리셋이 저장하는 URL 파라미터 키 목록
+ * @param onApply 프리셋 적용 함수
+ */
+export function useDefaultFilterPreset<TSearch extends FilterPresetSearch>(
+  atoms: FilterPresetAtoms<TSearch>,
+  searchKeys: Array<keyof TSearch>,
+  onApply: (search: TSearch) => void,
+) {
+  const router = useRouter();
+  const presets = useAtomValue(atoms.presetsAtom);
+  const defaultPresetId = useAtomValue(atoms.defaultPresetIdAtom);
+  const isHandledRef = useRef(false);
+
+  useEffect(() => {
+    if (isHandledRef.current) return;
+    isHandledRef.current = true;
+
+    // 공유 링크나 북마크로 들어온 경우 URL 필터 우선
+    const currentSearch = router.latestLocation.search as Record<
+      string,
+      unknown
+    >;
+    if (hasFilterPresetSearch(currentSearch, searchKeys)) return;
+
+    const defaultPreset = presets.find(
+      (preset) => preset.id === defaultPresetId,
+    );
+    if (defaultPreset) {
+      onApply(defaultPreset.search);
+    }
+  }, [router, presets, defaultPresetId, searchKeys, onApply]);
+}
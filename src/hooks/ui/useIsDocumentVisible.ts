@@ -0,0 +1,21 @@
+import { useEffect, useState } from "react";
+
+/**
+ * 브라우저 탭 표시 여부를 반환하는 커스텀 훅
+ * @description visibilitychange 이벤트로 탭이 숨겨졌는지 추적 (SSR에서는 true)
+ * @returns 탭이 화면에 보이면 true
+ */
+export function useIsDocumentVisible() {
+  const [isVisible, setIsVisible] = useState(true);
+
+  useEffect(() => {
+    const handleChange = () => {
+      setIsVisible(document.visibilityState === "visible");
+    };
+    handleChange();
+    document.addEventListener("visibilitychange", handleChange);
+    return () => document.removeEventListener("visibilitychange", handleChange);
+  }, []);
+
+  return isVisible;
+}
@@ -9,22 +9,32 @@
 // Additionally, you should also exclude this file from your linter and/or formatter to prevent it from being checked or modified.
 
 import { Route as rootRouteImport } from './routes/__root'
+import { Route as PrintRouteRouteImport } from './routes/print/route'
 import { Route as MainRouteRouteImport } from './routes/main/route'
 import { Route as IndexRouteImport } from './routes/index'
 import { Route as MainIndexRouteImport } from './routes/main/index'
 import { Route as MainExamRouteRouteImport } from './routes/main/exam/route'
 import { Route as ExamplesPokemonRouteRouteImport } from './routes/examples/pokemon/route'
+import { Route as MainStudentsIndexRouteImport } from './routes/main/students/index'
 import { Route as MainStatisticsIndexRouteImport } from './routes/main/statistics/index'
 import { Route as ExamplesPokemonIndexRouteImport } from './routes/examples/pokemon/index'
 import { Route as MainExamSheetRouteRouteImport } from './routes/main/exam/sheet/route'
 import { Route as MainExamManageRouteRouteImport } from './routes/main/exam/manage/route'
+import { Route as PrintExamExamIdIndexRouteImport } from './routes/print/exam/$examId/index'
+import { Route as MainStudentsStudentIdIndexRouteImport } from './routes/main/students/$studentId/index'
 import { Route as MainExamManageIndexRouteImport } from './routes/main/exam/manage/index'
 import { Route as ExamplesPokemonIdIndexRouteImport } from './routes/examples/pokemon/$id/index'
+import { Route as PrintExamExamIdQrRouteImport } from './routes/print/exam/$examId/qr'
 import { Route as MainExamSheetManageRouteRouteImport } from './routes/main/exam/sheet/manage/route'
 import { Route as MainExamSheetManageIndexRouteImport } from './routes/main/exam/sheet/manage/index'
 import { Route as MainExamManageExamIdIndexRouteImport } from './routes/main/exam/manage/$examId/index'
-import { Route as MainExamSheetManageExamIdIndexRouteImport } from './routes/main/exam/sheet/manage/$examId/index'
+import { Route as MainExamSheetManageSheetIdIndexRouteImport } from './routes/main/exam/sheet/manage/$sheetId/index'
 
+const PrintRouteRoute = PrintRouteRouteImport.update({
+  id: '/print',
+  path: '/print',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const MainRouteRoute = MainRouteRouteImport.update({
   id: '/main',
   path: '/main',
@@ -50,6 +60,11 @@ const ExamplesPokemonRouteRoute = ExamplesPokemonRouteRouteImport.update({
   path: '/examples/pokemon',
   getParentRoute: () => rootRouteImport,
 } as any)
+const MainStudentsIndexRoute = MainStudentsIndexRouteImport.update({
+  id: '/students/',
+  path: '/students/',
+  getParentRoute: () => MainRouteRoute,
+} as any)
 const MainStatisticsIndexRoute = MainStatisticsIndexRouteImport.update({
   id: '/statistics/',
   path: '/statistics/',
@@ -70,6 +85,17 @@ const MainExamManageRouteRoute = MainExamManageRouteRouteImport.update({
   path: '/manage',
   getParentRoute: () => MainExamRouteRoute,
 } as any)
+const PrintExamExamIdIndexRoute = PrintExamExamIdIndexRouteImport.update({
+  id: '/exam/$examId/',
+  path: '/exam/$examId/',
+  getParentRoute: () => PrintRouteRoute,
+} as any)
+const MainStudentsStudentIdIndexRoute =
+  MainStudentsStudentIdIndexRouteImport.update({
+    id: '/students/$studentId/',
+    path: '/students/$studentId/',
+    getParentRoute: () => MainRouteRoute,
+  } as any)
 const MainExamManageIndexRoute = MainExamManageIndexRouteImport.update({
   id: '/',
   path: '/',
@@ -80,6 +106,11 @@ const ExamplesPokemonIdIndexRoute = ExamplesPokemonIdIndexRouteImport.update({
   path: '/$id/',
   getParentRoute: () => ExamplesPokemonRouteRoute,
 } as any)
+const PrintExamExamIdQrRoute = PrintExamExamIdQrRouteImport.update({
+  id: '/exam/$examId/qr',
+  path: '/exam/$examId/qr',
+  getParentRoute: () => PrintRouteRoute,
+} as any)
 const MainExamSheetManageRouteRoute =
   MainExamSheetManageRouteRouteImport.update({
     id: '/manage',
@@ -98,16 +129,17 @@ const MainExamManageExamIdIndexRoute =
     path: '/$examId/',
     getParentRoute: () => MainExamManageRouteRoute,
   } as any)
-const MainExamSheetManageExamIdIndexRoute =
-  MainExamSheetManageExamIdIndexRouteImport.update({
-    id: '/$examId/',
-    path: '/$examId/',
+const MainExamSheetManageSheetIdIndexRoute =
+  MainExamSheetManageSheetIdIndexRouteImport.update({
+    id: '/$sheetId/',
+    path: '/$sheetId/',
     getParentRoute: () => MainExamSheetManageRouteRoute,
   } as any)
 
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
   '/main': typeof MainRouteRouteWithChildren
+  '/print': typeof PrintRouteRouteWithChildren
   '/examples/pokemon': typeof ExamplesPokemonRouteRouteWithChildren
   '/main/exam': typeof MainExamRouteRouteWithChildren
   '/main/': typeof MainIndexRoute
@@ -115,30 +147,40 @@ export interface FileRoutesByFullPath {
   '/main/exam/sheet': typeof MainExamSheetRouteRouteWithChildren
   '/examples/pokemon/': typeof ExamplesPokemonIndexRoute
   '/main/statistics': typeof MainStatisticsIndexRoute
+  '/main/students': typeof MainStudentsIndexRoute
   '/main/exam/sheet/manage': typeof MainExamSheetManageRouteRouteWithChildren
+  '/print/exam/$examId/qr': typeof PrintExamExamIdQrRoute
   '/examples/pokemon/$id': typeof ExamplesPokemonIdIndexRoute
   '/main/exam/manage/': typeof MainExamManageIndexRoute
+  '/main/students/$studentId': typeof MainStudentsStudentIdIndexRoute
+  '/print/exam/$examId': typeof PrintExamExamIdIndexRoute
   '/main/exam/manage/$examId': typeof MainExamManageExamIdIndexRoute
   '/main/exam/sheet/manage/': typeof MainExamSheetManageIndexRoute
-  '/main/exam/sheet/manage/$examId': typeof MainExamSheetManageExamIdIndexRoute
+  '/main/exam/sheet/manage/$sheetId': typeof MainExamSheetManageSheetIdIndexRoute
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
+  '/print': typeof PrintRouteRouteWithChildren
   '/main/exam': typeof MainExamRouteRouteWithChildren
   '/main': typeof MainIndexRoute
   '/main/exam/sheet': typeof MainExamSheetRouteRouteWithChildren
   '/examples/pokemon': typeof ExamplesPokemonIndexRoute
   '/main/statistics': typeof MainStatisticsIndexRoute
+  '/main/students': typeof MainStudentsIndexRoute
+  '/print/exam/$examId/qr': typeof PrintExamExamIdQrRoute
   '/examples/pokemon/$id': typeof ExamplesPokemonIdIndexRoute
   '/main/exam/manage': typeof MainExamManageIndexRoute
+  '/main/students/$studentId': typeof MainStudentsStudentIdIndexRoute
+  '/print/exam/$examId': typeof PrintExamExamIdIndexRoute
   '/main/exam/manage/$examId': typeof MainExamManageExamIdIndexRoute
   '/main/exam/sheet/manage': typeof MainExamSheetManageIndexRoute
-  '/main/exam/sheet/manage/$examId': typeof MainExamSheetManageExamIdIndexRoute
+  '/main/exam/sheet/manage/$sheetId': typeof MainExamSheetManageSheetIdIndexRoute
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
   '/': typeof IndexRoute
   '/main': typeof MainRouteRouteWithChildren
+  '/print': typeof PrintRouteRouteWithChildren
   '/examples/pokemon': typeof ExamplesPokemonRouteRouteWithChildren
   '/main/exam': typeof MainExamRouteRouteWithChildren
   '/main/': typeof MainIndexRoute
@@ -146,18 +188,23 @@ export interface FileRoutesById {
   '/main/exam/sheet': typeof MainExamSheetRouteRouteWithChildren
   '/examples/pokemon/': typeof ExamplesPokemonIndexRoute
   '/main/statistics/': typeof MainStatisticsIndexRoute
+  '/main/students/': typeof MainStudentsIndexRoute
   '/main/exam/sheet/manage': typeof MainExamSheetManageRouteRouteWithChildren
+  '/print/exam/$examId/qr': typeof PrintExamExamIdQrRoute
   '/examples/pokemon/$id/': typeof ExamplesPokemonIdIndexRoute
   '/main/exam/manage/': typeof MainExamManageIndexRoute
+  '/main/students/$studentId/': typeof MainStudentsStudentIdIndexRoute
+  '/print/exam/$examId/': typeof PrintExamExamIdIndexRoute
   '/main/exam/manage/$examId/': typeof MainExamManageExamIdIndexRoute
   '/main/exam/sheet/manage/': typeof MainExamSheetManageIndexRoute
-  '/main/exam/sheet/manage/$examId/': typeof MainExamSheetManageExamIdIndexRoute
+  '/main/exam/sheet/manage/$sheetId/': typeof MainExamSheetManageSheetIdIndexRoute
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
   fullPaths:
     | '/'
     | '/main'
+    | '/print'
     | '/examples/pokemon'
     | '/main/exam'
     | '/main/'
@@ -165,29 +212,39 @@ export interface FileRouteTypes {
     | '/main/exam/sheet'
     | '/examples/pokemon/'
     | '/main/statistics'
+    | '/main/students'
     | '/main/exam/sheet/manage'
+    | '/print/exam/$examId/qr'
     | '/examples/pokemon/$id'
     | '/main/exam/manage/'
+    | '/main/students/$studentId'
+    | '/print/exam/$examId'
     | '/main/exam/manage/$examId'
     | '/main/exam/sheet/manage/'
-    | '/main/exam/sheet/manage/$examId'
+    | '/main/exam/sheet/manage/$sheetId'
   fileRoutesByTo: FileRoutesByTo
   to:
     | '/'
+    | '/print'
     | '/main/exam'
     | '/main'
     | '/main/exam/sheet'
     | '/examples/pokemon'
     | '/main/statistics'
+    | '/main/students'
+    | '/print/exam/$examId/qr'
     | '/examples/pokemon/$id'
     | '/main/exam/manage'
+    | '/main/students/$studentId'
+    | '/print/exam/$examId'
     | '/main/exam/manage/$examId'
     | '/main/exam/sheet/manage'
-    | '/main/exam/sheet/manage/$examId'
+    | '/main/exam/sheet/manage/$sheetId'
   id:
     | '__root__'
     | '/'
     | '/main'
+    | '/print'
     | '/examples/pokemon'
     | '/main/exam'
     | '/main/'
@@ -195,22 +252,34 @@ export interface FileRouteTypes {
     | '/main/exam/sheet'
     | '/examples/pokemon/'
     | '/main/statistics/'
+    | '/main/students/'
     | '/main/exam/sheet/manage'
+    | '/print/exam/$examId/qr'
     | '/examples/pokemon/$id/'
     | '/main/exam/manage/'
+    | '/main/students/$studentId/'
+    | '/print/exam/$examId/'
     | '/main/exam/manage/$examId/'
     | '/main/exam/sheet/manage/'
-    | '/main/exam/sheet/manage/$examId/'
+    | '/main/exam/sheet/manage/$sheetId/'
   fileRoutesById: FileRoutesById
 }
 export interface RootRouteChildren {
   IndexRoute: typeof IndexRoute
   MainRouteRoute: typeof MainRouteRouteWithChildren
+  PrintRouteRoute: typeof PrintRouteRouteWithChildren
   ExamplesPokemonRouteRoute: typeof ExamplesPokemonRouteRouteWithChildren
 }
 
 declare module '@tanstack/react-router' {
   interface FileRoutesByPath {
+    '/print': {
+      id: '/print'
+      path: '/print'
+      fullPath: '/print'
+      preLoaderRoute: typeof PrintRouteRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/main': {
       id: '/main'
       path: '/main'
@@ -246,6 +315,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ExamplesPokemonRouteRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/main/students/': {
+      id: '/main/students/'
+      path: '/students'
+      fullPath: '/main/students'
+      preLoaderRoute: typeof MainStudentsIndexRouteImport
+      parentRoute: typeof MainRouteRoute
+    }
     '/main/statistics/': {
       id: '/main/statistics/'
       path: '/statistics'
@@ -274,6 +350,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof MainExamManageRouteRouteImport
       parentRoute: typeof MainExamRouteRoute
     }
+    '/print/exam/$examId/': {
+      id: '/print/exam/$examId/'
+      path: '/exam/$examId'
+      fullPath: '/print/exam/$examId'
+      preLoaderRoute: typeof PrintExamExamIdIndexRouteImport
+      parentRoute: typeof PrintRouteRoute
+    }
+    '/main/students/$studentId/': {
+      id: '/main/students/$studentId/'
+      path: '/students/$studentId'
+      fullPath: '/main/students/$studentId'
+      preLoaderRoute: typeof MainStudentsStudentIdIndexRouteImport
+      parentRoute: typeof MainRouteRoute
+    }
     '/main/exam/manage/': {
       id: '/main/exam/manage/'
       path: '/'
@@ -288,6 +378,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ExamplesPokemonIdIndexRouteImport
       parentRoute: typeof ExamplesPokemonRouteRoute
     }
+    '/print/exam/$examId/qr': {
+      id: '/print/exam/$examId/qr'
+      path: '/exam/$examId/qr'
+      fullPath: '/print/exam/$examId/qr'
+      preLoaderRoute: typeof PrintExamExamIdQrRouteImport
+      parentRoute: typeof PrintRouteRoute
+    }
     '/main/exam/sheet/manage': {
       id: '/main/exam/sheet/manage'
       path: '/manage'
@@ -309,11 +406,11 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof MainExamManageExamIdIndexRouteImport
       parentRoute: typeof MainExamManageRouteRoute
     }
-    '/main/exam/sheet/manage/$examId/': {
-      id: '/main/exam/sheet/manage/$examId/'
-      path: '/$examId'
-      fullPath: '/main/exam/sheet/manage/$examId'
-      preLoaderRoute: typeof MainExamSheetManageExamIdIndexRouteImport
+    '/main/exam/sheet/manage/$sheetId/': {
+      id: '/main/exam/sheet/manage/$sheetId/'
+      path: '/$sheetId'
+      fullPath: '/main/exam/sheet/manage/$sheetId'
+      preLoaderRoute: typeof MainExamSheetManageSheetIdIndexRouteImport
       parentRoute: typeof MainExamSheetManageRouteRoute
     }
   }
@@ -334,13 +431,13 @@ const MainExamManageRouteRouteWithChildren =
 
 interface MainExamSheetManageRouteRouteChildren {
   MainExamSheetManageIndexRoute: typeof MainExamSheetManageIndexRoute
-  MainExamSheetManageExamIdIndexRoute: typeof MainExamSheetManageExamIdIndexRoute
+  MainExamSheetManageSheetIdIndexRoute: typeof MainExamSheetManageSheetIdIndexRoute
 }
 
 const MainExamSheetManageRouteRouteChildren: MainExamSheetManageRouteRouteChildren =
   {
     MainExamSheetManageIndexRoute: MainExamSheetManageIndexRoute,
-    MainExamSheetManageExamIdIndexRoute: MainExamSheetManageExamIdIndexRoute,
+    MainExamSheetManageSheetIdIndexRoute: MainExamSheetManageSheetIdIndexRoute,
   }
 
 const MainExamSheetManageRouteRouteWithChildren =
@@ -377,18 +474,36 @@ interface MainRouteRouteChildren {
   MainExamRouteRoute: typeof MainExamRouteRouteWithChildren
   MainIndexRoute: typeof MainIndexRoute
   MainStatisticsIndexRoute: typeof MainStatisticsIndexRoute
+  MainStudentsIndexRoute: typeof MainStudentsIndexRoute
+  MainStudentsStudentIdIndexRoute: typeof MainStudentsStudentIdIndexRoute
 }
 
 const MainRouteRouteChildren: MainRouteRouteChildren = {
   MainExamRouteRoute: MainExamRouteRouteWithChildren,
   MainIndexRoute: MainIndexRoute,
   MainStatisticsIndexRoute: MainStatisticsIndexRoute,
+  MainStudentsIndexRoute: MainStudentsIndexRoute,
+  MainStudentsStudentIdIndexRoute: MainStudentsStudentIdIndexRoute,
 }
 
 const MainRouteRouteWithChildren = MainRouteRoute._addFileChildren(
   MainRouteRouteChildren,
 )
 
+interface PrintRouteRouteChildren {
+  PrintExamExamIdQrRoute: typeof PrintExamExamIdQrRoute
+  PrintExamExamIdIndexRoute: typeof PrintExamExamIdIndexRoute
+}
+
+const PrintRouteRouteChildren: PrintRouteRouteChildren = {
+  PrintExamExamIdQrRoute: PrintExamExamIdQrRoute,
+  PrintExamExamIdIndexRoute: PrintExamExamIdIndexRoute,
+}
+
+const PrintRouteRouteWithChildren = PrintRouteRoute._addFileChildren(
+  PrintRouteRouteChildren,
+)
+
 interface ExamplesPokemonRouteRouteChildren {
   ExamplesPokemonIndexRoute: typeof ExamplesPokemonIndexRoute
   ExamplesPokemonIdIndexRoute: typeof ExamplesPokemonIdIndexRoute
@@ -405,6 +520,7 @@ const ExamplesPokemonRouteRouteWithChildren =
 const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
   MainRouteRoute: MainRouteRouteWithChildren,
+  PrintRouteRoute: PrintRouteRouteWithChildren,
   ExamplesPokemonRouteRoute: ExamplesPokemonRouteRouteWithChildren,
 }
 export const routeTree = rootRouteImport
@@ -10,10 +10,13 @@ import { TanStackDevtools } from "@tanstack/react-devtools";
 import TanStackQueryDevtools from "../integrations/tanstack-query/devtools";
 import type { QueryClient } from "@tanstack/react-query";
 import appCss from "@/css/root.css?url";
+import katexCss from "katex/dist/katex.min.css?url";
 import { useAtomValue } from "jotai";
 import { mainBgExtraCombinedClassAtom } from "@/atoms/ui";
 import { isAuthenticatedAtom } from "@/atoms/auth";
 import { cn } from "@/lib/utils";
+import { Toaster } from "@/components/ui/sonner";
+import { useSessionExpiredRedirect } from "@/hooks/auth";
 
 /**
  * 라우터 컨텍스트 타입 정의
@@ -92,6 +95,11 @@ export const Route = createRootRouteWithContext<MyRouterContext>()({
         rel: "stylesheet",
         href: appCss,
       },
+      // 문제 본문 수식(KaTeX) 스타일 - 폰트까지 번들에 포함되어 오프라인 동작
+      {
+        rel: "stylesheet",
+        href: katexCss,
+      },
       {
         rel: "preconnect",
         href: "https://fonts.googleapis.com",
@@ -132,6 +140,9 @@ function RootComponent() {
   const extra = useAtomValue(mainBgExtraCombinedClassAtom);
   const isAuthenticated = useAtomValue(isAuthenticatedAtom);
 
+  // 세션 갱신 최종 실패 시 인증 상태 초기화 후 로그인 페이지로 이동
+  useSessionExpiredRedirect();
+
   return (
     <>
       {/* <NavigationBar /> */}
@@ -144,6 +155,8 @@ function RootComponent() {
         {/* 하위 라우트가 렌더링되는 위치 */}
         <Outlet />
       </main>
+      {/* 전역 토스트 알림 */}
+      <Toaster richColors position="top-center" />
     </>
   );
 }
@@ -1,12 +1,36 @@
-import { createFileRoute } from "@tanstack/react-router";
+import { createFileRoute, redirect } from "@tanstack/react-router";
+import { zodValidator } from "@tanstack/zod-adapter";
+import { z } from "zod";
 import { LoginSection, ExplanationSection } from "@/components/auth";
 import { Card } from "@/components/ui/card";
+import { currentUserQueryOptions } from "@/api/auth";
+import { getSafeRedirectPath } from "@/utils/authRedirect";
+
+/**
+ * 로그인 페이지 검색 파라미터 스키마
+ * @description 인증 가드가 전달한 로그인 후 복귀 경로
+ */
+const loginSearchSchema = z.object({
+  /** 로그인 성공 후 이동할 원래 경로 */
+  redirect: z.string().optional(),
+});
 
 export const Route = createFileRoute("/")({
+  validateSearch: zodValidator(loginSearchSchema),
+  // 이미 로그인된 상태라면 로그인 폼 대신 원래 경로(또는 메인)로 이동
+  beforeLoad: async ({ context: { queryClient }, search }) => {
+    const user = await queryClient.ensureQueryData(currentUserQueryOptions());
+
+    if (user) {
+      throw redirect({ href: getSafeRedirectPath(search.redirect) });
+    }
+  },
   component: Home,
 });
 
 function Home() {
+  const { redirect: redirectTo } = Route.useSearch();
+
   return (
     <div className="flex flex-1 items-center justify-center">
       <Card className="h-fit w-full max-w-5xl overflow-hidden border-0 py-0 shadow-2xl">
@@ -14,7 +38,7 @@ function Home() {
           {/* 왼쪽 브랜딩 섹션 */}
           <ExplanationSection />
           {/* 오른쪽 로그인 섹션 */}
-          <LoginSection />
+          <LoginSection redirectTo={redirectTo} />
         </div>
       </Card>
     </div>
@@ -19,7 +19,24 @@ import {
   setSearchKeywordAtom,
   setSelectedGradeAtom,
   setExamPageAtom,
+  searchScopeAtom,
+  advancedSearchOptionsAtom,
+  dateRangeFiltersAtom,
+  questionCountRangeAtom,
+  participationRateRangeAtom,
+  unitFiltersAtom,
+  examTypeFiltersAtom,
+  examLifecycleFilterAtom,
+  setExamClientFiltersAtom,
+  applyExamFilterPresetAtom,
 } from "@/atoms/examFilters";
+import { examFilterPresetAtoms } from "@/atoms/filterPresets";
+import { useDefaultFilterPreset } from "@/hooks/ui/useDefaultFilterPreset";
+import { EXAM_FILTER_PRESET_SEARCH_KEYS } from "@/utils/filterPresets";
+import {
+  EXAM_FILTER_SEARCH_KEYS,
+  fromExamFilterSearch,
+} from "@/utils/examListFilters";
 import { examListQueryOptions } from "@/api/exam";
 import { examSheetListQueryOptions } from "@/api/exam-sheet";
 
@@ -31,6 +48,8 @@ import { examSheetListQueryOptions } from "@/api/exam-sheet";
  * - 페이징: page, size
  * - 정렬: sort
  * - 필터링: search, grade, recent
+ * - 클라이언트 필터: scope, caseSensitive, exactMatch, createdFrom/To, scheduledFrom/To,
+ *   questionMin/Max, participationMin/Max, units, types, status
  * - UI 상태: showSidebar, collapsedSidebar
  * - 네비게이션: selectedExam, examName
  */
@@ -43,6 +62,22 @@ const examManageSearchSchema = z.object({
   grade: z.string().optional(),
   recent: z.boolean().optional(),
 
+  // 클라이언트 필터 파라미터들 (현재 페이지 내 필터링)
+  scope: z.enum(["all", "examName", "unitName"]).optional(),
+  caseSensitive: z.boolean().optional(),
+  exactMatch: z.boolean().optional(),
+  createdFrom: z.string().optional(),
+  createdTo: z.string().optional(),
+  scheduledFrom: z.string().optional(),
+  scheduledTo: z.string().optional(),
+  questionMin: z.number().int().optional(),
+  questionMax: z.number().int().optional(),
+  participationMin: z.number().optional(),
+  participationMax: z.number().optional(),
+  units: z.array(z.string()).optional(),
+  types: z.array(z.enum(["objective", "subjective", "mixed"])).optional(),
+  status: z.enum(["scheduled", "open", "closed", "graded"]).optional(),
+
   // UI 상태 파라미터들
   showSidebar: z.boolean().optional(),
   collapsedSidebar: z.boolean().optional(),
@@ -59,7 +94,9 @@ export const Route = createFileRoute("/main/exam/manage/")({
     page: search.page || 0,
     size: search.size || 20,
     sort: search.sort || "createdAt,desc",
-    search: search.search || undefined,
+    // 단원명 검색은 서버가 지원하지 않으므로 search를 보내지 않음
+    search:
+      search.scope === "unitName" ? undefined : search.search || undefined,
     grade: search.grade ? parseInt(search.grade, 10) : undefined,
     recent: search.recent || undefined,
   }),
@@ -100,6 +137,9 @@ function RouteComponent() {
   // 현재 route의 필터링 파라미터 가져오기
   const searchParams = Route.useSearch();
 
+  // URL의 클라이언트 필터 파라미터 복원
+  const clientFilters = fromExamFilterSearch(searchParams);
+
   // SSR 하이드레이션 - URL 파라미터를 Jotai atoms에 동기화
   useHydrateAtoms([
     [searchKeywordAtom, searchParams.search || ""],
@@ -118,7 +158,21 @@ function RouteComponent() {
         ? searchParams.collapsedSidebar
         : false,
     ],
-  ]);
+    [searchScopeAtom, clientFilters.searchScope],
+    [
+      advancedSearchOptionsAtom,
+      {
+        caseSensitive: clientFilters.caseSensitive,
+        exactMatch: clientFilters.exactMatch,
+      },
+    ],
+    [dateRangeFiltersAtom, clientFilters.dateRange],
+    [questionCountRangeAtom, clientFilters.questionCountRange],
+    [participationRateRangeAtom, clientFilters.participationRateRange],
+    [unitFiltersAtom, clientFilters.units],
+    [examTypeFiltersAtom, clientFilters.examTypes],
+    [examLifecycleFilterAtom, clientFilters.lifecycle],
+  ] as const);
 
   // URL 파라미터 변경 시 atom 상태 동기화
   const setSearchKeyword = useSetAtom(setSearchKeywordAtom);
@@ -129,6 +183,15 @@ function RouteComponent() {
   const setRecentFilter = useSetAtom(recentExamFilterAtom);
   const setShowSidebar = useSetAtom(showFilterSidebarAtom);
   const setCollapsedSidebar = useSetAtom(collapsedFilterSidebarAtom);
+  const setClientFilters = useSetAtom(setExamClientFiltersAtom);
+  const applyFilterPreset = useSetAtom(applyExamFilterPresetAtom);
+
+  // 클라이언트 필터 파라미터를 문자열로 묶어 실제 값이 바뀔 때만 동기화
+  const clientFilterSearchKey = JSON.stringify(
+    Object.fromEntries(
+      EXAM_FILTER_SEARCH_KEYS.map((key) => [key, searchParams[key]]),
+    ),
+  );
 
   // URL 파라미터 변경 시 atom 동기화
   useEffect(() => {
@@ -179,6 +242,17 @@ function RouteComponent() {
     }
   }, [searchParams.collapsedSidebar, setCollapsedSidebar]);
 
+  useEffect(() => {
+    setClientFilters(fromExamFilterSearch(JSON.parse(clientFilterSearchKey)));
+  }, [clientFilterSearchKey, setClientFilters]);
+
+  // URL에 필터가 없으면 기본 프리셋 적용 (URL 동기화 effect 뒤에 실행되도록 마지막에 호출)
+  useDefaultFilterPreset(
+    examFilterPresetAtoms,
+    EXAM_FILTER_PRESET_SEARCH_KEYS,
+    applyFilterPreset,
+  );
+
   // 현재 활성 탭 상태
   const [activeTab, setActiveTab] = useState<string>("list");
 
@@ -0,0 +1,47 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { useSetAtom } from "jotai";
+import { useLayoutEffect } from "react";
+import { ExamSheetDetail } from "@/components/sheet/ExamSheetDetail";
+import {
+  examSheetDetailQueryOptions,
+  examSheetUsageQueryOptions,
+} from "@/api/exam-sheet";
+import { isShowHeaderAtom } from "@/atoms/ui";
+import logger from "@/utils/logger";
+
+export const Route = createFileRoute("/main/exam/sheet/manage/$sheetId/")({
+  loader: async ({ context, params }) => {
+    const { sheetId } = params;
+    const { queryClient } = context;
+
+    logger.info(`[SSR] sheetId 로더: ${sheetId}`);
+
+    try {
+      await Promise.all([
+        queryClient.prefetchQuery(examSheetDetailQueryOptions(sheetId)),
+        queryClient.prefetchQuery(examSheetUsageQueryOptions(sheetId)),
+      ]);
+    } catch (error) {
+      logger.error(
+        `[SSR] 문제지 상세 데이터 로딩 실패 (sheetId: ${sheetId}):`,
+        error,
+      );
+    }
+  },
+  component: ExamSheetDetailPage,
+});
+
+function ExamSheetDetailPage() {
+  const { sheetId } = Route.useParams();
+  const setIsShowHeader = useSetAtom(isShowHeaderAtom);
+
+  useLayoutEffect(() => {
+    setIsShowHeader(true);
+  }, [setIsShowHeader]);
+
+  return (
+    <div className="w-full h-full py-5">
+      <ExamSheetDetail sheetId={sheetId} />
+    </div>
+  );
+}
@@ -21,7 +21,11 @@ import {
   setSelectedSheetGradeAtom,
   setSheetPageAtom,
 } from "@/atoms/sheetFilters";
+import { sheetFilterPresetAtoms } from "@/atoms/filterPresets";
 import { examSheetListQueryOptions } from "@/api/exam-sheet";
+import { useApplySheetFilterPreset } from "@/hooks/exam-sheet";
+import { useDefaultFilterPreset } from "@/hooks/ui/useDefaultFilterPreset";
+import { SHEET_FILTER_PRESET_SEARCH_KEYS } from "@/utils/filterPresets";
 
 /**
  * 시험지 관리 페이지 검색 파라미터 스키마
@@ -170,6 +174,14 @@ function RouteComponent() {
     }
   }, [searchParams.collapsedSidebar, setCollapsedSidebar]);
 
+  // URL에 필터가 없으면 기본 프리셋 적용 (URL 동기화 effect 뒤에 실행되도록 마지막에 호출)
+  const applyFilterPreset = useApplySheetFilterPreset();
+  useDefaultFilterPreset(
+    sheetFilterPresetAtoms,
+    SHEET_FILTER_PRESET_SEARCH_KEYS,
+    applyFilterPreset,
+  );
+
   useLayoutEffect(() => {
     setIsShowHeader(false);
   }, [setIsShowHeader]);
@@ -1,8 +1,28 @@
 import { SideNavigationBar } from "@/components/layout/SideMenu";
-import { createFileRoute, Outlet } from "@tanstack/react-router";
+import { createFileRoute, Outlet, redirect } from "@tanstack/react-router";
 import { HeaderTitle } from "@/components/layout/HeaderTitle";
+import { currentUserQueryOptions } from "@/api/auth";
 
 export const Route = createFileRoute("/main")({
+  /**
+   * 인증 가드
+   * @description /main 하위 모든 라우트 진입 전에 서버 세션 확인
+   *
+   * - SSR/클라이언트 모두 currentUser 쿼리로 세션 확인 (SSR에서는 요청 쿠키 전달)
+   * - 미인증 시 로그인 페이지로 이동하며 원래 경로를 `redirect`로 전달
+   */
+  beforeLoad: async ({ context: { queryClient }, location }) => {
+    const user = await queryClient.ensureQueryData(currentUserQueryOptions());
+
+    if (!user) {
+      throw redirect({
+        to: "/",
+        search: { redirect: location.href },
+      });
+    }
+
+    return { user };
+  },
   component: RouteComponent,
 });
 
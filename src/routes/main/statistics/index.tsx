@@ -9,6 +9,7 @@ import {
 import {
   unitWrongAnswerRatesQueryOptions,
   scoreDistributionQueryOptions,
+  examAverageScoresQueryOptions,
 } from "@/api/statistics";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
@@ -18,7 +19,7 @@ import {
   ChartLegend,
   ChartLegendContent,
 } from "@/components/ui/chart";
-import { createFileRoute } from "@tanstack/react-router";
+import { createFileRoute, useNavigate } from "@tanstack/react-router";
 import { useAtomValue, useSetAtom, useAtom } from "jotai";
 import { useLayoutEffect } from "react";
 import {
@@ -43,14 +44,30 @@ function AverageTooltip(props: TooltipProps<number, string>) {
   if (!active || !payload || payload.length === 0) return null;
   const data = (
     payload[0] as unknown as {
-      payload: { name: string; avg: number; participants?: number };
+      payload: {
+        name: string;
+        date?: string;
+        avg: number;
+        participants?: number;
+        submissionRate?: number;
+      };
     }
   ).payload;
   return (
     <div className="border-border/50 bg-background grid min-w-[10rem] gap-1.5 rounded-md border px-3 py-2 text-xs shadow-xl">
       <div className="font-medium">{data.name || label}</div>
-      <div>시험 본 인원: {data.participants ?? "-"}</div>
+      {data.date && (
+        <div className="text-muted-foreground">
+          {new Date(data.date).toLocaleDateString("ko-KR")}
+        </div>
+      )}
+      <div>
+        시험 본 인원: {data.participants ?? "-"}명
+        {data.submissionRate !== undefined &&
+          ` (제출률 ${data.submissionRate}%)`}
+      </div>
       <div>평균: {data.avg}점</div>
+      <div className="text-muted-foreground">클릭하면 시험 상세로 이동</div>
     </div>
   );
 }
@@ -88,19 +105,29 @@ export const Route = createFileRoute("/main/statistics/")({
         unitWrongAnswerRatesQueryOptions({ grade: 1 }),
       ),
       queryClient.ensureQueryData(scoreDistributionQueryOptions({ grade: 1 })),
+      queryClient.ensureQueryData(
+        examAverageScoresQueryOptions({ grade: 1, limit: 10 }),
+      ),
       queryClient.ensureQueryData(
         unitWrongAnswerRatesQueryOptions({ grade: 2 }),
       ),
       queryClient.ensureQueryData(scoreDistributionQueryOptions({ grade: 2 })),
+      queryClient.ensureQueryData(
+        examAverageScoresQueryOptions({ grade: 2, limit: 10 }),
+      ),
       queryClient.ensureQueryData(
         unitWrongAnswerRatesQueryOptions({ grade: 3 }),
       ),
       queryClient.ensureQueryData(scoreDistributionQueryOptions({ grade: 3 })),
+      queryClient.ensureQueryData(
+        examAverageScoresQueryOptions({ grade: 3, limit: 10 }),
+      ),
     ]);
   },
 });
 
 function RouteComponent() {
+  const navigate = useNavigate();
   const setIsShowHeader = useSetAtom(isShowHeaderAtom);
   const [selectedGrade, setSelectedGrade] = useAtom(selectedGradeAtom);
   const gradeStats = useAtomValue(selectedGradeStatsAtom);
@@ -128,6 +155,20 @@ function RouteComponent() {
     setSelectedGrade(grade);
   };
 
+  // 평균 차트 포인트 클릭 시 해당 시험 상세 페이지로 이동
+  const handleAverageChartClick = (state: { activeTooltipIndex?: number }) => {
+    const point =
+      state?.activeTooltipIndex !== undefined
+        ? chartData[state.activeTooltipIndex]
+        : undefined;
+    if (!point) return;
+
+    navigate({
+      to: "/main/exam/manage/$examId",
+      params: { examId: point.examId },
+    });
+  };
+
   // 로딩 상태 처리
   if (isLoading) {
     return (
@@ -176,10 +217,11 @@ function RouteComponent() {
               <div className="space-y-2 text-lg ">
                 <span className="text-gray-800">시험 통계는 </span>
                 <span className="text-blue-800">
-                  현재 평균점수 기반의 시험별 추정 평균
+                  최근 시험별 실제 평균 점수와 응시 인원
                 </span>
                 <span className="text-gray-800">
-                  을 꺽은선 그래프로 보여주며,
+                  을 시험 날짜순 꺽은선 그래프로 보여주며(점을 누르면 시험
+                  상세로 이동),
                 </span>
                 <span className="text-blue-800">
                   실제 단원별 오답률 상위 4개 단원을 퍼센트로 표시해 취약 영역을
@@ -231,7 +273,7 @@ function RouteComponent() {
       <div className="flex flex-1 gap-4">
         <div className="flex-1 w-1/2 flex flex-col gap-4">
           <div className="flex w-full h-[15%] bg-blue-200 text-center items-center justify-center font-extrabold text-xl">
-            시험별 평균 점수 (중{selectedGrade} - 추정)
+            시험별 평균 점수 (중{selectedGrade} - 실제 데이터)
           </div>
           <div className="flex-1 w-full h-full">
             {chartData.length === 0 ? (
@@ -246,6 +288,8 @@ function RouteComponent() {
                 <LineChart
                   data={chartData}
                   margin={{ left: 24, right: 16, top: 8, bottom: 8 }}
+                  onClick={handleAverageChartClick}
+                  className="cursor-pointer"
                 >
                   <CartesianGrid strokeDasharray="3 3" />
                   <XAxis dataKey="name" padding={{ left: 24, right: 24 }} />
@@ -0,0 +1,62 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { useAtomValue, useSetAtom } from "jotai";
+import { useLayoutEffect } from "react";
+import { z } from "zod";
+import { StudentProfile } from "@/components/student";
+import { examAverageScoresQueryOptions } from "@/api/statistics";
+import { scoreDistributionQueryOptions } from "@/api/dashboard";
+import { selectedGradeAtom } from "@/atoms/dashboard";
+import { isShowHeaderAtom } from "@/atoms/ui";
+import logger from "@/utils/logger";
+
+export const Route = createFileRoute("/main/students/$studentId/")({
+  validateSearch: z.object({
+    /** 조회 학년 (없으면 헤더에서 선택한 학년 사용) */
+    grade: z
+      .union([z.literal(1), z.literal(2), z.literal(3)])
+      .optional()
+      .catch(undefined),
+  }),
+  loaderDeps: ({ search }) => ({ grade: search.grade }),
+  loader: async ({ context, deps, params }) => {
+    const { queryClient } = context;
+    if (!deps.grade) return;
+
+    try {
+      await Promise.all([
+        queryClient.prefetchQuery(
+          examAverageScoresQueryOptions({ grade: deps.grade, limit: 50 }),
+        ),
+        queryClient.prefetchQuery(
+          scoreDistributionQueryOptions({ grade: deps.grade }),
+        ),
+      ]);
+    } catch (error) {
+      logger.error(
+        `[SSR] 학생 프로필 통계 로딩 실패 (studentId: ${params.studentId}):`,
+        error,
+      );
+    }
+  },
+  component: StudentProfilePage,
+});
+
+function StudentProfilePage() {
+  const { studentId } = Route.useParams();
+  const { grade } = Route.useSearch();
+  const selectedGrade = useAtomValue(selectedGradeAtom);
+  const setIsShowHeader = useSetAtom(isShowHeaderAtom);
+
+  useLayoutEffect(() => {
+    setIsShowHeader(false);
+  }, [setIsShowHeader]);
+
+  return (
+    <div className="w-full h-full py-5">
+      <StudentProfile
+        studentId={Number(studentId)}
+        grade={grade ?? selectedGrade}
+      />
+    </div>
+  );
+}
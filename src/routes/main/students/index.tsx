@@ -0,0 +1,24 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { useSetAtom } from "jotai";
+import { useLayoutEffect } from "react";
+import { StudentRoster } from "@/components/student";
+import { isShowHeaderAtom } from "@/atoms/ui";
+
+export const Route = createFileRoute("/main/students/")({
+  component: StudentRosterPage,
+});
+
+function StudentRosterPage() {
+  const setIsShowHeader = useSetAtom(isShowHeaderAtom);
+
+  useLayoutEffect(() => {
+    setIsShowHeader(false);
+  }, [setIsShowHeader]);
+
+  return (
+    <div className="w-full h-full py-5 space-y-4">
+      <h2 className="text-2xl font-bold">학생 관리</h2>
+      <StudentRoster />
+    </div>
+  );
+}
@@ -0,0 +1,213 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { createFileRoute } from "@tanstack/react-router";
+import { zodValidator } from "@tanstack/zod-adapter";
+import { useQuery } from "@tanstack/react-query";
+import { z } from "zod";
+import { Loader2 } from "lucide-react";
+import { examQuestionsQueryOptions } from "@/api/exam/query";
+import { examAnswerKeyQueryOptions } from "@/api/dashboard";
+import { ExamPrintTemplate } from "@/components/exam/ExamPrintTemplate";
+import {
+  EXAM_PRINT_KIND_LABEL,
+  EXAM_PRINT_MESSAGE,
+  toExamPrintDocument,
+  waitForPrintAssets,
+} from "@/utils/examPrint";
+import {
+  EXAM_VERSION_LABELS,
+  MAX_EXAM_VERSION_COUNT,
+  toExamVersionDocument,
+} from "@/utils/examVersions";
+import logger from "@/utils/logger";
+
+/**
+ * 인쇄 문서 검색 파라미터 스키마
+ * - kind: 문서 종류 (문제지/문제 답안지/학생 답안지)
+ * - columns: 문제 배치 단 수
+ * - version: 버전 라벨 (지정하면 해당 버전 순서로 섞어 출력, 없으면 원래 순서)
+ * - versions: 버전별 정답표에 포함할 버전 수 (kind=versionKey)
+ * - autoPrint: 준비가 끝나면 바로 인쇄 대화상자 열기 (iframe 인쇄용)
+ */
+const examPrintSearchSchema = z.object({
+  kind: z
+    .enum(["problem", "answer", "studentAnswer", "versionKey"])
+    .default("problem")
+    .catch("problem"),
+  columns: z
+    .union([z.literal(1), z.literal(2)])
+    .default(1)
+    .catch(1),
+  version: z.enum(EXAM_VERSION_LABELS).optional().catch(undefined),
+  versions: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_EXAM_VERSION_COUNT)
+    .default(1)
+    .catch(1),
+  autoPrint: z.boolean().optional(),
+});
+
+/** 정답표가 비어 있을 때 안내 문구 (문제 답안지·버전별 정답표) */
+const ANSWER_KEY_EMPTY_MESSAGE =
+  "제출된 답안이 없어 정답을 확인할 수 없습니다. 학생 제출 후 다시 인쇄해주세요.";
+
+/**
+ * 시험 인쇄 문서 라우트
+ * @description 문서 종류별로 독립된 A4 문서를 렌더링
+ *
+ * 헤드리스 PDF 생성 (Playwright):
+ * 1. `/print/exam/{examId}?kind=answer&columns=2&version=B`로 이동 (로그인 세션 필요)
+ * 2. `[data-print-ready="true"]`가 나타날 때까지 대기 (글꼴·이미지 로딩 완료)
+ * 3. `page.pdf({ format: "A4", preferCSSPageSize: true })`
+ *
+ * 쪽수·문항 분할 검증: e2e/print-exam.e2e.ts (`npm run test:e2e`)
+ */
+export const Route = createFileRoute("/print/exam/$examId/")({
+  validateSearch: zodValidator(examPrintSearchSchema),
+  loaderDeps: ({ search }) => ({ kind: search.kind }),
+  loader: async ({ context, params, deps }) => {
+    const { examId } = params;
+    const { queryClient } = context;
+
+    try {
+      await Promise.all([
+        queryClient.ensureQueryData(examQuestionsQueryOptions(examId)),
+        deps.kind === "answer" || deps.kind === "versionKey"
+          ? queryClient.ensureQueryData(examAnswerKeyQueryOptions(examId))
+          : Promise.resolve(),
+      ]);
+    } catch (error) {
+      logger.error(
+        `[SSR] 인쇄 문서 데이터 로딩 실패 (examId: ${examId}):`,
+        error,
+      );
+    }
+  },
+  head: () => ({
+    meta: [{ title: "시험 인쇄" }],
+  }),
+  component: ExamPrintPage,
+});
+
+function ExamPrintPage() {
+  const { examId } = Route.useParams();
+  const { kind, columns, version, versions, autoPrint } = Route.useSearch();
+  const documentRef = useRef<HTMLDivElement>(null);
+  const [isReady, setIsReady] = useState(false);
+
+  const isAnswerKeyNeeded = kind === "answer" || kind === "versionKey";
+  const examQuery = useQuery(examQuestionsQueryOptions(examId));
+  const answerKeyQuery = useQuery({
+    ...examAnswerKeyQueryOptions(examId),
+    enabled: !!examId && isAnswerKeyNeeded,
+  });
+
+  const isLoading =
+    examQuery.isPending || (isAnswerKeyNeeded && answerKeyQuery.isPending);
+  const error =
+    examQuery.error ?? (isAnswerKeyNeeded ? answerKeyQuery.error : null);
+  // 정답이 하나도 없으면 빈 정답란 대신 "정답 정보 없음" 상태로 중단
+  const isAnswerKeyEmpty =
+    isAnswerKeyNeeded &&
+    answerKeyQuery.isSuccess &&
+    Object.keys(answerKeyQuery.data).length === 0;
+
+  const printDocument = useMemo(() => {
+    if (!examQuery.data) return null;
+    const data = toExamPrintDocument(examQuery.data, answerKeyQuery.data);
+    // 버전별 정답표는 원래 순서를 기준으로 표를 만듦
+    return version && kind !== "versionKey"
+      ? toExamVersionDocument(data, version)
+      : data;
+  }, [examQuery.data, answerKeyQuery.data, version, kind]);
+
+  // 글꼴·이미지 로딩이 끝나면 준비 완료 표시, 자동 인쇄 시 인쇄 대화상자 열기
+  useEffect(() => {
+    const root = documentRef.current;
+    if (!printDocument || !root) return;
+
+    let isCancelled = false;
+    setIsReady(false);
+
+    waitForPrintAssets(root).then(() => {
+      if (isCancelled) return;
+      setIsReady(true);
+      if (!autoPrint) return;
+
+      window.addEventListener(
+        "afterprint",
+        () =>
+          window.parent.postMessage(
+            { type: EXAM_PRINT_MESSAGE.done, kind },
+            window.location.origin,
+          ),
+        { once: true },
+      );
+      window.print();
+    });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [printDocument, autoPrint, kind]);
+
+  // 데이터 로딩 실패·정답 정보 없음 시 부모 창에 알림 (iframe 인쇄 중단)
+  useEffect(() => {
+    if (!autoPrint || (!error && !isAnswerKeyEmpty)) return;
+    window.parent.postMessage(
+      {
+        type: EXAM_PRINT_MESSAGE.error,
+        kind,
+        message: error
+          ? String(error)
+          : `정답 정보 없음: ${ANSWER_KEY_EMPTY_MESSAGE}`,
+      },
+      window.location.origin,
+    );
+  }, [error, isAnswerKeyEmpty, autoPrint, kind]);
+
+  if (error) {
+    return (
+      <div className="flex h-screen items-center justify-center">
+        <p className="text-destructive">
+          {EXAM_PRINT_KIND_LABEL[kind]}를 불러올 수 없습니다.
+        </p>
+      </div>
+    );
+  }
+
+  if (isAnswerKeyEmpty) {
+    return (
+      <div
+        className="flex h-screen flex-col items-center justify-center gap-2"
+        data-testid="exam-print-answer-key-empty"
+      >
+        <p className="text-lg font-semibold text-destructive">정답 정보 없음</p>
+        <p className="text-sm text-muted-foreground">
+          {ANSWER_KEY_EMPTY_MESSAGE}
+        </p>
+      </div>
+    );
+  }
+
+  if (isLoading || !printDocument) {
+    return (
+      <div className="flex h-screen items-center justify-center gap-2 text-muted-foreground">
+        <Loader2 className="h-5 w-5 animate-spin" />
+        <span>{EXAM_PRINT_KIND_LABEL[kind]}를 준비하고 있습니다...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div ref={documentRef} data-print-ready={isReady}>
+      <ExamPrintTemplate
+        data={printDocument}
+        printType={kind}
+        columns={columns}
+        versionCount={versions}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,251 @@
+import { useEffect, useMemo, useState } from "react";
+import { createFileRoute, useNavigate } from "@tanstack/react-router";
+import { zodValidator } from "@tanstack/zod-adapter";
+import { useQuery } from "@tanstack/react-query";
+import { z } from "zod";
+import { Loader2, Maximize, Minimize, Printer } from "lucide-react";
+import { examDetailQueryOptions } from "@/api/exam/query";
+import {
+  ExamQrBoard,
+  ExamQrPoster,
+  ExamQrSlips,
+} from "@/components/exam/ExamQrSheet";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { ExamQrLayout } from "@/types/exam-qr";
+import {
+  DEFAULT_EXAM_QR_SLIPS_PER_PAGE,
+  EXAM_QR_SLIPS_PER_PAGE_OPTIONS,
+  MAX_EXAM_QR_SLIP_COUNT,
+  buildExamQrPageCss,
+  toExamQrInfo,
+} from "@/utils/examQr";
+import { cn } from "@/lib/utils";
+import logger from "@/utils/logger";
+
+/** QR 안내문 배치 라벨 */
+const EXAM_QR_LAYOUT_LABEL: Record<ExamQrLayout, string> = {
+  poster: "포스터",
+  slips: "학생용 쪽지",
+  board: "칠판 표시",
+};
+
+/**
+ * QR 안내문 검색 파라미터 스키마
+ * - layout: 배치 (포스터/학생용 쪽지/칠판 표시)
+ * - perPage: 학생용 쪽지 한 쪽 장수
+ * - count: 학생용 쪽지 전체 장수
+ */
+const examQrSearchSchema = z.object({
+  layout: z
+    .enum(["poster", "slips", "board"])
+    .default("poster")
+    .catch("poster"),
+  perPage: z
+    .union([z.literal(4), z.literal(6), z.literal(8), z.literal(10)])
+    .default(DEFAULT_EXAM_QR_SLIPS_PER_PAGE)
+    .catch(DEFAULT_EXAM_QR_SLIPS_PER_PAGE),
+  count: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_EXAM_QR_SLIP_COUNT)
+    .optional()
+    .catch(undefined),
+});
+
+/**
+ * 시험 QR 안내문 라우트
+ * @description 학생이 온라인 시험에 들어가는 QR 코드를 포스터·쪽지로 인쇄하거나 프로젝터로 크게 표시
+ *
+ * - 서버 QR 코드 이미지(qrCodeUrl)가 없으면 응시 주소(VITE_STUDENT_EXAM_URL_BASE)로 QR 코드를 직접 생성하고 대체 QR 코드임을 표시
+ * - 도구 모음은 화면에서만 보이고 인쇄에서는 제외
+ */
+export const Route = createFileRoute("/print/exam/$examId/qr")({
+  validateSearch: zodValidator(examQrSearchSchema),
+  loader: async ({ context, params }) => {
+    const { examId } = params;
+
+    try {
+      await context.queryClient.ensureQueryData(examDetailQueryOptions(examId));
+    } catch (error) {
+      logger.error(
+        `[SSR] QR 안내문 데이터 로딩 실패 (examId: ${examId}):`,
+        error,
+      );
+    }
+  },
+  head: () => ({
+    meta: [{ title: "시험 QR 코드" }],
+  }),
+  component: ExamQrPage,
+});
+
+function ExamQrPage() {
+  const { examId } = Route.useParams();
+  const { layout, perPage, count } = Route.useSearch();
+  const navigate = useNavigate({ from: Route.fullPath });
+  const [isFullscreen, setIsFullscreen] = useState(false);
+
+  const {
+    data: exam,
+    isPending,
+    error,
+  } = useQuery(examDetailQueryOptions(examId));
+  const info = useMemo(() => (exam ? toExamQrInfo(exam) : null), [exam]);
+  const slipCount = count ?? perPage;
+
+  // 전체 화면 상태 동기화 (Esc로 빠져나온 경우 포함)
+  useEffect(() => {
+    const handleChange = () => setIsFullscreen(!!document.fullscreenElement);
+    document.addEventListener("fullscreenchange", handleChange);
+    return () => document.removeEventListener("fullscreenchange", handleChange);
+  }, []);
+
+  /**
+   * 전체 화면 전환 핸들러
+   */
+  const handleToggleFullscreen = async () => {
+    try {
+      if (document.fullscreenElement) {
+        await document.exitFullscreen();
+      } else {
+        await document.documentElement.requestFullscreen();
+      }
+    } catch (fullscreenError) {
+      logger.error("[ExamQrPage] 전체 화면 전환 실패", fullscreenError);
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="flex h-screen items-center justify-center">
+        <p className="text-destructive">시험 정보를 불러올 수 없습니다.</p>
+      </div>
+    );
+  }
+
+  if (isPending || !info) {
+    return (
+      <div className="flex h-screen items-center justify-center gap-2 text-muted-foreground">
+        <Loader2 className="h-5 w-5 animate-spin" />
+        <span>QR 코드를 준비하고 있습니다...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full">
+      <style>{buildExamQrPageCss()}</style>
+
+      {/* 도구 모음 (인쇄·전체 화면에서는 숨김) */}
+      {!isFullscreen && (
+        <div className="sticky top-0 z-10 flex flex-wrap items-center gap-2 border-b bg-white px-6 py-3 print:hidden">
+          {(Object.keys(EXAM_QR_LAYOUT_LABEL) as ExamQrLayout[]).map(
+            (value) => (
+              <Button
+                key={value}
+                variant={layout === value ? "default" : "outline"}
+                size="sm"
+                aria-pressed={layout === value}
+                onClick={() =>
+                  navigate({
+                    search: (prev) => ({ ...prev, layout: value }),
+                    replace: true,
+                  })
+                }
+              >
+                {EXAM_QR_LAYOUT_LABEL[value]}
+              </Button>
+            ),
+          )}
+
+          {layout === "slips" && (
+            <div className="ml-4 flex items-center gap-2 text-sm">
+              <span>한 쪽에</span>
+              {EXAM_QR_SLIPS_PER_PAGE_OPTIONS.map((value) => (
+                <Button
+                  key={value}
+                  variant={perPage === value ? "secondary" : "ghost"}
+                  size="sm"
+                  aria-pressed={perPage === value}
+                  onClick={() =>
+                    navigate({
+                      search: (prev) => ({ ...prev, perPage: value }),
+                      replace: true,
+                    })
+                  }
+                >
+                  {value}장
+                </Button>
+              ))}
+              <label htmlFor="exam-qr-slip-count" className="ml-2">
+                전체
+              </label>
+              <Input
+                id="exam-qr-slip-count"
+                type="number"
+                min={1}
+                max={MAX_EXAM_QR_SLIP_COUNT}
+                value={slipCount}
+                onChange={(event) => {
+                  const value = Number(event.target.value);
+                  if (
+                    !Number.isInteger(value) ||
+                    value < 1 ||
+                    value > MAX_EXAM_QR_SLIP_COUNT
+                  ) {
+                    return;
+                  }
+                  navigate({
+                    search: (prev) => ({ ...prev, count: value }),
+                    replace: true,
+                  });
+                }}
+                className="h-8 w-20"
+              />
+              <span>장</span>
+            </div>
+          )}
+
+          <div className="ml-auto flex gap-2">
+            {layout === "board" ? (
+              <Button size="sm" onClick={handleToggleFullscreen}>
+                <Maximize className="h-4 w-4" />
+                전체 화면
+              </Button>
+            ) : (
+              <Button size="sm" onClick={() => window.print()}>
+                <Printer className="h-4 w-4" />
+                인쇄
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className={cn(layout !== "board" && "py-6 print:py-0", "relative")}>
+        {layout === "poster" && <ExamQrPoster info={info} />}
+        {layout === "slips" && (
+          <ExamQrSlips info={info} count={slipCount} perPage={perPage} />
+        )}
+        {layout === "board" && (
+          <>
+            <ExamQrBoard info={info} />
+            {isFullscreen && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleToggleFullscreen}
+                className="absolute right-4 top-4 text-neutral-400 hover:bg-neutral-800 hover:text-white"
+              >
+                <Minimize className="h-4 w-4" />
+                전체 화면 종료
+              </Button>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
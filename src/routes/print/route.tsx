@@ -0,0 +1,34 @@
+import { createFileRoute, Outlet, redirect } from "@tanstack/react-router";
+import { currentUserQueryOptions } from "@/api/auth";
+
+export const Route = createFileRoute("/print")({
+  /**
+   * 인증 가드
+   * @description 인쇄 문서도 시험 문제를 노출하므로 /main과 같은 세션 확인을 거침
+   */
+  beforeLoad: async ({ context: { queryClient }, location }) => {
+    const user = await queryClient.ensureQueryData(currentUserQueryOptions());
+
+    if (!user) {
+      throw redirect({
+        to: "/",
+        search: { redirect: location.href },
+      });
+    }
+
+    return { user };
+  },
+  component: RouteComponent,
+});
+
+/**
+ * 인쇄 전용 레이아웃
+ * @description 사이드 메뉴·헤더 없이 문서만 렌더링 (iframe 인쇄, 새 창 미리보기, 헤드리스 PDF 생성용)
+ */
+function RouteComponent() {
+  return (
+    <div className="w-full min-h-full bg-neutral-200 print:bg-white">
+      <Outlet />
+    </div>
+  );
+}
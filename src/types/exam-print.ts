@@ -0,0 +1,123 @@
+/**
+ * 시험 인쇄 관련 타입 정의
+ * @description 문제지, 문제 답안지, 학생 답안지(OMR)를 각각 독립된 A4 문서로 인쇄하기 위한 타입
+ */
+
+import type { QuestionType } from "@/api/exam/exam-questions-types";
+
+/**
+ * 인쇄 문서 종류
+ * - `problem`: 문제지 - 학생이 푸는 문제만 포함
+ * - `answer`: 문제 답안지 - 문제와 정답이 함께 표시된 교사용 문서
+ * - `studentAnswer`: 학생 답안지 - 학생이 답을 표기하는 OMR 형태 답안지
+ * - `versionKey`: 버전별 정답표 - 버전마다 섞인 번호·정답과 원래 문항 순서(seqNo)를 한 표로 정리한 교사용 문서
+ */
+export type ExamPrintKind =
+  | "problem"
+  | "answer"
+  | "studentAnswer"
+  | "versionKey";
+
+/**
+ * 문제 배치 단 수
+ */
+export type ExamPrintColumns = 1 | 2;
+
+/**
+ * 시험 버전(유형) 라벨
+ * @description A형은 원래 문항 순서, B형부터는 시험별로 고정된 순서로 섞은 문항·선택지
+ */
+export type ExamVersionLabel = "A" | "B" | "C" | "D" | "E";
+
+/**
+ * 인쇄 레이아웃 옵션
+ */
+export type ExamPrintLayoutOptions = {
+  /** 문제 배치 단 수 (학생 답안지는 항상 고정 배치) */
+  columns: ExamPrintColumns;
+  /** 인쇄할 버전 수 (1이면 버전 구분 없이 원래 순서로 인쇄) */
+  versionCount: number;
+};
+
+/**
+ * 인쇄 작업 (문서 한 부)
+ */
+export type ExamPrintJob = {
+  /** 문서 종류 */
+  kind: ExamPrintKind;
+  /** 버전 라벨 (버전 구분 없이 인쇄하거나 버전별 정답표면 undefined) */
+  version?: ExamVersionLabel;
+};
+
+/**
+ * 인쇄용 객관식 선택지
+ */
+export type ExamPrintChoice = {
+  /** 선택지 번호 ("1" ~ "5") */
+  key: string;
+  /** 원래 선택지 번호 (버전별로 섞기 전) */
+  originalKey: string;
+  /** 선택지 내용 (HTML/LaTeX 포함 가능) */
+  text: string;
+};
+
+/**
+ * 인쇄용 문항
+ */
+export type ExamPrintQuestion = {
+  /** 문제 고유 ID */
+  questionId: string;
+  /** 인쇄 번호 (1부터 시작) */
+  number: number;
+  /** 원래 인쇄 번호 (버전별로 섞기 전, A형 번호) */
+  originalNumber: number;
+  /** 원래 문항 순서 (서버 seqNo) */
+  seqNo: number;
+  /** 문제 유형 */
+  questionType: QuestionType;
+  /** 문제 내용 (HTML/LaTeX 포함 가능) */
+  questionText: string;
+  /** 배점 */
+  points: number;
+  /** 객관식 선택지 (번호 순, 주관식은 빈 배열) */
+  choices: ExamPrintChoice[];
+  /** 이미지 URL 목록 */
+  imageUrls: string[];
+  /** 정답 (제출 답안에서 확인할 수 없으면 null, 객관식 번호는 현재 선택지 순서 기준) */
+  correctAnswer: string | null;
+};
+
+/**
+ * 인쇄 문서 데이터
+ */
+export type ExamPrintDocumentData = {
+  /** 시험 ID */
+  examId: string;
+  /** 시험명 */
+  examName: string;
+  /** 학년 */
+  grade: number;
+  /** 총 배점 */
+  totalPoints: number;
+  /** 버전 라벨 (버전 구분 없이 인쇄하면 undefined) */
+  version?: ExamVersionLabel;
+  /** 문항 목록 (인쇄 번호 순) */
+  questions: ExamPrintQuestion[];
+};
+
+/**
+ * 버전별 정답표 행
+ * @description 원래 문항 하나가 각 버전에서 몇 번이고 정답이 무엇인지
+ */
+export type ExamVersionKeyRow = {
+  /** 원래 문항 순서 (서버 seqNo) */
+  seqNo: number;
+  /** 원래 인쇄 번호 */
+  originalNumber: number;
+  /** 배점 */
+  points: number;
+  /** 버전별 번호와 표시용 정답 */
+  versions: Partial<
+    Record<ExamVersionLabel, { number: number; answer: string | null }>
+  >;
+};
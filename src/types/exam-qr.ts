@@ -0,0 +1,30 @@
+/**
+ * 시험 QR 코드 안내문 관련 타입 정의
+ * @description 학생이 QR 코드로 온라인 시험에 들어가도록 안내하는 인쇄물·화면 표시 타입
+ */
+
+/**
+ * QR 안내문 배치
+ * - `poster`: A4 한 장 포스터 (교실 게시·배부용)
+ * - `slips`: 학생별로 잘라 나눠주는 쪽지 (한 쪽에 N장)
+ * - `board`: 교실 프로젝터용 전체 화면 표시
+ */
+export type ExamQrLayout = "poster" | "slips" | "board";
+
+/**
+ * QR 안내문에 표시할 시험 정보
+ */
+export type ExamQrInfo = {
+  /** 시험 ID */
+  examId: string;
+  /** 시험명 */
+  examName: string;
+  /** 학년 */
+  grade: number;
+  /** 응시 기간 표시 문구 (일정이 없으면 null) */
+  scheduleText: string | null;
+  /** 학생 응시 주소 (로컬 QR 코드 내용, VITE_STUDENT_EXAM_URL_BASE 미설정 시 null) */
+  examUrl: string | null;
+  /** 서버에서 받은 QR 코드 이미지 URL (없으면 로컬에서 생성) */
+  qrImageUrl: string | null;
+};
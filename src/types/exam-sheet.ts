@@ -28,7 +28,7 @@ export type ExamSheet = {
   /** 수정일시 */
   updatedAt: string;
   /** 문제 목록 (상세 조회 시에만 포함) */
-  questions: Problem[] | null;
+  questions: ExamSheetQuestion[] | null;
   /** 단원 요약 정보 */
   unitSummary: ExamSheetUnitSummary;
 };
@@ -88,6 +88,57 @@ export type UnitDetail = {
   totalPoints: number;
 };
 
+/**
+ * 문제지 문항의 단원 정보 타입
+ * @description 서버 QuestionInfo.unitInfo 구조와 일치
+ */
+export type ExamSheetQuestionUnitInfo = {
+  /** 단원 고유 ID */
+  unitId: string;
+  /** 단원명 */
+  unitName: string;
+  /** 단원 코드 */
+  unitCode: string;
+  /** 하위 카테고리명 */
+  subcategoryName: string;
+  /** 카테고리명 */
+  categoryName: string;
+};
+
+/**
+ * 문제지 문항 정보 타입
+ * @description 문제지 상세 조회(GET /exam-sheets/{examSheetId}) 응답의 문항 구조
+ */
+export type ExamSheetQuestion = {
+  /** 문제 고유 ID */
+  questionId: string;
+  /** 문제 순서 (1부터 시작) */
+  seqNo: number;
+  /** 문제 배점 */
+  points: number;
+  /** 문제 유형 */
+  questionType: "MULTIPLE_CHOICE" | "SUBJECTIVE";
+  /** 문제 난이도 */
+  difficulty: "EASY" | "MEDIUM" | "HARD";
+  /** 문제 텍스트 (간략, HTML/LaTeX 포함 가능) */
+  questionText: string;
+  /** 단원 정보 */
+  unitInfo: ExamSheetQuestionUnitInfo | null;
+  /** 선택 방식 (수동 선택 / 자동 출제) */
+  selectionMethod: "MANUAL" | "RANDOM";
+};
+
+/**
+ * 문제지 사용 현황 타입
+ * @description GET /exam-sheets/{examSheetId}/usage 응답 구조
+ */
+export type ExamSheetUsage = {
+  /** 문제지 ID */
+  examSheetId: string;
+  /** 문제지로 발행된 시험 수 */
+  usageCount: number;
+};
+
 /**
  * 페이지네이션된 문제지 목록 응답 타입
  * @description 서버 API의 페이지네이션 응답 구조
@@ -192,3 +243,34 @@ export type ExamSheetCreateRequest = {
   /** 선택된 문제 ID 목록 */
   selectedProblemIds: string[];
 };
+
+/**
+ * 문제지 문항 요청 타입
+ * @description 문제지 생성/수정 요청의 문항 구조 (서버 ExamQuestionRequest와 일치)
+ */
+export type ExamSheetQuestionRequest = {
+  /** 문제 ID */
+  questionId: string;
+  /** 문제 순서 (1부터 연속) */
+  questionOrder: number;
+  /** 배점 */
+  points: number;
+};
+
+/**
+ * 문제지 저장 요청 타입
+ * @description 문제지 생성(POST)과 수정(PUT)에 공통으로 사용하는 요청 본문
+ *
+ * 서버 검증 규칙:
+ * - examName: 최대 100자, 같은 학년 내 중복 불가
+ * - grade: 1 ~ 3
+ * - questions: 최대 50문항, questionOrder는 1부터 연속
+ */
+export type ExamSheetSaveRequest = {
+  /** 문제지명 */
+  examName: string;
+  /** 학년 */
+  grade: number;
+  /** 문항 목록 */
+  questions: ExamSheetQuestionRequest[];
+};
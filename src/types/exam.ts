@@ -23,11 +23,45 @@ export type {
 
 export type { ExamListFilters as ServerExamListParams } from "@/types/server-exam";
 
+/**
+ * 시험 진행 상태 타입
+ * @description 서버에 상태 필드가 없어 시작/종료일시와 채점 완료일시로 계산하는 UI 전용 상태
+ *
+ * - scheduled: 시작 전
+ * - open: 응시 가능
+ * - closed: 종료 후 채점 전
+ * - graded: 채점 완료
+ * - unknown: 일정 정보 없음 (서버가 일정 필드를 주지 않는 시험)
+ */
+export type ExamLifecycleStatus =
+  | "scheduled"
+  | "open"
+  | "closed"
+  | "graded"
+  | "unknown";
+
+/**
+ * 시험 일정 입력값 타입
+ * @description 시험 출제/수정 폼의 일정 필드 (datetime-local 입력 형식)
+ */
+export type ExamScheduleValues = {
+  /** 시작일시 (YYYY-MM-DDTHH:mm) */
+  startDate: string;
+  /** 종료일시 (YYYY-MM-DDTHH:mm) */
+  endDate: string;
+  /** 제한시간 (분) */
+  duration: number;
+};
+
 /**
  * UI 전용 검색 범위 타입
  * @description 프론트엔드 검색 UI에서 사용하는 범위 설정
+ *
+ * - all / examName: 서버 시험명 검색
+ * - content: 시험 설명 검색 (useExamList 전용)
+ * - unitName: 서버가 단원명 검색을 지원하지 않아 현재 페이지에서 단원명으로 필터링
  */
-export type SearchScope = "all" | "examName" | "content";
+export type SearchScope = "all" | "examName" | "content" | "unitName";
 
 /**
  * UI 전용 시험 목록 필터 타입
@@ -36,7 +70,7 @@ export type SearchScope = "all" | "examName" | "content";
  * 서버 파라미터와 매핑:
  * - searchKeyword → search (API 파라미터)
  * - selectedGrade → grade (API 파라미터)
- * - searchScope → UI에서만 사용 (내부 처리)
+ * - searchScope → unitName이면 search를 보내지 않고 클라이언트에서 단원명 필터링
  */
 export type ExamListFilters = {
   /** 검색 키워드 */
@@ -70,6 +104,71 @@ export const GRADE_OPTIONS: GradeOption[] = [
   { label: "3학년", value: "3", grade: 3 },
 ];
 
+/**
+ * 시험 문항 유형 구성 타입
+ * @description 시험지의 객관식/주관식 문항 수로 계산하는 시험 유형
+ */
+export type ExamQuestionTypeMix = "objective" | "subjective" | "mixed";
+
+/**
+ * 숫자 범위 필터 타입
+ */
+export type NumberRange = {
+  min: number;
+  max: number;
+};
+
+/**
+ * 날짜 범위 필터 타입
+ * @description 생성일과 응시 기간 범위 (끝 날짜는 그날 하루 전체 포함)
+ */
+export type ExamDateRangeFilters = {
+  createdFrom?: Date;
+  createdTo?: Date;
+  scheduledFrom?: Date;
+  scheduledTo?: Date;
+};
+
+/**
+ * 클라이언트 시험 필터 타입
+ * @description 서버 API가 지원하지 않아 현재 페이지 결과에 적용하는 필터 조합
+ */
+export type ExamClientFilters = {
+  /** 검색어 (대소문자 구분/정확히 일치/단원명 검색에만 사용) */
+  searchKeyword: string;
+  /** 검색 범위 */
+  searchScope: SearchScope;
+  /** 대소문자 구분 */
+  caseSensitive: boolean;
+  /** 정확히 일치 */
+  exactMatch: boolean;
+  /** 날짜 범위 */
+  dateRange: ExamDateRangeFilters;
+  /** 문항 수 범위 */
+  questionCountRange: NumberRange;
+  /** 참여율 범위 (%) */
+  participationRateRange: NumberRange;
+  /** 선택된 단원명 목록 (하나라도 포함하면 통과) */
+  units: string[];
+  /** 선택된 시험 유형 목록 */
+  examTypes: ExamQuestionTypeMix[];
+  /** 진행 상태 */
+  lifecycle: ExamLifecycleStatus | "all";
+};
+
+/**
+ * 클라이언트 필터 사용 가능 여부 타입
+ * @description 현재 페이지 시험 목록에 조건을 확인할 정보가 있는지 (없으면 컨트롤 비활성화, 필터 미적용)
+ */
+export type ExamClientFilterAvailability = {
+  /** 응시 기간 (startDate, endDate) */
+  schedule: boolean;
+  /** 시험 유형 (examSheetInfo.objectiveCount, subjectiveCount) */
+  examType: boolean;
+  /** 진행 상태 (일정 또는 채점 완료일시) */
+  lifecycle: boolean;
+};
+
 /**
  * UI 전용 검색 범위 옵션 타입
  */
@@ -106,8 +205,12 @@ export type FilterToServerParams = (filters: ExamListFilters) => {
 export const convertFiltersToServerParams: FilterToServerParams = (filters) => {
   const params: ReturnType<FilterToServerParams> = {};
 
-  // 검색어 처리
-  if (filters.searchKeyword && filters.searchKeyword.trim()) {
+  // 검색어 처리 (서버는 시험명 검색만 지원하므로 단원명 검색은 클라이언트에서 처리)
+  if (
+    filters.searchKeyword &&
+    filters.searchKeyword.trim() &&
+    filters.searchScope !== "unitName"
+  ) {
     params.search = filters.searchKeyword.trim();
   }
 
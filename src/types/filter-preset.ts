@@ -0,0 +1,53 @@
+/**
+ * 필터 프리셋 관련 타입 정의
+ * @description 시험 목록/문제지 목록에서 현재 필터·정렬·페이지 크기 조합을 이름으로 저장하는 프리셋 타입
+ */
+
+import type { ExamFilterSearchParams } from "@/utils/examListFilters";
+
+/**
+ * 프리셋 검색 파라미터 기본 타입
+ * @description URL 검색 파라미터와 같은 형태로 저장하여 공유 링크로 그대로 변환
+ */
+export type FilterPresetSearch = Record<
+  string,
+  string | number | boolean | string[] | undefined
+>;
+
+/**
+ * 시험 목록 프리셋 검색 파라미터 타입
+ * @description 시험 관리 페이지 URL 파라미터 중 필터·정렬·페이지 크기 항목
+ */
+export type ExamFilterPresetSearch = ExamFilterSearchParams & {
+  search?: string;
+  grade?: string;
+  recent?: boolean;
+  sort?: string;
+  size?: number;
+};
+
+/**
+ * 문제지 목록 프리셋 검색 파라미터 타입
+ * @description 문제지 관리 페이지 URL 파라미터 중 필터·정렬·페이지 크기 항목
+ */
+export type SheetFilterPresetSearch = {
+  search?: string;
+  grade?: string;
+  sort?: string;
+  direction?: "desc" | "asc";
+  size?: number;
+};
+
+/**
+ * 필터 프리셋 타입
+ */
+export type FilterPreset<TSearch extends FilterPresetSearch> = {
+  /** 프리셋 고유 ID */
+  id: string;
+  /** 프리셋 이름 (목록 내 중복 불가) */
+  name: string;
+  /** 저장된 필터·정렬·페이지 크기 (URL 파라미터 형태) */
+  search: TSearch;
+  /** 생성일시 (ISO 문자열) */
+  createdAt: string;
+};
@@ -0,0 +1,19 @@
+/**
+ * 재채점 편집 상태 타입 정의
+ * @description 답안 확인 모달에서 교사가 입력 중인 문항별 점수와 피드백
+ */
+
+/**
+ * 문항 재채점 입력값
+ */
+export type GradingDraft = {
+  /** 입력 중인 점수 (입력창 원문) */
+  score: string;
+  /** 입력 중인 피드백 */
+  feedback: string;
+};
+
+/**
+ * 문제 ID별 재채점 입력값
+ */
+export type GradingDrafts = Record<string, GradingDraft>;
@@ -0,0 +1,151 @@
+/**
+ * 문항 분석 타입 정의
+ * @description 시험 종료 후 문항 난이도(정답률), 변별도, 오답 선택지 분석 결과 타입들
+ *
+ * 주요 특징:
+ * - 서버 답안 데이터(all-students-answer-details)를 클라이언트에서 집계
+ * - 상위/하위 27% 집단 기준 변별도 계산
+ */
+
+import type { ServerStudentAnswerDetail } from "./server-exam";
+
+/** 서버 문항 답안 타입 */
+export type ServerQuestionAnswer =
+  ServerStudentAnswerDetail["questionAnswers"][number];
+
+/**
+ * 문항 판정 플래그
+ * - tooHard: 정답률 20% 미만
+ * - tooEasy: 정답률 90% 초과
+ * - lowDiscrimination: 변별도 0.2 미만
+ * - negativeDiscrimination: 변별도 음수 (하위 집단 정답률이 더 높음 → 정답 오류 의심)
+ * - attractiveDistractor: 상위 집단에서 정답보다 많이 고른 오답 선택지 존재 (모호한 문항 의심)
+ */
+export type ItemAnalysisFlag =
+  | "tooHard"
+  | "tooEasy"
+  | "lowDiscrimination"
+  | "negativeDiscrimination"
+  | "attractiveDistractor";
+
+/**
+ * 선택지별 응답 분포
+ */
+export type ChoiceDistribution = {
+  /** 선택지 키 (객관식 번호 "1" ~ "5", 무응답은 "") */
+  choice: string;
+  /** 선택지 내용 (없으면 null) */
+  label: string | null;
+  /** 정답 선택지 여부 */
+  isCorrect: boolean;
+  /** 전체 선택 인원 */
+  count: number;
+  /** 전체 선택 비율 (0 ~ 1) */
+  rate: number;
+  /** 상위 집단 선택 인원 */
+  upperCount: number;
+  /** 하위 집단 선택 인원 */
+  lowerCount: number;
+};
+
+/**
+ * 문항별 분석 결과
+ */
+export type ItemAnalysis = {
+  /** 문제 ID */
+  questionId: string;
+  /** 문제 번호 */
+  questionNumber: number;
+  /** 문제 유형 */
+  questionType: ServerQuestionAnswer["questionType"];
+  /** 문제 텍스트 */
+  questionText: string;
+  /** 단원명 */
+  unitName: string | null;
+  /** 정답 */
+  correctAnswer: string;
+  /** 응답 인원 */
+  responseCount: number;
+  /** 정답 인원 */
+  correctCount: number;
+  /** 난이도 지수 p (정답률, 0 ~ 1) */
+  pValue: number;
+  /** 상위 27% 집단 정답률 */
+  upperPValue: number;
+  /** 하위 27% 집단 정답률 */
+  lowerPValue: number;
+  /** 변별도 지수 D (상위 정답률 - 하위 정답률, -1 ~ 1) */
+  discrimination: number;
+  /** 선택지별 분포 (객관식만, 주관식은 빈 배열) */
+  choiceDistribution: ChoiceDistribution[];
+  /** 판정 플래그 */
+  flags: ItemAnalysisFlag[];
+};
+
+/**
+ * 시험 문항 분석 결과
+ */
+export type ExamItemAnalysis = {
+  /** 분석에 사용된 응시자 수 */
+  studentCount: number;
+  /** 상위/하위 집단 인원 (응시자의 27%) */
+  groupSize: number;
+  /** 문항별 분석 결과 (문제 번호순) */
+  items: ItemAnalysis[];
+};
+
+/**
+ * 답안 매트릭스 셀 상태
+ */
+export type AnswerCellStatus = "correct" | "wrong" | "unanswered";
+
+/**
+ * 답안 매트릭스 열 (문항)
+ */
+export type AnswerMatrixColumn = {
+  /** 문제 ID */
+  questionId: string;
+  /** 문제 번호 */
+  questionNumber: number;
+  /** 배점 */
+  maxScore: number;
+  /** 정답률 (0 ~ 1) */
+  correctRate: number;
+};
+
+/**
+ * 답안 매트릭스 행 (학생)
+ */
+export type AnswerMatrixRow = {
+  /** 원본 답안지 */
+  answerSheet: ServerStudentAnswerDetail;
+  /** 학생 이름 */
+  studentName: string;
+  /** 획득 점수 (서버 채점 총점, 없으면 문항 획득 점수 합계) */
+  score: number;
+  /** 정답 문항 수 */
+  correctCount: number;
+  /** 문제 ID별 셀 상태 (문항이 답안지에 없으면 unanswered) */
+  cells: Record<string, AnswerCellStatus>;
+};
+
+/**
+ * 답안 매트릭스 정렬 기준
+ * - score: 총점
+ * - name: 학생 이름
+ * - question: 특정 문항의 정오 (questionId 필요)
+ */
+export type AnswerMatrixSort = {
+  key: "score" | "name" | "question";
+  /** key가 question일 때 기준 문제 ID */
+  questionId?: string;
+  direction: "asc" | "desc";
+};
+
+/**
+ * 학생 × 문항 답안 매트릭스
+ */
+export type AnswerMatrix = {
+  columns: AnswerMatrixColumn[];
+  rows: AnswerMatrixRow[];
+};
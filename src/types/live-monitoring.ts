@@ -0,0 +1,30 @@
+/**
+ * 실시간 제출 모니터링 관련 타입 정의
+ * @description 시험 진행 중 제출 현황 폴링 설정과 분 단위 타임라인 타입
+ */
+
+/**
+ * 실시간 모니터링 설정 타입
+ */
+export type LiveMonitoringSettings = {
+  /** 폴링 간격 (초) */
+  intervalSeconds: number;
+  /** 목표 제출률 (%) */
+  targetRate: number;
+  /** 목표 제출률 도달 시 알림음 재생 여부 */
+  isSoundEnabled: boolean;
+};
+
+/**
+ * 분 단위 제출 타임라인 항목 타입
+ */
+export type SubmissionTimelinePoint = {
+  /** 구간 시작 시각 (epoch ms, 분 단위 절삭) */
+  minute: number;
+  /** 표시용 시각 (HH:mm) */
+  label: string;
+  /** 해당 분의 제출 수 */
+  count: number;
+  /** 구간 끝까지의 누적 제출 수 */
+  cumulative: number;
+};
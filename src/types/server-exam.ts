@@ -51,6 +51,17 @@ export type ServerExam = {
   createdAt: string;
   /** 연관된 시험지 정보 (nullable) */
   examSheetInfo: ServerExamSheetInfo | null;
+  /**
+   * 시험 시작일시 (ISO 8601, 미설정 시 null)
+   * 일정 필드(startDate, endDate, duration, gradedAt)는 서버 지원 대기 중이라 현재 응답에 없음 (docs/pending-endpoints.md)
+   */
+  startDate?: string | null;
+  /** 시험 종료일시 (ISO 8601, 미설정 시 null) */
+  endDate?: string | null;
+  /** 시험 제한시간 (분, 미설정 시 null) */
+  duration?: number | null;
+  /** 채점 완료일시 (ISO 8601, 채점 전이면 null) */
+  gradedAt?: string | null;
 };
 
 /**
@@ -299,6 +310,20 @@ export type ServerStudentAnswerDetail = {
   /** 답변한 문제 수 */
   answeredQuestions: number;
 
+  /** 채점 결과 요약 (채점 완료 시에만) */
+  gradingResult?: {
+    /** 총점 (재채점 반영) */
+    totalScore: number;
+    /** 만점 */
+    totalPossibleScore: number;
+    /** 정답 개수 */
+    correctAnswers: number;
+    /** 오답 개수 */
+    incorrectAnswers: number;
+    /** 채점 시간 */
+    gradedAt: string;
+  } | null;
+
   /** 문항별 답안 */
   questionAnswers: Array<{
     /** 문제 번호 */
@@ -319,6 +344,10 @@ export type ServerStudentAnswerDetail = {
     isAnswered: boolean;
     /** 최대 점수 */
     maxScore: number;
+    /** 획득 점수 (채점 완료 시에만, 부분 점수·재채점 반영) */
+    earnedScore?: number | null;
+    /** 정답 여부 (채점 완료 시에만) */
+    isCorrect?: boolean | null;
     /** 단원 정보 */
     unitInfo: {
       /** 단원 ID */
@@ -0,0 +1,64 @@
+/**
+ * 학생 프로필 타입 정의
+ * @description 학생별 누적 성적, 단원별 성취도 집계 결과 타입들
+ */
+
+/**
+ * 학생 시험 기록
+ */
+export type StudentExamRecord = {
+  /** 시험 ID */
+  examId: string;
+  /** 시험명 */
+  examName: string;
+  /** 제출 일시 */
+  submittedAt: string;
+  /** 획득 점수 */
+  score: number;
+  /** 만점 */
+  maxScore: number;
+  /** 정답 문항 수 */
+  correctCount: number;
+  /** 전체 문항 수 */
+  totalQuestions: number;
+  /** 시험 평균 점수 (통계가 없으면 null) */
+  examAverage: number | null;
+};
+
+/**
+ * 단원별 성취도
+ */
+export type UnitMastery = {
+  /** 단원 ID */
+  unitId: string;
+  /** 단원명 */
+  unitName: string;
+  /** 출제된 문항 수 (전체 시험 누적) */
+  questionCount: number;
+  /** 정답 문항 수 */
+  correctCount: number;
+  /** 획득 점수 */
+  earnedScore: number;
+  /** 배점 합계 */
+  maxScore: number;
+  /** 성취도 (배점 기준 득점률, 0 ~ 1) */
+  masteryRate: number;
+};
+
+/**
+ * 학생 프로필 요약
+ */
+export type StudentProfileSummary = {
+  /** 학생 ID */
+  studentId: number;
+  /** 학생 이름 */
+  studentName: string;
+  /** 전화번호 */
+  phoneNumber: string;
+  /** 응시한 시험 기록 (제출 일시 오름차순) */
+  records: StudentExamRecord[];
+  /** 학생 평균 점수 (응시 기록이 없으면 null) */
+  averageScore: number | null;
+  /** 단원별 성취도 (성취도 낮은 순) */
+  unitMasteries: UnitMastery[];
+};
@@ -0,0 +1,41 @@
+/**
+ * 학생 명단 관리 타입 정의
+ * @description 학생 등록/수정 폼과 CSV 일괄 등록 관련 타입들
+ */
+
+import type { StudentUpdateRequest } from "@/api/student";
+
+/**
+ * 학생 등록/수정 폼 값
+ */
+export type StudentFormValues = StudentUpdateRequest;
+
+/**
+ * CSV 파싱 오류
+ */
+export type StudentCsvError = {
+  /** CSV 줄 번호 (1부터 시작) */
+  line: number;
+  /** 오류 내용 */
+  message: string;
+};
+
+/**
+ * CSV 파싱 결과
+ */
+export type StudentCsvParseResult = {
+  /** 유효한 학생 행 */
+  rows: Array<StudentFormValues & { line: number }>;
+  /** 오류 행 */
+  errors: StudentCsvError[];
+};
+
+/**
+ * CSV 일괄 등록 결과
+ */
+export type StudentImportResult = {
+  /** 등록(또는 기존 학생 연결)에 성공한 학생 수 */
+  importedCount: number;
+  /** 실패한 행 */
+  failures: StudentCsvError[];
+};
@@ -0,0 +1,91 @@
+/**
+ * 답안지 인식(OCR) UI 타입 정의
+ * @description 답안지 사진 업로드부터 인식 결과 검토까지의 화면 상태 타입들
+ *
+ * 주요 특징:
+ * - 서버 타입은 @/api/text-recognition에서 import
+ * - UI 전용 타입만 여기에 정의
+ */
+
+import type {
+  JobEventConnectionState,
+  RecognizedAnswer,
+  TextRecognitionJobStatus,
+} from "@/api/text-recognition";
+import type { ExamVersionLabel } from "@/types/exam-print";
+
+/**
+ * 답안지 인식 작업 단계
+ * @description 서버 작업 상태에 클라이언트 대기열 단계를 더한 UI 단계
+ *
+ * - QUEUED: 업로드 대기열에서 차례를 기다리는 중
+ * - UPLOADING: 이미지 업로드 중 (jobId 발급 전)
+ * - CANCELLED: 교사가 취소함 (재시도 가능)
+ * - 그 외: 서버 작업 상태와 동일
+ */
+export type RecognitionJobPhase =
+  | "QUEUED"
+  | "UPLOADING"
+  | "CANCELLED"
+  | TextRecognitionJobStatus;
+
+/**
+ * 답안지 인식 작업 UI 상태
+ * @description 업로드한 사진 한 장에 대한 인식 진행 상황과 결과
+ */
+export type AnswerSheetRecognitionJob = {
+  /** 클라이언트 측 작업 식별자 (jobId 발급 전부터 사용) */
+  id: string;
+  /** 업로드한 이미지 파일 */
+  file: File;
+  /** 미리보기용 Object URL */
+  previewUrl: string;
+  /** 현재 단계 */
+  phase: RecognitionJobPhase;
+  /** 업로드 진행률 (0~100) */
+  uploadProgress: number;
+  /** 서버 작업 ID (업로드 완료 후 발급) */
+  jobId: string | null;
+  /** SSE 연결 상태 */
+  connectionState: JobEventConnectionState | null;
+  /** 인식된 답안 목록 (답안지 버전의 문항 번호 기준, 교사가 검토 중 수정 가능) */
+  answers: RecognizedAnswer[];
+  /** 답안지 버전 (B형 이후는 첨부 시 원래 문항·선택지 번호로 변환) */
+  version: ExamVersionLabel;
+  /** 실패 사유 */
+  errorMessage: string | null;
+};
+
+/**
+ * 제출 답안에 첨부된 인식 결과
+ * @description 교사가 검토를 마치고 특정 학생 제출 답안에 연결한 인식 결과
+ */
+export type AttachedRecognitionResult = {
+  /** 시험 ID */
+  examId: string;
+  /** 제출 ID */
+  submissionId: string;
+  /** 학생 이름 */
+  studentName: string;
+  /** 인식 작업 ID */
+  jobId: string;
+  /** 원본 이미지 파일명 */
+  fileName: string;
+  /** 검토된 답안 목록 (원래 문항 순서 seqNo·원래 선택지 번호 기준) */
+  answers: RecognizedAnswer[];
+  /** 답안지 버전 (이전에 첨부한 결과에는 없을 수 있음) */
+  version?: ExamVersionLabel;
+  /** 첨부 일시 (ISO 8601) */
+  attachedAt: string;
+};
+
+/**
+ * 업로드 전 검증에 실패한 파일
+ * @description 형식 또는 크기 제한을 벗어나 대기열에 추가되지 않은 파일
+ */
+export type RejectedRecognitionFile = {
+  /** 거부된 파일 */
+  file: File;
+  /** 거부 사유 */
+  reason: string;
+};
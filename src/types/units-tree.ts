@@ -201,3 +201,88 @@ export type UnitsTreeLoadingState = {
   /** 재시도 횟수 */
   retryCount: number;
 };
+
+/**
+ * 출제 순서가 적용된 선택 문제 타입
+ * @description 문제지 등록 화면에서 드래그 순서와 문항별 배점을 반영한 선택 문제
+ */
+export type OrderedSelectedProblem = {
+  /** 문제 정보 */
+  problem: Problem;
+  /** 소속 세부단원 ID */
+  unitId: string;
+  /** 소속 세부단원명 */
+  unitName: string;
+  /** 문제지에 적용할 배점 (사용자 지정 배점 우선) */
+  points: number;
+};
+
+/**
+ * 배점 자동 분배 방식
+ * - even: 모든 문항에 균등 분배
+ * - difficulty: 난이도 가중치(하 1 : 중 2 : 상 3)에 비례해 분배
+ */
+export type PointsDistributionMode = "even" | "difficulty";
+
+/**
+ * 자동 출제 청사진의 단원별 문항 수
+ */
+export type BlueprintUnitRequirement = {
+  /** 세부단원 ID */
+  unitId: string;
+  /** 출제할 문항 수 */
+  questionCount: number;
+};
+
+/**
+ * 자동 출제 청사진 타입
+ * @description 단원 × 난이도 × 유형 조건으로 문제를 자동 선택하기 위한 설정
+ */
+export type ExamBlueprint = {
+  /** 단원별 문항 수 */
+  units: BlueprintUnitRequirement[];
+  /** 난이도 비율 (하/중/상, 백분율) */
+  difficultyRatio: Record<Problem["difficulty"], number>;
+  /** 객관식 비율 (0 ~ 100, 나머지는 주관식) */
+  objectiveRatio: number;
+  /** 총점 */
+  totalPoints: number;
+  /** 배점 분배 방식 */
+  pointsDistribution: PointsDistributionMode;
+  /** 재현 가능한 추출을 위한 시드 */
+  seed: string;
+};
+
+/**
+ * 자동 출제 부족 항목 타입
+ * @description 문제 은행이 청사진 조건을 채우지 못한 항목
+ * - count: 단원 문제 수 자체가 부족
+ * - difficulty: 특정 난이도 문제가 부족해 다른 난이도로 대체
+ * - type: 특정 유형 문제가 부족해 다른 유형으로 대체
+ */
+export type BlueprintGap = {
+  /** 세부단원 ID */
+  unitId: string;
+  /** 세부단원명 */
+  unitName: string;
+  /** 부족 종류 */
+  kind: "count" | "difficulty" | "type";
+  /** 부족 상세 (난이도 또는 유형, count인 경우 null) */
+  detail: Problem["difficulty"] | Problem["type"] | null;
+  /** 요청 수 */
+  requested: number;
+  /** 실제 충족 수 */
+  fulfilled: number;
+};
+
+/**
+ * 자동 출제 결과 타입
+ */
+export type BlueprintGenerationResult = {
+  /** 선택된 문제 (출제 순서) */
+  problems: Problem[];
+  /** 부족 항목 목록 */
+  gaps: BlueprintGap[];
+  /** 사용된 시드 */
+  seed: string;
+};
@@ -0,0 +1,39 @@
+/**
+ * 로그인 후 리다이렉트 경로 유틸리티
+ * @description 로그인 페이지의 `redirect` 검색 파라미터를 안전하게 다루는 함수들
+ */
+
+/** 로그인 후 기본 이동 경로 */
+export const DEFAULT_AUTHENTICATED_PATH = "/main";
+
+/**
+ * 안전한 리다이렉트 경로 추출 함수
+ * @description 외부 사이트로의 open redirect를 막기 위해 앱 내부 경로만 허용
+ *
+ * 허용 조건:
+ * - "/"로 시작하는 절대 경로 ("//" 또는 "/\\"로 시작하는 프로토콜 상대 URL 제외)
+ * - 로그인 페이지("/") 자체는 제외 (무한 리다이렉트 방지)
+ *
+ * @param redirect `redirect` 검색 파라미터 값
+ * @returns 이동해도 안전한 내부 경로 (조건 불충족 시 기본 경로)
+ *
+ * @example
+ * ```typescript
+ * getSafeRedirectPath("/main/exam/manage/abc"); // "/main/exam/manage/abc"
+ * getSafeRedirectPath("https://evil.com"); // "/main"
+ * getSafeRedirectPath(undefined); // "/main"
+ * ```
+ */
+export function getSafeRedirectPath(redirect: string | undefined): string {
+  if (
+    !redirect ||
+    !redirect.startsWith("/") ||
+    redirect.startsWith("//") ||
+    redirect.startsWith("/\\") ||
+    redirect === "/" ||
+    redirect.startsWith("/?")
+  ) {
+    return DEFAULT_AUTHENTICATED_PATH;
+  }
+  return redirect;
+}
@@ -0,0 +1,278 @@
+import { describe, expect, it } from "vitest";
+import {
+  allocateByRatio,
+  createSeededRandom,
+  formatBlueprintGap,
+  generateFromBlueprint,
+  shuffleWithRandom,
+} from "./blueprint";
+import type { Problem } from "@/types/exam-sheet";
+import type {
+  ExamBlueprint,
+  UnitNode,
+  UnitsTreeResponse,
+} from "@/types/units-tree";
+
+const NODE_DATES = { createdAt: "2025-01-01", updatedAt: "2025-01-01" };
+
+function createProblems(
+  unitId: string,
+  specs: [Problem["difficulty"], Problem["type"], number][],
+): Problem[] {
+  return specs.flatMap(([difficulty, type, count]) =>
+    Array.from({ length: count }, (_, index) => ({
+      id: `${unitId}-${difficulty}-${type}-${index}`,
+      number: index + 1,
+      title: "",
+      content: "",
+      type,
+      unitName: unitId,
+      difficulty,
+      points: 10,
+    })),
+  );
+}
+
+function createUnit(id: string, problems: Problem[]): UnitNode {
+  return {
+    id,
+    name: `${id} 단원`,
+    displayOrder: 1,
+    ...NODE_DATES,
+    type: "unit",
+    parentSubcategoryId: "sub-1",
+    unitCode: id,
+    grade: "1",
+    problems,
+    children: [],
+  };
+}
+
+function createTree(units: UnitNode[]): UnitsTreeResponse {
+  return {
+    categories: [
+      {
+        id: "cat-1",
+        name: "수와 연산",
+        displayOrder: 1,
+        ...NODE_DATES,
+        type: "category",
+        children: [
+          {
+            id: "sub-1",
+            name: "정수와 유리수",
+            displayOrder: 1,
+            ...NODE_DATES,
+            type: "subcategory",
+            parentCategoryId: "cat-1",
+            children: units,
+          },
+        ],
+      },
+    ],
+    includeQuestions: true,
+    stats: { categoryCount: 1, subcategoryCount: 1, unitCount: units.length },
+    fetchedAt: "2025-01-01",
+  };
+}
+
+function createBlueprint(overrides: Partial<ExamBlueprint>): ExamBlueprint {
+  return {
+    units: [],
+    difficultyRatio: { low: 30, medium: 40, high: 30 },
+    objectiveRatio: 60,
+    totalPoints: 100,
+    pointsDistribution: "even",
+    seed: "abc123",
+    ...overrides,
+  };
+}
+
+const RICH_UNIT = createUnit(
+  "u1",
+  createProblems("u1", [
+    ["low", "objective", 5],
+    ["low", "subjective", 5],
+    ["medium", "objective", 5],
+    ["medium", "subjective", 5],
+    ["high", "objective", 5],
+    ["high", "subjective", 5],
+  ]),
+);
+
+describe("createSeededRandom / shuffleWithRandom", () => {
+  it("같은 시드는 같은 난수열과 같은 섞기 결과", () => {
+    const items = Array.from({ length: 20 }, (_, index) => index);
+
+    expect(shuffleWithRandom(items, createSeededRandom("seed"))).toEqual(
+      shuffleWithRandom(items, createSeededRandom("seed")),
+    );
+    expect(shuffleWithRandom(items, createSeededRandom("seed"))).not.toEqual(
+      shuffleWithRandom(items, createSeededRandom("other")),
+    );
+  });
+
+  it("원본 배열은 바꾸지 않고 같은 항목을 모두 유지", () => {
+    const items = [1, 2, 3, 4, 5];
+    const shuffled = shuffleWithRandom(items, createSeededRandom("seed"));
+
+    expect(items).toEqual([1, 2, 3, 4, 5]);
+    expect([...shuffled].sort()).toEqual(items);
+  });
+});
+
+describe("allocateByRatio", () => {
+  it("최대 나머지 방식으로 합계를 정확히 맞춤", () => {
+    expect(allocateByRatio(10, { low: 30, medium: 40, high: 30 })).toEqual({
+      low: 3,
+      medium: 4,
+      high: 3,
+    });
+    expect(allocateByRatio(7, { low: 1, medium: 1, high: 1 })).toEqual({
+      low: 3,
+      medium: 2,
+      high: 2,
+    });
+  });
+
+  it("비율 합계가 0이면 균등 배분", () => {
+    expect(allocateByRatio(4, { a: 0, b: 0 })).toEqual({ a: 2, b: 2 });
+  });
+});
+
+describe("generateFromBlueprint", () => {
+  it("문제가 충분하면 난이도·유형 비율을 그대로 맞추고 부족 항목 없음", () => {
+    const result = generateFromBlueprint(
+      createTree([RICH_UNIT]),
+      createBlueprint({ units: [{ unitId: "u1", questionCount: 10 }] }),
+    );
+    const countBy = (predicate: (problem: Problem) => boolean) =>
+      result.problems.filter(predicate).length;
+
+    expect(result.problems).toHaveLength(10);
+    expect(result.gaps).toEqual([]);
+    expect(countBy((p) => p.difficulty === "low")).toBe(3);
+    expect(countBy((p) => p.difficulty === "medium")).toBe(4);
+    expect(countBy((p) => p.difficulty === "high")).toBe(3);
+    expect(countBy((p) => p.type === "objective")).toBe(6);
+  });
+
+  it("같은 시드는 같은 문제를 같은 순서로 추출하고, 단원 안에서는 하→중→상 순서", () => {
+    const tree = createTree([RICH_UNIT]);
+    const blueprint = createBlueprint({
+      units: [{ unitId: "u1", questionCount: 10 }],
+    });
+    const first = generateFromBlueprint(tree, blueprint);
+    const second = generateFromBlueprint(tree, blueprint);
+    const order = ["low", "medium", "high"];
+
+    expect(second.problems.map((p) => p.id)).toEqual(
+      first.problems.map((p) => p.id),
+    );
+    expect(first.seed).toBe("abc123");
+    expect(
+      first.problems.every(
+        (problem, index, problems) =>
+          index === 0 ||
+          order.indexOf(problems[index - 1].difficulty) <=
+            order.indexOf(problem.difficulty),
+      ),
+    ).toBe(true);
+  });
+
+  it("단원 문제 수가 모자라면 가능한 만큼 추출하고 count 부족 항목 보고", () => {
+    const unit = createUnit(
+      "u2",
+      createProblems("u2", [["medium", "objective", 2]]),
+    );
+    const result = generateFromBlueprint(
+      createTree([unit]),
+      createBlueprint({ units: [{ unitId: "u2", questionCount: 5 }] }),
+    );
+
+    expect(result.problems).toHaveLength(2);
+    expect(result.gaps).toContainEqual({
+      unitId: "u2",
+      unitName: "u2 단원",
+      kind: "count",
+      detail: null,
+      requested: 5,
+      fulfilled: 2,
+    });
+  });
+
+  it("특정 난이도·유형이 없으면 다른 문제로 채우고 대체 항목 보고", () => {
+    const unit = createUnit(
+      "u3",
+      createProblems("u3", [["low", "objective", 10]]),
+    );
+    const result = generateFromBlueprint(
+      createTree([unit]),
+      createBlueprint({ units: [{ unitId: "u3", questionCount: 10 }] }),
+    );
+
+    expect(result.problems).toHaveLength(10);
+    expect(result.gaps).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          kind: "difficulty",
+          detail: "high",
+          requested: 3,
+          fulfilled: 0,
+        }),
+        expect.objectContaining({
+          kind: "type",
+          detail: "subjective",
+          requested: 4,
+          fulfilled: 0,
+        }),
+      ]),
+    );
+  });
+
+  it("트리에 없는 단원과 0문항 요청은 건너뜀", () => {
+    const result = generateFromBlueprint(
+      createTree([RICH_UNIT]),
+      createBlueprint({
+        units: [
+          { unitId: "missing", questionCount: 3 },
+          { unitId: "u1", questionCount: 0 },
+        ],
+      }),
+    );
+
+    expect(result.problems).toEqual([]);
+    expect(result.gaps).toEqual([]);
+  });
+});
+
+describe("formatBlueprintGap", () => {
+  it("부족 종류별 안내 문구", () => {
+    const base = { unitId: "u1", unitName: "정수의 덧셈", fulfilled: 1 };
+
+    expect(
+      formatBlueprintGap({
+        ...base,
+        kind: "count",
+        detail: null,
+        requested: 3,
+      }),
+    ).toBe("문제 수 2문항 부족 (요청 3 / 확보 1)");
+    expect(
+      formatBlueprintGap({
+        ...base,
+        kind: "difficulty",
+        detail: "high",
+        requested: 3,
+      }),
+    ).toBe("난이도 상 2문항 부족, 다른 난이도로 대체 (요청 3 / 확보 1)");
+    expect(
+      formatBlueprintGap({
+        ...base,
+        kind: "type",
+        detail: "subjective",
+        requested: 2,
+      }),
+    ).toBe("주관식 1문항 부족, 다른 유형으로 대체 (요청 2 / 확보 1)");
+  });
+});
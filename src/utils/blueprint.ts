@@ -0,0 +1,256 @@
+/**
+ * 자동 출제(청사진) 유틸리티
+ * @description 단원 × 난이도 × 유형 청사진에 맞춰 문제 은행에서 문제를 재현 가능하게 추출
+ *
+ * 주요 기능:
+ * - 문자열 시드 기반 의사 난수 생성·셔플 (같은 시드 → 같은 결과, 시험 버전 섞기와 공유)
+ * - 비율을 정수 문항 수로 배분 (최대 나머지 방식)
+ * - 단원별 난이도/유형 조건을 최대한 만족하도록 추출
+ * - 문제 은행이 부족한 항목 보고
+ */
+
+import type { Problem } from "@/types/exam-sheet";
+import type {
+  BlueprintGap,
+  BlueprintGenerationResult,
+  CategoryNode,
+  ExamBlueprint,
+  SubcategoryNode,
+  UnitNode,
+  UnitsTreeResponse,
+} from "@/types/units-tree";
+
+/** 난이도 순서 (출제 순서 정렬용) */
+const DIFFICULTY_ORDER: Problem["difficulty"][] = ["low", "medium", "high"];
+
+/** 난이도 표시 라벨 */
+export const BLUEPRINT_DIFFICULTY_LABEL: Record<Problem["difficulty"], string> =
+  {
+    low: "하",
+    medium: "중",
+    high: "상",
+  };
+
+/**
+ * 새 시드 생성 함수
+ * @returns 6자리 영숫자 시드
+ */
+export function createBlueprintSeed(): string {
+  return Math.random().toString(36).slice(2, 8).padEnd(6, "0");
+}
+
+/**
+ * 시드 기반 난수 생성기 함수
+ * @description FNV-1a 해시로 시드 문자열을 정수로 바꾼 뒤 mulberry32로 난수 생성
+ * @param seed 시드 문자열
+ * @returns 0 이상 1 미만의 난수를 반환하는 함수
+ */
+export function createSeededRandom(seed: string): () => number {
+  let state = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    state ^= seed.charCodeAt(i);
+    state = Math.imul(state, 16777619);
+  }
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * 비율 배분 함수
+ * @description 전체 수량을 비율에 맞춰 정수로 나누고 합계를 정확히 맞춤 (최대 나머지 방식)
+ * @param total 배분할 전체 수량
+ * @param ratios 항목별 비율 (합계가 0이면 균등 배분)
+ * @returns 항목별 배분 수량
+ */
+export function allocateByRatio<TKey extends string>(
+  total: number,
+  ratios: Record<TKey, number>,
+): Record<TKey, number> {
+  const keys = Object.keys(ratios) as TKey[];
+  const ratioSum = keys.reduce((sum, key) => sum + Math.max(0, ratios[key]), 0);
+
+  const shares = keys.map((key) =>
+    ratioSum > 0
+      ? (total * Math.max(0, ratios[key])) / ratioSum
+      : total / keys.length,
+  );
+  const counts = shares.map((share) => Math.floor(share));
+  let leftover = total - counts.reduce((sum, count) => sum + count, 0);
+
+  shares
+    .map((share, index) => ({ index, fraction: share - Math.floor(share) }))
+    .sort((a, b) => b.fraction - a.fraction || a.index - b.index)
+    .forEach(({ index }) => {
+      if (leftover > 0) {
+        counts[index] += 1;
+        leftover -= 1;
+      }
+    });
+
+  return Object.fromEntries(
+    keys.map((key, index) => [key, counts[index]]),
+  ) as Record<TKey, number>;
+}
+
+/**
+ * 시드 기반 셔플 함수 (Fisher-Yates)
+ * @param items 섞을 항목 (원본은 변경하지 않음)
+ * @param random createSeededRandom으로 만든 난수 생성기
+ * @returns 섞인 새 배열
+ */
+export function shuffleWithRandom<T>(items: T[], random: () => number): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * 단원 트리에서 세부단원 찾기 함수
+ */
+function findUnits(tree: UnitsTreeResponse): Map<string, UnitNode> {
+  const units = new Map<string, UnitNode>();
+  tree.categories.forEach((category: CategoryNode) => {
+    category.children.forEach((subcategory: SubcategoryNode) => {
+      subcategory.children.forEach((unit: UnitNode) => {
+        units.set(unit.id, unit);
+      });
+    });
+  });
+  return units;
+}
+
+/**
+ * 청사진 기반 자동 출제 함수
+ * @description 단원별로 난이도 비율과 객관식 비율을 적용해 문제를 추출
+ *
+ * 추출 규칙 (단원별):
+ * 1. 문항 수를 난이도 비율과 유형 비율로 각각 배분
+ * 2. 시드로 섞은 문제 중 난이도와 유형 조건을 모두 만족하는 문제 우선 선택
+ * 3. 부족하면 난이도 조건만 만족하는 문제, 그래도 부족하면 남은 문제로 채움
+ * 4. 채우지 못한 문항 수, 대체된 난이도/유형은 부족 항목으로 보고
+ *
+ * @param tree 문제 포함 단원 트리
+ * @param blueprint 자동 출제 청사진
+ * @returns 추출된 문제(단원 순서 → 난이도 순서)와 부족 항목
+ */
+export function generateFromBlueprint(
+  tree: UnitsTreeResponse,
+  blueprint: ExamBlueprint,
+): BlueprintGenerationResult {
+  const random = createSeededRandom(blueprint.seed);
+  const units = findUnits(tree);
+  const problems: Problem[] = [];
+  const gaps: BlueprintGap[] = [];
+
+  blueprint.units.forEach(({ unitId, questionCount }) => {
+    const unit = units.get(unitId);
+    if (!unit || questionCount <= 0) return;
+
+    const pool = shuffleWithRandom(unit.problems ?? [], random);
+    const count = Math.min(questionCount, pool.length);
+    if (count < questionCount) {
+      gaps.push({
+        unitId,
+        unitName: unit.name,
+        kind: "count",
+        detail: null,
+        requested: questionCount,
+        fulfilled: count,
+      });
+    }
+
+    const difficultyTargets = allocateByRatio(count, blueprint.difficultyRatio);
+    const objectiveTarget = Math.round(
+      (count * blueprint.objectiveRatio) / 100,
+    );
+    const typeTargets: Record<Problem["type"], number> = {
+      objective: objectiveTarget,
+      subjective: count - objectiveTarget,
+    };
+
+    const difficultyLeft = { ...difficultyTargets };
+    const typeLeft = { ...typeTargets };
+    const picked: Problem[] = [];
+
+    const pick = (predicate: (problem: Problem) => boolean) => {
+      for (const problem of pool) {
+        if (picked.length >= count) return;
+        if (picked.includes(problem) || !predicate(problem)) continue;
+        picked.push(problem);
+        difficultyLeft[problem.difficulty] -= 1;
+        typeLeft[problem.type] -= 1;
+      }
+    };
+
+    pick((p) => difficultyLeft[p.difficulty] > 0 && typeLeft[p.type] > 0);
+    pick((p) => difficultyLeft[p.difficulty] > 0);
+    pick(() => true);
+
+    DIFFICULTY_ORDER.forEach((difficulty) => {
+      const fulfilled = picked.filter(
+        (p) => p.difficulty === difficulty,
+      ).length;
+      if (fulfilled < difficultyTargets[difficulty]) {
+        gaps.push({
+          unitId,
+          unitName: unit.name,
+          kind: "difficulty",
+          detail: difficulty,
+          requested: difficultyTargets[difficulty],
+          fulfilled,
+        });
+      }
+    });
+
+    (["objective", "subjective"] as const).forEach((type) => {
+      const fulfilled = picked.filter((p) => p.type === type).length;
+      if (fulfilled < typeTargets[type]) {
+        gaps.push({
+          unitId,
+          unitName: unit.name,
+          kind: "type",
+          detail: type,
+          requested: typeTargets[type],
+          fulfilled,
+        });
+      }
+    });
+
+    problems.push(
+      ...picked.sort(
+        (a, b) =>
+          DIFFICULTY_ORDER.indexOf(a.difficulty) -
+          DIFFICULTY_ORDER.indexOf(b.difficulty),
+      ),
+    );
+  });
+
+  return { problems, gaps, seed: blueprint.seed };
+}
+
+/**
+ * 부족 항목 설명 문구 생성 함수
+ * @param gap 부족 항목
+ * @returns 사용자에게 보여줄 설명 (예: "난이도 상 2문항 부족 (요청 3 / 확보 1)")
+ */
+export function formatBlueprintGap(gap: BlueprintGap): string {
+  const shortage = gap.requested - gap.fulfilled;
+  const summary = `(요청 ${gap.requested} / 확보 ${gap.fulfilled})`;
+
+  switch (gap.kind) {
+    case "count":
+      return `문제 수 ${shortage}문항 부족 ${summary}`;
+    case "difficulty":
+      return `난이도 ${BLUEPRINT_DIFFICULTY_LABEL[gap.detail as Problem["difficulty"]]} ${shortage}문항 부족, 다른 난이도로 대체 ${summary}`;
+    case "type":
+      return `${gap.detail === "objective" ? "객관식" : "주관식"} ${shortage}문항 부족, 다른 유형으로 대체 ${summary}`;
+  }
+}
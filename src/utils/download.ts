@@ -0,0 +1,38 @@
+/**
+ * 파일 다운로드 유틸리티
+ * @description 브라우저에서 생성한 텍스트 데이터를 파일로 내려받기
+ */
+
+/**
+ * 텍스트 파일 다운로드 함수
+ * @param fileName 저장할 파일명 (확장자 포함)
+ * @param content 파일 내용
+ * @param mimeType MIME 타입 (기본값: text/plain)
+ */
+export function downloadTextFile(
+  fileName: string,
+  content: string,
+  mimeType = "text/plain;charset=utf-8",
+): void {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * 파일명 정리 함수
+ * @description 파일명에 쓸 수 없는 문자를 밑줄로 바꿈
+ * @param name 원본 이름
+ * @returns 파일명으로 안전한 문자열
+ */
+export function toSafeFileName(name: string): string {
+  return name.replace(/[\\/:*?"<>|]/g, "_").trim() || "download";
+}
@@ -0,0 +1,259 @@
+import { describe, expect, it } from "vitest";
+import {
+  EXAM_PARTICIPATION_RATE_BOUNDS,
+  EXAM_QUESTION_COUNT_BOUNDS,
+  applyExamClientFilters,
+  fromExamFilterSearch,
+  getExamClientFilterAvailability,
+  getUnavailableClientFilterLabels,
+  toExamFilterSearch,
+} from "./examListFilters";
+import type { ServerExam } from "@/api/exam/types";
+import type { ExamClientFilters } from "@/types/exam";
+
+const NOW = new Date("2025-03-10T12:00:00");
+
+function createExam(id: string, overrides: Partial<ServerExam> = {}) {
+  return {
+    id,
+    examName: `${id} 시험`,
+    grade: 1,
+    content: "",
+    qrCodeUrl: null,
+    createdAt: "2025-03-01T09:00:00",
+    examSheetInfo: { totalQuestions: 10, totalPoints: 100 },
+    ...overrides,
+  } satisfies ServerExam;
+}
+
+function createFilters(
+  overrides: Partial<ExamClientFilters> = {},
+): ExamClientFilters {
+  return {
+    searchKeyword: "",
+    searchScope: "all",
+    caseSensitive: false,
+    exactMatch: false,
+    dateRange: {},
+    questionCountRange: { ...EXAM_QUESTION_COUNT_BOUNDS },
+    participationRateRange: { ...EXAM_PARTICIPATION_RATE_BOUNDS },
+    units: [],
+    examTypes: [],
+    lifecycle: "all",
+    ...overrides,
+  };
+}
+
+/** 현재 /exams 응답처럼 일정·문항 유형 정보가 없는 목록 */
+const LIST_EXAMS = [
+  createExam("e1", {
+    examName: "Midterm",
+    createdAt: "2025-02-01T09:00:00",
+    units: [{ id: "u1", unitName: "일차방정식" }],
+    totalQuestions: 20,
+    attendanceInfo: {
+      actualAttendees: 9,
+      totalAssigned: 10,
+      attendanceRate: 90,
+      displayText: "9/10",
+    },
+  }),
+  createExam("e2", {
+    examName: "midterm 2",
+    units: [{ id: "u2", unitName: "부등식" }],
+    totalQuestions: 5,
+    attendanceInfo: {
+      actualAttendees: 0,
+      totalAssigned: 0,
+      attendanceRate: 0,
+      displayText: "0/0",
+    },
+  }),
+];
+
+const ids = (exams: ServerExam[]) => exams.map((exam) => exam.id);
+
+describe("applyExamClientFilters", () => {
+  it("대소문자 구분·정확히 일치·단원명 검색", () => {
+    expect(
+      ids(
+        applyExamClientFilters(
+          LIST_EXAMS,
+          createFilters({ searchKeyword: "Midterm", caseSensitive: true }),
+        ),
+      ),
+    ).toEqual(["e1"]);
+    expect(
+      ids(
+        applyExamClientFilters(
+          LIST_EXAMS,
+          createFilters({ searchKeyword: "midterm", exactMatch: true }),
+        ),
+      ),
+    ).toEqual(["e1"]);
+    expect(
+      ids(
+        applyExamClientFilters(
+          LIST_EXAMS,
+          createFilters({ searchKeyword: "부등", searchScope: "unitName" }),
+        ),
+      ),
+    ).toEqual(["e2"]);
+  });
+
+  it("생성일·문항 수·참여율·단원 필터 (참여 대상이 없으면 참여율 필터에서 제외)", () => {
+    const apply = (overrides: Partial<ExamClientFilters>) =>
+      ids(applyExamClientFilters(LIST_EXAMS, createFilters(overrides)));
+
+    expect(
+      apply({ dateRange: { createdFrom: new Date("2025-02-15T00:00:00") } }),
+    ).toEqual(["e2"]);
+    expect(
+      apply({ dateRange: { createdTo: new Date("2025-02-01T00:00:00") } }),
+    ).toEqual(["e1"]);
+    expect(apply({ questionCountRange: { min: 10, max: 30 } })).toEqual(["e1"]);
+    expect(apply({ participationRateRange: { min: 0, max: 95 } })).toEqual([
+      "e1",
+    ]);
+    expect(apply({ units: ["부등식"] })).toEqual(["e2"]);
+  });
+
+  it("목록에 일정·문항 유형 정보가 없으면 응시 기간·시험 유형·진행 상태 필터를 적용하지 않음", () => {
+    const filters = createFilters({
+      dateRange: { scheduledFrom: new Date("2025-03-01T00:00:00") },
+      examTypes: ["objective"],
+      lifecycle: "open",
+    });
+
+    expect(ids(applyExamClientFilters(LIST_EXAMS, filters, NOW))).toEqual([
+      "e1",
+      "e2",
+    ]);
+    expect(getExamClientFilterAvailability(LIST_EXAMS)).toEqual({
+      schedule: false,
+      examType: false,
+      lifecycle: false,
+    });
+    expect(
+      getUnavailableClientFilterLabels(
+        filters,
+        getExamClientFilterAvailability(LIST_EXAMS),
+      ),
+    ).toEqual(["응시 기간", "시험 유형", "진행 상태"]);
+  });
+
+  it("정보가 있는 시험이 있으면 응시 기간·시험 유형·진행 상태 필터 적용 (정보 없는 시험은 제외)", () => {
+    const exams = [
+      createExam("march", {
+        startDate: "2025-03-09T09:00:00",
+        endDate: "2025-03-11T18:00:00",
+        examSheetInfo: {
+          totalQuestions: 10,
+          totalPoints: 100,
+          objectiveCount: 10,
+          subjectiveCount: 0,
+        },
+      }),
+      createExam("april", {
+        startDate: "2025-04-01T09:00:00",
+        endDate: "2025-04-02T18:00:00",
+        examSheetInfo: {
+          totalQuestions: 10,
+          totalPoints: 100,
+          objectiveCount: 5,
+          subjectiveCount: 5,
+        },
+      }),
+      createExam("unknown"),
+    ];
+    const apply = (overrides: Partial<ExamClientFilters>) =>
+      ids(applyExamClientFilters(exams, createFilters(overrides), NOW));
+
+    expect(getExamClientFilterAvailability(exams)).toEqual({
+      schedule: true,
+      examType: true,
+      lifecycle: true,
+    });
+    expect(
+      apply({
+        dateRange: {
+          scheduledFrom: new Date("2025-03-10T00:00:00"),
+          scheduledTo: new Date("2025-03-31T00:00:00"),
+        },
+      }),
+    ).toEqual(["march"]);
+    expect(apply({ examTypes: ["mixed"] })).toEqual(["april"]);
+    expect(apply({ lifecycle: "open" })).toEqual(["march"]);
+  });
+
+  it("필터가 없으면 모든 시험 유지", () => {
+    expect(ids(applyExamClientFilters(LIST_EXAMS, createFilters()))).toEqual([
+      "e1",
+      "e2",
+    ]);
+  });
+});
+
+describe("toExamFilterSearch / fromExamFilterSearch", () => {
+  it("기본값은 URL 파라미터에서 생략", () => {
+    const { searchKeyword: _, ...defaults } = createFilters();
+
+    expect(
+      Object.values(toExamFilterSearch(defaults)).filter(
+        (value) => value !== undefined,
+      ),
+    ).toEqual([]);
+    expect(fromExamFilterSearch({})).toEqual(defaults);
+  });
+
+  it("URL 파라미터로 변환 후 되돌리면 같은 필터", () => {
+    const { searchKeyword: _, ...filters } = createFilters({
+      searchScope: "unitName",
+      caseSensitive: true,
+      exactMatch: true,
+      dateRange: {
+        createdFrom: new Date(2025, 0, 1),
+        createdTo: new Date(2025, 0, 31),
+        scheduledFrom: new Date(2025, 2, 1),
+        scheduledTo: new Date(2025, 2, 15),
+      },
+      questionCountRange: { min: 5, max: 20 },
+      participationRateRange: { min: 10, max: 90 },
+      units: ["일차방정식", "부등식"],
+      examTypes: ["objective", "mixed"],
+      lifecycle: "closed",
+    });
+    const search = toExamFilterSearch(filters);
+
+    expect(search).toMatchObject({
+      scope: "unitName",
+      createdFrom: "2025-01-01",
+      scheduledTo: "2025-03-15",
+      questionMin: 5,
+      participationMax: 90,
+      types: ["objective", "mixed"],
+      status: "closed",
+    });
+    expect(fromExamFilterSearch(search)).toEqual(filters);
+  });
+
+  it("잘못된 값은 기본값으로 대체하고 범위를 벗어난 숫자는 잘라냄", () => {
+    const filters = fromExamFilterSearch({
+      scope: "title" as never,
+      createdFrom: "not-a-date",
+      questionMin: -3,
+      participationMax: 150,
+      types: ["essay" as never, "subjective"],
+      status: "archived" as never,
+    });
+
+    expect(filters).toMatchObject({
+      searchScope: "all",
+      dateRange: { createdFrom: undefined },
+      questionCountRange: EXAM_QUESTION_COUNT_BOUNDS,
+      participationRateRange: EXAM_PARTICIPATION_RATE_BOUNDS,
+      examTypes: ["subjective"],
+      lifecycle: "all",
+    });
+  });
+});
@@ -0,0 +1,511 @@
+/**
+ * 시험 목록 클라이언트 필터 유틸리티
+ * @description 서버 API(/exams)가 지원하지 않는 필터를 현재 페이지 결과에 적용하고 URL 파라미터와 변환
+ *
+ * 서버 지원 필터: 시험명 검색(search, 부분 일치·대소문자 무관), 학년(grade), 최근(recent)
+ * 클라이언트 필터: 단원명 검색, 대소문자 구분, 정확히 일치, 생성일/응시 기간, 문항 수, 참여율, 단원, 시험 유형, 진행 상태
+ */
+
+import { format, isValid, parseISO } from "date-fns";
+import type { ServerExam } from "@/api/exam/types";
+import type {
+  ExamClientFilterAvailability,
+  ExamClientFilters,
+  ExamDateRangeFilters,
+  ExamLifecycleStatus,
+  ExamQuestionTypeMix,
+  NumberRange,
+  SearchScope,
+} from "@/types/exam";
+import { MAX_EXAM_SHEET_QUESTIONS } from "@/utils/examSheet";
+import {
+  EXAM_LIFECYCLE_ORDER,
+  getExamLifecycleStatus,
+  hasKnownExamLifecycle,
+} from "@/utils/examSchedule";
+
+/** 문항 수 필터 범위 (문제지 최대 문항 수까지) */
+export const EXAM_QUESTION_COUNT_BOUNDS: NumberRange = {
+  min: 1,
+  max: MAX_EXAM_SHEET_QUESTIONS,
+};
+
+/** 참여율 필터 범위 (%) */
+export const EXAM_PARTICIPATION_RATE_BOUNDS: NumberRange = { min: 0, max: 100 };
+
+/** 시험 유형 표시 라벨 */
+export const EXAM_QUESTION_TYPE_LABEL: Record<ExamQuestionTypeMix, string> = {
+  objective: "객관식만",
+  subjective: "주관식만",
+  mixed: "객관식 + 주관식",
+};
+
+/** 시험 유형 표시 순서 */
+export const EXAM_QUESTION_TYPE_ORDER: ExamQuestionTypeMix[] = [
+  "objective",
+  "subjective",
+  "mixed",
+];
+
+/** 검색 범위 URL 허용값 */
+const SEARCH_SCOPES: SearchScope[] = ["all", "examName", "unitName"];
+
+/** URL 날짜 형식 */
+const URL_DATE_FORMAT = "yyyy-MM-dd";
+
+/**
+ * 시험 목록 클라이언트 필터 URL 파라미터 타입
+ * @description 기본값과 같은 항목은 생략
+ */
+export type ExamFilterSearchParams = {
+  scope?: SearchScope;
+  caseSensitive?: boolean;
+  exactMatch?: boolean;
+  createdFrom?: string;
+  createdTo?: string;
+  scheduledFrom?: string;
+  scheduledTo?: string;
+  questionMin?: number;
+  questionMax?: number;
+  participationMin?: number;
+  participationMax?: number;
+  units?: string[];
+  types?: ExamQuestionTypeMix[];
+  status?: ExamLifecycleStatus;
+};
+
+/** 클라이언트 필터가 관리하는 URL 파라미터 키 목록 */
+export const EXAM_FILTER_SEARCH_KEYS: Array<keyof ExamFilterSearchParams> = [
+  "scope",
+  "caseSensitive",
+  "exactMatch",
+  "createdFrom",
+  "createdTo",
+  "scheduledFrom",
+  "scheduledTo",
+  "questionMin",
+  "questionMax",
+  "participationMin",
+  "participationMax",
+  "units",
+  "types",
+  "status",
+];
+
+/**
+ * 시험 문항 수 계산 함수
+ * @param exam 시험 정보
+ * @returns 문항 수 (정보가 없으면 null)
+ */
+export function getExamQuestionCount(exam: ServerExam): number | null {
+  return exam.totalQuestions ?? exam.examSheetInfo?.totalQuestions ?? null;
+}
+
+/**
+ * 시험 참여율 계산 함수
+ * @param exam 시험 정보
+ * @returns 참여율 % (응시 대상이 없거나 정보가 없으면 null)
+ */
+export function getExamParticipationRate(exam: ServerExam): number | null {
+  const info = exam.attendanceInfo;
+  if (!info || info.totalAssigned <= 0) return null;
+  return info.attendanceRate;
+}
+
+/**
+ * 시험 유형 계산 함수
+ * @param exam 시험 정보
+ * @returns 객관식/주관식 구성 (문항 유형 정보가 없으면 null)
+ */
+export function getExamQuestionTypeMix(
+  exam: ServerExam,
+): ExamQuestionTypeMix | null {
+  const objective = exam.examSheetInfo?.objectiveCount;
+  const subjective = exam.examSheetInfo?.subjectiveCount;
+  if (objective === undefined || subjective === undefined) return null;
+  if (objective > 0 && subjective > 0) return "mixed";
+  if (objective > 0) return "objective";
+  if (subjective > 0) return "subjective";
+  return null;
+}
+
+/**
+ * 클라이언트 필터 사용 가능 여부 계산 함수
+ * @description 목록 응답(ExamDto)에 없는 정보로 거르는 필터는 해당 정보가 있는 시험이 하나라도 있을 때만 사용
+ * @param exams 현재 페이지 시험 목록
+ * @returns 필터별 사용 가능 여부
+ */
+export function getExamClientFilterAvailability(
+  exams: ServerExam[],
+): ExamClientFilterAvailability {
+  return {
+    schedule: exams.some((exam) => !!exam.startDate && !!exam.endDate),
+    examType: exams.some((exam) => getExamQuestionTypeMix(exam) !== null),
+    lifecycle: hasKnownExamLifecycle(exams),
+  };
+}
+
+/**
+ * 범위 필터 활성 여부 확인 함수
+ * @param range 선택된 범위
+ * @param bounds 전체 범위
+ * @returns 전체 범위보다 좁으면 true
+ */
+export function isRangeFilterActive(
+  range: NumberRange,
+  bounds: NumberRange,
+): boolean {
+  return range.min > bounds.min || range.max < bounds.max;
+}
+
+/**
+ * 검색어를 클라이언트에서 다시 확인해야 하는지 여부
+ * @description 서버 검색은 시험명 부분 일치(대소문자 무관)만 지원
+ */
+export function needsClientKeywordFilter(
+  filters: Pick<
+    ExamClientFilters,
+    "searchKeyword" | "searchScope" | "caseSensitive" | "exactMatch"
+  >,
+): boolean {
+  return (
+    filters.searchKeyword.trim() !== "" &&
+    (filters.searchScope === "unitName" ||
+      filters.caseSensitive ||
+      filters.exactMatch)
+  );
+}
+
+/**
+ * 활성 클라이언트 필터 목록 계산 함수
+ * @param filters 클라이언트 필터
+ * @returns 활성 필터 라벨 목록 (안내 문구와 활성 필터 개수에 사용)
+ */
+export function getActiveClientFilterLabels(
+  filters: ExamClientFilters,
+): string[] {
+  const labels: string[] = [];
+  const { dateRange } = filters;
+
+  if (needsClientKeywordFilter(filters)) labels.push("검색 옵션");
+  if (dateRange.createdFrom || dateRange.createdTo) labels.push("생성일");
+  if (dateRange.scheduledFrom || dateRange.scheduledTo) {
+    labels.push("응시 기간");
+  }
+  if (
+    isRangeFilterActive(filters.questionCountRange, EXAM_QUESTION_COUNT_BOUNDS)
+  ) {
+    labels.push("문항 수");
+  }
+  if (
+    isRangeFilterActive(
+      filters.participationRateRange,
+      EXAM_PARTICIPATION_RATE_BOUNDS,
+    )
+  ) {
+    labels.push("참여율");
+  }
+  if (filters.units.length > 0) labels.push("단원");
+  if (filters.examTypes.length > 0) labels.push("시험 유형");
+  if (filters.lifecycle !== "all") labels.push("진행 상태");
+
+  return labels;
+}
+
+/**
+ * 적용되지 않는 활성 클라이언트 필터 목록 계산 함수
+ * @description 선택은 되어 있지만 현재 페이지에 정보가 없어 적용하지 않은 필터 (안내 문구에 "정보 없음"으로 표시)
+ * @param filters 클라이언트 필터
+ * @param availability 필터 사용 가능 여부
+ * @returns 미적용 필터 라벨 목록
+ */
+export function getUnavailableClientFilterLabels(
+  filters: ExamClientFilters,
+  availability: ExamClientFilterAvailability,
+): string[] {
+  const labels: string[] = [];
+  const { scheduledFrom, scheduledTo } = filters.dateRange;
+
+  if (!availability.schedule && (scheduledFrom || scheduledTo)) {
+    labels.push("응시 기간");
+  }
+  if (!availability.examType && filters.examTypes.length > 0) {
+    labels.push("시험 유형");
+  }
+  if (!availability.lifecycle && filters.lifecycle !== "all") {
+    labels.push("진행 상태");
+  }
+
+  return labels;
+}
+
+/**
+ * 날짜 범위 포함 여부 확인 함수
+ * @description 끝 날짜는 그날 23:59:59까지 포함
+ */
+function overlapsDateRange(
+  start: Date,
+  end: Date,
+  from?: Date,
+  to?: Date,
+): boolean {
+  if (from && end.getTime() < from.getTime()) return false;
+  if (to) {
+    const toEnd = new Date(to);
+    toEnd.setHours(23, 59, 59, 999);
+    if (start.getTime() > toEnd.getTime()) return false;
+  }
+  return true;
+}
+
+/**
+ * 검색어 일치 확인 함수
+ */
+function matchesKeyword(
+  text: string,
+  keyword: string,
+  {
+    caseSensitive,
+    exactMatch,
+  }: { caseSensitive: boolean; exactMatch: boolean },
+): boolean {
+  const target = caseSensitive ? text : text.toLowerCase();
+  const query = caseSensitive ? keyword : keyword.toLowerCase();
+  return exactMatch ? target === query : target.includes(query);
+}
+
+/**
+ * 클라이언트 필터 적용 함수
+ * @description 정보가 없어 조건을 확인할 수 없는 시험은 해당 필터가 활성일 때 제외
+ * (현재 페이지의 어느 시험에도 정보가 없는 필터는 목록을 비우지 않도록 적용하지 않음)
+ *
+ * @param exams 현재 페이지 시험 목록
+ * @param filters 클라이언트 필터
+ * @param now 진행 상태 계산 기준 시각 (기본값: 현재)
+ * @returns 조건을 만족하는 시험 목록
+ */
+export function applyExamClientFilters(
+  exams: ServerExam[],
+  filters: ExamClientFilters,
+  now: Date = new Date(),
+): ServerExam[] {
+  const keyword = filters.searchKeyword.trim();
+  const isKeywordActive = needsClientKeywordFilter(filters);
+  const { createdFrom, createdTo, scheduledFrom, scheduledTo } =
+    filters.dateRange;
+  const isQuestionRangeActive = isRangeFilterActive(
+    filters.questionCountRange,
+    EXAM_QUESTION_COUNT_BOUNDS,
+  );
+  const isParticipationRangeActive = isRangeFilterActive(
+    filters.participationRateRange,
+    EXAM_PARTICIPATION_RATE_BOUNDS,
+  );
+  const availability = getExamClientFilterAvailability(exams);
+  const isScheduleActive =
+    availability.schedule && (!!scheduledFrom || !!scheduledTo);
+  const isExamTypeActive =
+    availability.examType && filters.examTypes.length > 0;
+  const isLifecycleActive =
+    availability.lifecycle && filters.lifecycle !== "all";
+
+  return exams.filter((exam) => {
+    if (isKeywordActive) {
+      const targets =
+        filters.searchScope === "unitName"
+          ? (exam.units ?? []).map((unit) => unit.unitName)
+          : [exam.examName];
+      if (!targets.some((text) => matchesKeyword(text, keyword, filters))) {
+        return false;
+      }
+    }
+
+    if (createdFrom || createdTo) {
+      const createdAt = new Date(exam.createdAt);
+      if (!overlapsDateRange(createdAt, createdAt, createdFrom, createdTo)) {
+        return false;
+      }
+    }
+
+    if (isScheduleActive) {
+      if (!exam.startDate || !exam.endDate) return false;
+      if (
+        !overlapsDateRange(
+          new Date(exam.startDate),
+          new Date(exam.endDate),
+          scheduledFrom,
+          scheduledTo,
+        )
+      ) {
+        return false;
+      }
+    }
+
+    if (isQuestionRangeActive) {
+      const count = getExamQuestionCount(exam);
+      if (
+        count === null ||
+        count < filters.questionCountRange.min ||
+        count > filters.questionCountRange.max
+      ) {
+        return false;
+      }
+    }
+
+    if (isParticipationRangeActive) {
+      const rate = getExamParticipationRate(exam);
+      if (
+        rate === null ||
+        rate < filters.participationRateRange.min ||
+        rate > filters.participationRateRange.max
+      ) {
+        return false;
+      }
+    }
+
+    if (
+      filters.units.length > 0 &&
+      !(exam.units ?? []).some((unit) => filters.units.includes(unit.unitName))
+    ) {
+      return false;
+    }
+
+    if (isExamTypeActive) {
+      const type = getExamQuestionTypeMix(exam);
+      if (!type || !filters.examTypes.includes(type)) return false;
+    }
+
+    if (
+      isLifecycleActive &&
+      getExamLifecycleStatus(exam, now) !== filters.lifecycle
+    ) {
+      return false;
+    }
+
+    return true;
+  });
+}
+
+/**
+ * 시험 목록의 단원명 수집 함수
+ * @param exams 시험 목록
+ * @returns 중복 없는 단원명 목록 (가나다순)
+ */
+export function collectExamUnitNames(exams: ServerExam[]): string[] {
+  const names = new Set<string>();
+  exams.forEach((exam) =>
+    exam.units?.forEach((unit) => names.add(unit.unitName)),
+  );
+  return [...names].sort((a, b) => a.localeCompare(b, "ko"));
+}
+
+/**
+ * 클라이언트 필터 → URL 파라미터 변환 함수
+ * @param filters 클라이언트 필터 (검색어 제외)
+ * @returns 기본값이 아닌 항목만 담은 URL 파라미터
+ */
+export function toExamFilterSearch(
+  filters: Omit<ExamClientFilters, "searchKeyword">,
+): ExamFilterSearchParams {
+  const search: ExamFilterSearchParams = {};
+  const toDate = (date?: Date) =>
+    date ? format(date, URL_DATE_FORMAT) : undefined;
+
+  if (filters.searchScope !== "all") search.scope = filters.searchScope;
+  if (filters.caseSensitive) search.caseSensitive = true;
+  if (filters.exactMatch) search.exactMatch = true;
+  search.createdFrom = toDate(filters.dateRange.createdFrom);
+  search.createdTo = toDate(filters.dateRange.createdTo);
+  search.scheduledFrom = toDate(filters.dateRange.scheduledFrom);
+  search.scheduledTo = toDate(filters.dateRange.scheduledTo);
+  if (filters.questionCountRange.min > EXAM_QUESTION_COUNT_BOUNDS.min) {
+    search.questionMin = filters.questionCountRange.min;
+  }
+  if (filters.questionCountRange.max < EXAM_QUESTION_COUNT_BOUNDS.max) {
+    search.questionMax = filters.questionCountRange.max;
+  }
+  if (filters.participationRateRange.min > EXAM_PARTICIPATION_RATE_BOUNDS.min) {
+    search.participationMin = filters.participationRateRange.min;
+  }
+  if (filters.participationRateRange.max < EXAM_PARTICIPATION_RATE_BOUNDS.max) {
+    search.participationMax = filters.participationRateRange.max;
+  }
+  if (filters.units.length > 0) search.units = filters.units;
+  if (filters.examTypes.length > 0) search.types = filters.examTypes;
+  if (filters.lifecycle !== "all") search.status = filters.lifecycle;
+
+  return search;
+}
+
+/**
+ * URL 파라미터 → 클라이언트 필터 변환 함수
+ * @description 잘못된 값은 기본값으로 대체
+ * @param search URL 파라미터
+ * @returns 클라이언트 필터 (검색어 제외)
+ */
+export function fromExamFilterSearch(
+  search: ExamFilterSearchParams,
+): Omit<ExamClientFilters, "searchKeyword"> {
+  const toDate = (value?: string) => {
+    if (!value) return undefined;
+    const date = parseISO(value);
+    return isValid(date) ? date : undefined;
+  };
+  const clamp = (
+    value: number | undefined,
+    bounds: NumberRange,
+    fallback: number,
+  ) =>
+    value === undefined
+      ? fallback
+      : Math.min(bounds.max, Math.max(bounds.min, value));
+
+  const dateRange: ExamDateRangeFilters = {
+    createdFrom: toDate(search.createdFrom),
+    createdTo: toDate(search.createdTo),
+    scheduledFrom: toDate(search.scheduledFrom),
+    scheduledTo: toDate(search.scheduledTo),
+  };
+
+  return {
+    searchScope:
+      search.scope && SEARCH_SCOPES.includes(search.scope)
+        ? search.scope
+        : "all",
+    caseSensitive: search.caseSensitive ?? false,
+    exactMatch: search.exactMatch ?? false,
+    dateRange,
+    questionCountRange: {
+      min: clamp(
+        search.questionMin,
+        EXAM_QUESTION_COUNT_BOUNDS,
+        EXAM_QUESTION_COUNT_BOUNDS.min,
+      ),
+      max: clamp(
+        search.questionMax,
+        EXAM_QUESTION_COUNT_BOUNDS,
+        EXAM_QUESTION_COUNT_BOUNDS.max,
+      ),
+    },
+    participationRateRange: {
+      min: clamp(
+        search.participationMin,
+        EXAM_PARTICIPATION_RATE_BOUNDS,
+        EXAM_PARTICIPATION_RATE_BOUNDS.min,
+      ),
+      max: clamp(
+        search.participationMax,
+        EXAM_PARTICIPATION_RATE_BOUNDS,
+        EXAM_PARTICIPATION_RATE_BOUNDS.max,
+      ),
+    },
+    units: search.units ?? [],
+    examTypes: (search.types ?? []).filter((type) =>
+      EXAM_QUESTION_TYPE_ORDER.includes(type),
+    ),
+    lifecycle:
+      search.status && EXAM_LIFECYCLE_ORDER.includes(search.status)
+        ? search.status
+        : "all",
+  };
+}
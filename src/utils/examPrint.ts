@@ -0,0 +1,220 @@
+/**
+ * 시험 인쇄 유틸리티
+ * @description 시험 문제 데이터를 인쇄 문서 데이터로 변환하고 A4 페이지 규칙(CSS)을 생성
+ *
+ * 주요 기능:
+ * - 문항 순서 정렬, 객관식 선택지 정렬, 정답표 결합
+ * - 정답 표기 변환 (객관식 번호 → ①~⑤)
+ * - @page 규칙 생성 (A4, 머리글, 쪽 번호)
+ * - 인쇄 전 글꼴·이미지 로딩 대기
+ */
+
+import type { ExamQuestionsData } from "@/api/exam/exam-questions-types";
+import type {
+  ExamPrintChoice,
+  ExamPrintDocumentData,
+  ExamPrintKind,
+  ExamPrintQuestion,
+  ExamVersionLabel,
+} from "@/types/exam-print";
+
+/** 인쇄 문서 종류 표시 순서 */
+export const EXAM_PRINT_KIND_ORDER: ExamPrintKind[] = [
+  "problem",
+  "answer",
+  "studentAnswer",
+  "versionKey",
+];
+
+/** 인쇄 문서 종류 라벨 */
+export const EXAM_PRINT_KIND_LABEL: Record<ExamPrintKind, string> = {
+  problem: "문제지",
+  answer: "문제 답안지",
+  studentAnswer: "학생 답안지",
+  versionKey: "버전별 정답표",
+};
+
+/** 학생 답안지 번호 표기란 자릿수 (00 ~ 99번) */
+export const STUDENT_NUMBER_DIGITS = 2;
+
+/** 학생 답안지 객관식 표기란 한 묶음의 문항 수 */
+export const OMR_GROUP_SIZE = 5;
+
+/**
+ * 인쇄 iframe → 부모 창 메시지 종류
+ * @description 인쇄 라우트가 인쇄를 마치거나 실패하면 부모 창에 알림
+ */
+export const EXAM_PRINT_MESSAGE = {
+  done: "exam-print:done",
+  error: "exam-print:error",
+} as const;
+
+/** 원문자 선택지 기호 */
+const CHOICE_MARKERS = ["①", "②", "③", "④", "⑤", "⑥", "⑦", "⑧", "⑨"];
+
+/**
+ * 선택지 번호를 원문자로 변환하는 함수
+ * @param key 선택지 번호 ("1" ~ "9")
+ * @returns 원문자 (범위를 벗어나면 "(번호)")
+ */
+export function toChoiceMarker(key: string): string {
+  return CHOICE_MARKERS[Number(key) - 1] ?? `(${key})`;
+}
+
+/**
+ * 객관식 선택지 정렬 함수
+ * @description 서버 선택지 객체({"1": "...", "2": "..."})를 번호 순 배열로 변환
+ */
+function toPrintChoices(
+  choices: Record<string, unknown> | null | undefined,
+): ExamPrintChoice[] {
+  return Object.entries(choices ?? {})
+    .filter(([, text]) => text !== null && text !== undefined)
+    .map(([key, text]) => ({ key, originalKey: key, text: String(text) }))
+    .sort((a, b) => Number(a.key) - Number(b.key));
+}
+
+/**
+ * 인쇄 문서 데이터 변환 함수
+ * @param examData 시험 문제 조회 결과
+ * @param answerKey 문제 ID → 정답 맵 (없으면 정답 미표시)
+ * @returns 문항 순서대로 번호를 매긴 인쇄 문서 데이터
+ */
+export function toExamPrintDocument(
+  examData: ExamQuestionsData,
+  answerKey: Record<string, string> = {},
+): ExamPrintDocumentData {
+  const questions: ExamPrintQuestion[] = [...examData.questions]
+    .sort((a, b) => a.seqNo - b.seqNo)
+    .map((question, index) => ({
+      questionId: question.questionId,
+      number: index + 1,
+      originalNumber: index + 1,
+      seqNo: question.seqNo,
+      questionType: question.questionType,
+      questionText: question.questionText,
+      points: question.points,
+      choices:
+        question.questionType === "MULTIPLE_CHOICE"
+          ? toPrintChoices(question.choices)
+          : [],
+      imageUrls: question.imageUrls ?? [],
+      correctAnswer: answerKey[question.questionId] ?? null,
+    }));
+
+  return {
+    examId: examData.examId,
+    examName: examData.examName,
+    grade: examData.grade,
+    totalPoints: examData.totalPoints,
+    questions,
+  };
+}
+
+/**
+ * 정답 표기 변환 함수
+ * @description 객관식 정답이 번호면 원문자로, 선택지 내용이면 해당 번호의 원문자로 표시
+ * @param question 인쇄용 문항
+ * @returns 표시용 정답 (정답 정보가 없으면 null)
+ */
+export function formatPrintAnswer(question: ExamPrintQuestion): string | null {
+  const answer = question.correctAnswer?.trim();
+  if (!answer) return null;
+  if (question.questionType !== "MULTIPLE_CHOICE") return answer;
+
+  if (/^\d+$/.test(answer)) return toChoiceMarker(answer);
+  const matched = question.choices.find(
+    (choice) => choice.text.replace(/\s+/g, "") === answer.replace(/\s+/g, ""),
+  );
+  return matched ? toChoiceMarker(matched.key) : answer;
+}
+
+/**
+ * 학생 답안지 객관식 표기란 묶음 함수
+ * @param questions 객관식 문항 목록
+ * @param size 묶음 크기
+ * @returns 묶음 배열 (각 묶음은 페이지 사이에서 나뉘지 않음)
+ */
+export function chunkPrintQuestions(
+  questions: ExamPrintQuestion[],
+  size = OMR_GROUP_SIZE,
+): ExamPrintQuestion[][] {
+  const groups: ExamPrintQuestion[][] = [];
+  for (let index = 0; index < questions.length; index += size) {
+    groups.push(questions.slice(index, index + size));
+  }
+  return groups;
+}
+
+/**
+ * CSS 문자열 리터럴 이스케이프 함수
+ */
+function escapeCssString(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/[\r\n]+/g, " ");
+}
+
+/**
+ * A4 페이지 규칙 생성 함수
+ * @description 페이지 여백 상자로 모든 쪽에 시험명·문서 종류(버전) 머리글과 "쪽 / 전체" 번호를 출력
+ * @param examName 시험명
+ * @param kind 문서 종류
+ * @param version 버전 라벨 (있으면 머리글에 "B형" 형태로 함께 표시)
+ * @returns @page CSS 문자열
+ */
+export function buildExamPrintPageCss(
+  examName: string,
+  kind: ExamPrintKind,
+  version?: ExamVersionLabel,
+): string {
+  const title = escapeCssString(examName);
+  const kindLabel = escapeCssString(
+    version
+      ? `${EXAM_PRINT_KIND_LABEL[kind]} · ${version}형`
+      : EXAM_PRINT_KIND_LABEL[kind],
+  );
+
+  return `
+    @page {
+      size: A4;
+      margin: 16mm 14mm 18mm;
+      @top-left {
+        content: "${title}";
+        font-size: 8pt;
+        color: #555;
+      }
+      @top-right {
+        content: "${kindLabel}";
+        font-size: 8pt;
+        color: #555;
+      }
+      @bottom-center {
+        content: counter(page) " / " counter(pages);
+        font-size: 9pt;
+      }
+    }
+  `;
+}
+
+/**
+ * 인쇄 자원 로딩 대기 함수
+ * @description 글꼴과 문서 안의 이미지가 모두 로드될 때까지 대기 (실패한 이미지는 건너뜀)
+ * @param root 인쇄 문서 루트 요소
+ */
+export async function waitForPrintAssets(root: HTMLElement): Promise<void> {
+  await document.fonts.ready;
+  const pendingImages = Array.from(root.querySelectorAll("img")).filter(
+    (image) => !image.complete,
+  );
+  await Promise.all(
+    pendingImages.map(
+      (image) =>
+        new Promise<void>((resolve) => {
+          image.addEventListener("load", () => resolve(), { once: true });
+          image.addEventListener("error", () => resolve(), { once: true });
+        }),
+    ),
+  );
+}
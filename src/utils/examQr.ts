@@ -0,0 +1,120 @@
+/**
+ * 시험 QR 코드 유틸리티
+ * @description 학생 응시 주소와 QR 코드(로컬 생성)를 만들고 QR 안내문 인쇄 규칙을 제공
+ *
+ * 주요 기능:
+ * - 시험 정보 → QR 안내문 정보 변환 (시험명, 학년, 응시 기간, 응시 주소)
+ * - 서버 QR 이미지가 없을 때 로컬에서 QR 코드 SVG 경로 생성 (응시 주소는 VITE_STUDENT_EXAM_URL_BASE 설정값)
+ * - 학생용 쪽지 배치 계산 (한 쪽에 N장)
+ */
+
+import { encode } from "uqr";
+import type { ServerExam } from "@/types/server-exam";
+import type { ExamQrInfo } from "@/types/exam-qr";
+import { formatExamSchedule } from "@/utils/examSchedule";
+
+/**
+ * 학생 응시 주소 기본 경로
+ * @description 서버가 QR 코드 URL을 주지 않을 때 로컬 QR 코드에 담는 주소 (`/{examId}`를 붙여 사용)
+ *
+ * 주의사항:
+ * - 학생 앱 주소는 배포 환경마다 다르므로 VITE_STUDENT_EXAM_URL_BASE로 지정 (끝의 `/`는 제거)
+ * - 설정하지 않으면 null → 서버 QR 이미지가 없는 시험은 QR 코드를 만들지 않고 안내 문구만 표시
+ */
+export const STUDENT_EXAM_URL_BASE: string | null =
+  (import.meta.env.VITE_STUDENT_EXAM_URL_BASE as string | undefined)
+    ?.trim()
+    .replace(/\/+$/, "") || null;
+
+/** 학생용 쪽지 한 쪽 장수 선택지 */
+export const EXAM_QR_SLIPS_PER_PAGE_OPTIONS = [4, 6, 8, 10] as const;
+
+/** 학생용 쪽지 기본 한 쪽 장수 */
+export const DEFAULT_EXAM_QR_SLIPS_PER_PAGE = 8;
+
+/** 학생용 쪽지 최대 장수 */
+export const MAX_EXAM_QR_SLIP_COUNT = 200;
+
+/** QR 안내문 응시 방법 */
+export const EXAM_QR_INSTRUCTIONS = [
+  "휴대폰 카메라로 QR 코드를 비추세요.",
+  "열린 화면에서 이름과 번호를 확인하세요.",
+  "응시 기간 안에 답안을 제출하세요.",
+];
+
+/**
+ * QR 안내문 정보 변환 함수
+ * @param exam 서버 시험 정보
+ * @returns 안내문에 표시할 시험 정보와 응시 주소 (응시 주소 미설정 시 examUrl은 null)
+ */
+export function toExamQrInfo(exam: ServerExam): ExamQrInfo {
+  return {
+    examId: exam.id,
+    examName: exam.examName,
+    grade: exam.grade,
+    scheduleText: formatExamSchedule(exam),
+    examUrl: STUDENT_EXAM_URL_BASE
+      ? `${STUDENT_EXAM_URL_BASE}/${encodeURIComponent(exam.id)}`
+      : null,
+    qrImageUrl: exam.qrCodeUrl || null,
+  };
+}
+
+/**
+ * QR 코드 SVG 생성 함수
+ * @description 검은 모듈을 한 개의 path로 묶어 인쇄·확대 시에도 선명하게 출력
+ * @param value QR 코드에 담을 내용
+ * @returns viewBox 크기와 path d 속성
+ */
+export function buildQrSvgPath(value: string): { size: number; path: string } {
+  const { size, data } = encode(value, { ecc: "M", border: 2 });
+  const path = data
+    .flatMap((row, y) =>
+      row.map((isDark, x) => (isDark ? `M${x} ${y}h1v1h-1z` : "")),
+    )
+    .join("");
+
+  return { size, path };
+}
+
+/**
+ * 학생용 쪽지 쪽 나누기 함수
+ * @param count 전체 쪽지 장수
+ * @param perPage 한 쪽 장수
+ * @returns 쪽마다 쪽지 번호(1부터) 배열
+ */
+export function paginateExamQrSlips(
+  count: number,
+  perPage: number,
+): number[][] {
+  const slipNumbers = Array.from({ length: count }, (_, index) => index + 1);
+  const pages: number[][] = [];
+  for (let index = 0; index < slipNumbers.length; index += perPage) {
+    pages.push(slipNumbers.slice(index, index + perPage));
+  }
+  return pages;
+}
+
+/**
+ * QR 안내문 페이지 규칙 생성 함수
+ * @description A4, 쪽 번호·머리글 없이 여백만 둠 (포스터는 한 장, 쪽지는 재단선 기준 배치)
+ */
+export function buildExamQrPageCss(): string {
+  return `
+    @page {
+      size: A4;
+      margin: 12mm;
+    }
+    @media print {
+      html, body, main {
+        background: #fff !important;
+        height: auto !important;
+        overflow: visible !important;
+      }
+      .exam-qr-page {
+        -webkit-print-color-adjust: exact;
+        print-color-adjust: exact;
+      }
+    }
+  `;
+}
@@ -0,0 +1,199 @@
+/**
+ * 시험 일정 유틸리티
+ * @description 시험 시작/종료일시로 진행 상태를 계산하고 일정 입력을 검증
+ *
+ * 주요 기능:
+ * - 진행 상태(예정/진행중/마감/채점완료/일정 없음) 계산
+ * - datetime-local 입력값 ↔ ISO 8601 변환
+ * - 일정 검증 (종료가 시작 이후, 제한시간이 응시 기간 안에 들어가는지)
+ * - 일정 표시 문구 생성
+ */
+
+import type { ServerExam } from "@/types/server-exam";
+import type { ExamLifecycleStatus, ExamScheduleValues } from "@/types/exam";
+
+/** 진행 상태 표시 라벨 */
+export const EXAM_LIFECYCLE_LABEL: Record<ExamLifecycleStatus, string> = {
+  scheduled: "예정",
+  open: "진행중",
+  closed: "마감",
+  graded: "채점완료",
+  unknown: "일정 없음",
+};
+
+/** 진행 상태 필터 순서 (일정 없음은 필터 대상이 아님) */
+export const EXAM_LIFECYCLE_ORDER: ExamLifecycleStatus[] = [
+  "scheduled",
+  "open",
+  "closed",
+  "graded",
+];
+
+/** 제한시간 최대값 (분) */
+export const MAX_EXAM_DURATION_MINUTES = 600;
+
+/**
+ * 시험 진행 상태 계산 함수
+ * @description 채점 완료일시가 있으면 채점완료, 그 외에는 현재 시각과 시작/종료일시를 비교
+ * @param exam 시험 정보 (일정 필드)
+ * @param now 기준 시각 (기본값: 현재)
+ * @returns 진행 상태 (시작/종료일시가 모두 없으면 일정 없음)
+ */
+export function getExamLifecycleStatus(
+  exam: Pick<ServerExam, "startDate" | "endDate" | "gradedAt">,
+  now: Date = new Date(),
+): ExamLifecycleStatus {
+  if (exam.gradedAt) return "graded";
+  if (!exam.startDate && !exam.endDate) return "unknown";
+
+  const time = now.getTime();
+  if (exam.startDate && time < new Date(exam.startDate).getTime()) {
+    return "scheduled";
+  }
+  if (exam.endDate && time >= new Date(exam.endDate).getTime()) {
+    return "closed";
+  }
+  return "open";
+}
+
+/**
+ * 진행 상태 필터 사용 가능 여부 확인 함수
+ * @description 일정 정보가 있는 시험이 하나도 없으면 상태별로 나눌 수 없으므로 필터를 숨김
+ * @param exams 시험 목록
+ * @returns 진행 상태를 알 수 있는 시험이 하나라도 있으면 true
+ */
+export function hasKnownExamLifecycle(
+  exams: Pick<ServerExam, "startDate" | "endDate" | "gradedAt">[],
+): boolean {
+  return exams.some((exam) => getExamLifecycleStatus(exam) !== "unknown");
+}
+
+/**
+ * datetime-local 입력값 생성 함수
+ * @param date 날짜
+ * @returns 로컬 시간 기준 YYYY-MM-DDTHH:mm
+ */
+export function toDateTimeLocalValue(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * 기본 시험 일정 생성 함수
+ * @description 다음 정각부터 7일간, 제한시간 120분
+ * @param now 기준 시각 (기본값: 현재)
+ * @returns 일정 입력값
+ */
+export function createDefaultExamSchedule(
+  now: Date = new Date(),
+): ExamScheduleValues {
+  const start = new Date(now);
+  start.setHours(start.getHours() + 1, 0, 0, 0);
+  const end = new Date(start.getTime() + 7 * 24 * 60 * 60 * 1000);
+
+  return {
+    startDate: toDateTimeLocalValue(start),
+    endDate: toDateTimeLocalValue(end),
+    duration: 120,
+  };
+}
+
+/**
+ * 시험의 현재 일정을 입력값으로 변환하는 함수
+ * @description 일정이 없는 시험은 기본 일정으로 채움 (수정 다이얼로그 초기값용)
+ * @param exam 시험 정보 (일정 필드)
+ * @returns 일정 입력값
+ */
+export function toExamScheduleValues(
+  exam: Pick<ServerExam, "startDate" | "endDate" | "duration">,
+): ExamScheduleValues {
+  const fallback = createDefaultExamSchedule();
+  return {
+    startDate: exam.startDate
+      ? toDateTimeLocalValue(new Date(exam.startDate))
+      : fallback.startDate,
+    endDate: exam.endDate
+      ? toDateTimeLocalValue(new Date(exam.endDate))
+      : fallback.endDate,
+    duration: exam.duration ?? fallback.duration,
+  };
+}
+
+/**
+ * 시험 일정 검증 함수
+ * @param values 일정 입력값
+ * @returns 에러 메시지 (유효하면 null)
+ */
+export function validateExamSchedule(
+  values: ExamScheduleValues,
+): string | null {
+  const start = new Date(values.startDate).getTime();
+  const end = new Date(values.endDate).getTime();
+
+  if (!values.startDate || Number.isNaN(start)) {
+    return "시작일시를 입력해주세요.";
+  }
+  if (!values.endDate || Number.isNaN(end)) {
+    return "종료일시를 입력해주세요.";
+  }
+  if (end <= start) {
+    return "종료일시는 시작일시 이후여야 합니다.";
+  }
+  if (
+    !Number.isInteger(values.duration) ||
+    values.duration < 1 ||
+    values.duration > MAX_EXAM_DURATION_MINUTES
+  ) {
+    return `제한시간은 1~${MAX_EXAM_DURATION_MINUTES}분 사이로 입력해주세요.`;
+  }
+  if (values.duration * 60 * 1000 > end - start) {
+    return "제한시간이 응시 기간보다 깁니다.";
+  }
+  return null;
+}
+
+/**
+ * 시험 일정 표시 문구 생성 함수
+ * @param exam 시험 정보 (일정 필드)
+ * @returns "2025.03.02 09:00 ~ 2025.03.09 09:00 (120분)" 형식 (일정이 없으면 null)
+ */
+export function formatExamSchedule(
+  exam: Pick<ServerExam, "startDate" | "endDate" | "duration">,
+): string | null {
+  if (!exam.startDate && !exam.endDate) return null;
+
+  const format = (value?: string | null) =>
+    value
+      ? new Date(value).toLocaleString("ko-KR", {
+          year: "numeric",
+          month: "2-digit",
+          day: "2-digit",
+          hour: "2-digit",
+          minute: "2-digit",
+          hour12: false,
+        })
+      : "";
+  const duration = exam.duration ? ` (${exam.duration}분)` : "";
+
+  return `${format(exam.startDate)} ~ ${format(exam.endDate)}${duration}`;
+}
+
+/**
+ * 다시 열기 종료일시 검증 함수
+ * @param endDate 새 종료일시 (datetime-local 입력값)
+ * @param now 기준 시각 (기본값: 현재)
+ * @returns 에러 메시지 (유효하면 null)
+ */
+export function validateReopenEndDate(
+  endDate: string,
+  now: Date = new Date(),
+): string | null {
+  const end = new Date(endDate).getTime();
+  if (!endDate || Number.isNaN(end)) {
+    return "새 종료일시를 입력해주세요.";
+  }
+  if (end <= now.getTime()) {
+    return "새 종료일시는 현재 이후여야 합니다.";
+  }
+  return null;
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { distributePoints } from "./examSheet";
+
+const problems = [
+  { id: "p1", difficulty: "low" as const },
+  { id: "p2", difficulty: "medium" as const },
+  { id: "p3", difficulty: "high" as const },
+];
+
+function sum(points: Record<string, number>): number {
+  return Object.values(points).reduce((total, value) => total + value, 0);
+}
+
+describe("distributePoints", () => {
+  it("균등 분배는 나머지를 앞 문항부터 1점씩 배정", () => {
+    const points = distributePoints(problems, "even");
+
+    expect(points).toEqual({ p1: 34, p2: 33, p3: 33 });
+    expect(sum(points)).toBe(100);
+  });
+
+  it("난이도 분배는 상·중·하 가중치(3:2:1)에 비례하고 합계를 맞춤", () => {
+    const points = distributePoints(problems, "difficulty");
+
+    expect(points).toEqual({ p1: 17, p2: 33, p3: 50 });
+    expect(sum(points)).toBe(100);
+  });
+
+  it("지정한 총점으로 분배하고 모든 문항에 1점 이상 배정", () => {
+    const many = Array.from({ length: 7 }, (_, index) => ({
+      id: `p${index}`,
+      difficulty: index === 0 ? ("high" as const) : ("low" as const),
+    }));
+    const points = distributePoints(many, "difficulty", 20);
+
+    expect(sum(points)).toBe(20);
+    expect(Object.values(points).every((value) => value >= 1)).toBe(true);
+    expect(points.p0).toBeGreaterThan(points.p1);
+  });
+
+  it("문항이 없거나 총점보다 많으면 빈 객체", () => {
+    expect(distributePoints([], "even")).toEqual({});
+    expect(distributePoints(problems, "even", 2)).toEqual({});
+  });
+});
@@ -0,0 +1,140 @@
+import type {
+  ExamSheetQuestionRequest,
+  ExamSheetSaveRequest,
+  Problem,
+} from "@/types/exam-sheet";
+import type { PointsDistributionMode } from "@/types/units-tree";
+
+/** 문제지 최대 문항 수 (서버 검증 규칙) */
+export const MAX_EXAM_SHEET_QUESTIONS = 50;
+
+/** 문제지명 최대 길이 (서버 검증 규칙) */
+export const MAX_EXAM_SHEET_NAME_LENGTH = 100;
+
+/** 배점 정보가 없는 문항의 기본 배점 */
+export const DEFAULT_QUESTION_POINTS = 10;
+
+/** 난이도별 배점 가중치 (하 1 : 중 2 : 상 3) */
+const DIFFICULTY_POINTS_WEIGHT: Record<Problem["difficulty"], number> = {
+  low: 1,
+  medium: 2,
+  high: 3,
+};
+
+/**
+ * 문항 순서 정규화 함수
+ * @description 현재 배열 순서대로 questionOrder를 1부터 연속하게 다시 매김
+ * @param questions 문항 목록 (표시 순서)
+ * @returns questionOrder가 1, 2, 3, ... 으로 정렬된 문항 목록
+ */
+export function normalizeQuestionOrder(
+  questions: Array<Omit<ExamSheetQuestionRequest, "questionOrder">>,
+): ExamSheetQuestionRequest[] {
+  return questions.map((question, index) => ({
+    questionId: question.questionId,
+    questionOrder: index + 1,
+    points: question.points,
+  }));
+}
+
+/**
+ * 문제지 저장 요청 검증 함수
+ * @description 서버 검증 규칙을 저장 전에 확인하여 사용자에게 바로 안내
+ *
+ * 검증 항목:
+ * - 문제지명 필수, 최대 100자
+ * - 학년 1 ~ 3
+ * - 1 ~ 50문항
+ * - 문항 중복 불가
+ * - questionOrder 1부터 연속
+ * - 배점 1점 이상 정수
+ *
+ * @param data 문제지 저장 요청 데이터
+ * @returns 오류 메시지 (통과 시 null)
+ */
+export function validateExamSheetRequest(
+  data: ExamSheetSaveRequest,
+): string | null {
+  const examName = data.examName.trim();
+  if (!examName) {
+    return "문제지명을 입력해주세요.";
+  }
+  if (examName.length > MAX_EXAM_SHEET_NAME_LENGTH) {
+    return `문제지명은 ${MAX_EXAM_SHEET_NAME_LENGTH}자 이하로 입력해주세요.`;
+  }
+  if (data.grade < 1 || data.grade > 3) {
+    return "학년은 1~3학년 중에서 선택해주세요.";
+  }
+  if (data.questions.length === 0) {
+    return "문항을 1개 이상 포함해야 합니다.";
+  }
+  if (data.questions.length > MAX_EXAM_SHEET_QUESTIONS) {
+    return `문제지에는 최대 ${MAX_EXAM_SHEET_QUESTIONS}문항까지 담을 수 있습니다.`;
+  }
+
+  const questionIds = new Set(data.questions.map((q) => q.questionId));
+  if (questionIds.size !== data.questions.length) {
+    return "같은 문항이 중복으로 포함되어 있습니다.";
+  }
+
+  const orders = data.questions
+    .map((q) => q.questionOrder)
+    .sort((a, b) => a - b);
+  if (orders.some((order, index) => order !== index + 1)) {
+    return "문항 순서는 1번부터 빠짐없이 이어져야 합니다.";
+  }
+
+  if (data.questions.some((q) => !Number.isInteger(q.points) || q.points < 1)) {
+    return "배점은 1점 이상의 정수로 입력해주세요.";
+  }
+
+  return null;
+}
+
+/**
+ * 배점 자동 분배 함수
+ * @description 총점을 문항 수에 맞춰 정수 배점으로 나누고, 합계가 정확히 총점이 되도록 보정
+ *
+ * 분배 규칙:
+ * - 모든 문항에 먼저 1점씩 배정 (배점 1점 이상 규칙)
+ * - 남은 점수를 가중치(균등 또는 난이도)에 비례해 나누고 소수점 이하는 버림
+ * - 버림으로 남은 점수는 소수 부분이 큰 문항부터 1점씩 추가 (최대 나머지 방식)
+ *
+ * @param problems 배점을 분배할 문항 목록 (표시 순서)
+ * @param mode 분배 방식
+ * @param totalPoints 목표 총점 (기본값 100)
+ * @returns 문항 ID별 배점 (문항 수가 총점보다 많으면 빈 객체)
+ */
+export function distributePoints(
+  problems: Array<Pick<Problem, "id" | "difficulty">>,
+  mode: PointsDistributionMode,
+  totalPoints = 100,
+): Record<string, number> {
+  if (problems.length === 0 || problems.length > totalPoints) {
+    return {};
+  }
+
+  const weights = problems.map((problem) =>
+    mode === "difficulty" ? DIFFICULTY_POINTS_WEIGHT[problem.difficulty] : 1,
+  );
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const remaining = totalPoints - problems.length;
+
+  const shares = weights.map((weight) => (remaining * weight) / totalWeight);
+  const points = shares.map((share) => 1 + Math.floor(share));
+  let leftover = totalPoints - points.reduce((sum, value) => sum + value, 0);
+
+  // 소수 부분이 큰 순서로 남은 점수 배정 (동률이면 앞 문항 우선)
+  const byFraction = shares
+    .map((share, index) => ({ index, fraction: share - Math.floor(share) }))
+    .sort((a, b) => b.fraction - a.fraction || a.index - b.index);
+  for (const { index } of byFraction) {
+    if (leftover <= 0) break;
+    points[index] += 1;
+    leftover -= 1;
+  }
+
+  return Object.fromEntries(
+    problems.map((problem, index) => [problem.id, points[index]]),
+  );
+}
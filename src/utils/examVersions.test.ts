@@ -0,0 +1,211 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildExamPrintJobs,
+  buildExamVersionKeyRows,
+  toExamVersionDocument,
+  toOriginalOrderAnswers,
+} from "./examVersions";
+import type {
+  ExamPrintDocumentData,
+  ExamPrintQuestion,
+} from "@/types/exam-print";
+
+/** 객관식 문항 (선택지 5개, 원래 정답 번호 answer) */
+function createChoiceQuestion(
+  seqNo: number,
+  answer: string | null,
+): ExamPrintQuestion {
+  return {
+    questionId: `q${seqNo}`,
+    number: seqNo,
+    originalNumber: seqNo,
+    seqNo,
+    questionType: "MULTIPLE_CHOICE",
+    questionText: `${seqNo}번 문제`,
+    points: 4,
+    choices: ["1", "2", "3", "4", "5"].map((key) => ({
+      key,
+      originalKey: key,
+      text: `${seqNo}-${key}`,
+    })),
+    imageUrls: [],
+    correctAnswer: answer,
+  };
+}
+
+function createSubjectiveQuestion(seqNo: number): ExamPrintQuestion {
+  return {
+    ...createChoiceQuestion(seqNo, "x+1"),
+    questionType: "SUBJECTIVE",
+    choices: [],
+  };
+}
+
+/** 1~9번 객관식, 10번 주관식 */
+const DOCUMENT: ExamPrintDocumentData = {
+  examId: "exam-1",
+  examName: "중간고사",
+  grade: 1,
+  totalPoints: 40,
+  questions: [
+    ...Array.from({ length: 9 }, (_, index) =>
+      createChoiceQuestion(index + 1, String((index % 5) + 1)),
+    ),
+    createSubjectiveQuestion(10),
+  ],
+};
+
+describe("toExamVersionDocument", () => {
+  it("A형은 원래 순서 그대로 버전 라벨만 붙임", () => {
+    const versionDocument = toExamVersionDocument(DOCUMENT, "A");
+
+    expect(versionDocument.version).toBe("A");
+    expect(versionDocument.questions).toEqual(DOCUMENT.questions);
+  });
+
+  it("B형은 시험 ID·버전 시드로 항상 같은 순서로 섞고 1번부터 다시 번호를 매김", () => {
+    const first = toExamVersionDocument(DOCUMENT, "B");
+    const second = toExamVersionDocument(DOCUMENT, "B");
+    const seqNos = first.questions.map((question) => question.seqNo);
+
+    expect(second).toEqual(first);
+    expect(first.version).toBe("B");
+    expect(seqNos).not.toEqual(DOCUMENT.questions.map((q) => q.seqNo));
+    expect([...seqNos].sort((a, b) => a - b)).toEqual([
+      1, 2, 3, 4, 5, 6, 7, 8, 9, 10,
+    ]);
+    expect(first.questions.map((question) => question.number)).toEqual([
+      1, 2, 3, 4, 5, 6, 7, 8, 9, 10,
+    ]);
+    expect(toExamVersionDocument(DOCUMENT, "C").questions).not.toEqual(
+      first.questions,
+    );
+  });
+
+  it("선택지를 섞어 번호를 다시 매기고 정답 번호를 새 번호로 변환", () => {
+    const versionDocument = toExamVersionDocument(DOCUMENT, "B");
+
+    versionDocument.questions
+      .filter((question) => question.questionType === "MULTIPLE_CHOICE")
+      .forEach((question) => {
+        const original = DOCUMENT.questions.find(
+          (item) => item.questionId === question.questionId,
+        );
+        const answerChoice = question.choices.find(
+          (choice) => choice.key === question.correctAnswer,
+        );
+
+        expect(question.choices.map((choice) => choice.key)).toEqual([
+          "1",
+          "2",
+          "3",
+          "4",
+          "5",
+        ]);
+        expect(
+          question.choices.map((choice) => choice.originalKey).sort(),
+        ).toEqual(["1", "2", "3", "4", "5"]);
+        expect(answerChoice?.originalKey).toBe(original?.correctAnswer);
+        expect(answerChoice?.text).toBe(
+          `${question.seqNo}-${original?.correctAnswer}`,
+        );
+      });
+  });
+
+  it("주관식과 번호가 아닌 정답은 그대로 유지", () => {
+    const data: ExamPrintDocumentData = {
+      ...DOCUMENT,
+      questions: [
+        createChoiceQuestion(1, "1-3"),
+        createChoiceQuestion(2, null),
+        createSubjectiveQuestion(3),
+      ],
+    };
+    const questions = toExamVersionDocument(data, "D").questions;
+    const bySeqNo = (seqNo: number) =>
+      questions.find((question) => question.seqNo === seqNo);
+
+    expect(bySeqNo(1)?.correctAnswer).toBe("1-3");
+    expect(bySeqNo(2)?.correctAnswer).toBeNull();
+    expect(bySeqNo(3)).toMatchObject({ choices: [], correctAnswer: "x+1" });
+  });
+});
+
+describe("toOriginalOrderAnswers", () => {
+  it("B형 답안을 원래 문항 순서(seqNo)와 원래 선택지 번호로 되돌림", () => {
+    const versionDocument = toExamVersionDocument(DOCUMENT, "B");
+    const [first] = versionDocument.questions.filter(
+      (question) => question.questionType === "MULTIPLE_CHOICE",
+    );
+    const marked = first.choices[1];
+
+    expect(
+      toOriginalOrderAnswers(DOCUMENT, "B", { [first.number]: marked.key }),
+    ).toEqual({ [first.seqNo]: marked.originalKey });
+    expect(marked.text).toBe(`${first.seqNo}-${marked.originalKey}`);
+  });
+
+  it("B형 정답을 되돌리면 원래 정답과 같고, 주관식 답안은 그대로", () => {
+    const versionDocument = toExamVersionDocument(DOCUMENT, "B");
+    const answers = Object.fromEntries(
+      versionDocument.questions.map((question) => [
+        question.number,
+        question.correctAnswer ?? "",
+      ]),
+    );
+
+    expect(toOriginalOrderAnswers(DOCUMENT, "B", answers)).toEqual(
+      Object.fromEntries(
+        DOCUMENT.questions.map((question) => [
+          question.seqNo,
+          question.correctAnswer,
+        ]),
+      ),
+    );
+  });
+
+  it("버전에 없는 번호는 무시하고 선택지에 없는 답안은 그대로 둠", () => {
+    const versionDocument = toExamVersionDocument(DOCUMENT, "C");
+    const question = versionDocument.questions[0];
+
+    expect(
+      toOriginalOrderAnswers(DOCUMENT, "C", {
+        [question.number]: "7",
+        99: "1",
+      }),
+    ).toEqual({ [question.seqNo]: "7" });
+  });
+});
+
+describe("buildExamVersionKeyRows", () => {
+  it("원래 순서마다 버전별 번호와 표시용 정답", () => {
+    const rows = buildExamVersionKeyRows(DOCUMENT, ["A", "B"]);
+    const versionB = toExamVersionDocument(DOCUMENT, "B");
+    const seqNo1InB = versionB.questions.find(
+      (question) => question.seqNo === 1,
+    );
+
+    expect(rows.map((row) => row.seqNo)).toEqual([
+      1, 2, 3, 4, 5, 6, 7, 8, 9, 10,
+    ]);
+    expect(rows[0].versions.A).toEqual({ number: 1, answer: "①" });
+    expect(rows[0].versions.B?.number).toBe(seqNo1InB?.number);
+    expect(rows[9].versions.B?.answer).toBe("x+1");
+  });
+});
+
+describe("buildExamPrintJobs", () => {
+  it("문서 종류 순서대로 버전마다 한 부, 버전별 정답표는 한 부", () => {
+    expect(buildExamPrintJobs(["versionKey", "problem"], 2)).toEqual([
+      { kind: "problem", version: "A" },
+      { kind: "problem", version: "B" },
+      { kind: "versionKey" },
+    ]);
+  });
+
+  it("버전이 1개면 버전 구분 없이 인쇄하고 버전별 정답표 제외", () => {
+    expect(buildExamPrintJobs(["problem", "versionKey"], 1)).toEqual([
+      { kind: "problem" },
+    ]);
+  });
+});
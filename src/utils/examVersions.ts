@@ -0,0 +1,196 @@
+/**
+ * 시험 버전(A/B/C형) 유틸리티
+ * @description 부정행위 방지를 위해 같은 시험을 문항·선택지 순서만 다른 여러 버전으로 만듦
+ *
+ * 주요 기능:
+ * - 시험 ID와 버전 라벨로 고정된 시드의 순서 섞기 (같은 시험·버전은 언제 인쇄해도 같은 순서)
+ * - 버전별 정답 재배치 (객관식 정답 번호를 섞인 선택지 번호로 변환)
+ * - 버전별 정답표 생성 (원래 문항 순서 seqNo 기준)
+ * - 버전 답안을 원래 순서로 되돌리기 (답안지 인식 결과를 원래 문항·선택지 번호로 첨부)
+ * - 문서 종류 × 버전 인쇄 작업 목록 생성
+ *
+ * A형은 항상 원래 순서를 유지하므로 서버 채점 결과와 번호가 그대로 일치함
+ * B형 이후 답안지는 버전별 정답표로 원래 문항 번호(seqNo)와 대조
+ */
+
+import type {
+  ExamPrintDocumentData,
+  ExamPrintJob,
+  ExamPrintKind,
+  ExamPrintQuestion,
+  ExamVersionKeyRow,
+  ExamVersionLabel,
+} from "@/types/exam-print";
+import { createSeededRandom, shuffleWithRandom } from "@/utils/blueprint";
+import { EXAM_PRINT_KIND_ORDER, formatPrintAnswer } from "@/utils/examPrint";
+
+/** 버전 라벨 (최대 5개 버전) */
+export const EXAM_VERSION_LABELS = [
+  "A",
+  "B",
+  "C",
+  "D",
+  "E",
+] as const satisfies readonly ExamVersionLabel[];
+
+/** 최대 버전 수 */
+export const MAX_EXAM_VERSION_COUNT = EXAM_VERSION_LABELS.length;
+
+/**
+ * 인쇄할 버전 라벨 목록 조회 함수
+ * @param versionCount 버전 수 (1 ~ 5 범위로 보정)
+ * @returns A형부터 버전 수만큼의 라벨
+ */
+export function getExamVersionLabels(versionCount: number): ExamVersionLabel[] {
+  const count = Math.min(
+    Math.max(Math.floor(versionCount) || 1, 1),
+    MAX_EXAM_VERSION_COUNT,
+  );
+  return EXAM_VERSION_LABELS.slice(0, count);
+}
+
+/**
+ * 인쇄 작업 목록 생성 함수
+ * @description 문서 종류 순서대로, 종류마다 A형부터 버전별로 한 부씩 인쇄
+ * - 버전이 1개면 버전 구분 없이 원래 순서로 인쇄하고 버전별 정답표는 제외
+ * - 버전별 정답표는 모든 버전을 한 표에 담으므로 한 부만 인쇄
+ * @param kinds 선택한 문서 종류
+ * @param versionCount 버전 수
+ * @returns 인쇄 순서대로 정렬된 작업 목록
+ */
+export function buildExamPrintJobs(
+  kinds: ExamPrintKind[],
+  versionCount: number,
+): ExamPrintJob[] {
+  const versions = getExamVersionLabels(versionCount);
+  const isVersioned = versions.length > 1;
+
+  return EXAM_PRINT_KIND_ORDER.filter((kind) => kinds.includes(kind)).flatMap(
+    (kind): ExamPrintJob[] => {
+      if (kind === "versionKey") return isVersioned ? [{ kind }] : [];
+      return isVersioned
+        ? versions.map((version) => ({ kind, version }))
+        : [{ kind }];
+    },
+  );
+}
+
+/**
+ * 객관식 문항 선택지 섞기 함수
+ * @description 선택지를 섞어 1번부터 다시 번호를 매기고, 번호로 된 정답을 새 번호로 변환
+ */
+function shuffleQuestionChoices(
+  question: ExamPrintQuestion,
+  random: () => number,
+): ExamPrintQuestion {
+  if (question.choices.length < 2) return question;
+
+  const choices = shuffleWithRandom(question.choices, random).map(
+    (choice, index) => ({ ...choice, key: String(index + 1) }),
+  );
+  const answer = question.correctAnswer?.trim();
+  const answerChoice =
+    answer && /^\d+$/.test(answer)
+      ? choices.find((choice) => choice.originalKey === answer)
+      : undefined;
+
+  return {
+    ...question,
+    choices,
+    correctAnswer: answerChoice ? answerChoice.key : question.correctAnswer,
+  };
+}
+
+/**
+ * 버전별 인쇄 문서 생성 함수
+ * @description A형은 원래 순서 그대로, B형부터는 `시험 ID:버전` 시드로 문항과 객관식 선택지를 섞음
+ * @param data 원래 순서의 인쇄 문서 데이터
+ * @param version 버전 라벨
+ * @returns 버전 라벨과 섞인 순서가 반영된 인쇄 문서 데이터
+ */
+export function toExamVersionDocument(
+  data: ExamPrintDocumentData,
+  version: ExamVersionLabel,
+): ExamPrintDocumentData {
+  if (version === "A") return { ...data, version };
+
+  const random = createSeededRandom(`${data.examId}:${version}`);
+  const questions = shuffleWithRandom(data.questions, random).map(
+    (question, index) => ({
+      ...shuffleQuestionChoices(question, random),
+      number: index + 1,
+    }),
+  );
+
+  return { ...data, version, questions };
+}
+
+/**
+ * 버전별 정답표 생성 함수
+ * @description 원래 문항 순서(seqNo)마다 각 버전의 번호와 정답을 모은 표
+ * @param data 원래 순서의 인쇄 문서 데이터
+ * @param versions 정답표에 포함할 버전 라벨
+ * @returns 원래 순서대로 정렬된 정답표 행
+ */
+export function buildExamVersionKeyRows(
+  data: ExamPrintDocumentData,
+  versions: ExamVersionLabel[],
+): ExamVersionKeyRow[] {
+  const versionDocuments = versions.map((version) =>
+    toExamVersionDocument(data, version),
+  );
+
+  return data.questions.map((question) => {
+    const row: ExamVersionKeyRow = {
+      seqNo: question.seqNo,
+      originalNumber: question.originalNumber,
+      points: question.points,
+      versions: {},
+    };
+    versionDocuments.forEach((versionDocument) => {
+      const versionQuestion = versionDocument.questions.find(
+        (item) => item.questionId === question.questionId,
+      );
+      if (!versionQuestion || !versionDocument.version) return;
+      row.versions[versionDocument.version] = {
+        number: versionQuestion.number,
+        answer: formatPrintAnswer(versionQuestion),
+      };
+    });
+    return row;
+  });
+}
+
+/**
+ * 버전 답안을 원래 순서로 되돌리는 함수
+ * @description 버전 번호 기준 답안을 원래 문항 순서(seqNo)와 원래 선택지 번호로 변환
+ * @param data 원래 순서의 인쇄 문서 데이터
+ * @param version 답안지의 버전 라벨
+ * @param answers 버전 인쇄 번호 → 학생 답안 (객관식은 선택지 번호)
+ * @returns seqNo → 원래 선택지 번호 기준 답안
+ *
+ * @example
+ * ```typescript
+ * // B형 3번에 ②를 표기한 답안을 원래 순서로 변환
+ * toOriginalOrderAnswers(printDocument, "B", { 3: "2" });
+ * // => { 5: "4" } (원래 seqNo 5번 문항의 원래 4번 선택지)
+ * ```
+ */
+export function toOriginalOrderAnswers(
+  data: ExamPrintDocumentData,
+  version: ExamVersionLabel,
+  answers: Record<number, string>,
+): Record<number, string> {
+  const versionDocument = toExamVersionDocument(data, version);
+
+  return versionDocument.questions.reduce<Record<number, string>>(
+    (result, question) => {
+      const answer = answers[question.number];
+      if (answer === undefined) return result;
+      const choice = question.choices.find((item) => item.key === answer);
+      result[question.seqNo] = choice ? choice.originalKey : answer;
+      return result;
+    },
+    {},
+  );
+}
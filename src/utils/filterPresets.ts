@@ -0,0 +1,92 @@
+/**
+ * 필터 프리셋 유틸리티
+ * @description 프리셋 이름 검증, 프리셋 대상 검색 파라미터 정리
+ */
+
+import type {
+  ExamFilterPresetSearch,
+  FilterPreset,
+  FilterPresetSearch,
+  SheetFilterPresetSearch,
+} from "@/types/filter-preset";
+import { EXAM_FILTER_SEARCH_KEYS } from "@/utils/examListFilters";
+
+/** 프리셋 이름 최대 길이 */
+export const MAX_FILTER_PRESET_NAME_LENGTH = 30;
+
+/** 시험 목록 프리셋이 저장하는 URL 파라미터 키 목록 */
+export const EXAM_FILTER_PRESET_SEARCH_KEYS: Array<
+  keyof ExamFilterPresetSearch
+> = ["search", "grade", "recent", "sort", "size", ...EXAM_FILTER_SEARCH_KEYS];
+
+/** 문제지 목록 프리셋이 저장하는 URL 파라미터 키 목록 */
+export const SHEET_FILTER_PRESET_SEARCH_KEYS: Array<
+  keyof SheetFilterPresetSearch
+> = ["search", "grade", "sort", "direction", "size"];
+
+/**
+ * 프리셋 이름 검증 함수
+ * @param name 입력한 이름
+ * @param presets 기존 프리셋 목록
+ * @param excludeId 이름 변경 시 자기 자신 ID (중복 검사에서 제외)
+ * @returns 오류 메시지 (유효하면 null)
+ */
+export function validateFilterPresetName<TSearch extends FilterPresetSearch>(
+  name: string,
+  presets: FilterPreset<TSearch>[],
+  excludeId?: string,
+): string | null {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    return "프리셋 이름을 입력해주세요.";
+  }
+  if (trimmed.length > MAX_FILTER_PRESET_NAME_LENGTH) {
+    return `프리셋 이름은 ${MAX_FILTER_PRESET_NAME_LENGTH}자 이하로 입력해주세요.`;
+  }
+  if (
+    presets.some((preset) => preset.id !== excludeId && preset.name === trimmed)
+  ) {
+    return "같은 이름의 프리셋이 이미 있습니다.";
+  }
+  return null;
+}
+
+/**
+ * 프리셋 검색 파라미터 추출 함수
+ * @description 관리 대상 키만 남기고 빈 값(undefined, 빈 문자열, 빈 배열)은 제거
+ * @param search URL 검색 파라미터
+ * @param keys 프리셋이 저장하는 키 목록
+ * @returns 정리된 검색 파라미터
+ */
+export function pickFilterPresetSearch<TSearch extends FilterPresetSearch>(
+  search: Record<string, unknown>,
+  keys: Array<keyof TSearch>,
+): TSearch {
+  const picked: FilterPresetSearch = {};
+  keys.forEach((key) => {
+    const value = search[key as string];
+    if (
+      value === undefined ||
+      value === null ||
+      value === "" ||
+      (Array.isArray(value) && value.length === 0)
+    ) {
+      return;
+    }
+    picked[key as string] = value as FilterPresetSearch[string];
+  });
+  return picked as TSearch;
+}
+
+/**
+ * URL에 프리셋 대상 파라미터가 있는지 확인하는 함수
+ * @description 기본 프리셋은 URL에 필터가 없을 때만 적용 (공유 링크·북마크 우선)
+ * @param search URL 검색 파라미터
+ * @param keys 프리셋이 저장하는 키 목록
+ */
+export function hasFilterPresetSearch<TSearch extends FilterPresetSearch>(
+  search: Record<string, unknown>,
+  keys: Array<keyof TSearch>,
+): boolean {
+  return Object.keys(pickFilterPresetSearch(search, keys)).length > 0;
+}
@@ -0,0 +1,118 @@
+/**
+ * 수동 재채점 유틸리티
+ * @description 답안 확인 모달의 부분 점수 입력 검증과 총점 재계산
+ *
+ * 주요 기능:
+ * - 점수 입력값 검증 (0 ~ 배점, 0.5점 단위)
+ * - 입력 중인 점수를 반영한 실시간 총점 계산
+ * - 변경된 문항만 재채점 요청으로 변환
+ */
+
+import type { QuestionGrade, RegradeQuestionRequest } from "@/api/grading";
+import type { GradingDraft, GradingDrafts } from "@/types/grading";
+
+/** 피드백 최대 길이 */
+export const MAX_GRADING_FEEDBACK_LENGTH = 500;
+
+/**
+ * 재채점 점수 검증 함수
+ * @param value 점수 입력값
+ * @param maxScore 문항 배점
+ * @returns 오류 메시지 (유효하면 null)
+ */
+export function validateRegradeScore(
+  value: string,
+  maxScore: number,
+): string | null {
+  if (value.trim().length === 0) return "점수를 입력해주세요.";
+
+  const score = Number(value);
+  if (!Number.isFinite(score)) return "숫자를 입력해주세요.";
+  if (score < 0 || score > maxScore) {
+    return `0 ~ ${maxScore}점 사이로 입력해주세요.`;
+  }
+  if (!Number.isInteger(score * 2)) return "0.5점 단위로 입력해주세요.";
+  return null;
+}
+
+/**
+ * 재채점 입력값 검증 함수
+ * @param draft 입력값
+ * @param maxScore 문항 배점
+ * @returns 오류 메시지 (유효하면 null)
+ */
+export function validateGradingDraft(
+  draft: GradingDraft,
+  maxScore: number,
+): string | null {
+  if (draft.feedback.length > MAX_GRADING_FEEDBACK_LENGTH) {
+    return `피드백은 ${MAX_GRADING_FEEDBACK_LENGTH}자 이하로 입력해주세요.`;
+  }
+  return validateRegradeScore(draft.score, maxScore);
+}
+
+/**
+ * 문항 채점 결과를 입력값으로 변환하는 함수
+ */
+export function toGradingDraft(grade: QuestionGrade): GradingDraft {
+  return {
+    score: String(grade.obtainedScore),
+    feedback: grade.feedback ?? "",
+  };
+}
+
+/**
+ * 입력값을 반영한 문항 점수 계산 함수
+ * @description 입력값이 없거나 유효하지 않으면 저장된 점수 사용
+ */
+export function getEffectiveScore(
+  grade: QuestionGrade,
+  draft: GradingDraft | undefined,
+): number {
+  if (!draft || validateRegradeScore(draft.score, grade.maxScore)) {
+    return grade.obtainedScore;
+  }
+  return Number(draft.score);
+}
+
+/**
+ * 입력값을 반영한 총점 계산 함수
+ * @param grades 문항별 채점 결과
+ * @param drafts 문제 ID별 입력값
+ * @returns 실시간 총점
+ */
+export function calculateDraftTotalScore(
+  grades: QuestionGrade[],
+  drafts: GradingDrafts,
+): number {
+  return grades.reduce(
+    (sum, grade) => sum + getEffectiveScore(grade, drafts[grade.questionId]),
+    0,
+  );
+}
+
+/**
+ * 변경된 문항만 재채점 요청으로 변환하는 함수
+ * @param grades 문항별 채점 결과
+ * @param drafts 문제 ID별 입력값
+ * @returns 점수 또는 피드백이 바뀐 문항의 재채점 요청 목록
+ */
+export function buildRegradeRequests(
+  grades: QuestionGrade[],
+  drafts: GradingDrafts,
+): RegradeQuestionRequest[] {
+  return grades.flatMap((grade) => {
+    const draft = drafts[grade.questionId];
+    if (!draft || validateGradingDraft(draft, grade.maxScore)) return [];
+
+    const score = Number(draft.score);
+    const feedback = draft.feedback.trim() || null;
+    if (
+      score === grade.obtainedScore &&
+      feedback === (grade.feedback ?? null)
+    ) {
+      return [];
+    }
+    return [{ questionId: grade.questionId, score, feedback }];
+  });
+}
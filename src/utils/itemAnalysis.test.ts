@@ -0,0 +1,257 @@
+import { describe, expect, it } from "vitest";
+import {
+  analyzeExamItems,
+  buildAnswerMatrix,
+  getAnswerSheetScore,
+  getEarnedScore,
+  isAnswerCorrect,
+} from "./itemAnalysis";
+import type { ServerQuestionAnswer } from "@/types/item-analysis";
+import type { ServerStudentAnswerDetail } from "@/types/server-exam";
+
+const UNIT_INFO = { unitId: "unit-1", unitName: "일차방정식", unitCode: "U1" };
+
+/** 1번: 객관식 10점 (정답 2번), 2번: 주관식 20점 (정답 x+1) */
+function createAnswers(
+  q1: string,
+  q2: string,
+  overrides: {
+    q1?: Partial<ServerQuestionAnswer>;
+    q2?: Partial<ServerQuestionAnswer>;
+  } = {},
+): ServerQuestionAnswer[] {
+  return [
+    {
+      questionNumber: 1,
+      questionId: "q1",
+      questionType: "MULTIPLE_CHOICE",
+      questionText: "알맞은 것은?",
+      choices: ["가", "나", "다", "라"],
+      studentAnswer: q1,
+      correctAnswer: "2",
+      isAnswered: q1 !== "",
+      maxScore: 10,
+      unitInfo: UNIT_INFO,
+      ...overrides.q1,
+    },
+    {
+      questionNumber: 2,
+      questionId: "q2",
+      questionType: "SUBJECTIVE",
+      questionText: "식을 정리하시오.",
+      studentAnswer: q2,
+      correctAnswer: "x+1",
+      isAnswered: q2 !== "",
+      maxScore: 20,
+      unitInfo: UNIT_INFO,
+      ...overrides.q2,
+    },
+  ];
+}
+
+function createSheet(
+  id: string,
+  questionAnswers: ServerQuestionAnswer[],
+  gradingResult?: ServerStudentAnswerDetail["gradingResult"],
+): ServerStudentAnswerDetail {
+  return {
+    submissionId: id,
+    studentInfo: {
+      studentId: Number(id.slice(1)),
+      studentName: id,
+      phoneNumber: "",
+    },
+    examInfo: {
+      examId: "exam-1",
+      examName: "중간고사",
+      grade: 1,
+      createdAt: "2025-01-01",
+    },
+    submittedAt: "2025-01-02T09:00:00",
+    totalQuestions: questionAnswers.length,
+    answeredQuestions: questionAnswers.filter((answer) => answer.isAnswered)
+      .length,
+    gradingResult,
+    questionAnswers,
+  };
+}
+
+function createGradingResult(totalScore: number) {
+  return {
+    totalScore,
+    totalPossibleScore: 30,
+    correctAnswers: 0,
+    incorrectAnswers: 0,
+    gradedAt: "2025-01-03T09:00:00",
+  };
+}
+
+/** 점수: s1 30, s3 20, s2 10, s4 0 */
+const SHEETS = [
+  createSheet("s1", createAnswers("2", "x + 1")),
+  createSheet("s2", createAnswers("2", "x")),
+  createSheet("s3", createAnswers("3", "x+1")),
+  createSheet("s4", createAnswers("", "")),
+];
+
+describe("isAnswerCorrect / getEarnedScore", () => {
+  it("채점 결과가 없으면 공백을 무시하고 정답과 비교", () => {
+    const [q1, q2] = createAnswers("2", " x +1 ");
+
+    expect(isAnswerCorrect(q1)).toBe(true);
+    expect(isAnswerCorrect(q2)).toBe(true);
+    expect(getEarnedScore(q2)).toBe(20);
+    expect(isAnswerCorrect(createAnswers("", "")[0])).toBe(false);
+  });
+
+  it("서버 채점 결과(isCorrect, earnedScore)가 있으면 우선", () => {
+    const [, q2] = createAnswers("2", "x", {
+      q2: { isCorrect: false, earnedScore: 15 },
+    });
+    const [q1] = createAnswers("3", "", { q1: { isCorrect: true } });
+
+    expect(isAnswerCorrect(q2)).toBe(false);
+    expect(getEarnedScore(q2)).toBe(15);
+    expect(isAnswerCorrect(q1)).toBe(true);
+    expect(getEarnedScore(q1)).toBe(10);
+  });
+
+  it("답안지 총점은 서버 채점 총점 우선, 없으면 문항 획득 점수 합계", () => {
+    expect(getAnswerSheetScore(SHEETS[0])).toBe(30);
+    expect(
+      getAnswerSheetScore(
+        createSheet("s5", createAnswers("2", "x"), createGradingResult(28)),
+      ),
+    ).toBe(28);
+  });
+});
+
+describe("analyzeExamItems", () => {
+  it("상위·하위 27% 집단으로 정답률, 변별도, 선택지 분포 계산", () => {
+    const analysis = analyzeExamItems(SHEETS);
+    const [q1, q2] = analysis.items;
+
+    expect(analysis.studentCount).toBe(4);
+    expect(analysis.groupSize).toBe(2);
+    expect(analysis.items.map((item) => item.questionId)).toEqual(["q1", "q2"]);
+
+    // 상위 s1·s3, 하위 s2·s4
+    expect(q1).toMatchObject({
+      responseCount: 4,
+      correctCount: 2,
+      pValue: 0.5,
+      upperPValue: 0.5,
+      lowerPValue: 0.5,
+      discrimination: 0,
+      flags: ["lowDiscrimination"],
+    });
+    expect(
+      q1.choiceDistribution.map(({ choice, count, upperCount, lowerCount }) => [
+        choice,
+        count,
+        upperCount,
+        lowerCount,
+      ]),
+    ).toEqual([
+      ["1", 0, 0, 0],
+      ["2", 2, 1, 1],
+      ["3", 1, 1, 0],
+      ["4", 0, 0, 0],
+      ["", 1, 0, 1],
+    ]);
+    expect(q1.choiceDistribution[1]).toMatchObject({
+      label: "나",
+      isCorrect: true,
+    });
+
+    expect(q2).toMatchObject({
+      pValue: 0.5,
+      upperPValue: 1,
+      lowerPValue: 0,
+      discrimination: 1,
+      flags: [],
+      choiceDistribution: [],
+    });
+  });
+
+  it("서버 채점 총점으로 집단을 나눔", () => {
+    // 재채점으로 s2가 40점 → 상위 s2·s1, 하위 s3·s4
+    const sheets = [...SHEETS];
+    sheets[1] = createSheet(
+      "s2",
+      createAnswers("2", "x"),
+      createGradingResult(40),
+    );
+
+    const [q1, q2] = analyzeExamItems(sheets).items;
+
+    expect(q1).toMatchObject({
+      upperPValue: 1,
+      lowerPValue: 0,
+      discrimination: 1,
+    });
+    expect(q2).toMatchObject({ upperPValue: 0.5, lowerPValue: 0.5 });
+  });
+
+  it("상위 집단이 오답 선택지를 더 많이 고르면 매력적 오답 및 음수 변별도", () => {
+    const sheets = [
+      createSheet("s1", createAnswers("3", "x+1")),
+      createSheet("s2", createAnswers("3", "x+1")),
+      createSheet("s3", createAnswers("2", "")),
+      createSheet("s4", createAnswers("2", "")),
+    ];
+
+    const [q1] = analyzeExamItems(sheets).items;
+
+    expect(q1.discrimination).toBe(-1);
+    expect(q1.flags).toEqual([
+      "negativeDiscrimination",
+      "attractiveDistractor",
+    ]);
+  });
+
+  it("답안이 없으면 빈 결과", () => {
+    expect(analyzeExamItems([])).toEqual({
+      studentCount: 0,
+      groupSize: 0,
+      items: [],
+    });
+  });
+});
+
+describe("buildAnswerMatrix", () => {
+  it("셀 상태와 열별 정답률, 학생별 점수 계산", () => {
+    const matrix = buildAnswerMatrix(SHEETS);
+
+    expect(matrix.columns).toEqual([
+      { questionId: "q1", questionNumber: 1, maxScore: 10, correctRate: 0.5 },
+      { questionId: "q2", questionNumber: 2, maxScore: 20, correctRate: 0.5 },
+    ]);
+    expect(
+      matrix.rows.map(({ studentName, score, correctCount, cells }) => [
+        studentName,
+        score,
+        correctCount,
+        cells,
+      ]),
+    ).toEqual([
+      ["s1", 30, 2, { q1: "correct", q2: "correct" }],
+      ["s2", 10, 1, { q1: "correct", q2: "wrong" }],
+      ["s3", 20, 1, { q1: "wrong", q2: "correct" }],
+      ["s4", 0, 0, { q1: "unanswered", q2: "unanswered" }],
+    ]);
+  });
+
+  it("부분 점수와 서버 채점 총점을 점수에 반영", () => {
+    const matrix = buildAnswerMatrix([
+      createSheet(
+        "s1",
+        createAnswers("2", "x", { q2: { isCorrect: false, earnedScore: 15 } }),
+      ),
+      createSheet("s2", createAnswers("3", "x"), createGradingResult(12)),
+    ]);
+
+    expect(matrix.rows.map(({ score }) => score)).toEqual([25, 12]);
+    expect(matrix.rows[0].cells).toEqual({ q1: "correct", q2: "wrong" });
+  });
+});
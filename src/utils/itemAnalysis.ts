@@ -0,0 +1,412 @@
+/**
+ * 문항 분석 유틸리티
+ * @description 시험 전체 답안으로 문항별 난이도, 변별도, 선택지 분포를 계산
+ *
+ * 주요 기능:
+ * - 답안 정오 판정 및 득점 계산 (서버 채점 결과 우선, 없으면 공백 차이를 무시한 정답 비교)
+ * - 정답률(p) 및 상위/하위 27% 집단 기반 변별도(D) 계산
+ * - 객관식 선택지별 응답 분포 및 집단별 선택 인원 집계
+ * - 너무 쉬움/어려움, 낮은/음수 변별도, 매력적인 오답 선택지 판정
+ * - 학생 × 문항 답안 매트릭스 생성 및 정렬
+ */
+
+import type { ServerStudentAnswerDetail } from "@/types/server-exam";
+import type {
+  AnswerCellStatus,
+  AnswerMatrix,
+  AnswerMatrixColumn,
+  AnswerMatrixRow,
+  AnswerMatrixSort,
+  ChoiceDistribution,
+  ExamItemAnalysis,
+  ItemAnalysis,
+  ItemAnalysisFlag,
+  ServerQuestionAnswer,
+} from "@/types/item-analysis";
+
+/** 상위/하위 집단 비율 */
+export const ITEM_ANALYSIS_GROUP_RATIO = 0.27;
+
+/** 판정 기준값 */
+export const ITEM_ANALYSIS_THRESHOLDS = {
+  /** 이 값 미만이면 너무 어려운 문항 */
+  tooHard: 0.2,
+  /** 이 값 초과면 너무 쉬운 문항 */
+  tooEasy: 0.9,
+  /** 이 값 미만이면 변별도가 낮은 문항 */
+  lowDiscrimination: 0.2,
+} as const;
+
+/** 판정 플래그 표시 라벨 */
+export const ITEM_ANALYSIS_FLAG_LABEL: Record<ItemAnalysisFlag, string> = {
+  tooHard: "너무 어려움",
+  tooEasy: "너무 쉬움",
+  lowDiscrimination: "변별도 낮음",
+  negativeDiscrimination: "변별도 음수",
+  attractiveDistractor: "매력적 오답",
+};
+
+/**
+ * 답안 정규화 함수
+ * @description 공백을 모두 제거해 띄어쓰기 차이로 오답 처리되지 않도록 함
+ */
+function normalizeAnswer(answer: string | null | undefined): string {
+  return (answer ?? "").replace(/\s+/g, "");
+}
+
+/**
+ * 답안 정오 판정 함수
+ * @description 서버 채점 결과(isCorrect)가 있으면 그대로 사용하고, 없으면 정답과 직접 비교
+ * @param questionAnswer 서버 문항 답안
+ * @returns 정답 여부 (미응답은 오답)
+ */
+export function isAnswerCorrect(questionAnswer: ServerQuestionAnswer): boolean {
+  if (typeof questionAnswer.isCorrect === "boolean") {
+    return questionAnswer.isCorrect;
+  }
+  const studentAnswer = normalizeAnswer(questionAnswer.studentAnswer);
+  if (!questionAnswer.isAnswered || studentAnswer.length === 0) return false;
+  return studentAnswer === normalizeAnswer(questionAnswer.correctAnswer);
+}
+
+/**
+ * 문항 획득 점수 계산 함수
+ * @description 서버 획득 점수(부분 점수·재채점 반영)가 있으면 사용하고, 없으면 정답 시 배점 전체
+ * @param questionAnswer 서버 문항 답안
+ * @returns 획득 점수
+ */
+export function getEarnedScore(questionAnswer: ServerQuestionAnswer): number {
+  if (typeof questionAnswer.earnedScore === "number") {
+    return questionAnswer.earnedScore;
+  }
+  return isAnswerCorrect(questionAnswer) ? questionAnswer.maxScore : 0;
+}
+
+/**
+ * 답안지 총점 계산 함수
+ * @description 서버 채점 총점(gradingResult.totalScore)이 있으면 사용하고, 없으면 문항 획득 점수 합계
+ * @param answerSheet 학생 답안지
+ * @returns 총점
+ */
+export function getAnswerSheetScore(
+  answerSheet: ServerStudentAnswerDetail,
+): number {
+  if (typeof answerSheet.gradingResult?.totalScore === "number") {
+    return answerSheet.gradingResult.totalScore;
+  }
+  return answerSheet.questionAnswers.reduce(
+    (sum, answer) => sum + getEarnedScore(answer),
+    0,
+  );
+}
+
+/**
+ * 객관식 답안을 선택지 번호로 변환하는 함수
+ * @description 답안이 번호("3")면 그대로, 선택지 내용이면 해당 번호로 변환
+ * @returns 선택지 번호 문자열 (미응답은 "", 알 수 없는 답안은 정규화된 원문)
+ */
+function toChoiceKey(
+  answer: string | null | undefined,
+  choices: string[] | null | undefined,
+): string {
+  const normalized = normalizeAnswer(answer);
+  if (normalized.length === 0 || /^\d+$/.test(normalized)) return normalized;
+
+  const index = (choices ?? []).findIndex(
+    (choice) => normalizeAnswer(choice) === normalized,
+  );
+  return index >= 0 ? String(index + 1) : normalized;
+}
+
+/**
+ * 정답률 계산 함수
+ */
+function ratio(count: number, total: number): number {
+  return total > 0 ? count / total : 0;
+}
+
+/**
+ * 객관식 선택지 분포 계산 함수
+ */
+function buildChoiceDistribution(
+  answers: Array<{
+    answer: ServerQuestionAnswer;
+    group: "upper" | "lower" | null;
+  }>,
+  choices: string[],
+  correctKey: string,
+): ChoiceDistribution[] {
+  const selectedKeys = answers.map(({ answer }) =>
+    answer.isAnswered ? toChoiceKey(answer.studentAnswer, choices) : "",
+  );
+  const keys = choices.map((_, index) => String(index + 1));
+  selectedKeys.forEach((key) => {
+    if (key.length > 0 && !keys.includes(key)) keys.push(key);
+  });
+  keys.push("");
+
+  return keys.map((key) => {
+    const selected = answers.filter((_, index) => selectedKeys[index] === key);
+    const index = Number(key) - 1;
+
+    return {
+      choice: key,
+      label: key === "" ? null : (choices[index] ?? null),
+      isCorrect: key !== "" && key === correctKey,
+      count: selected.length,
+      rate: ratio(selected.length, answers.length),
+      upperCount: selected.filter(({ group }) => group === "upper").length,
+      lowerCount: selected.filter(({ group }) => group === "lower").length,
+    };
+  });
+}
+
+/**
+ * 시험 문항 분석 함수
+ * @description 제출된 모든 답안지를 바탕으로 문항별 통계를 계산
+ *
+ * 계산 방식:
+ * 1. 학생별 총점(서버 채점 총점, 없으면 문항 획득 점수 합계)으로 순위를 매김
+ * 2. 상위/하위 27%(올림, 최소 1명)를 각각 상위/하위 집단으로 지정
+ * 3. p = 정답 인원 / 응시 인원, D = 상위 집단 정답률 - 하위 집단 정답률
+ * 4. 객관식은 선택지별 선택 인원과 상위/하위 집단 선택 인원 집계
+ *
+ * @param answerSheets 시험 전체 학생 답안 목록
+ * @returns 문항 분석 결과 (문제 번호순)
+ */
+export function analyzeExamItems(
+  answerSheets: ServerStudentAnswerDetail[],
+): ExamItemAnalysis {
+  const studentCount = answerSheets.length;
+  const groupSize =
+    studentCount > 0
+      ? Math.min(
+          Math.floor(studentCount / 2) || 1,
+          Math.ceil(studentCount * ITEM_ANALYSIS_GROUP_RATIO),
+        )
+      : 0;
+
+  const ranked = answerSheets
+    .map((sheet) => ({
+      submissionId: sheet.submissionId,
+      score: getAnswerSheetScore(sheet),
+    }))
+    .sort((a, b) => b.score - a.score);
+
+  const groups = new Map<string, "upper" | "lower">();
+  ranked.slice(0, groupSize).forEach(({ submissionId }) => {
+    groups.set(submissionId, "upper");
+  });
+  if (studentCount > 1) {
+    ranked.slice(studentCount - groupSize).forEach(({ submissionId }) => {
+      groups.set(submissionId, "lower");
+    });
+  }
+
+  const byQuestion = new Map<
+    string,
+    Array<{ answer: ServerQuestionAnswer; group: "upper" | "lower" | null }>
+  >();
+  answerSheets.forEach((sheet) => {
+    const group = groups.get(sheet.submissionId) ?? null;
+    sheet.questionAnswers.forEach((answer) => {
+      const entries = byQuestion.get(answer.questionId) ?? [];
+      entries.push({ answer, group });
+      byQuestion.set(answer.questionId, entries);
+    });
+  });
+
+  const items: ItemAnalysis[] = Array.from(byQuestion.entries()).map(
+    ([questionId, answers]) => {
+      const first = answers[0].answer;
+      const correctCount = answers.filter(({ answer }) =>
+        isAnswerCorrect(answer),
+      ).length;
+      const groupCorrect = (group: "upper" | "lower") => {
+        const members = answers.filter((entry) => entry.group === group);
+        return ratio(
+          members.filter(({ answer }) => isAnswerCorrect(answer)).length,
+          members.length,
+        );
+      };
+
+      const pValue = ratio(correctCount, answers.length);
+      const upperPValue = groupCorrect("upper");
+      const lowerPValue = groupCorrect("lower");
+      const discrimination = upperPValue - lowerPValue;
+
+      const choices = first.choices ?? [];
+      const choiceDistribution =
+        first.questionType === "MULTIPLE_CHOICE"
+          ? buildChoiceDistribution(
+              answers,
+              choices,
+              toChoiceKey(first.correctAnswer, choices),
+            )
+          : [];
+
+      const flags: ItemAnalysisFlag[] = [];
+      if (pValue < ITEM_ANALYSIS_THRESHOLDS.tooHard) flags.push("tooHard");
+      if (pValue > ITEM_ANALYSIS_THRESHOLDS.tooEasy) flags.push("tooEasy");
+      if (discrimination < 0) {
+        flags.push("negativeDiscrimination");
+      } else if (
+        studentCount > 1 &&
+        discrimination < ITEM_ANALYSIS_THRESHOLDS.lowDiscrimination
+      ) {
+        flags.push("lowDiscrimination");
+      }
+      const correctUpperCount =
+        choiceDistribution.find((choice) => choice.isCorrect)?.upperCount ?? 0;
+      if (
+        choiceDistribution.some(
+          (choice) =>
+            !choice.isCorrect &&
+            choice.choice !== "" &&
+            choice.upperCount > correctUpperCount,
+        )
+      ) {
+        flags.push("attractiveDistractor");
+      }
+
+      return {
+        questionId,
+        questionNumber: first.questionNumber,
+        questionType: first.questionType,
+        questionText: first.questionText,
+        unitName: first.unitInfo?.unitName ?? null,
+        correctAnswer: first.correctAnswer,
+        responseCount: answers.length,
+        correctCount,
+        pValue,
+        upperPValue,
+        lowerPValue,
+        discrimination,
+        choiceDistribution,
+        flags,
+      };
+    },
+  );
+
+  return {
+    studentCount,
+    groupSize,
+    items: items.sort((a, b) => a.questionNumber - b.questionNumber),
+  };
+}
+
+/** 셀 상태 정렬 순위 (내림차순 기준 정답 → 오답 → 무응답) */
+const ANSWER_CELL_RANK: Record<AnswerCellStatus, number> = {
+  correct: 2,
+  wrong: 1,
+  unanswered: 0,
+};
+
+/**
+ * 문항 답안 셀 상태 판정 함수
+ * @param questionAnswer 서버 문항 답안
+ * @returns 정답/오답/무응답
+ */
+export function getAnswerCellStatus(
+  questionAnswer: ServerQuestionAnswer,
+): AnswerCellStatus {
+  if (
+    !questionAnswer.isAnswered ||
+    normalizeAnswer(questionAnswer.studentAnswer).length === 0
+  ) {
+    return "unanswered";
+  }
+  return isAnswerCorrect(questionAnswer) ? "correct" : "wrong";
+}
+
+/**
+ * 학생 × 문항 답안 매트릭스 생성 함수
+ * @description 전체 답안지를 학생별 행, 문항별 열로 펼쳐 히트맵 렌더링에 사용
+ * @param answerSheets 시험 전체 학생 답안 목록
+ * @returns 문제 번호순 열과 학생별 행
+ */
+export function buildAnswerMatrix(
+  answerSheets: ServerStudentAnswerDetail[],
+): AnswerMatrix {
+  const columnMap = new Map<string, AnswerMatrixColumn>();
+  const correctCounts = new Map<string, number>();
+
+  const rows: AnswerMatrixRow[] = answerSheets.map((answerSheet) => {
+    const cells: Record<string, AnswerCellStatus> = {};
+    let correctCount = 0;
+
+    answerSheet.questionAnswers.forEach((answer) => {
+      if (!columnMap.has(answer.questionId)) {
+        columnMap.set(answer.questionId, {
+          questionId: answer.questionId,
+          questionNumber: answer.questionNumber,
+          maxScore: answer.maxScore,
+          correctRate: 0,
+        });
+      }
+
+      const status = getAnswerCellStatus(answer);
+      cells[answer.questionId] = status;
+      if (status === "correct") {
+        correctCount += 1;
+        correctCounts.set(
+          answer.questionId,
+          (correctCounts.get(answer.questionId) ?? 0) + 1,
+        );
+      }
+    });
+
+    return {
+      answerSheet,
+      studentName: answerSheet.studentInfo.studentName,
+      score: getAnswerSheetScore(answerSheet),
+      correctCount,
+      cells,
+    };
+  });
+
+  const columns = Array.from(columnMap.values())
+    .map((column) => ({
+      ...column,
+      correctRate: ratio(
+        correctCounts.get(column.questionId) ?? 0,
+        answerSheets.length,
+      ),
+    }))
+    .sort((a, b) => a.questionNumber - b.questionNumber);
+
+  return { columns, rows };
+}
+
+/**
+ * 답안 매트릭스 행 정렬 함수
+ * @description 동점이면 총점 내림차순, 그다음 이름 오름차순으로 정렬
+ * @param rows 매트릭스 행
+ * @param sort 정렬 기준
+ * @returns 정렬된 새 배열
+ */
+export function sortAnswerMatrixRows(
+  rows: AnswerMatrixRow[],
+  sort: AnswerMatrixSort,
+): AnswerMatrixRow[] {
+  const sign = sort.direction === "asc" ? 1 : -1;
+
+  return [...rows].sort((a, b) => {
+    let diff = 0;
+    if (sort.key === "name") {
+      diff = a.studentName.localeCompare(b.studentName, "ko");
+    } else if (sort.key === "question" && sort.questionId) {
+      diff =
+        ANSWER_CELL_RANK[a.cells[sort.questionId] ?? "unanswered"] -
+        ANSWER_CELL_RANK[b.cells[sort.questionId] ?? "unanswered"];
+    } else {
+      diff = a.score - b.score;
+    }
+
+    return (
+      diff * sign ||
+      b.score - a.score ||
+      a.studentName.localeCompare(b.studentName, "ko")
+    );
+  });
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildMinuteTimeline,
+  hasReachedTargetRate,
+  mergeSubmissionTimes,
+} from "./liveMonitoring";
+
+const NOW = Date.parse("2025-03-10T09:30:45Z");
+
+describe("mergeSubmissionTimes", () => {
+  it("새 제출만 추가하고 기존 시각은 유지", () => {
+    const times = new Map([["s1", "2025-03-10T09:00:00Z"]]);
+
+    const merged = mergeSubmissionTimes(times, [
+      { submissionId: "s1", submittedAt: "2025-03-10T09:10:00Z" },
+      { submissionId: "s2", submittedAt: "2025-03-10T09:20:00Z" },
+    ]);
+
+    expect(Array.from(merged.entries())).toEqual([
+      ["s1", "2025-03-10T09:00:00Z"],
+      ["s2", "2025-03-10T09:20:00Z"],
+    ]);
+    expect(times.size).toBe(1);
+  });
+
+  it("추가할 제출이 없으면 같은 맵 반환", () => {
+    const times = new Map([["s1", "2025-03-10T09:00:00Z"]]);
+
+    expect(
+      mergeSubmissionTimes(times, [
+        { submissionId: "s1", submittedAt: "2025-03-10T09:00:00Z" },
+      ]),
+    ).toBe(times);
+  });
+});
+
+describe("buildMinuteTimeline", () => {
+  it("현재 분까지 최근 구간을 1분 단위로 나눠 제출 수와 누적 수 계산", () => {
+    const timeline = buildMinuteTimeline(
+      [
+        "2025-03-10T09:28:10Z",
+        "2025-03-10T09:28:59Z",
+        "2025-03-10T09:30:00Z",
+        "2025-03-10T09:30:44Z",
+      ],
+      NOW,
+      5,
+    );
+
+    expect(
+      timeline.map(({ minute }) => new Date(minute).toISOString()),
+    ).toEqual([
+      "2025-03-10T09:26:00.000Z",
+      "2025-03-10T09:27:00.000Z",
+      "2025-03-10T09:28:00.000Z",
+      "2025-03-10T09:29:00.000Z",
+      "2025-03-10T09:30:00.000Z",
+    ]);
+    expect(timeline.map(({ count }) => count)).toEqual([0, 0, 2, 0, 2]);
+    expect(timeline.map(({ cumulative }) => cumulative)).toEqual([
+      0, 0, 2, 2, 4,
+    ]);
+  });
+
+  it("구간 이전 제출은 누적 수에만, 이후·잘못된 시각은 제외", () => {
+    const timeline = buildMinuteTimeline(
+      [
+        "2025-03-10T08:00:00Z",
+        "2025-03-10T09:25:59Z",
+        "2025-03-10T09:26:00Z",
+        "2025-03-10T09:31:00Z",
+        "invalid",
+      ],
+      NOW,
+      5,
+    );
+
+    expect(timeline[0]).toMatchObject({ count: 1, cumulative: 3 });
+    expect(timeline[timeline.length - 1].cumulative).toBe(3);
+  });
+
+  it("기본 구간은 60분", () => {
+    expect(buildMinuteTimeline([], NOW)).toHaveLength(60);
+  });
+});
+
+describe("hasReachedTargetRate", () => {
+  it("목표 미만에서 목표 이상으로 넘어갈 때만 true", () => {
+    expect(hasReachedTargetRate(85, 90, 90)).toBe(true);
+    expect(hasReachedTargetRate(90, 95, 90)).toBe(false);
+    expect(hasReachedTargetRate(80, 85, 90)).toBe(false);
+    expect(hasReachedTargetRate(null, 95, 90)).toBe(false);
+  });
+});
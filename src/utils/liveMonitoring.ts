@@ -0,0 +1,149 @@
+/**
+ * 실시간 제출 모니터링 유틸리티
+ * @description 폴링으로 받은 제출 정보를 누적하고 분 단위 타임라인을 계산
+ *
+ * 주요 기능:
+ * - 제출 ID 기준 제출 시각 누적 (응시자 전체 목록 + 폴링마다 받은 최근 제출)
+ * - 최근 N분 분 단위 제출 수/누적 제출 수 타임라인
+ * - 목표 제출률 도달 판단
+ * - 알림음 재생 (Web Audio API, 별도 음원 파일 없음)
+ */
+
+import type {
+  LiveMonitoringSettings,
+  SubmissionTimelinePoint,
+} from "@/types/live-monitoring";
+
+/** 폴링 간격 선택지 (초) */
+export const LIVE_MONITORING_INTERVAL_OPTIONS = [5, 10, 30, 60] as const;
+
+/** 실시간 모니터링 기본 설정 */
+export const DEFAULT_LIVE_MONITORING_SETTINGS: LiveMonitoringSettings = {
+  intervalSeconds: 10,
+  targetRate: 90,
+  isSoundEnabled: false,
+};
+
+/** 타임라인 표시 구간 (분) */
+export const SUBMISSION_TIMELINE_WINDOW_MINUTES = 60;
+
+/** 1분 (ms) */
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * 제출 시각 누적 함수
+ * @description 기존 맵에 없는 제출만 추가한 새 맵 반환 (변경이 없으면 같은 맵 반환)
+ * @param times 제출 ID → 제출 시각(ISO 8601) 맵
+ * @param submissions 새로 받은 제출 목록
+ * @returns 누적된 제출 시각 맵
+ */
+export function mergeSubmissionTimes(
+  times: Map<string, string>,
+  submissions: { submissionId: string; submittedAt: string }[],
+): Map<string, string> {
+  const added = submissions.filter(
+    (submission) => !times.has(submission.submissionId),
+  );
+  if (added.length === 0) return times;
+
+  const next = new Map(times);
+  added.forEach((submission) => {
+    next.set(submission.submissionId, submission.submittedAt);
+  });
+  return next;
+}
+
+/**
+ * 분 단위 제출 타임라인 생성 함수
+ * @description 현재 시각 기준 최근 구간을 1분 단위로 나누어 제출 수와 누적 제출 수 계산
+ * @param submittedAts 제출 시각 목록 (ISO 8601)
+ * @param now 기준 시각 (epoch ms)
+ * @param windowMinutes 표시 구간 (분)
+ * @returns 오래된 분부터 정렬된 타임라인
+ */
+export function buildMinuteTimeline(
+  submittedAts: string[],
+  now: number,
+  windowMinutes = SUBMISSION_TIMELINE_WINDOW_MINUTES,
+): SubmissionTimelinePoint[] {
+  const endMinute = Math.floor(now / MINUTE_MS) * MINUTE_MS;
+  const startMinute = endMinute - (windowMinutes - 1) * MINUTE_MS;
+
+  const counts = new Map<number, number>();
+  let cumulative = 0;
+
+  submittedAts.forEach((submittedAt) => {
+    const time = new Date(submittedAt).getTime();
+    if (Number.isNaN(time)) return;
+
+    const minute = Math.floor(time / MINUTE_MS) * MINUTE_MS;
+    if (minute < startMinute) {
+      cumulative += 1;
+    } else if (minute <= endMinute) {
+      counts.set(minute, (counts.get(minute) ?? 0) + 1);
+    }
+  });
+
+  return Array.from({ length: windowMinutes }, (_, index) => {
+    const minute = startMinute + index * MINUTE_MS;
+    const count = counts.get(minute) ?? 0;
+    cumulative += count;
+
+    return {
+      minute,
+      label: new Date(minute).toLocaleTimeString("ko-KR", {
+        hour: "2-digit",
+        minute: "2-digit",
+        hour12: false,
+      }),
+      count,
+      cumulative,
+    };
+  });
+}
+
+/**
+ * 목표 제출률 도달 판단 함수
+ * @description 이전 값이 목표 미만이고 현재 값이 목표 이상일 때만 true (한 번만 알림)
+ * @param previousRate 이전 제출률 (첫 조회면 null)
+ * @param currentRate 현재 제출률
+ * @param targetRate 목표 제출률
+ * @returns 이번 갱신에서 목표에 도달했는지 여부
+ */
+export function hasReachedTargetRate(
+  previousRate: number | null,
+  currentRate: number,
+  targetRate: number,
+): boolean {
+  return (
+    previousRate !== null &&
+    previousRate < targetRate &&
+    currentRate >= targetRate
+  );
+}
+
+/**
+ * 목표 도달 알림음 재생 함수
+ * @description 짧은 2음 차임을 Web Audio API로 합성하여 재생 (미지원 브라우저는 무시)
+ */
+export function playTargetReachedChime(): void {
+  if (typeof window === "undefined" || !("AudioContext" in window)) return;
+
+  const context = new AudioContext();
+  [880, 1320].forEach((frequency, index) => {
+    const startAt = context.currentTime + index * 0.18;
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+
+    oscillator.type = "sine";
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(0.2, startAt);
+    gain.gain.exponentialRampToValueAtTime(0.001, startAt + 0.35);
+
+    oscillator.connect(gain).connect(context.destination);
+    oscillator.start(startAt);
+    oscillator.stop(startAt + 0.35);
+  });
+
+  window.setTimeout(() => void context.close(), 1000);
+}
@@ -0,0 +1,97 @@
+/**
+ * 미제출 학생 유틸리티
+ * @description 명단과 제출자 목록을 비교해 미제출 학생을 찾고 연락용 텍스트를 생성
+ *
+ * 주요 기능:
+ * - 응시 대상(없으면 학년 전체) 중 제출하지 않은 학생 계산
+ * - 이름/전화번호 복사용 텍스트 생성
+ * - CSV 생성 (Excel 한글 호환 BOM 포함)
+ * - 문자 안내 템플릿 치환
+ */
+
+import type { ExamRosterStatus, RosterStudent } from "@/api/student";
+
+/** 문자 템플릿 학생 이름 자리표시자 */
+export const SMS_NAME_PLACEHOLDER = "{이름}";
+
+/** 문자 템플릿 시험명 자리표시자 */
+export const SMS_EXAM_PLACEHOLDER = "{시험명}";
+
+/** 기본 미제출 안내 문자 템플릿 */
+export const DEFAULT_REMINDER_SMS_TEMPLATE = `[러브버그 중등수학] ${SMS_NAME_PLACEHOLDER} 학생, '${SMS_EXAM_PLACEHOLDER}' 답안이 아직 제출되지 않았습니다. 확인 후 제출 부탁드립니다.`;
+
+/**
+ * 미제출 학생 계산 함수
+ * @description 응시 대상이 지정된 시험은 대상 학생만, 아니면 학년 명단 전체를 기준으로 계산
+ * @param status 시험 응시 현황 (명단 기준)
+ * @returns 이름순 미제출 학생 목록
+ */
+export function findNonSubmitters(status: ExamRosterStatus): RosterStudent[] {
+  const assignedIds = new Set(status.assignedStudentIds);
+  const submittedIds = new Set(status.submittedStudentIds);
+
+  return status.students
+    .filter((student) => assignedIds.size === 0 || assignedIds.has(student.id))
+    .filter((student) => !submittedIds.has(student.id))
+    .sort((a, b) => a.name.localeCompare(b.name, "ko"));
+}
+
+/**
+ * 복사용 텍스트 생성 함수
+ * @param students 학생 목록
+ * @returns "이름\t전화번호" 줄 목록 (스프레드시트에 붙여넣기 가능)
+ */
+export function formatStudentContacts(students: RosterStudent[]): string {
+  return students
+    .map((student) => `${student.name}\t${student.phone}`)
+    .join("\n");
+}
+
+/**
+ * CSV 필드 이스케이프 함수
+ */
+function escapeCsvField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * 문자 템플릿 치환 함수
+ * @param template 문자 템플릿
+ * @param studentName 학생 이름
+ * @param examName 시험명
+ * @returns 자리표시자가 치환된 문자 내용
+ */
+export function renderReminderSms(
+  template: string,
+  studentName: string,
+  examName: string,
+): string {
+  return template
+    .replaceAll(SMS_NAME_PLACEHOLDER, studentName)
+    .replaceAll(SMS_EXAM_PLACEHOLDER, examName);
+}
+
+/**
+ * 미제출 학생 CSV 생성 함수
+ * @description 템플릿을 넘기면 학생별 문자 내용 열을 추가 (문자 대량 발송 서비스 업로드용)
+ * @param students 학생 목록
+ * @param sms 문자 열 생성 정보 (선택)
+ * @returns BOM이 포함된 CSV 문자열
+ */
+export function buildNonSubmittersCsv(
+  students: RosterStudent[],
+  sms?: { template: string; examName: string },
+): string {
+  const header = sms ? ["이름", "전화번호", "문자 내용"] : ["이름", "전화번호"];
+  const rows = students.map((student) => {
+    const row = [student.name, student.phone];
+    if (sms) {
+      row.push(renderReminderSms(sms.template, student.name, sms.examName));
+    }
+    return row;
+  });
+
+  return `\uFEFF${[header, ...rows]
+    .map((row) => row.map(escapeCsvField).join(","))
+    .join("\r\n")}`;
+}
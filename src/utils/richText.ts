@@ -0,0 +1,155 @@
+import DOMPurify from "isomorphic-dompurify";
+import katex from "katex";
+
+/**
+ * 문제 본문 렌더링 유틸리티
+ * @description HTML과 LaTeX 수식이 섞인 문제 텍스트를 안전한 HTML 문자열로 변환
+ *
+ * 주요 특징:
+ * - KaTeX로 수식을 직접 조판 (CDN 없이 오프라인 동작)
+ * - DOMPurify로 스크립트/이벤트 핸들러 등 위험한 마크업 제거
+ * - 서버(SSR)와 브라우저에서 동일한 결과 생성 (인쇄 iframe 포함)
+ *
+ * 지원 수식 구분자:
+ * - 디스플레이 수식: $$...$$, \[...\]
+ * - 인라인 수식: $...$, \(...\)
+ */
+
+/**
+ * 수식 구분자 정규식
+ * @description 디스플레이 수식을 먼저 매칭하여 $$가 $ 두 개로 해석되지 않도록 함
+ */
+const MATH_PATTERN =
+  /\$\$([\s\S]+?)\$\$|\\\[([\s\S]+?)\\\]|\\\(([\s\S]+?)\\\)|(?<!\\)\$((?:\\\$|[^$])+?)\$/g;
+
+/** 수식 자리표시자 (sanitize 과정에서 보존되는 일반 텍스트) */
+const PLACEHOLDER_PREFIX = "@@RICH_MATH_";
+const PLACEHOLDER_PATTERN = /@@RICH_MATH_(\d+)@@/g;
+
+/** 문제 본문에 허용하는 태그 */
+const ALLOWED_TAGS = [
+  "b",
+  "strong",
+  "i",
+  "em",
+  "u",
+  "s",
+  "sub",
+  "sup",
+  "br",
+  "p",
+  "div",
+  "span",
+  "ul",
+  "ol",
+  "li",
+  "table",
+  "thead",
+  "tbody",
+  "tr",
+  "th",
+  "td",
+  "img",
+];
+
+/** 문제 본문에 허용하는 속성 */
+const ALLOWED_ATTR = ["class", "style", "src", "alt", "width", "height"];
+
+/**
+ * HTML 엔티티 복원 함수
+ * @description HTML로 저장된 수식 안의 &lt; 등을 LaTeX 원문으로 되돌림
+ */
+function decodeMathEntities(source: string): string {
+  return source
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/<br\s*\/?>/gi, " ")
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * LaTeX 수식 렌더링 함수
+ * @description 문법 오류가 있어도 예외 대신 원문을 붉은색으로 표시
+ * @param source LaTeX 수식 원문
+ * @param isDisplayMode 디스플레이(블록) 수식 여부
+ * @returns KaTeX HTML 문자열
+ */
+export function renderMath(source: string, isDisplayMode = false): string {
+  return katex.renderToString(decodeMathEntities(source.trim()), {
+    displayMode: isDisplayMode,
+    throwOnError: false,
+    strict: "ignore",
+    trust: false,
+    output: "htmlAndMathml",
+  });
+}
+
+/**
+ * 문제 본문 HTML 변환 함수
+ * @description 수식을 조판하고 나머지 HTML은 허용 목록 기준으로 정제
+ *
+ * 처리 순서:
+ * 1. 수식을 자리표시자로 치환 (sanitize 대상에서 제외)
+ * 2. 나머지 HTML을 DOMPurify로 정제
+ * 3. 자리표시자를 KaTeX 결과로 복원 (KaTeX 출력은 자체적으로 escape됨)
+ *
+ * @param text HTML/LaTeX가 포함될 수 있는 문제 텍스트
+ * @returns 안전하게 렌더링 가능한 HTML 문자열
+ *
+ * @example
+ * ```typescript
+ * renderRichText("<b>다음</b>을 계산하시오. $\\frac{1}{2} + \\frac{1}{3}$");
+ * ```
+ */
+export function renderRichText(text: string | null | undefined): string {
+  if (!text) return "";
+
+  const renderedMath: string[] = [];
+  const withPlaceholders = text.replace(
+    MATH_PATTERN,
+    (
+      _match,
+      displayDollar?: string,
+      displayBracket?: string,
+      inlineParen?: string,
+      inlineDollar?: string,
+    ) => {
+      const isDisplayMode =
+        displayDollar !== undefined || displayBracket !== undefined;
+      const source =
+        displayDollar ?? displayBracket ?? inlineParen ?? inlineDollar ?? "";
+      renderedMath.push(renderMath(source, isDisplayMode));
+      return `${PLACEHOLDER_PREFIX}${renderedMath.length - 1}@@`;
+    },
+  );
+
+  // 수식이 아닌 본문의 이스케이프된 달러 기호(\$) 복원
+  const sanitized = DOMPurify.sanitize(withPlaceholders.replace(/\\\$/g, "$"), {
+    ALLOWED_TAGS,
+    ALLOWED_ATTR,
+  });
+
+  return sanitized.replace(
+    PLACEHOLDER_PATTERN,
+    (_match, index: string) => renderedMath[Number(index)] ?? "",
+  );
+}
+
+/**
+ * 문제 본문 평문 변환 함수
+ * @description 말줄임 표시나 title 속성처럼 마크업을 쓸 수 없는 곳을 위한 텍스트
+ * @param text HTML/LaTeX가 포함될 수 있는 문제 텍스트
+ * @returns 태그를 제거한 텍스트 (수식은 LaTeX 원문 유지)
+ */
+export function toPlainQuestionText(text: string | null | undefined): string {
+  if (!text) return "";
+
+  return decodeMathEntities(
+    DOMPurify.sanitize(text, { ALLOWED_TAGS: ["br"], ALLOWED_ATTR: [] }),
+  )
+    .replace(/\s+/g, " ")
+    .trim();
+}
@@ -0,0 +1,122 @@
+/**
+ * 학생 프로필 유틸리티
+ * @description 학생이 응시한 시험 답안들로 누적 성적과 단원별 성취도를 집계
+ *
+ * 주요 기능:
+ * - 시험별 점수 기록 생성 (서버 채점 총점 우선, 시험 평균과 비교)
+ * - questionAnswers[].unitInfo 기준 단원별 성취도 집계 (문항 획득 점수 기준, 부분 점수 반영)
+ * - 취약 단원 선별
+ */
+
+import {
+  getAnswerSheetScore,
+  getEarnedScore,
+  isAnswerCorrect,
+} from "@/utils/itemAnalysis";
+import type { ExamAverageScore } from "@/api/statistics";
+import type { ServerStudentAnswerDetail } from "@/types/server-exam";
+import type {
+  StudentExamRecord,
+  StudentProfileSummary,
+  UnitMastery,
+} from "@/types/student-profile";
+
+/** 취약 단원 판정 최소 문항 수 (너무 적게 출제된 단원 제외) */
+export const WEAK_UNIT_MIN_QUESTIONS = 2;
+
+/**
+ * 학생 프로필 요약 생성 함수
+ * @param answerSheets 학생이 응시한 시험 답안 목록
+ * @param examAverages 시험별 평균 점수 통계 (없으면 빈 배열)
+ * @returns 학생 프로필 요약 (응시 기록이 없으면 null)
+ */
+export function buildStudentProfile(
+  answerSheets: ServerStudentAnswerDetail[],
+  examAverages: ExamAverageScore[],
+): StudentProfileSummary | null {
+  if (answerSheets.length === 0) return null;
+
+  const averageByExamId = new Map(
+    examAverages.map((exam) => [exam.examId, exam.averageScore]),
+  );
+  const units = new Map<string, UnitMastery>();
+
+  const records: StudentExamRecord[] = answerSheets.map((sheet) => {
+    let maxScore = 0;
+    let correctCount = 0;
+
+    sheet.questionAnswers.forEach((answer) => {
+      const isCorrect = isAnswerCorrect(answer);
+      maxScore += answer.maxScore;
+      if (isCorrect) correctCount += 1;
+
+      if (!answer.unitInfo) return;
+      const unit = units.get(answer.unitInfo.unitId) ?? {
+        unitId: answer.unitInfo.unitId,
+        unitName: answer.unitInfo.unitName,
+        questionCount: 0,
+        correctCount: 0,
+        earnedScore: 0,
+        maxScore: 0,
+        masteryRate: 0,
+      };
+      unit.questionCount += 1;
+      unit.maxScore += answer.maxScore;
+      unit.earnedScore += getEarnedScore(answer);
+      if (isCorrect) unit.correctCount += 1;
+      units.set(unit.unitId, unit);
+    });
+
+    return {
+      examId: sheet.examInfo.examId,
+      examName: sheet.examInfo.examName,
+      submittedAt: sheet.submittedAt,
+      score: getAnswerSheetScore(sheet),
+      maxScore: sheet.gradingResult?.totalPossibleScore ?? maxScore,
+      correctCount,
+      totalQuestions: sheet.totalQuestions,
+      examAverage: averageByExamId.get(sheet.examInfo.examId) ?? null,
+    };
+  });
+
+  const unitMasteries = Array.from(units.values())
+    .map((unit) => ({
+      ...unit,
+      masteryRate: unit.maxScore > 0 ? unit.earnedScore / unit.maxScore : 0,
+    }))
+    .sort(
+      (a, b) =>
+        a.masteryRate - b.masteryRate || b.questionCount - a.questionCount,
+    );
+
+  const { studentInfo } = answerSheets[0];
+
+  return {
+    studentId: studentInfo.studentId,
+    studentName: studentInfo.studentName,
+    phoneNumber: studentInfo.phoneNumber,
+    records,
+    averageScore:
+      records.reduce((sum, record) => sum + record.score, 0) / records.length,
+    unitMasteries,
+  };
+}
+
+/**
+ * 취약 단원 선별 함수
+ * @description 최소 문항 수 이상 출제된 단원 중 성취도가 낮은 순으로 선택
+ * @param unitMasteries 단원별 성취도 (성취도 낮은 순)
+ * @param count 선택할 단원 수
+ * @returns 취약 단원 목록
+ */
+export function pickWeakestUnits(
+  unitMasteries: UnitMastery[],
+  count = 3,
+): UnitMastery[] {
+  return unitMasteries
+    .filter(
+      (unit) =>
+        unit.questionCount >= WEAK_UNIT_MIN_QUESTIONS && unit.masteryRate < 1,
+    )
+    .slice(0, count);
+}
@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import {
+  normalizeBirthDate,
+  normalizePhoneNumber,
+  parseStudentCsv,
+  validateStudentForm,
+} from "./studentRoster";
+
+describe("normalizePhoneNumber / normalizeBirthDate", () => {
+  it("전화번호를 010-1234-5678 형식으로 정규화", () => {
+    expect(normalizePhoneNumber("01012345678")).toBe("010-1234-5678");
+    expect(normalizePhoneNumber("010 1234 5678")).toBe("010-1234-5678");
+    expect(normalizePhoneNumber(" 0101234 ")).toBe("0101234");
+  });
+
+  it("생년월일을 YYYY-MM-DD 형식으로 정규화", () => {
+    expect(normalizeBirthDate("20080315")).toBe("2008-03-15");
+    expect(normalizeBirthDate("2008.3.5.")).toBe("2008-03-05");
+    expect(normalizeBirthDate("2008/03/15")).toBe("2008-03-15");
+    expect(normalizeBirthDate("3월 15일")).toBe("3월 15일");
+  });
+});
+
+describe("validateStudentForm", () => {
+  const valid = {
+    name: "홍길동",
+    phone: "010-1234-5678",
+    birthDate: "2008-03-15",
+    grade: 1 as const,
+  };
+
+  it("올바른 값은 null", () => {
+    expect(validateStudentForm(valid)).toBeNull();
+  });
+
+  it("형식 오류별 메시지", () => {
+    expect(validateStudentForm({ ...valid, name: " " })).toBe(
+      "이름을 입력해주세요.",
+    );
+    expect(validateStudentForm({ ...valid, phone: "02-123-4567" })).toBe(
+      "전화번호는 010-1234-5678 형식이어야 합니다.",
+    );
+    expect(validateStudentForm({ ...valid, birthDate: "2008-02-30" })).toBe(
+      "생년월일은 YYYY-MM-DD 형식의 올바른 날짜여야 합니다.",
+    );
+  });
+});
+
+describe("parseStudentCsv", () => {
+  it("헤더 열 순서를 따르고 BOM, CRLF, 값 정규화 처리", () => {
+    const csv =
+      "\uFEFF학년,이름,생년월일,연락처\r\n2학년,홍길동,20080315,01012345678\r\n,김영희,2008.4.1,010 2222 3333\r\n";
+
+    expect(parseStudentCsv(csv, 1)).toEqual({
+      rows: [
+        {
+          name: "홍길동",
+          phone: "010-1234-5678",
+          birthDate: "2008-03-15",
+          grade: 2,
+          line: 2,
+        },
+        {
+          name: "김영희",
+          phone: "010-2222-3333",
+          birthDate: "2008-04-01",
+          grade: 1,
+          line: 3,
+        },
+      ],
+      errors: [],
+    });
+  });
+
+  it("헤더가 없으면 이름,전화번호,생년월일,학년 순서로 해석", () => {
+    const { rows } = parseStudentCsv("홍길동,010-1234-5678,2008-03-15,3");
+
+    expect(rows).toEqual([
+      {
+        name: "홍길동",
+        phone: "010-1234-5678",
+        birthDate: "2008-03-15",
+        grade: 3,
+        line: 1,
+      },
+    ]);
+  });
+
+  it("따옴표 필드 안의 쉼표·줄바꿈·이스케이프된 따옴표를 지원하고 레코드 시작 줄 번호를 유지", () => {
+    const csv = [
+      "이름,전화번호,생년월일,학년",
+      '"홍, 길동",010-1234-5678,2008-03-15,1',
+      '"김""영희""',
+      '2반",010-2222-3333,2008-04-01,1',
+      "박철수,010-3333-4444,2008-05-01,4",
+    ].join("\n");
+
+    const { rows, errors } = parseStudentCsv(csv);
+
+    expect(rows.map(({ name, line }) => [name, line])).toEqual([
+      ["홍, 길동", 2],
+      ['김"영희"\n2반', 3],
+    ]);
+    expect(errors).toEqual([
+      { line: 5, message: "학년은 1, 2, 3 중 하나여야 합니다." },
+    ]);
+  });
+
+  it("닫히지 않은 따옴표, 검증 오류, 중복 행을 오류로 보고하고 빈 줄은 건너뜀", () => {
+    const csv = [
+      "홍길동,010-1234-5678,2008-03-15,1",
+      "",
+      "홍길동,01012345678,20080315,1",
+      "김영희,010-123-456,2008-04-01,1",
+      '"박철수,010-3333-4444,2008-05-01,1',
+    ].join("\n");
+
+    const { rows, errors } = parseStudentCsv(csv);
+
+    expect(rows).toHaveLength(1);
+    expect(errors).toEqual([
+      { line: 3, message: "같은 학생이 이미 위에 있습니다." },
+      { line: 4, message: "전화번호는 010-1234-5678 형식이어야 합니다." },
+      {
+        line: 5,
+        message: "닫히지 않은 큰따옴표가 있습니다. 파일 형식을 확인해주세요.",
+      },
+    ]);
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * 학생 명단 유틸리티
+ * @description 학생 정보 입력 정규화/검증과 CSV 일괄 등록 파싱
+ *
+ * 주요 기능:
+ * - 전화번호를 서버 형식(010-1234-5678)으로 정규화
+ * - 생년월일을 YYYY-MM-DD로 정규화 (20080315, 2008.03.15 등 허용)
+ * - 학생 폼 검증
+ * - CSV 파싱 (헤더 자동 인식, 따옴표 필드 지원)
+ */
+
+import type {
+  StudentCsvParseResult,
+  StudentFormValues,
+} from "@/types/student-roster";
+
+/** 학생 이름 최대 길이 (서버 제약) */
+export const MAX_STUDENT_NAME_LENGTH = 50;
+
+/** 서버 전화번호 형식 */
+const PHONE_PATTERN = /^010-\d{4}-\d{4}$/;
+
+/** CSV 헤더별 필드 매핑 */
+const CSV_HEADER_FIELDS: Record<string, keyof StudentFormValues> = {
+  이름: "name",
+  name: "name",
+  전화번호: "phone",
+  연락처: "phone",
+  phone: "phone",
+  생년월일: "birthDate",
+  birthdate: "birthDate",
+  학년: "grade",
+  grade: "grade",
+};
+
+/** 헤더가 없을 때의 기본 열 순서 */
+const DEFAULT_CSV_COLUMNS: Array<keyof StudentFormValues> = [
+  "name",
+  "phone",
+  "birthDate",
+  "grade",
+];
+
+/**
+ * 전화번호 정규화 함수
+ * @param value 입력값 (01012345678, 010 1234 5678 등)
+ * @returns 010-1234-5678 형식 (숫자가 11자리가 아니면 공백만 제거한 원문)
+ */
+export function normalizePhoneNumber(value: string): string {
+  const digits = value.replace(/\D/g, "");
+  if (digits.length !== 11) return value.trim();
+  return `${digits.slice(0, 3)}-${digits.slice(3, 7)}-${digits.slice(7)}`;
+}
+
+/**
+ * 생년월일 정규화 함수
+ * @param value 입력값 (2008-03-15, 20080315, 2008.3.15, 2008/03/15)
+ * @returns YYYY-MM-DD 형식 (해석할 수 없으면 공백만 제거한 원문)
+ */
+export function normalizeBirthDate(value: string): string {
+  const trimmed = value.trim();
+  const compact = trimmed.match(/^(\d{4})(\d{2})(\d{2})$/);
+  const separated = trimmed.match(
+    /^(\d{4})[-./\s]+(\d{1,2})[-./\s]+(\d{1,2})\.?$/,
+  );
+  const parts = compact ?? separated;
+  if (!parts) return trimmed;
+
+  const [, year, month, day] = parts;
+  return `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
+}
+
+/**
+ * 학년 값 해석 함수
+ * @returns 1, 2, 3 또는 null (빈 값), 해석 불가 시 undefined
+ */
+function parseGrade(value: string): 1 | 2 | 3 | null | undefined {
+  const trimmed = value.replace(/학년/g, "").trim();
+  if (trimmed.length === 0) return null;
+  if (trimmed === "1" || trimmed === "2" || trimmed === "3") {
+    return Number(trimmed) as 1 | 2 | 3;
+  }
+  return undefined;
+}
+
+/**
+ * 학생 폼 검증 함수
+ * @param values 정규화된 폼 값
+ * @returns 오류 메시지 (유효하면 null)
+ */
+export function validateStudentForm(values: StudentFormValues): string | null {
+  const name = values.name.trim();
+  if (!name) return "이름을 입력해주세요.";
+  if (name.length > MAX_STUDENT_NAME_LENGTH) {
+    return `이름은 ${MAX_STUDENT_NAME_LENGTH}자 이하로 입력해주세요.`;
+  }
+  if (!PHONE_PATTERN.test(values.phone)) {
+    return "전화번호는 010-1234-5678 형식이어야 합니다.";
+  }
+
+  const [year, month, day] = values.birthDate.split("-").map(Number);
+  const birthDate = new Date(year, month - 1, day);
+  if (
+    !/^\d{4}-\d{2}-\d{2}$/.test(values.birthDate) ||
+    birthDate.getFullYear() !== year ||
+    birthDate.getMonth() !== month - 1 ||
+    birthDate.getDate() !== day
+  ) {
+    return "생년월일은 YYYY-MM-DD 형식의 올바른 날짜여야 합니다.";
+  }
+  if (birthDate.getTime() > Date.now()) {
+    return "생년월일이 오늘 이후일 수 없습니다.";
+  }
+  return null;
+}
+
+/**
+ * CSV 레코드 분리 함수
+ * @description 큰따옴표로 감싼 필드 안의 쉼표·줄바꿈과 이스케이프된 따옴표("") 지원
+ * @returns 레코드별 시작 줄 번호와 셀 목록 (따옴표가 닫히지 않은 레코드는 isUnterminated)
+ */
+function parseCsvRecords(
+  text: string,
+): { line: number; cells: string[]; isUnterminated: boolean }[] {
+  const records: { line: number; cells: string[]; isUnterminated: boolean }[] =
+    [];
+  let cells: string[] = [];
+  let current = "";
+  let isQuoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const pushRecord = (isUnterminated = false) => {
+    cells.push(current);
+    records.push({
+      line: recordLine,
+      cells: cells.map((cell) => cell.trim()),
+      isUnterminated,
+    });
+    cells = [];
+    current = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === "\n") line += 1;
+
+    if (isQuoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        current += '"';
+        i += 1;
+      } else if (char === '"') {
+        isQuoted = false;
+      } else if (char !== "\r") {
+        current += char;
+      }
+    } else if (char === '"') {
+      isQuoted = true;
+    } else if (char === ",") {
+      cells.push(current);
+      current = "";
+    } else if (char === "\n") {
+      pushRecord();
+      recordLine = line;
+    } else if (char !== "\r") {
+      current += char;
+    }
+  }
+  if (isQuoted || current.length > 0 || cells.length > 0) {
+    pushRecord(isQuoted);
+  }
+  return records;
+}
+
+/**
+ * 학생 명단 CSV 파싱 함수
+ * @description 첫 줄에 "이름" 등 헤더가 있으면 열 순서를 따르고, 없으면 이름,전화번호,생년월일,학년 순서로 해석
+ *
+ * @param text CSV 파일 내용 (UTF-8, BOM 허용)
+ * @param defaultGrade 학년 열이 비어 있을 때 사용할 학년
+ * @returns 유효한 행과 오류 행
+ */
+export function parseStudentCsv(
+  text: string,
+  defaultGrade: 1 | 2 | 3 | null = null,
+): StudentCsvParseResult {
+  const result: StudentCsvParseResult = { rows: [], errors: [] };
+  const records = parseCsvRecords(text.replace(/^\uFEFF/, ""));
+
+  let columns = DEFAULT_CSV_COLUMNS;
+  let startIndex = 0;
+  const header = (records[0]?.cells ?? []).map((cell) =>
+    cell.toLowerCase().replace(/\s/g, ""),
+  );
+  if (header.some((cell) => cell in CSV_HEADER_FIELDS)) {
+    columns = header.map((cell) => CSV_HEADER_FIELDS[cell]);
+    startIndex = 1;
+  }
+
+  const seen = new Set<string>();
+
+  for (let index = startIndex; index < records.length; index++) {
+    const { line, cells, isUnterminated } = records[index];
+    if (cells.every((cell) => cell.length === 0)) continue;
+
+    if (isUnterminated) {
+      result.errors.push({
+        line,
+        message: "닫히지 않은 큰따옴표가 있습니다. 파일 형식을 확인해주세요.",
+      });
+      continue;
+    }
+
+    const raw: Partial<Record<keyof StudentFormValues, string>> = {};
+    columns.forEach((field, column) => {
+      if (field) raw[field] = cells[column] ?? "";
+    });
+
+    const grade = parseGrade(raw.grade ?? "");
+    if (grade === undefined) {
+      result.errors.push({
+        line,
+        message: "학년은 1, 2, 3 중 하나여야 합니다.",
+      });
+      continue;
+    }
+
+    const values: StudentFormValues = {
+      name: (raw.name ?? "").trim(),
+      phone: normalizePhoneNumber(raw.phone ?? ""),
+      birthDate: normalizeBirthDate(raw.birthDate ?? ""),
+      grade: grade ?? defaultGrade,
+    };
+
+    const error = validateStudentForm(values);
+    if (error) {
+      result.errors.push({ line, message: error });
+      continue;
+    }
+
+    const key = `${values.name}|${values.phone}|${values.birthDate}`;
+    if (seen.has(key)) {
+      result.errors.push({ line, message: "같은 학생이 이미 위에 있습니다." });
+      continue;
+    }
+    seen.add(key);
+    result.rows.push({ ...values, line });
+  }
+
+  return result;
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { toOriginalOrderRecognizedAnswers } from "./textRecognition";
+import { toExamVersionDocument } from "./examVersions";
+import type { ExamPrintDocumentData } from "@/types/exam-print";
+
+const DOCUMENT: ExamPrintDocumentData = {
+  examId: "exam-1",
+  examName: "중간고사",
+  grade: 1,
+  totalPoints: 30,
+  questions: [1, 2, 3, 4, 5].map((seqNo) => ({
+    questionId: `q${seqNo}`,
+    number: seqNo,
+    originalNumber: seqNo,
+    seqNo,
+    questionType: seqNo === 5 ? "SUBJECTIVE" : "MULTIPLE_CHOICE",
+    questionText: `${seqNo}번 문제`,
+    points: 6,
+    choices:
+      seqNo === 5
+        ? []
+        : ["1", "2", "3", "4"].map((key) => ({
+            key,
+            originalKey: key,
+            text: `${seqNo}-${key}`,
+          })),
+    imageUrls: [],
+    correctAnswer: null,
+  })),
+};
+
+describe("toOriginalOrderRecognizedAnswers", () => {
+  it("B형 인식 답안을 원래 seqNo·선택지 번호로 바꾸고 신뢰도는 유지", () => {
+    const versionQuestions = toExamVersionDocument(DOCUMENT, "B").questions;
+    const answers = versionQuestions.map((question) => ({
+      questionNumber: question.number,
+      recognizedText:
+        question.questionType === "SUBJECTIVE"
+          ? "x = 3"
+          : ` ${question.choices[0].key} `,
+      confidence: question.number / 10,
+    }));
+
+    const converted = toOriginalOrderRecognizedAnswers(answers, DOCUMENT, "B");
+
+    expect(converted.map((answer) => answer.questionNumber)).toEqual([
+      1, 2, 3, 4, 5,
+    ]);
+    converted.forEach((answer) => {
+      const versionQuestion = versionQuestions.find(
+        (question) => question.seqNo === answer.questionNumber,
+      );
+      expect(answer.confidence).toBe((versionQuestion?.number ?? 0) / 10);
+      expect(answer.recognizedText).toBe(
+        versionQuestion?.questionType === "SUBJECTIVE"
+          ? "x = 3"
+          : versionQuestion?.choices[0].originalKey,
+      );
+    });
+  });
+
+  it("A형은 변환하지 않음", () => {
+    const answers = [
+      { questionNumber: 1, recognizedText: "2", confidence: 0.9 },
+    ];
+
+    expect(toOriginalOrderRecognizedAnswers(answers, DOCUMENT, "A")).toBe(
+      answers,
+    );
+  });
+});
@@ -0,0 +1,119 @@
+import {
+  MAX_RECOGNITION_FILE_SIZE,
+  SUPPORTED_RECOGNITION_FILE_TYPES,
+} from "@/api/text-recognition";
+import type { RecognizedAnswer } from "@/api/text-recognition";
+import type {
+  ExamPrintDocumentData,
+  ExamVersionLabel,
+} from "@/types/exam-print";
+import type {
+  AnswerSheetRecognitionJob,
+  RecognitionJobPhase,
+} from "@/types/text-recognition";
+import {
+  toExamVersionDocument,
+  toOriginalOrderAnswers,
+} from "@/utils/examVersions";
+
+/**
+ * 인식 이미지 파일 검증 함수
+ * @description 서버 제한(JPEG/PNG/WEBP/GIF, 최대 20MB)을 업로드 전에 확인
+ * @param file 검증할 파일
+ * @returns 거부 사유 (통과 시 null)
+ */
+export function validateRecognitionFile(file: File): string | null {
+  if (
+    !(SUPPORTED_RECOGNITION_FILE_TYPES as readonly string[]).includes(file.type)
+  ) {
+    return "JPEG, PNG, WEBP, GIF 이미지만 업로드할 수 있습니다.";
+  }
+  if (file.size > MAX_RECOGNITION_FILE_SIZE) {
+    return `파일 크기는 ${MAX_RECOGNITION_FILE_SIZE / 1024 / 1024}MB 이하여야 합니다.`;
+  }
+  if (file.size === 0) {
+    return "빈 파일은 업로드할 수 없습니다.";
+  }
+  return null;
+}
+
+/**
+ * 진행 중 단계 여부 확인 함수
+ * @description 동시 실행 한도를 차지하는 단계 (업로드 ~ 인식 중)
+ */
+export function isActiveRecognitionPhase(phase: RecognitionJobPhase): boolean {
+  return (
+    phase === "UPLOADING" || phase === "SUBMITTED" || phase === "PROCESSING"
+  );
+}
+
+/**
+ * 답안지 인식 작업 진행률 계산 함수
+ * @description 업로드(0~40%) → 대기(50%) → 인식 중(75%) → 완료/실패(100%)
+ */
+export function getRecognitionJobProgress(
+  job: AnswerSheetRecognitionJob,
+): number {
+  switch (job.phase) {
+    case "QUEUED":
+    case "CANCELLED":
+      return 0;
+    case "UPLOADING":
+      return Math.round(job.uploadProgress * 0.4);
+    case "SUBMITTED":
+      return 50;
+    case "PROCESSING":
+      return 75;
+    default:
+      return 100;
+  }
+}
+
+/**
+ * 인식 답안을 원래 문항 순서로 변환하는 함수
+ * @description 버전 답안지에서 인식한 번호·선택지를 원래 문항 순서(seqNo)와 원래 선택지 번호로 바꿈
+ * (A형은 원래 순서 그대로이므로 변환하지 않음)
+ * @param answers 답안지 버전의 문항 번호 기준 인식 답안
+ * @param data 원래 순서의 인쇄 문서 데이터
+ * @param version 답안지 버전
+ * @returns seqNo 순으로 정렬된 인식 답안 (신뢰도·좌표는 유지)
+ */
+export function toOriginalOrderRecognizedAnswers(
+  answers: RecognizedAnswer[],
+  data: ExamPrintDocumentData,
+  version: ExamVersionLabel,
+): RecognizedAnswer[] {
+  if (version === "A") return answers;
+
+  // 버전 인쇄 번호 → 원래 문항 순서 (버전에 없는 번호는 버림)
+  const seqNoByNumber = new Map(
+    toExamVersionDocument(data, version).questions.map((question) => [
+      question.number,
+      question.seqNo,
+    ]),
+  );
+  const originalAnswers = toOriginalOrderAnswers(
+    data,
+    version,
+    Object.fromEntries(
+      answers.map((answer) => [
+        answer.questionNumber,
+        answer.recognizedText.trim(),
+      ]),
+    ),
+  );
+
+  return answers
+    .flatMap((answer) => {
+      const seqNo = seqNoByNumber.get(answer.questionNumber);
+      if (seqNo === undefined) return [];
+      return [
+        {
+          ...answer,
+          questionNumber: seqNo,
+          recognizedText: originalAnswers[seqNo],
+        },
+      ];
+    })
+    .sort((a, b) => a.questionNumber - b.questionNumber);
+}